@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { BrowserRouter as Router } from 'react-router-dom';
-import { Toaster } from 'sonner';
+import { Toaster, toast } from 'sonner';
 import { ThemeProvider } from 'next-themes';
 
 // UI Components
@@ -9,53 +9,157 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 
 // Icons
-import { Heart, Droplets, Settings as Lungs, Brain, Bone, Activity, FileText } from 'lucide-react';
-
-interface PatientData {
-  name: string;
-  age: number;
-  sex: 'male' | 'female';
-  weight?: number;
-  height?: number;
-}
+import { Heart, Droplets, Settings as Lungs, Brain, Bone, Activity, FileText, FileJson, Loader2, AlertTriangle } from 'lucide-react';
 
-interface AnalysisResult {
-  overallRisk: number;
-  recommendations: string[];
-  cardiovascular?: { riskScore: number };
-  hepatic?: { riskScore: number };
-  renal?: { riskScore: number };
-}
+// Core
+import { useAppStore } from './core/StateManager';
+import { getAnalysisService, PatientFormInput } from './core/services/AnalysisService';
+import { validateHealthData, groupIssuesByField, ValidationIssue } from './core/validation/HealthDataValidator';
+import { PATIENT_FORM_FIELDS, normalizeHealthData } from './core/data/HealthDataNormalizer';
+import { getPreferredUnit, getUnitLabel, formatQuantity, QuantityInput } from './core/units/UnitConverter';
+import { CanonicalField } from './core/types/healthData';
+import { formatRiskScore } from './core/uncertainty/MonteCarloEstimator';
+import WhatIfPanel from './components/analysis/WhatIfPanel';
+import TrendPanel from './components/analysis/TrendPanel';
+import ProjectionPanel from './components/analysis/ProjectionPanel';
+import ContributionWaterfall from './components/analysis/ContributionWaterfall';
+import ShadowModulesPanel from './components/admin/ShadowModulesPanel';
+import { exportAnalysisReportToPDF, exportAnalysisBundle } from './utils/exportUtils';
+import { ORGAN_MODELS, toModelRiskLevel } from './components/organs/organModels';
+
+type PatientData = PatientFormInput;
 
 function App() {
   const [currentView, setCurrentView] = useState<'form' | 'analysis'>('form');
   const [gdprAccepted, setGdprAccepted] = useState(false);
   const [patientData, setPatientData] = useState<PatientData | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [selectedOrgan, setSelectedOrgan] = useState<string>('overview');
+  const [formIssues, setFormIssues] = useState<Record<string, ValidationIssue[]>>({});
+  const latestSubmission = useRef(0);
+
+  const analysisResults = useAppStore(state => state.analysisResult);
+  const riskProjection = useAppStore(state => state.riskProjection);
+  // The audit bundle of the displayed results, kept with their history entry
+  const analysisBundle = useAppStore(state => {
+    const latest = state.analysisHistory[0];
+    return latest && latest.results === state.analysisResult ? latest.bundle : undefined;
+  });
+  const hasShadowModules = useAppStore(state => state.hasShadowModules);
+  const analysisProgress = useAppStore(state => state.analysisProgress);
+  const isAnalyzing = useAppStore(state => state.isAnalyzing);
+  const setAnalysisResult = useAppStore(state => state.setAnalysisResult);
+  const preferredUnits = useAppStore(state => state.settings.preferredUnits);
+  const uncertaintyIntervals = useAppStore(state => state.settings.uncertaintyIntervals);
+  const updateSettings = useAppStore(state => state.updateSettings);
+
+  const unitLabel = (field: CanonicalField) => getUnitLabel(getPreferredUnit(field, preferredUnits) ?? '');
+
+  // Form values are entered in the user's preferred unit and tagged with it
+  const readQuantity = (formData: FormData, name: string, field: CanonicalField): QuantityInput | undefined => {
+    const value = parseFloat(formData.get(name) as string);
+    const unit = getPreferredUnit(field, preferredUnits);
+    if (!value) return undefined;
+    return unit ? { value, unit } : value;
+  };
+
+  const measurementSummary = useMemo(() => {
+    if (!patientData) return [];
+
+    const canonical = normalizeHealthData(patientData);
+    const fields: Array<[CanonicalField, string]> = [
+      ['weight', 'Weight'],
+      ['height', 'Height'],
+      ['totalCholesterol', 'Total cholesterol'],
+      ['hdlCholesterol', 'HDL'],
+      ['glucose', 'Glucose'],
+      ['creatinine', 'Creatinine']
+    ];
+
+    return fields
+      .filter(([field]) => typeof canonical[field] === 'number')
+      .map(([field, label]) => `${label}: ${formatQuantity(field, canonical[field] as number, preferredUnits)}`);
+  }, [patientData, preferredUnits]);
+
+  // While the analysis runs, organs are shown as their modules finish
+  const displayedResults = analysisResults ?? analysisProgress?.results ?? null;
+
+  const analysisSummary = useMemo(() => {
+    if (!displayedResults) return null;
+
+    const validResults = displayedResults.filter(r => !r.error);
+    const failedModules = displayedResults.filter(r => r.error).map(r => r.moduleId);
+    const overallRisk = validResults.length > 0
+      ? Math.round(validResults.reduce((sum, r) => sum + r.riskScore, 0) / validResults.length)
+      : 0;
+    const recommendations = Array.from(new Set(
+      validResults
+        .flatMap(r => r.recommendations)
+        .filter(rec => rec.priority === 'urgent' || rec.priority === 'high' || rec.category === 'medical')
+        .map(rec => rec.description)
+    )).slice(0, 8);
+
+    return {
+      overallRisk,
+      recommendations,
+      organsAnalyzed: validResults.length,
+      failedModules,
+      isPartial: failedModules.length > 0 && validResults.length > 0,
+      isProvisional: !analysisResults
+    };
+  }, [analysisResults, displayedResults]);
 
   const handleGDPRAccept = () => {
     setGdprAccepted(true);
   };
 
-  const handlePatientSubmit = (data: PatientData) => {
+  const handlePatientSubmit = async (data: PatientData) => {
+    // Validate before leaving the form so issues can be shown next to their inputs
+    const report = validateHealthData(data, { unitSystem: preferredUnits });
+    const issuesByFormField: Record<string, ValidationIssue[]> = {};
+    for (const [field, issues] of Object.entries(groupIssuesByField(report))) {
+      const formField = PATIENT_FORM_FIELDS[field as keyof typeof PATIENT_FORM_FIELDS] ?? field;
+      issuesByFormField[formField] = [...(issuesByFormField[formField] || []), ...issues];
+    }
+    setFormIssues(issuesByFormField);
+
+    if (!report.valid) return;
+
     setPatientData(data);
     setCurrentView('analysis');
-    
-    // Mock analysis result
-    const mockResult: AnalysisResult = {
-      overallRisk: 35,
-      recommendations: [
-        'Regular cardiovascular monitoring recommended',
-        'Maintain healthy diet and exercise routine',
-        'Annual health screenings advised'
-      ],
-      cardiovascular: { riskScore: 30 },
-      hepatic: { riskScore: 25 },
-      renal: { riskScore: 20 }
-    };
-    
-    setAnalysisResult(mockResult);
+    const submission = ++latestSubmission.current;
+    const outcome = await getAnalysisService().analyzePatient(data);
+
+    // A newer submission cancelled this analysis and reports for itself
+    if (outcome || submission !== latestSubmission.current) return;
+
+    // The service recorded why the analysis failed
+    const [error] = useAppStore.getState().errors;
+    toast.error(error?.message ?? 'The analysis could not be completed');
+    setCurrentView('form');
+  };
+
+  const renderFieldIssues = (field: string) => {
+    const issues = formIssues[field];
+    if (!issues) return null;
+
+    return Array.from(new Set(issues)).map(issue => (
+      <p
+        key={`${issue.code}_${field}`}
+        className={`mt-1 text-sm ${issue.severity === 'error' ? 'text-red-500' : 'text-yellow-600'}`}
+      >
+        {issue.message}
+      </p>
+    ));
+  };
+
+  const handleExport = async () => {
+    if (!patientData || !analysisResults) return;
+
+    try {
+      await exportAnalysisReportToPDF(patientData, analysisResults, preferredUnits, riskProjection ?? undefined);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
   };
 
   const handleReset = () => {
@@ -136,15 +240,45 @@ function App() {
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
+                    <div className="flex justify-end items-center gap-2 mb-4 text-sm">
+                      <label htmlFor="preferredUnits" className="text-gray-600 dark:text-gray-300">Units</label>
+                      <select
+                        id="preferredUnits"
+                        value={preferredUnits}
+                        onChange={(e) => updateSettings({ preferredUnits: e.target.value as typeof preferredUnits })}
+                        className="p-1 border rounded-md"
+                      >
+                        <option value="metric">Metric / SI (kg, cm, mmol/L)</option>
+                        <option value="imperial">Imperial / US (lb, in, mg/dL)</option>
+                      </select>
+                      <label className="flex items-center gap-1 ml-4 text-gray-600 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={uncertaintyIntervals}
+                          onChange={(e) => updateSettings({ uncertaintyIntervals: e.target.checked })}
+                        />
+                        Risk intervals
+                      </label>
+                    </div>
                     <form onSubmit={(e) => {
                       e.preventDefault();
                       const formData = new FormData(e.currentTarget);
                       const data: PatientData = {
+                        patientId: formData.get('patientId') as string,
                         name: formData.get('name') as string,
+                        measuredAt: formData.get('measuredAt') ? Date.parse(formData.get('measuredAt') as string) : undefined,
                         age: parseInt(formData.get('age') as string),
                         sex: formData.get('sex') as 'male' | 'female',
-                        weight: parseFloat(formData.get('weight') as string) || undefined,
-                        height: parseFloat(formData.get('height') as string) || undefined,
+                        weight: readQuantity(formData, 'weight', 'weight'),
+                        height: readQuantity(formData, 'height', 'height'),
+                        systolicBP: parseFloat(formData.get('systolicBP') as string) || undefined,
+                        diastolicBP: parseFloat(formData.get('diastolicBP') as string) || undefined,
+                        totalCholesterol: readQuantity(formData, 'totalCholesterol', 'totalCholesterol'),
+                        hdlCholesterol: readQuantity(formData, 'hdlCholesterol', 'hdlCholesterol'),
+                        glucose: readQuantity(formData, 'glucose', 'glucose'),
+                        creatinine: readQuantity(formData, 'creatinine', 'creatinine'),
+                        smokingStatus: (formData.get('smokingStatus') as PatientData['smokingStatus']) || undefined,
+                        activityLevel: (formData.get('activityLevel') as PatientData['activityLevel']) || undefined,
                       };
                       handlePatientSubmit(data);
                     }} className="space-y-4">
@@ -159,6 +293,27 @@ function App() {
                             placeholder="Enter your name"
                           />
                         </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Patient ID</label>
+                          <input 
+                            name="patientId" 
+                            type="text" 
+                            required 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="e.g. medical record number"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">Visits with the same ID form the patient's timeline</p>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Measurement date</label>
+                          <input 
+                            name="measuredAt" 
+                            type="date" 
+                            max={new Date().toISOString().slice(0, 10)} 
+                            className="w-full p-2 border rounded-md" 
+                          />
+                          <p className="mt-1 text-xs text-gray-500">Leave empty for today; enter earlier visits to build trends</p>
+                        </div>
                         <div>
                           <label className="block text-sm font-medium mb-2">Age</label>
                           <input 
@@ -170,6 +325,7 @@ function App() {
                             className="w-full p-2 border rounded-md" 
                             placeholder="Enter your age"
                           />
+                          {renderFieldIssues('age')}
                         </div>
                         <div>
                           <label className="block text-sm font-medium mb-2">Sex</label>
@@ -178,19 +334,119 @@ function App() {
                             <option value="male">Male</option>
                             <option value="female">Female</option>
                           </select>
+                          {renderFieldIssues('sex')}
                         </div>
                         <div>
-                          <label className="block text-sm font-medium mb-2">Weight (kg)</label>
+                          <label className="block text-sm font-medium mb-2">Weight ({unitLabel('weight')})</label>
                           <input 
                             name="weight" 
                             type="number" 
-                            step="0.1" 
+                            step="any" 
                             className="w-full p-2 border rounded-md" 
                             placeholder="Enter weight"
                           />
+                          {renderFieldIssues('weight')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Height ({unitLabel('height')})</label>
+                          <input 
+                            name="height" 
+                            type="number" 
+                            step="any" 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="Enter height"
+                          />
+                          {renderFieldIssues('height')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Systolic BP (mmHg)</label>
+                          <input 
+                            name="systolicBP" 
+                            type="number" 
+                            step="1" 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="Optional"
+                          />
+                          {renderFieldIssues('systolicBP')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Diastolic BP (mmHg)</label>
+                          <input 
+                            name="diastolicBP" 
+                            type="number" 
+                            step="1" 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="Optional"
+                          />
+                          {renderFieldIssues('diastolicBP')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Total Cholesterol ({unitLabel('totalCholesterol')})</label>
+                          <input 
+                            name="totalCholesterol" 
+                            type="number" 
+                            step="any" 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="Optional"
+                          />
+                          {renderFieldIssues('totalCholesterol')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">HDL Cholesterol ({unitLabel('hdlCholesterol')})</label>
+                          <input 
+                            name="hdlCholesterol" 
+                            type="number" 
+                            step="any" 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="Optional"
+                          />
+                          {renderFieldIssues('hdlCholesterol')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Fasting Glucose ({unitLabel('glucose')})</label>
+                          <input 
+                            name="glucose" 
+                            type="number" 
+                            step="any" 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="Optional"
+                          />
+                          {renderFieldIssues('glucose')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Creatinine ({unitLabel('creatinine')})</label>
+                          <input 
+                            name="creatinine" 
+                            type="number" 
+                            step="any" 
+                            className="w-full p-2 border rounded-md" 
+                            placeholder="Optional"
+                          />
+                          {renderFieldIssues('creatinine')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Smoking</label>
+                          <select name="smokingStatus" className="w-full p-2 border rounded-md">
+                            <option value="">Not specified</option>
+                            <option value="never">Never</option>
+                            <option value="former">Former</option>
+                            <option value="current">Current</option>
+                          </select>
+                          {renderFieldIssues('smokingStatus')}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Physical Activity</label>
+                          <select name="activityLevel" className="w-full p-2 border rounded-md">
+                            <option value="">Not specified</option>
+                            <option value="sedentary">Sedentary</option>
+                            <option value="light">Light</option>
+                            <option value="moderate">Moderate</option>
+                            <option value="active">Active</option>
+                          </select>
+                          {renderFieldIssues('activityLevel')}
                         </div>
                       </div>
-                      <Button type="submit" className="w-full">
+                      <Button type="submit" className="w-full" disabled={isAnalyzing}>
                         Start Health Analysis
                       </Button>
                     </form>
@@ -212,20 +468,50 @@ function App() {
                         Patient: {patientData.name} | Age: {patientData.age} | Sex: {patientData.sex}
                       </p>
                     )}
+                    {measurementSummary.length > 0 && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {measurementSummary.join(' | ')}
+                      </p>
+                    )}
                   </div>
                   <div className="flex gap-2">
-                    <Button onClick={() => alert('Export functionality coming soon!')} variant="outline">
+                    <Button onClick={handleExport} variant="outline" disabled={!analysisResults}>
                       <FileText className="w-4 h-4 mr-2" />
                       Export Report
                     </Button>
+                    <Button onClick={() => analysisBundle && exportAnalysisBundle(analysisBundle)} variant="outline" disabled={!analysisBundle}>
+                      <FileJson className="w-4 h-4 mr-2" />
+                      Export Audit Bundle
+                    </Button>
                     <Button onClick={handleReset} variant="outline">
                       New Analysis
                     </Button>
                   </div>
                 </div>
 
+                {isAnalyzing && (
+                  <Card>
+                    <CardContent className="flex items-center gap-3 p-6">
+                      <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+                      <span>
+                        Running multi-organ analysis...
+                        {analysisProgress && ` ${analysisProgress.completed} of ${analysisProgress.total} organs analyzed`}
+                      </span>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {analysisSummary?.isPartial && !analysisSummary.isProvisional && (
+                  <div className="flex items-center gap-2 p-3 rounded-md bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>
+                      Partial results: {analysisSummary.failedModules.join(', ')} could not be analyzed.
+                    </span>
+                  </div>
+                )}
+
                 {/* Overall Risk Summary */}
-                {analysisResult && (
+                {analysisSummary && (
                   <Card>
                     <CardHeader>
                       <CardTitle className="flex items-center gap-2">
@@ -237,23 +523,25 @@ function App() {
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div className="text-center">
                           <div className={`text-4xl font-bold ${
-                            analysisResult.overallRisk >= 70 ? 'text-red-500' :
-                            analysisResult.overallRisk >= 40 ? 'text-yellow-500' :
+                            analysisSummary.overallRisk >= 70 ? 'text-red-500' :
+                            analysisSummary.overallRisk >= 40 ? 'text-yellow-500' :
                             'text-green-500'
                           }`}>
-                            {analysisResult.overallRisk}%
+                            {analysisSummary.overallRisk}%
                           </div>
-                          <p className="text-sm text-gray-600 dark:text-gray-300">Overall Risk Score</p>
+                          <p className="text-sm text-gray-600 dark:text-gray-300">
+                            {analysisSummary.isProvisional ? 'Provisional Risk Score' : 'Overall Risk Score'}
+                          </p>
                         </div>
                         <div className="text-center">
                           <div className="text-2xl font-semibold text-blue-600">
-                            {analysisResult.recommendations.length}
+                            {analysisSummary.recommendations.length}
                           </div>
                           <p className="text-sm text-gray-600 dark:text-gray-300">Recommendations</p>
                         </div>
                         <div className="text-center">
                           <div className="text-2xl font-semibold text-purple-600">
-                            6
+                            {analysisSummary.organsAnalyzed}
                           </div>
                           <p className="text-sm text-gray-600 dark:text-gray-300">Organs Analyzed</p>
                         </div>
@@ -267,12 +555,23 @@ function App() {
                   <CardContent className="p-6">
                     <Tabs value={selectedOrgan} onValueChange={setSelectedOrgan}>
                       <TabsList className="grid w-full grid-cols-7">
-                        {organTabs.map((tab) => (
-                          <TabsTrigger key={tab.id} value={tab.id} className="flex items-center gap-1">
-                            <tab.icon className="w-4 h-4" />
-                            <span className="hidden sm:inline">{tab.label}</span>
-                          </TabsTrigger>
-                        ))}
+                        {organTabs.map((tab) => {
+                          const organResult = displayedResults?.find(r => r.moduleId === tab.id);
+                          const isPending = isAnalyzing && tab.id !== 'overview' && !organResult;
+
+                          return (
+                            <TabsTrigger
+                              key={tab.id}
+                              value={tab.id}
+                              className={`flex items-center gap-1 transition-opacity ${isPending ? 'opacity-50' : ''}`}
+                            >
+                              {isPending
+                                ? <Loader2 className="w-4 h-4 animate-spin" />
+                                : <tab.icon className="w-4 h-4" />}
+                              <span className="hidden sm:inline">{tab.label}</span>
+                            </TabsTrigger>
+                          );
+                        })}
                       </TabsList>
 
                       <TabsContent value="overview" className="mt-6">
@@ -280,11 +579,13 @@ function App() {
                           <Activity className="w-16 h-16 mx-auto text-blue-500 mb-4" />
                           <h3 className="text-xl font-semibold mb-2">Health Overview</h3>
                           <p className="text-gray-600 dark:text-gray-300">
-                            Comprehensive analysis of all organ systems completed.
+                            {isAnalyzing
+                              ? 'Analyzing all organ systems...'
+                              : 'Comprehensive analysis of all organ systems completed.'}
                           </p>
-                          {analysisResult && (
+                          {analysisSummary && (
                             <div className="mt-4 space-y-2">
-                              {analysisResult.recommendations.map((rec, index) => (
+                              {analysisSummary.recommendations.map((rec, index) => (
                                 <div key={index} className="text-left p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md">
                                   {rec}
                                 </div>
@@ -294,27 +595,144 @@ function App() {
                         </div>
                       </TabsContent>
 
-                      {organTabs.slice(1).map((tab) => (
-                        <TabsContent key={tab.id} value={tab.id} className="mt-6">
-                          <div className="text-center py-8">
-                            <tab.icon className="w-16 h-16 mx-auto text-blue-500 mb-4" />
-                            <h3 className="text-xl font-semibold mb-2">{tab.label} Analysis</h3>
-                            <p className="text-gray-600 dark:text-gray-300">
-                              Detailed {tab.label.toLowerCase()} health assessment and recommendations.
-                            </p>
-                            {analysisResult && analysisResult[tab.id as keyof AnalysisResult] && (
-                              <div className="mt-4">
-                                <div className="text-2xl font-bold text-green-500">
-                                  Risk Score: {(analysisResult[tab.id as keyof AnalysisResult] as any)?.riskScore || 'N/A'}%
+                      {organTabs.slice(1).map((tab) => {
+                        const organResult = displayedResults?.find(r => r.moduleId === tab.id);
+                        const organModel = ORGAN_MODELS[tab.id];
+
+                        return (
+                          <TabsContent key={tab.id} value={tab.id} className="mt-6">
+                            <div className="text-center py-8">
+                              {organModel && organResult && !organResult.error ? (
+                                <div className="mb-4">
+                                  <organModel.Model riskLevel={toModelRiskLevel(organResult.riskLevel)} isHighlighted={false} />
                                 </div>
-                              </div>
-                            )}
-                          </div>
-                        </TabsContent>
-                      ))}
+                              ) : (
+                                <tab.icon className="w-16 h-16 mx-auto text-blue-500 mb-4" />
+                              )}
+                              <h3 className="text-xl font-semibold mb-2">{tab.label} Analysis</h3>
+                              <p className="text-gray-600 dark:text-gray-300">
+                                Detailed {tab.label.toLowerCase()} health assessment and recommendations.
+                              </p>
+                              {isAnalyzing && !organResult && (
+                                <div className="mt-4 flex items-center justify-center gap-2 text-gray-500">
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                  Analyzing...
+                                </div>
+                              )}
+                              {organResult?.error && (
+                                <div className="mt-4 p-3 rounded-md bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300">
+                                  Analysis unavailable: {organResult.error}
+                                </div>
+                              )}
+                              {organResult && !organResult.error && (
+                                <div className="mt-4 space-y-4">
+                                  <div className={`text-2xl font-bold ${
+                                    organResult.riskScore >= 60 ? 'text-red-500' :
+                                    organResult.riskScore >= 30 ? 'text-yellow-500' :
+                                    'text-green-500'
+                                  }`}>
+                                    Risk Score: {formatRiskScore(organResult.riskScore, organResult.uncertainty)}/100 ({organResult.riskLevel})
+                                  </div>
+                                  <div className="text-sm text-gray-600 dark:text-gray-300">
+                                    Confidence: {Math.round(organResult.confidence * 100)}%
+                                    {organResult.dataCompleteness && (
+                                      <> | Data completeness: {Math.round(organResult.dataCompleteness.score * 100)}%</>
+                                    )}
+                                  </div>
+                                  {organResult.dataCompleteness && organResult.dataCompleteness.missingEssential.length > 0 && (
+                                    <div className="flex items-center justify-center gap-2 text-sm text-yellow-700 dark:text-yellow-300">
+                                      <AlertTriangle className="w-4 h-4" />
+                                      <span>
+                                        Incomplete estimate: {organResult.dataCompleteness.missingEssential.join(', ')} not provided
+                                      </span>
+                                    </div>
+                                  )}
+                                  {organResult.dataCompleteness && organResult.dataCompleteness.defaulted.length > 0 && (
+                                    <div className="text-sm text-yellow-700 dark:text-yellow-300">
+                                      {organResult.dataCompleteness.defaulted.map(input => (
+                                        <p key={input.field}>{input.assumption}</p>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {organResult.dataCompleteness && organResult.dataCompleteness.suggestedTests.length > 0 && (
+                                    <div className="text-left p-3 rounded-md border border-dashed">
+                                      <p className="text-sm font-medium mb-1">Tests that would most improve this estimate</p>
+                                      <ul className="text-sm text-gray-600 dark:text-gray-300 list-disc list-inside">
+                                        {organResult.dataCompleteness.suggestedTests.slice(0, 3).map(suggestion => (
+                                          <li key={suggestion.test}>
+                                            {suggestion.test} (+{Math.round(suggestion.confidenceGain * 100)}% confidence)
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    </div>
+                                  )}
+                                  {organResult.riskFactors.length > 0 && (
+                                    <div className="flex flex-wrap justify-center gap-2">
+                                      {organResult.riskFactors.map(factor => (
+                                        <span key={factor.id} className="px-2 py-1 text-sm rounded-full bg-gray-100 dark:bg-gray-800">
+                                          {factor.name}
+                                        </span>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {organResult.contributions && (
+                                    <ContributionWaterfall
+                                      contributions={organResult.contributions}
+                                      riskScore={organResult.riskScore}
+                                    />
+                                  )}
+                                  <div className="space-y-2">
+                                    {organResult.recommendations.map(rec => (
+                                      <div key={rec.id} className="text-left p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md">
+                                        {rec.description}
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+                          </TabsContent>
+                        );
+                      })}
                     </Tabs>
                   </CardContent>
                 </Card>
+
+                {/* Longitudinal Trends */}
+                {patientData?.patientId && !isAnalyzing && (
+                  <Card>
+                    <CardContent className="p-6">
+                      <TrendPanel patientId={patientData.patientId} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Risk Projection */}
+                {patientData && analysisResults && !isAnalyzing && (
+                  <Card>
+                    <CardContent className="p-6">
+                      <ProjectionPanel patient={patientData} baselineResults={analysisResults} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* What-if Scenarios */}
+                {patientData && analysisResults && !isAnalyzing && (
+                  <Card>
+                    <CardContent className="p-6">
+                      <WhatIfPanel baseline={patientData} baselineResults={analysisResults} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Shadow Module Versions (admin) */}
+                {hasShadowModules && (
+                  <Card>
+                    <CardContent className="p-6">
+                      <ShadowModulesPanel />
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             )}
           </main>
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowUpCircle, RotateCcw } from 'lucide-react';
+import { getAnalysisService } from '../../core/services/AnalysisService';
+import { ModuleVersionInfo } from '../../core/engine/DigitalTwinEngine';
+import { ShadowDivergenceStats } from '../../core/engine/ShadowComparison';
+
+// Engine events after which the versions or divergence statistics change
+const REFRESH_EVENTS = ['shadowComparison', 'shadowError', 'modulePromoted', 'moduleRegistered', 'moduleUnregistered'];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Admin view of the shadow module versions running alongside the primary
+ * versions, with how far their results diverge. Renders nothing while no
+ * shadow versions are registered.
+ */
+const ShadowModulesPanel: React.FC = () => {
+  const engine = getAnalysisService().getEngine();
+  const [versions, setVersions] = useState<ModuleVersionInfo[]>(() => engine.getModuleVersions());
+  const [divergence, setDivergence] = useState<ShadowDivergenceStats[]>(() => engine.getShadowDivergence());
+  const [promoting, setPromoting] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      setVersions(engine.getModuleVersions());
+      setDivergence(engine.getShadowDivergence());
+    };
+
+    refresh();
+    REFRESH_EVENTS.forEach(event => engine.on(event, refresh));
+    return () => {
+      REFRESH_EVENTS.forEach(event => engine.off(event, refresh));
+    };
+  }, [engine]);
+
+  const shadows = versions.filter(v => v.role === 'shadow');
+  if (shadows.length === 0) return null;
+
+  const primaryVersion = (moduleId: string) => versions.find(v => v.moduleId === moduleId && v.role === 'primary')?.version;
+
+  const promote = async (shadow: ModuleVersionInfo) => {
+    setPromoting(`${shadow.moduleId}@${shadow.version}`);
+    try {
+      await engine.promoteModuleVersion(shadow.moduleId, shadow.version);
+    } finally {
+      setPromoting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">Shadow Module Versions</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Candidate scoring versions running alongside the live versions. Their results are compared, never shown.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            engine.resetShadowDivergence();
+            setDivergence(engine.getShadowDivergence());
+          }}
+          className="flex items-center gap-1 px-3 py-1 text-sm rounded-md border"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset statistics
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-300 border-b">
+              <th className="py-2 pr-4">Module</th>
+              <th className="py-2 pr-4">Primary</th>
+              <th className="py-2 pr-4">Shadow</th>
+              <th className="py-2 pr-4 text-right">Comparisons</th>
+              <th className="py-2 pr-4 text-right">Mean |Δ score|</th>
+              <th className="py-2 pr-4 text-right">Max |Δ score|</th>
+              <th className="py-2 pr-4 text-right">Risk level disagreement</th>
+              <th className="py-2 pr-4 text-right">Shadow errors</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {shadows.map(shadow => {
+              const primary = primaryVersion(shadow.moduleId);
+              const stats = divergence.find(d =>
+                d.moduleId === shadow.moduleId && d.shadowVersion === shadow.version && d.primaryVersion === primary);
+              const key = `${shadow.moduleId}@${shadow.version}`;
+
+              return (
+                <tr key={key} className="border-b last:border-0">
+                  <td className="py-2 pr-4 capitalize">{shadow.moduleId}</td>
+                  <td className="py-2 pr-4">{primary}</td>
+                  <td className="py-2 pr-4">{shadow.version}</td>
+                  <td className="py-2 pr-4 text-right">{stats?.comparisons ?? 0}</td>
+                  <td className="py-2 pr-4 text-right">{stats ? round(stats.meanAbsoluteDelta) : '—'}</td>
+                  <td className="py-2 pr-4 text-right">{stats ? round(stats.maxAbsoluteDelta) : '—'}</td>
+                  <td className={`py-2 pr-4 text-right ${stats && stats.disagreementRate > 0.1 ? 'text-red-600' : ''}`}>
+                    {stats ? `${round(stats.disagreementRate * 100)}%` : '—'}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{stats?.shadowErrors ?? 0}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      disabled={promoting !== null}
+                      onClick={() => promote(shadow)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded-md border disabled:opacity-50"
+                    >
+                      <ArrowUpCircle className="w-3 h-3" />
+                      Promote
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ShadowModulesPanel;
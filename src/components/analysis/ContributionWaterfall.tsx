@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { RiskContribution } from '../../core/types/core';
+
+interface ContributionWaterfallProps {
+  contributions: RiskContribution[];
+  riskScore: number;
+}
+
+interface WaterfallStep {
+  label: string;
+  base: number; // Invisible offset the visible bar is stacked on
+  value: number;
+  points: number;
+  contribution?: RiskContribution; // Absent for the final score bar
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const formatInput = (value: number | string | boolean) =>
+  typeof value === 'number' ? round(value) : String(value);
+
+/**
+ * Each bar starts where the previous one ended, so reading from left to
+ * right shows how the rules built up the final score
+ */
+function toSteps(contributions: RiskContribution[], riskScore: number): WaterfallStep[] {
+  let running = 0;
+  const steps: WaterfallStep[] = contributions.map(contribution => {
+    const start = running;
+    running += contribution.points;
+    return {
+      label: contribution.label,
+      base: Math.min(start, running),
+      value: Math.abs(contribution.points),
+      points: contribution.points,
+      contribution
+    };
+  });
+
+  return [...steps, { label: 'Risk score', base: 0, value: riskScore, points: riskScore }];
+}
+
+const StepTooltip: React.FC<{ active?: boolean; payload?: Array<{ payload: WaterfallStep }> }> = ({ active, payload }) => {
+  const step = active ? payload?.[0]?.payload : undefined;
+  if (!step) return null;
+
+  const inputs = Object.entries(step.contribution?.inputs ?? {});
+
+  return (
+    <div className="p-2 text-sm text-left bg-white dark:bg-gray-800 border rounded-md shadow">
+      <p className="font-medium">{step.label}</p>
+      <p>{step.contribution ? `${step.points > 0 ? '+' : ''}${round(step.points)} points` : `${step.points}/100`}</p>
+      {inputs.map(([name, value]) => (
+        <p key={name} className="text-gray-600 dark:text-gray-300">{name}: {formatInput(value)}</p>
+      ))}
+      {step.contribution?.source && (
+        <p className="text-xs text-gray-500">Source: {step.contribution.source}</p>
+      )}
+      {step.contribution && <p className="text-xs text-gray-400">{step.contribution.ruleId}</p>}
+    </div>
+  );
+};
+
+const ContributionWaterfall: React.FC<ContributionWaterfallProps> = ({ contributions, riskScore }) => {
+  const steps = useMemo(() => toSteps(contributions, riskScore), [contributions, riskScore]);
+
+  if (contributions.length === 0) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-300">No risk factors contributed to this score.</p>
+    );
+  }
+
+  return (
+    <div className="text-left">
+      <h4 className="font-medium mb-2">How this score was built</h4>
+      <ResponsiveContainer width="100%" height={320}>
+        <BarChart data={steps} margin={{ bottom: 60 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" interval={0} angle={-35} textAnchor="end" height={80} tick={{ fontSize: 11 }} />
+          <YAxis />
+          <Tooltip content={<StepTooltip />} />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="value" stackId="waterfall" isAnimationActive={false}>
+            {steps.map(step => (
+              <Cell
+                key={step.contribution?.ruleId ?? 'total'}
+                fill={!step.contribution ? '#3b82f6' : step.points < 0 ? '#22c55e' : '#ef4444'}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default ContributionWaterfall;
@@ -3,6 +3,7 @@ import { useAppStore } from '../../utils/store';
 import HeartModel from '../organs/HeartModel';
 import LiverModel from '../organs/LiverModel';
 import { RiskScore } from '../../types/patient';
+import { formatRiskScore } from '../../core/uncertainty/MonteCarloEstimator';
 
 interface OrganVisualizationProps {
   heartRisk: RiskScore;
@@ -45,7 +46,7 @@ const OrganVisualization: React.FC<OrganVisualizationProps> = ({ heartRisk, live
             <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm font-medium text-muted-foreground">Risk Score</span>
-                <span className="text-lg font-bold text-foreground">{heartRisk.score}/100</span>
+                <span className="text-lg font-bold text-foreground">{formatRiskScore(heartRisk.score, heartRisk.interval)}/100</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2">
                 <div
@@ -95,7 +96,7 @@ const OrganVisualization: React.FC<OrganVisualizationProps> = ({ heartRisk, live
             <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm font-medium text-muted-foreground">Risk Score</span>
-                <span className="text-lg font-bold text-foreground">{liverRisk.score}/100</span>
+                <span className="text-lg font-bold text-foreground">{formatRiskScore(liverRisk.score, liverRisk.interval)}/100</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2">
                 <div
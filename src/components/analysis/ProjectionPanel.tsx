@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Download, Loader2 } from 'lucide-react';
+import { getAnalysisService, PatientFormInput } from '../../core/services/AnalysisService';
+import { isAnalysisCancelled } from '../../core/engine/cancellation';
+import { ProjectedRisk, summarizeMilestones } from '../../core/projection/RiskProjector';
+import { Intervention, describeIntervention, suggestInterventions } from '../../core/simulation/ScenarioSimulator';
+import { PredictionResult } from '../../core/types/core';
+import { exportRiskProjectionToCSV } from '../../utils/exportUtils';
+import { useAppStore } from '../../core/StateManager';
+
+interface ProjectionPanelProps {
+  patient: PatientFormInput;
+  baselineResults: PredictionResult[];
+}
+
+const CURVE_LABELS: Record<string, string> = {
+  global: 'Overall',
+  cardiovascular: 'Heart',
+  hepatic: 'Liver',
+  renal: 'Kidneys',
+  pulmonary: 'Lungs',
+  neurological: 'Brain',
+  musculoskeletal: 'Bones'
+};
+
+const ProjectionPanel: React.FC<ProjectionPanelProps> = ({ patient, baselineResults }) => {
+  const suggestions = useMemo(() => suggestInterventions(baselineResults), [baselineResults]);
+  const [selected, setSelected] = useState<Intervention[]>(suggestions);
+  const [curveId, setCurveId] = useState('global');
+  const projection = useAppStore(state => state.riskProjection);
+  const setRiskProjection = useAppStore(state => state.setRiskProjection);
+  const [isProjecting, setIsProjecting] = useState(false);
+  const [projectionError, setProjectionError] = useState<string | null>(null);
+
+  useEffect(() => setSelected(suggestions), [suggestions]);
+
+  // The service publishes the projection to the store; stale runs are cancelled
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsProjecting(true);
+    setProjectionError(null);
+
+    getAnalysisService().projectRisk(patient, selected, { signal: controller.signal })
+      .catch(error => {
+        if (!isAnalysisCancelled(error) && !controller.signal.aborted) {
+          setRiskProjection(null);
+          setProjectionError((error as Error).message);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsProjecting(false);
+      });
+
+    return () => controller.abort();
+  }, [patient, selected, setRiskProjection]);
+
+  const curve = useMemo((): { baseline: ProjectedRisk[]; intervention: ProjectedRisk[] | null } | null => {
+    if (!projection) return null;
+    return curveId === 'global' ? projection.global : projection.organs.find(o => o.moduleId === curveId) ?? null;
+  }, [projection, curveId]);
+
+  const chartData = useMemo(() => curve?.baseline.map(point => ({
+    age: point.age,
+    baseline: point.riskScore,
+    intervention: curve.intervention?.find(p => p.year === point.year)?.riskScore
+  })) ?? [], [curve]);
+
+  const milestones = useMemo(
+    () => projection ? summarizeMilestones(projection).filter(m => m.moduleId === curveId) : [],
+    [projection, curveId]
+  );
+
+  const toggle = (intervention: Intervention) => {
+    setSelected(current => current.includes(intervention)
+      ? current.filter(i => i !== intervention)
+      : [...current, intervention]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">Risk Projection</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Expected risk over the next {projection?.horizonYears ?? 10} years as you age, based on typical
+            biomarker changes and your own measured trends.
+          </p>
+        </div>
+        <button
+          type="button"
+          disabled={!projection}
+          onClick={() => projection && exportRiskProjectionToCSV(projection)}
+          className="flex items-center gap-1 px-3 py-1 text-sm rounded-md border"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={curveId}
+          onChange={(e) => setCurveId(e.target.value)}
+          className="p-2 border rounded-md"
+        >
+          {['global', ...(projection?.organs.map(o => o.moduleId) ?? [])].map(id => (
+            <option key={id} value={id}>{CURVE_LABELS[id] ?? id}</option>
+          ))}
+        </select>
+        {suggestions.map(intervention => (
+          <label key={intervention.type} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.includes(intervention)}
+              onChange={() => toggle(intervention)}
+            />
+            {describeIntervention(intervention)}
+          </label>
+        ))}
+        {isProjecting && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+      </div>
+
+      {projectionError && (
+        <div role="alert" className="p-3 rounded-md border border-red-300 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          The risk projection could not be calculated: {projectionError}
+        </div>
+      )}
+
+      {curve && (
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="age" label={{ value: 'Age', position: 'insideBottomRight', offset: -5 }} />
+            <YAxis domain={[0, 100]} />
+            <Tooltip />
+            <Legend />
+            <Line type="monotone" dataKey="baseline" stroke="#ef4444" name="Current path" dot={false} />
+            {curve.intervention && (
+              <Line
+                type="monotone"
+                dataKey="intervention"
+                stroke="#22c55e"
+                strokeDasharray="5 5"
+                name="With interventions"
+                dot={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      {milestones.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {milestones.map(milestone => (
+            <div key={milestone.year} className="p-2 rounded-md border">
+              <div className="text-sm text-gray-600 dark:text-gray-300">
+                In {milestone.year} year{milestone.year > 1 ? 's' : ''} (age {milestone.age})
+              </div>
+              <div className="text-lg font-semibold">
+                {milestone.baseline}
+                {milestone.intervention !== null && (
+                  <span className="text-green-600"> → {milestone.intervention}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectionPanel;
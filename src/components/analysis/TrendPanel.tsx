@@ -0,0 +1,139 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { useAppStore } from '../../core/StateManager';
+import { PatientTimeline, BiomarkerTrend } from '../../core/timeline/PatientTimeline';
+import { TrendMetric, CanonicalField } from '../../core/types/healthData';
+import { formatQuantity, toDisplayQuantity, getUnitLabel } from '../../core/units/UnitConverter';
+
+interface TrendPanelProps {
+  patientId: string;
+}
+
+const METRIC_LABELS: Partial<Record<TrendMetric, [string, string]>> = {
+  egfr: ['eGFR', 'mL/min/1.73m²'],
+  creatinine: ['Creatinine', 'mg/dL'],
+  hba1c: ['HbA1c', '%'],
+  glucose: ['Fasting glucose', 'mg/dL'],
+  bloodPressureSystolic: ['Systolic BP', 'mmHg'],
+  bloodPressureDiastolic: ['Diastolic BP', 'mmHg'],
+  totalCholesterol: ['Total cholesterol', 'mg/dL'],
+  ldlCholesterol: ['LDL cholesterol', 'mg/dL'],
+  hdlCholesterol: ['HDL cholesterol', 'mg/dL'],
+  triglycerides: ['Triglycerides', 'mg/dL'],
+  weight: ['Weight', 'kg'],
+  bmi: ['BMI', 'kg/m²'],
+  alt: ['ALT', 'U/L'],
+  ast: ['AST', 'U/L'],
+  crp: ['CRP', 'mg/L'],
+  vitaminD: ['Vitamin D', 'ng/mL'],
+  boneDensity: ['Bone density', 'T-score'],
+  restingHeartRate: ['Resting heart rate', 'bpm']
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const DirectionIcon: React.FC<{ direction: BiomarkerTrend['direction'] }> = ({ direction }) => {
+  if (direction === 'rising') return <TrendingUp className="w-4 h-4" />;
+  if (direction === 'falling') return <TrendingDown className="w-4 h-4" />;
+  return <Minus className="w-4 h-4" />;
+};
+
+const TrendPanel: React.FC<TrendPanelProps> = ({ patientId }) => {
+  const analysisHistory = useAppStore(state => state.analysisHistory);
+  const preferredUnits = useAppStore(state => state.settings.preferredUnits);
+
+  const timeline = useMemo(
+    () => PatientTimeline.fromHistory(analysisHistory, patientId),
+    [analysisHistory, patientId]
+  );
+  const trends = useMemo(() => timeline.getTrends(), [timeline]);
+  const alerts = useMemo(() => timeline.getAlerts(), [timeline]);
+  const visits = timeline.getSnapshots().length;
+
+  const formatValue = (metric: TrendMetric, value: number) => {
+    const unit = METRIC_LABELS[metric]?.[1];
+    return metric === 'egfr'
+      ? `${round(value)} ${unit}`
+      : formatQuantity(metric as CanonicalField, round(value), preferredUnits, unit);
+  };
+
+  // Rates are differences, so unit offsets (e.g. HbA1c % to mmol/mol) cancel out
+  const formatRate = (metric: TrendMetric, slope: number) => {
+    const sign = slope > 0 ? '+' : '';
+    const atSlope = metric === 'egfr' ? null : toDisplayQuantity(metric as CanonicalField, slope, preferredUnits);
+    const atZero = metric === 'egfr' ? null : toDisplayQuantity(metric as CanonicalField, 0, preferredUnits);
+    if (!atSlope || !atZero) return `${sign}${round(slope)} ${METRIC_LABELS[metric]?.[1] ?? ''}`;
+
+    const rate = Math.round((atSlope.value - atZero.value) * 100) / 100;
+    return `${sign}${rate} ${getUnitLabel(atSlope.unit)}`;
+  };
+
+  if (visits < 2) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Trends appear once measurements from at least two visits, a month or more apart, have been analyzed.
+        Enter the measurement date on the form when adding an earlier visit.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold">Trends</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {visits} visits from {new Date(timeline.getSnapshots()[0].timestamp).toLocaleDateString()} to{' '}
+          {new Date(timeline.getLatestSnapshot()!.timestamp).toLocaleDateString()}
+        </p>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="space-y-2">
+          {alerts.map(alert => (
+            <div
+              key={alert.metric}
+              className={`flex items-center gap-2 p-3 rounded-md text-sm ${
+                alert.severity === 'high'
+                  ? 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300'
+                  : 'bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300'
+              }`}
+            >
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {alert.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {trends.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-300">
+              <th className="py-1">Biomarker</th>
+              <th className="py-1">First</th>
+              <th className="py-1">Latest</th>
+              <th className="py-1">Change per year</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trends.map(trend => (
+              <tr key={trend.metric} className="border-t">
+                <td className="py-1">{METRIC_LABELS[trend.metric]?.[0] ?? trend.metric}</td>
+                <td className="py-1">{formatValue(trend.metric, trend.first)}</td>
+                <td className="py-1">{formatValue(trend.metric, trend.latest)}</td>
+                <td className="py-1">
+                  <span className="inline-flex items-center gap-1">
+                    <DirectionIcon direction={trend.direction} />
+                    {formatRate(trend.metric, trend.slopePerYear)}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TrendPanel;
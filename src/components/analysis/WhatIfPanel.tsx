@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ORGAN_MODELS, toModelRiskLevel } from '../organs/organModels';
+import { getAnalysisService } from '../../core/services/AnalysisService';
+import { isAnalysisCancelled } from '../../core/engine/cancellation';
+import { Intervention, ScenarioResult, suggestInterventions } from '../../core/simulation/ScenarioSimulator';
+import { PredictionResult } from '../../core/types/core';
+import { ActivityLevel, PatientFormInput } from '../../core/types/healthData';
+import { formatQuantity } from '../../core/units/UnitConverter';
+import { useAppStore } from '../../core/StateManager';
+
+interface WhatIfPanelProps {
+  baseline: PatientFormInput;
+  baselineResults: PredictionResult[];
+}
+
+interface InterventionSettings {
+  quitSmoking: boolean;
+  ldlReduction: number; // mg/dL
+  weightLoss: number; // kg
+  activityLevel: ActivityLevel | '';
+  bloodPressureTarget: number; // Systolic mmHg, 0 = no target
+}
+
+const NO_INTERVENTIONS: InterventionSettings = {
+  quitSmoking: false,
+  ldlReduction: 0,
+  weightLoss: 0,
+  activityLevel: '',
+  bloodPressureTarget: 0
+};
+
+// Debounce delay before re-running the scenario after a control changes
+const SIMULATION_DELAY_MS = 250;
+const DEFAULT_SYSTOLIC_TARGET = 130;
+
+const toInterventions = (settings: InterventionSettings): Intervention[] => {
+  const interventions: Intervention[] = [];
+
+  if (settings.quitSmoking) interventions.push({ type: 'quitSmoking' });
+  if (settings.ldlReduction > 0) interventions.push({ type: 'lowerLdl', amount: settings.ldlReduction });
+  if (settings.weightLoss > 0) interventions.push({ type: 'loseWeight', kg: settings.weightLoss });
+  if (settings.activityLevel) interventions.push({ type: 'changeActivity', level: settings.activityLevel });
+  if (settings.bloodPressureTarget > 0) {
+    interventions.push({
+      type: 'bloodPressureTarget',
+      systolic: settings.bloodPressureTarget,
+      diastolic: Math.round(settings.bloodPressureTarget * 0.62)
+    });
+  }
+
+  return interventions;
+};
+
+const fromInterventions = (interventions: Intervention[]): InterventionSettings =>
+  interventions.reduce<InterventionSettings>((settings, intervention) => {
+    switch (intervention.type) {
+      case 'quitSmoking': return { ...settings, quitSmoking: true };
+      case 'lowerLdl': return { ...settings, ldlReduction: intervention.amount };
+      case 'loseWeight': return { ...settings, weightLoss: intervention.kg };
+      case 'changeActivity': return { ...settings, activityLevel: intervention.level };
+      case 'bloodPressureTarget': return { ...settings, bloodPressureTarget: intervention.systolic };
+    }
+  }, NO_INTERVENTIONS);
+
+const WhatIfPanel: React.FC<WhatIfPanelProps> = ({ baseline, baselineResults }) => {
+  const preferredUnits = useAppStore(state => state.settings.preferredUnits);
+  const [settings, setSettings] = useState<InterventionSettings>(NO_INTERVENTIONS);
+  const [scenario, setScenario] = useState<ScenarioResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [selectedOrgan, setSelectedOrgan] = useState('cardiovascular');
+
+  const suggestions = useMemo(() => suggestInterventions(baselineResults), [baselineResults]);
+  const interventions = useMemo(() => toInterventions(settings), [settings]);
+
+  // Re-run the scenario whenever the interventions change, cancelling stale runs
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsSimulating(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await getAnalysisService().simulateScenario(baseline, interventions, { signal: controller.signal });
+        if (!controller.signal.aborted) {
+          setScenario(result);
+          setSimulationError(null);
+        }
+      } catch (error) {
+        // Errors are shown in the panel; a rejection here would go unhandled
+        if (!isAnalysisCancelled(error) && !controller.signal.aborted) {
+          setSimulationError((error as Error).message);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsSimulating(false);
+      }
+    }, SIMULATION_DELAY_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [baseline, interventions]);
+
+  const selectedDelta = scenario?.organDeltas.find(d => d.moduleId === selectedOrgan);
+  const organModel = ORGAN_MODELS[selectedOrgan];
+
+  const update = (changes: Partial<InterventionSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">What-if Simulator</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Adjust modifiable risk factors to see how your organ risks would change.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {suggestions.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setSettings(fromInterventions(suggestions))}
+              className="px-3 py-1 text-sm rounded-md border border-blue-300 text-blue-700 dark:text-blue-300"
+            >
+              Apply suggested changes
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setSettings(NO_INTERVENTIONS)}
+            className="px-3 py-1 text-sm rounded-md border"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.quitSmoking}
+            onChange={(e) => update({ quitSmoking: e.target.checked })}
+          />
+          <span className="text-sm font-medium">Quit smoking</span>
+        </label>
+        <div>
+          <label className="block text-sm font-medium mb-1">Physical activity</label>
+          <select
+            value={settings.activityLevel}
+            onChange={(e) => update({ activityLevel: e.target.value as ActivityLevel | '' })}
+            className="w-full p-2 border rounded-md"
+          >
+            <option value="">No change</option>
+            <option value="light">Light</option>
+            <option value="moderate">Moderate</option>
+            <option value="active">Active</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            Lower LDL by {formatQuantity('ldlCholesterol', settings.ldlReduction, preferredUnits)}
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={settings.ldlReduction}
+            onChange={(e) => update({ ldlReduction: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            Lose {formatQuantity('weight', settings.weightLoss, preferredUnits)}
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={30}
+            step={1}
+            value={settings.weightLoss}
+            onChange={(e) => update({ weightLoss: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="flex items-center gap-2 text-sm font-medium mb-1">
+            <input
+              type="checkbox"
+              checked={settings.bloodPressureTarget > 0}
+              onChange={(e) => update({ bloodPressureTarget: e.target.checked ? DEFAULT_SYSTOLIC_TARGET : 0 })}
+            />
+            Blood pressure target{settings.bloodPressureTarget > 0 && `: ${settings.bloodPressureTarget} mmHg systolic`}
+          </label>
+          <input
+            type="range"
+            min={110}
+            max={150}
+            step={5}
+            value={settings.bloodPressureTarget || DEFAULT_SYSTOLIC_TARGET}
+            disabled={settings.bloodPressureTarget === 0}
+            onChange={(e) => update({ bloodPressureTarget: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      {simulationError && (
+        <div role="alert" className="p-3 rounded-md border border-red-300 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          The scenario could not be simulated: {simulationError}
+        </div>
+      )}
+
+      {scenario && !simulationError && (
+        <div className={`space-y-4 ${isSimulating ? 'opacity-60' : ''}`}>
+          <div className="text-center">
+            <div className="text-sm text-gray-600 dark:text-gray-300">Overall risk</div>
+            <div className="text-2xl font-bold">
+              {scenario.globalRiskBefore}% → {scenario.globalRiskAfter}%
+              <span className={`ml-2 text-lg ${scenario.globalDelta < 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                ({scenario.globalDelta > 0 ? '+' : ''}{scenario.globalDelta})
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {scenario.organDeltas.map(delta => (
+              <button
+                key={delta.moduleId}
+                type="button"
+                onClick={() => setSelectedOrgan(delta.moduleId)}
+                className={`p-2 rounded-md border text-left text-sm ${
+                  delta.moduleId === selectedOrgan ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : ''
+                }`}
+              >
+                <div className="font-medium">{ORGAN_MODELS[delta.moduleId]?.label ?? delta.moduleId}</div>
+                <div>
+                  {delta.before} → {delta.after}
+                  <span className={delta.delta < 0 ? 'text-green-600 ml-1' : 'text-gray-500 ml-1'}>
+                    ({delta.delta > 0 ? '+' : ''}{delta.delta})
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {organModel && selectedDelta && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium text-center mb-2">Before ({selectedDelta.before}%)</p>
+                <organModel.Model riskLevel={toModelRiskLevel(selectedDelta.riskLevelBefore)} isHighlighted={false} />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-center mb-2">After ({selectedDelta.after}%)</p>
+                <organModel.Model riskLevel={toModelRiskLevel(selectedDelta.riskLevelAfter)} isHighlighted={false} />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhatIfPanel;
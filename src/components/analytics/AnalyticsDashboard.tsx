@@ -11,6 +11,7 @@ import {
   ScatterChart, Scatter, AreaChart, Area
 } from 'recharts';
 import { useAppStore } from '../../core/StateManager';
+import { PopulationMetrics } from '../../core/cohort/CohortStatistics';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/Card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/Tabs';
 import { Badge } from '../ui/Badge';
@@ -21,19 +22,6 @@ import {
   Download, Filter, Calendar, Globe
 } from 'lucide-react';
 
-interface PopulationMetrics {
-  totalAnalyses: number;
-  averageRiskScore: number;
-  riskDistribution: { level: string; count: number; percentage: number }[];
-  organRisks: { organ: string; averageRisk: number; trend: number }[];
-  ageGroups: { group: string; count: number; averageRisk: number }[];
-  genderDistribution: { gender: string; count: number; averageRisk: number }[];
-  geographicData: { region: string; count: number; averageRisk: number }[];
-  timeSeriesData: { date: string; analyses: number; averageRisk: number }[];
-  topRiskFactors: { factor: string; prevalence: number; impact: number }[];
-  recommendations: { category: string; frequency: number; effectiveness: number }[];
-}
-
 const AnalyticsDashboard: React.FC = () => {
   const { analysisHistory, performanceMetrics } = useAppStore();
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
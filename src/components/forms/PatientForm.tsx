@@ -1,6 +1,19 @@
-import React, { useState } from 'react';
-import { User, Heart, Activity, Stethoscope, Droplets, Scale, Cigarette, Dumbbell } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { User, Heart, Activity, Stethoscope, Droplets, Scale, Cigarette, Dumbbell, AlertTriangle } from 'lucide-react';
 import { PatientData, FormErrors } from '../../types/patient';
+import { validateHealthData } from '../../core/validation/HealthDataValidator';
+
+// Canonical field -> form error slot
+const FORM_ERROR_FIELDS: Record<string, keyof FormErrors> = {
+  age: 'age',
+  bloodPressureSystolic: 'bloodPressure',
+  bloodPressureDiastolic: 'bloodPressure',
+  totalCholesterol: 'cholesterol',
+  glucose: 'glucose',
+  bmi: 'bmi',
+  height: 'bmi',
+  weight: 'bmi'
+};
 
 interface PatientFormProps {
   onSubmit: (data: PatientData) => void;
@@ -20,32 +33,29 @@ const PatientForm: React.FC<PatientFormProps> = ({ onSubmit, isLoading = false }
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
+  // Errors on fields the form has no input for, shown above the submit button
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+
+  // Warnings do not block submission, so they are shown while the data is entered
+  const warnings = useMemo(() => validateHealthData(formData).warnings, [formData]);
 
   const validateForm = (): boolean => {
+    const report = validateHealthData(formData);
     const newErrors: FormErrors = {};
+    const unmapped: string[] = [];
 
-    if (formData.age < 18 || formData.age > 120) {
-      newErrors.age = 'Age must be between 18 and 120 years';
-    }
-
-    if (formData.bloodPressure.systolic < 70 || formData.bloodPressure.systolic > 250) {
-      newErrors.bloodPressure = 'Systolic pressure must be between 70 and 250 mmHg';
-    }
-
-    if (formData.bloodPressure.diastolic < 40 || formData.bloodPressure.diastolic > 150) {
-      newErrors.bloodPressure = 'Diastolic pressure must be between 40 and 150 mmHg';
-    }
-
-    if (formData.cholesterol < 100 || formData.cholesterol > 400) {
-      newErrors.cholesterol = 'Cholesterol must be between 100 and 400 mg/dL';
-    }
-
-    if (formData.glucose < 50 || formData.glucose > 300) {
-      newErrors.glucose = 'Glucose must be between 50 and 300 mg/dL';
+    for (const issue of report.errors) {
+      const formField = FORM_ERROR_FIELDS[issue.field.split(',')[0]];
+      if (!formField) {
+        unmapped.push(issue.message);
+      } else if (!newErrors[formField]) {
+        newErrors[formField] = issue.message;
+      }
     }
 
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    setFormErrors(unmapped);
+    return report.valid;
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -218,6 +228,7 @@ const PatientForm: React.FC<PatientFormProps> = ({ onSubmit, isLoading = false }
                   min="15"
                   max="50"
                 />
+                {errors.bmi && <p className="text-sm text-red-500">{errors.bmi}</p>}
               </div>
             </div>
           </div>
@@ -265,6 +276,20 @@ const PatientForm: React.FC<PatientFormProps> = ({ onSubmit, isLoading = false }
             </div>
           </div>
 
+          {(formErrors.length > 0 || warnings.length > 0) && (
+            <div className="space-y-2">
+              {formErrors.map(message => (
+                <p key={message} className="text-sm text-red-500">{message}</p>
+              ))}
+              {warnings.map(warning => (
+                <p key={`${warning.field}:${warning.code}`} className="flex items-center space-x-2 text-sm text-amber-600">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <span>{warning.message}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="pt-6">
             <button
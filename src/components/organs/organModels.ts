@@ -0,0 +1,23 @@
+import React from 'react';
+import HeartModel from './HeartModel';
+import LiverModel from './LiverModel';
+import KidneyModel from './KidneyModel';
+import LungModel from './LungModel';
+import BrainModel from './BrainModel';
+import MusculoskeletalModel from './MusculoskeletalModel';
+import { PredictionResult } from '../../core/types/core';
+
+export type ModelRiskLevel = 'low' | 'moderate' | 'high';
+
+// 3D model of each organ module's organ, keyed by module id
+export const ORGAN_MODELS: Record<string, { label: string; Model: React.FC<{ riskLevel: ModelRiskLevel; isHighlighted: boolean }> }> = {
+  cardiovascular: { label: 'Heart', Model: HeartModel },
+  hepatic: { label: 'Liver', Model: LiverModel },
+  renal: { label: 'Kidneys', Model: KidneyModel },
+  pulmonary: { label: 'Lungs', Model: LungModel },
+  neurological: { label: 'Brain', Model: BrainModel },
+  musculoskeletal: { label: 'Bones', Model: MusculoskeletalModel }
+};
+
+export const toModelRiskLevel = (level: PredictionResult['riskLevel']): ModelRiskLevel =>
+  level === 'critical' ? 'high' : level;
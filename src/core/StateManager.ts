@@ -14,8 +14,13 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { PatientData } from '../../types/patient';
-import { PredictionResult } from '../types/core';
+import { PatientData } from '../types/patient';
+import { PredictionResult } from './types/core';
+import type { AnalysisUpdate } from './engine/AnalysisStream';
+import type { AnalysisBundle } from './audit/AnalysisBundle';
+import type { RiskProjection } from './projection/RiskProjector';
+import { CanonicalHealthData, PatientFormInput } from './types/healthData';
+import { UnitSystem } from './units/unitRegistry';
 
 export interface AppState {
   // Core application state
@@ -26,6 +31,9 @@ export interface AppState {
   // Patient and analysis data
   patientData: PatientData | null;
   analysisResult: PredictionResult[] | null;
+  analysisProgress: AnalysisUpdate | null; // Latest update of the running analysis
+  riskProjection: RiskProjection | null; // Projection of the current analysis, included in its report
+  hasShadowModules: boolean; // Shadow module versions are registered with the analysis engine
   analysisHistory: AnalysisHistoryEntry[];
   
   // UI state
@@ -59,9 +67,12 @@ export interface AppState {
 export interface AnalysisHistoryEntry {
   id: string;
   timestamp: number;
-  patientData: PatientData;
+  patientId?: string; // Groups the entries of one patient into a timeline
+  patientData: PatientData | PatientFormInput;
+  healthData?: CanonicalHealthData; // Normalized snapshot, timestamped with the measurement date
   results: PredictionResult[];
   globalRiskScore: number;
+  bundle?: AnalysisBundle; // Sealed input, module versions, configuration and seeds, for audit replay
   notes?: string;
 }
 
@@ -95,7 +106,8 @@ export interface UserSettings {
   dataRetentionDays: number;
   enableNotifications: boolean;
   enableAnalytics: boolean;
-  preferredUnits: 'metric' | 'imperial';
+  preferredUnits: UnitSystem; // metric: SI lab units, kg, cm; imperial: conventional lab units, lb, in
+  uncertaintyIntervals: boolean; // Estimate risk intervals after each result; re-runs every module many times
   accessibilityMode: boolean;
   reducedMotion: boolean;
   highContrast: boolean;
@@ -118,6 +130,9 @@ export interface AppActions {
   // Analysis management
   setIsAnalyzing: (analyzing: boolean) => void;
   setAnalysisResult: (result: PredictionResult[] | null) => void;
+  setAnalysisProgress: (progress: AnalysisUpdate | null) => void;
+  setRiskProjection: (projection: RiskProjection | null) => void;
+  setHasShadowModules: (hasShadowModules: boolean) => void;
   addToHistory: (entry: Omit<AnalysisHistoryEntry, 'id' | 'timestamp'>) => void;
   removeFromHistory: (id: string) => void;
   clearHistory: () => void;
@@ -163,6 +178,7 @@ const defaultSettings: UserSettings = {
   enableNotifications: true,
   enableAnalytics: true,
   preferredUnits: 'metric',
+  uncertaintyIntervals: false,
   accessibilityMode: false,
   reducedMotion: false,
   highContrast: false
@@ -234,6 +250,9 @@ export const useAppStore = create<AppState & AppActions>()(
         gdprAccepted: false,
         patientData: null,
         analysisResult: null,
+        analysisProgress: null,
+        riskProjection: null,
+        hasShadowModules: false,
         analysisHistory: [],
         sidebarOpen: false,
         theme: 'auto',
@@ -301,6 +320,8 @@ export const useAppStore = create<AppState & AppActions>()(
           set({
             patientData: null,
             analysisResult: null,
+            analysisProgress: null,
+            riskProjection: null,
             analysisHistory: [],
             errors: [],
             notifications: [],
@@ -336,6 +357,11 @@ export const useAppStore = create<AppState & AppActions>()(
         // Analysis management
         setIsAnalyzing: (analyzing) => set({ isAnalyzing: analyzing }),
 
+        // Progress updates are transient and kept out of the undo history
+        setAnalysisProgress: (progress) => set({ analysisProgress: progress }),
+        setRiskProjection: (projection) => set({ riskProjection: projection }),
+        setHasShadowModules: (hasShadowModules) => set({ hasShadowModules }),
+
         setAnalysisResult: (result) => {
           set((state) => {
             const newState = { ...state, analysisResult: result };
@@ -478,6 +504,8 @@ export const useAppStore = create<AppState & AppActions>()(
             isAnalyzing: false,
             patientData: null,
             analysisResult: null,
+            analysisProgress: null,
+            riskProjection: null,
             sidebarOpen: false,
             errors: [],
             notifications: [],
@@ -581,6 +609,8 @@ export const selectCurrentView = (state: AppState) => state.currentView;
 export const selectPatientData = (state: AppState) => state.patientData;
 export const selectAnalysisResult = (state: AppState) => state.analysisResult;
 export const selectIsAnalyzing = (state: AppState) => state.isAnalyzing;
+export const selectAnalysisProgress = (state: AppState) => state.analysisProgress;
+export const selectRiskProjection = (state: AppState) => state.riskProjection;
 export const selectErrors = (state: AppState) => state.errors.filter(e => !e.resolved);
 export const selectNotifications = (state: AppState) => state.notifications;
 export const selectSettings = (state: AppState) => state.settings;
@@ -592,6 +622,7 @@ export const useCurrentView = () => useAppStore(selectCurrentView);
 export const usePatientData = () => useAppStore(selectPatientData);
 export const useAnalysisResult = () => useAppStore(selectAnalysisResult);
 export const useIsAnalyzing = () => useAppStore(selectIsAnalyzing);
+export const useAnalysisProgress = () => useAppStore(selectAnalysisProgress);
 export const useErrors = () => useAppStore(selectErrors);
 export const useNotifications = () => useAppStore(selectNotifications);
 export const useSettings = () => useAppStore(selectSettings);
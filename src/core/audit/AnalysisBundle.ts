@@ -0,0 +1,159 @@
+/**
+ * Analysis Bundle
+ * Everything needed to reproduce why an analysis produced its results
+ *
+ * A bundle records the normalized input exactly as the modules saw it, the
+ * id, version and configuration of every module, the engine configuration,
+ * the organ dependency graph (for analyses run through the orchestrator),
+ * the Monte Carlo seed of every module and the results. It is sealed with
+ * the SHA-256 of its canonical JSON, so an exported bundle that was edited
+ * afterwards no longer verifies.
+ */
+
+import { ModuleDescriptor, PredictionResult } from '../types/core';
+import { CanonicalHealthData } from '../types/healthData';
+import type { EngineConfig } from '../engine/DigitalTwinEngine';
+import type { OrchestrationConfig, OrganDependency } from '../engine/OrganOrchestrator';
+import { contentHash } from '../cache/contentHash';
+
+export const ANALYSIS_BUNDLE_SCHEMA_VERSION = 1;
+
+export interface OrchestrationSnapshot {
+  config: OrchestrationConfig;
+  knowledgeVersion?: string; // Version of the organ knowledge graph the dependencies come from
+  dependencies: OrganDependency[];
+}
+
+export interface AnalysisBundle {
+  schemaVersion: number;
+  id: string;
+  createdAt: number;
+  healthData: CanonicalHealthData;
+  modules: ModuleDescriptor[];
+  engineConfig: EngineConfig;
+  orchestration: OrchestrationSnapshot | null;
+  seeds: Record<string, number>; // Monte Carlo seed per module; empty without uncertainty estimation
+  results: PredictionResult[];
+  hash: string; // SHA-256 of the rest of the bundle
+}
+
+export type AnalysisBundleCapture = Omit<AnalysisBundle, 'schemaVersion' | 'id' | 'createdAt' | 'orchestration' | 'hash'> & {
+  orchestration?: OrchestrationSnapshot | null;
+};
+
+export interface ResultDifference {
+  moduleId: string;
+  path: string; // e.g. 'riskScore' or 'uncertainty.p95'; empty when the whole result is missing
+  expected: unknown;
+  actual: unknown;
+}
+
+export class InvalidAnalysisBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAnalysisBundleError';
+  }
+}
+
+// Fields that differ between any two runs of the same analysis
+const VOLATILE_RESULT_FIELDS = new Set(['timestamp', 'processingTime']);
+
+function hashBundle(bundle: Omit<AnalysisBundle, 'hash'>): string {
+  return contentHash(bundle);
+}
+
+/**
+ * Seal the state of one analysis into a bundle
+ */
+export function createAnalysisBundle(capture: AnalysisBundleCapture): AnalysisBundle {
+  // A JSON round trip detaches the bundle from live objects and drops what cannot be exported
+  const contents: Omit<AnalysisBundle, 'hash'> = JSON.parse(JSON.stringify({
+    schemaVersion: ANALYSIS_BUNDLE_SCHEMA_VERSION,
+    id: `bundle_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: Date.now(),
+    ...capture,
+    orchestration: capture.orchestration ?? null
+  }));
+
+  return { ...contents, hash: hashBundle(contents) };
+}
+
+/**
+ * Check that a bundle was not modified after it was sealed
+ */
+export function verifyAnalysisBundle(bundle: AnalysisBundle): boolean {
+  const { hash, ...contents } = bundle;
+  return hashBundle(contents) === hash;
+}
+
+export function serializeAnalysisBundle(bundle: AnalysisBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Read an exported bundle, rejecting other formats and schema versions
+ */
+export function parseAnalysisBundle(json: string): AnalysisBundle {
+  let bundle: AnalysisBundle;
+  try {
+    bundle = JSON.parse(json);
+  } catch (error) {
+    throw new InvalidAnalysisBundleError(`Analysis bundle is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!bundle || typeof bundle !== 'object' || !Array.isArray(bundle.results) || !Array.isArray(bundle.modules)) {
+    throw new InvalidAnalysisBundleError('Not an analysis bundle');
+  }
+  if (bundle.schemaVersion !== ANALYSIS_BUNDLE_SCHEMA_VERSION) {
+    throw new InvalidAnalysisBundleError(`Unsupported analysis bundle schema version ${bundle.schemaVersion}`);
+  }
+  return bundle;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function diffValues(moduleId: string, path: string, expected: unknown, actual: unknown, differences: ResultDifference[]): void {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      diffValues(moduleId, `${path}[${i}]`, expected[i], actual[i], differences);
+    }
+  } else if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of [...keys].sort()) {
+      diffValues(moduleId, path ? `${path}.${key}` : key, expected[key], actual[key], differences);
+    }
+  } else if (!Object.is(expected, actual)) {
+    differences.push({ moduleId, path, expected, actual });
+  }
+}
+
+/**
+ * Compare two sets of results module by module, ignoring when and how
+ * fast they were produced
+ */
+export function diffAnalysisResults(expected: PredictionResult[], actual: PredictionResult[]): ResultDifference[] {
+  const differences: ResultDifference[] = [];
+  const actualById = new Map(actual.map(result => [result.moduleId, result]));
+  // Compare what an export would contain, e.g. without undefined fields
+  const comparable = (result: PredictionResult) => JSON.parse(JSON.stringify(
+    Object.fromEntries(Object.entries(result).filter(([field]) => !VOLATILE_RESULT_FIELDS.has(field)))
+  ));
+
+  for (const result of expected) {
+    const replayed = actualById.get(result.moduleId);
+    actualById.delete(result.moduleId);
+
+    if (!replayed) {
+      differences.push({ moduleId: result.moduleId, path: '', expected: result, actual: undefined });
+    } else {
+      diffValues(result.moduleId, '', comparable(result), comparable(replayed), differences);
+    }
+  }
+
+  for (const [moduleId, result] of actualById) {
+    differences.push({ moduleId, path: '', expected: undefined, actual: result });
+  }
+  return differences;
+}
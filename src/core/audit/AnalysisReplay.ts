@@ -0,0 +1,83 @@
+/**
+ * Analysis Replay
+ * Re-executes an analysis bundle and diffs the outcome against its results
+ *
+ * Modules are recreated from the bundle's descriptors through the organ
+ * module registry (preferring the factory for the exact version, as the
+ * module workers do) and run on a fresh engine with the recorded engine
+ * configuration and Monte Carlo seeds, so neither the live engine's cache
+ * nor its circuit breakers or module health affect the replay.
+ */
+
+import { OrganModule, PredictionResult } from '../types/core';
+import type { ModuleFactory } from '../../modules/registry';
+import { DigitalTwinEngine } from '../engine/DigitalTwinEngine';
+import { AnalysisBundle, ResultDifference, verifyAnalysisBundle, diffAnalysisResults } from './AnalysisBundle';
+
+export interface ReplayReport {
+  bundleId: string;
+  replayedAt: number;
+  intact: boolean; // The bundle still matches its hash
+  reproduced: boolean; // Intact, every module recreated and no result differs
+  missingModules: string[]; // Module versions the registry can no longer provide
+  differences: ResultDifference[];
+  results: PredictionResult[];
+}
+
+function recreateModules(
+  bundle: AnalysisBundle,
+  factories: Record<string, ModuleFactory>
+): { modules: OrganModule[]; missingModules: string[] } {
+  const modules: OrganModule[] = [];
+  const missingModules: string[] = [];
+
+  for (const descriptor of bundle.modules) {
+    const create = factories[`${descriptor.id}@${descriptor.version}`] ?? factories[descriptor.id];
+    const module = create?.();
+
+    if (!module || module.version !== descriptor.version) {
+      missingModules.push(`${descriptor.id}@${descriptor.version}`);
+      continue;
+    }
+    module.updateConfig(descriptor.config);
+    modules.push(module);
+  }
+
+  return { modules, missingModules };
+}
+
+/**
+ * Re-run the analysis recorded in a bundle
+ */
+export async function replayAnalysisBundle(
+  bundle: AnalysisBundle,
+  factories: Record<string, ModuleFactory>
+): Promise<ReplayReport> {
+  const intact = verifyAnalysisBundle(bundle);
+  const { modules, missingModules } = recreateModules(bundle, factories);
+
+  const engine = new DigitalTwinEngine({
+    ...bundle.engineConfig,
+    cacheEnabled: false,
+    debugMode: false,
+    uncertainty: { ...bundle.engineConfig.uncertainty, seeds: bundle.seeds }
+  });
+
+  try {
+    modules.forEach(module => engine.registerModule(module));
+    const results = await engine.analyzeHealth(bundle.healthData);
+    const differences = diffAnalysisResults(bundle.results, results);
+
+    return {
+      bundleId: bundle.id,
+      replayedAt: Date.now(),
+      intact,
+      reproduced: intact && missingModules.length === 0 && differences.length === 0,
+      missingModules,
+      differences,
+      results
+    };
+  } finally {
+    engine.destroy();
+  }
+}
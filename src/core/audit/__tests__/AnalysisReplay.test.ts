@@ -0,0 +1,79 @@
+/**
+ * Analysis Replay Tests
+ * Unit tests for capturing analysis bundles and replaying them
+ */
+
+import {
+  AnalysisBundle,
+  InvalidAnalysisBundleError,
+  diffAnalysisResults,
+  parseAnalysisBundle,
+  serializeAnalysisBundle,
+  verifyAnalysisBundle
+} from '../AnalysisBundle';
+import { replayAnalysisBundle } from '../AnalysisReplay';
+import { DigitalTwinEngine } from '../../engine/DigitalTwinEngine';
+import { ORGAN_MODULE_FACTORIES } from '../../../modules/registry';
+import { RenalModule } from '../../../modules/renal';
+
+describe('Analysis replay', () => {
+  const input = { name: 'Test Patient', age: 58, sex: 'male' as const, creatinine: 1.4, measuredAt: 0 };
+  let engine: DigitalTwinEngine;
+  let bundle: AnalysisBundle;
+
+  beforeEach(async () => {
+    engine = new DigitalTwinEngine({ uncertainty: { enabled: true, samples: 20, imputeMissing: true } });
+    engine.registerModule(new RenalModule());
+    const results = await engine.analyzeHealth(input);
+    bundle = engine.createAnalysisBundle(input, results);
+  });
+
+  afterEach(() => engine.destroy());
+
+  test('should reproduce the results of a bundle', async () => {
+    const report = await replayAnalysisBundle(bundle, ORGAN_MODULE_FACTORIES);
+
+    expect(bundle.seeds).toHaveProperty('renal');
+    expect(bundle.results[0].uncertainty).toBeDefined();
+    expect(report).toMatchObject({ intact: true, reproduced: true, missingModules: [], differences: [] });
+  });
+
+  test('should report a bundle modified after it was sealed', async () => {
+    const tampered = { ...bundle, results: [{ ...bundle.results[0], riskScore: bundle.results[0].riskScore + 5 }] };
+    const report = await replayAnalysisBundle(tampered, ORGAN_MODULE_FACTORIES);
+
+    expect(verifyAnalysisBundle(bundle)).toBe(true);
+    expect(report.intact).toBe(false);
+    expect(report.reproduced).toBe(false);
+    expect(report.differences).toEqual([
+      { moduleId: 'renal', path: 'riskScore', expected: bundle.results[0].riskScore + 5, actual: bundle.results[0].riskScore }
+    ]);
+  });
+
+  test('should report module versions the registry no longer provides', async () => {
+    const report = await replayAnalysisBundle(
+      { ...bundle, modules: bundle.modules.map(module => ({ ...module, version: '0.0.1' })) },
+      ORGAN_MODULE_FACTORIES
+    );
+
+    expect(report.missingModules).toEqual(['renal@0.0.1']);
+    expect(report.differences).toEqual([expect.objectContaining({ moduleId: 'renal', path: '', actual: undefined })]);
+  });
+
+  test('should diff nested fields and ignore timing', () => {
+    const [result] = bundle.results;
+    const replayed = { ...result, timestamp: 0, processingTime: 0, uncertainty: { ...result.uncertainty!, p95: result.uncertainty!.p95 + 1 } };
+
+    expect(diffAnalysisResults([result], [replayed])).toEqual([
+      { moduleId: 'renal', path: 'uncertainty.p95', expected: result.uncertainty!.p95, actual: result.uncertainty!.p95 + 1 }
+    ]);
+  });
+
+  test('should round-trip exported bundles and reject other schema versions', () => {
+    const json = serializeAnalysisBundle(bundle);
+
+    expect(verifyAnalysisBundle(parseAnalysisBundle(json))).toBe(true);
+    expect(() => parseAnalysisBundle(JSON.stringify({ ...bundle, schemaVersion: 99 }))).toThrow(InvalidAnalysisBundleError);
+    expect(() => parseAnalysisBundle('not json')).toThrow(InvalidAnalysisBundleError);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * LRU Cache
+ * Bounded in-memory cache with least-recently-used eviction
+ *
+ * Entries live in a Map, whose iteration order is insertion order: a read
+ * re-inserts the entry as most recent, so the least recently used entry is
+ * always the first key and get, set and eviction are O(1). Entries older
+ * than the TTL count as misses and are dropped when read or pruned.
+ */
+
+export interface LRUCacheStats {
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  evictions: number; // Dropped to make room for a newer entry
+  expirations: number; // Dropped because they outlived the TTL
+  oldestEntry: number | null; // When the oldest entry was stored
+}
+
+interface LRUEntry<V> {
+  value: V;
+  storedAt: number;
+}
+
+export class LRUCache<V> {
+  private entries = new Map<string, LRUEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(private maxSize: number, private ttl: number, private now: () => number = Date.now) {
+    this.maxSize = Math.max(1, maxSize);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Read an entry and mark it most recently used
+   */
+  get(key: string): V | undefined {
+    const entry = this.live(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Whether a live entry exists, without counting a read or touching recency
+   */
+  has(key: string): boolean {
+    return this.live(key) !== undefined;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: this.now() });
+    this.evictOverflow();
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Drop every entry, returning how many there were
+   */
+  clear(): number {
+    const size = this.entries.size;
+    this.entries.clear();
+    return size;
+  }
+
+  /**
+   * Drop expired entries, returning how many were dropped
+   */
+  pruneExpired(): number {
+    const now = this.now();
+    let pruned = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (now - entry.storedAt > this.ttl) {
+        this.entries.delete(key);
+        pruned++;
+      }
+    }
+    this.expirations += pruned;
+    return pruned;
+  }
+
+  resize(maxSize: number): void {
+    this.maxSize = Math.max(1, maxSize);
+    this.evictOverflow();
+  }
+
+  setTTL(ttl: number): void {
+    this.ttl = ttl;
+  }
+
+  getStats(): LRUCacheStats {
+    let oldestEntry: number | null = null;
+    for (const { storedAt } of this.entries.values()) {
+      if (oldestEntry === null || storedAt < oldestEntry) oldestEntry = storedAt;
+    }
+
+    return {
+      size: this.entries.size,
+      maxSize: this.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      oldestEntry
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+
+  private live(key: string): LRUEntry<V> | undefined {
+    const entry = this.entries.get(key);
+    if (entry && this.now() - entry.storedAt > this.ttl) {
+      this.entries.delete(key);
+      this.expirations++;
+      return undefined;
+    }
+    return entry;
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxSize) {
+      const leastRecent = this.entries.keys().next().value as string;
+      this.entries.delete(leastRecent);
+      this.evictions++;
+    }
+  }
+}
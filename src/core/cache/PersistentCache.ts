@@ -0,0 +1,164 @@
+/**
+ * Persistent Cache
+ * Second cache tier that survives page reloads
+ *
+ * The engine consults the persistent tier when its in-memory cache misses,
+ * so a returning session reuses results computed in an earlier one. The
+ * IndexedDB tier encrypts every record with AES-GCM under a non-extractable
+ * key that is itself kept in IndexedDB: the key can be used by this origin
+ * but never read out, so health results are not stored in the clear. The
+ * record's cache key is bound as additional data, so a record cannot be
+ * replayed under another key. Records that fail to decrypt are discarded.
+ */
+
+export interface PersistentCacheTier<V> {
+  get(key: string): Promise<V | null>;
+  set(key: string, value: V, ttl: number): Promise<void>;
+  clear(): Promise<void>;
+  close(): void;
+}
+
+export interface EncryptedIndexedDBCacheOptions {
+  databaseName: string;
+}
+
+interface EncryptedRecord {
+  key: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  expiresAt: number;
+}
+
+const DATABASE_VERSION = 1;
+const RECORD_STORE = 'records';
+const KEY_STORE = 'keys';
+const ENCRYPTION_KEY_ID = 'results';
+
+export const DEFAULT_PERSISTENT_CACHE_OPTIONS: EncryptedIndexedDBCacheOptions = {
+  databaseName: 'biotwin360-analysis-cache'
+};
+
+/**
+ * Whether IndexedDB and Web Crypto are available (secure browser contexts)
+ */
+export function supportsEncryptedIndexedDB(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class EncryptedIndexedDBCache<V> implements PersistentCacheTier<V> {
+  private options: EncryptedIndexedDBCacheOptions;
+  private database: Promise<IDBDatabase> | null = null;
+  private encryptionKey: Promise<CryptoKey> | null = null;
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  constructor(options: Partial<EncryptedIndexedDBCacheOptions> = {}) {
+    this.options = { ...DEFAULT_PERSISTENT_CACHE_OPTIONS, ...options };
+  }
+
+  async get(key: string): Promise<V | null> {
+    const db = await this.open();
+    const record = await promisify<EncryptedRecord | undefined>(
+      db.transaction(RECORD_STORE).objectStore(RECORD_STORE).get(key)
+    );
+    if (!record) return null;
+
+    if (record.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: record.iv, additionalData: this.encoder.encode(key) },
+        await this.getEncryptionKey(),
+        record.data
+      );
+      return JSON.parse(this.decoder.decode(plaintext)) as V;
+    } catch {
+      // Tampered, or written under a key that has since been replaced
+      await this.delete(key);
+      return null;
+    }
+  }
+
+  async set(key: string, value: V, ttl: number): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: this.encoder.encode(key) },
+      await this.getEncryptionKey(),
+      this.encoder.encode(JSON.stringify(value))
+    );
+
+    const record: EncryptedRecord = { key, iv, data, expiresAt: Date.now() + ttl };
+    const db = await this.open();
+    await promisify(db.transaction(RECORD_STORE, 'readwrite').objectStore(RECORD_STORE).put(record));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    await promisify(db.transaction(RECORD_STORE, 'readwrite').objectStore(RECORD_STORE).clear());
+  }
+
+  close(): void {
+    void this.database?.then(db => db.close(), () => undefined);
+    this.database = null;
+    this.encryptionKey = null;
+  }
+
+  private async delete(key: string): Promise<void> {
+    const db = await this.open();
+    await promisify(db.transaction(RECORD_STORE, 'readwrite').objectStore(RECORD_STORE).delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.options.databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(RECORD_STORE, { keyPath: 'key' });
+        request.result.createObjectStore(KEY_STORE);
+      };
+      this.database = promisify(request);
+      // A failed open is retried by the next call
+      this.database.catch(() => { this.database = null; });
+    }
+    return this.database;
+  }
+
+  /**
+   * Load the origin's encryption key, generating it on first use
+   */
+  private getEncryptionKey(): Promise<CryptoKey> {
+    if (!this.encryptionKey) {
+      this.encryptionKey = (async () => {
+        const db = await this.open();
+        const stored = await promisify<CryptoKey | undefined>(
+          db.transaction(KEY_STORE).objectStore(KEY_STORE).get(ENCRYPTION_KEY_ID)
+        );
+        if (stored) return stored;
+
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        // Another tab may have stored a key meanwhile; add() keeps the first one
+        try {
+          await promisify(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).add(key, ENCRYPTION_KEY_ID));
+          return key;
+        } catch {
+          const winner = await promisify<CryptoKey | undefined>(
+            db.transaction(KEY_STORE).objectStore(KEY_STORE).get(ENCRYPTION_KEY_ID)
+          );
+          if (!winner) throw new Error('Failed to store the cache encryption key');
+          return winner;
+        }
+      })();
+      this.encryptionKey.catch(() => { this.encryptionKey = null; });
+    }
+    return this.encryptionKey;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Result Cache Tests
+ * Unit tests for the LRU cache, content hashing and the engine's cache tiers
+ */
+
+import { LRUCache } from '../LRUCache';
+import { PersistentCacheTier } from '../PersistentCache';
+import { canonicalJson, contentHash, sha256 } from '../contentHash';
+import { DigitalTwinEngine } from '../../engine/DigitalTwinEngine';
+import { PredictionResult } from '../../types/core';
+import { RenalModule } from '../../../modules/renal';
+
+function createMemoryTier(): PersistentCacheTier<PredictionResult[]> & { records: Map<string, PredictionResult[]> } {
+  const records = new Map<string, PredictionResult[]>();
+  return {
+    records,
+    get: async key => records.get(key) ?? null,
+    set: async (key, value) => { records.set(key, value); },
+    clear: async () => records.clear(),
+    close: () => {}
+  };
+}
+
+describe('LRUCache', () => {
+  test('should evict the least recently used entry', () => {
+    const cache = new LRUCache<number>(2, 60000);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.getStats()).toMatchObject({ size: 2, hits: 1, misses: 0, evictions: 1 });
+  });
+
+  test('should count expired entries as misses', () => {
+    let now = 0;
+    const cache = new LRUCache<number>(10, 1000, () => now);
+    cache.set('a', 1);
+    now = 1001;
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ size: 0, hits: 0, misses: 1, expirations: 1 });
+  });
+});
+
+describe('contentHash', () => {
+  test('should hash SHA-256 test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  test('should not depend on property order', () => {
+    expect(canonicalJson({ b: { y: 1, x: 2 }, a: [1, { d: undefined, c: 3 }] }))
+      .toBe('{"a":[1,{"c":3}],"b":{"x":2,"y":1}}');
+    expect(contentHash({ age: 58, sex: 'male' })).toBe(contentHash({ sex: 'male', age: 58 }));
+  });
+});
+
+describe('DigitalTwinEngine result cache', () => {
+  const input = { name: 'Test Patient', age: 58, sex: 'male' as const, creatinine: 1.4 };
+  let engine: DigitalTwinEngine;
+
+  beforeEach(() => {
+    engine = new DigitalTwinEngine();
+    engine.registerModule(new RenalModule());
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  test('should hit the cache when the same profile is entered again', async () => {
+    await engine.analyzeHealth({ ...input, measuredAt: 1000 });
+    await engine.analyzeHealth({ ...input, measuredAt: 2000 });
+
+    expect(engine.getCacheStats()).toMatchObject({ size: 1, hits: 1, misses: 1, hitRate: 50 });
+  });
+
+  test('should miss the cache after a module is reconfigured', async () => {
+    await engine.analyzeHealth(input);
+    engine.getModule('renal')!.updateConfig({ threshold: 0.9 });
+    await engine.analyzeHealth(input);
+
+    expect(engine.getCacheStats()).toMatchObject({ size: 2, hits: 0, misses: 2 });
+  });
+
+  test('should serve results from the persistent tier in a new session', async () => {
+    const tier = createMemoryTier();
+    engine.setPersistentCache(tier);
+    const results = await engine.analyzeHealth(input);
+
+    const nextSession = new DigitalTwinEngine();
+    nextSession.registerModule(new RenalModule());
+    nextSession.setPersistentCache(tier);
+    const analyzeSpy = jest.spyOn(nextSession.getModule('renal')!, 'analyze');
+
+    try {
+      expect(await nextSession.analyzeHealth(input)).toEqual(results);
+      expect(analyzeSpy).not.toHaveBeenCalled();
+      expect(nextSession.getCacheStats()).toMatchObject({ hits: 1, persistentHits: 1, size: 1 });
+    } finally {
+      nextSession.destroy();
+    }
+  });
+});
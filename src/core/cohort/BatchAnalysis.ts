@@ -0,0 +1,254 @@
+/**
+ * Batch Analysis
+ * Runs a cohort of health records through the engine and aggregates the results
+ *
+ * Results are streamed through an async iterator in completion order. The
+ * run is pulled by its consumer: only a bounded number of records are in
+ * flight, and no new record is started while the consumer is not reading,
+ * so very large cohorts neither flood the engine queue nor pile up in
+ * memory. A record that fails is reported and the batch continues; records
+ * that normalize to the same data share one analysis, or are served from
+ * the engine cache once it has been analyzed.
+ */
+
+import type { AnalyzeHealthOptions } from '../engine/DigitalTwinEngine';
+import { QueueFullError } from '../engine/AnalysisScheduler';
+import { throwIfAborted, abortableDelay } from '../engine/cancellation';
+import { HealthDataInput } from '../data/HealthDataNormalizer';
+import { PredictionResult } from '../types/core';
+import { CanonicalHealthData } from '../types/healthData';
+import { CohortAccumulator, CohortStatistics } from './CohortStatistics';
+
+export interface BatchOptions {
+  concurrency?: number; // Records in flight at once, default 4
+  signal?: AbortSignal;
+  tenantId?: string; // Defaults to the batch id, so the whole batch is fair-queued as one tenant
+  getRecordId?: (record: HealthDataInput, index: number) => string;
+  onProgress?: (progress: BatchProgress) => void;
+  onComplete?: (summary: BatchSummary) => void; // Also called when the run is stopped early
+}
+
+export interface BatchProgress {
+  batchId: string;
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  deduplicated: number;
+}
+
+export interface BatchRecordResult {
+  index: number;
+  recordId: string;
+  results?: PredictionResult[];
+  error?: string;
+  deduplicated: boolean; // Shared with an identical record or served from the cache
+}
+
+export interface BatchFailure {
+  index: number;
+  recordId: string;
+  error: string;
+  errorType: string; // Error class name, e.g. HealthDataValidationError
+}
+
+export interface BatchSummary {
+  batchId: string;
+  total: number;
+  completed: number; // Lower than total when the consumer stopped early
+  succeeded: number;
+  failed: number;
+  deduplicated: number;
+  failures: BatchFailure[];
+  statistics: CohortStatistics;
+  processingTime: number;
+}
+
+/**
+ * What the batch runner needs from the engine
+ */
+export interface BatchAnalyzer {
+  prepare(record: HealthDataInput): { healthData: CanonicalHealthData; cacheKey: string };
+  analyze(record: HealthDataInput, options: AnalyzeHealthOptions): Promise<PredictionResult[]>;
+  isCached(cacheKey: string): boolean;
+  maxInFlight: number; // Upper bound on concurrency, e.g. the per-tenant queue depth
+}
+
+interface RecordOutcome {
+  result: BatchRecordResult;
+  healthData?: CanonicalHealthData;
+  failure?: BatchFailure;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+// Retries when the engine queue is full because of other callers
+const QUEUE_FULL_RETRIES = 5;
+const QUEUE_FULL_RETRY_DELAY = 200;
+
+export class BatchRun implements AsyncIterable<BatchRecordResult> {
+  private iterator: AsyncGenerator<BatchRecordResult> | null;
+  private completion: Promise<BatchSummary>;
+  private settle!: { resolve: (summary: BatchSummary) => void; reject: (error: Error) => void };
+
+  constructor(
+    readonly batchId: string,
+    private records: HealthDataInput[],
+    private analyzer: BatchAnalyzer,
+    private options: BatchOptions = {}
+  ) {
+    this.completion = new Promise<BatchSummary>((resolve, reject) => {
+      this.settle = { resolve, reject };
+    });
+    // Callers that only iterate never read the summary
+    this.completion.catch(() => {});
+    this.iterator = this.run();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<BatchRecordResult> {
+    if (!this.iterator) {
+      throw new Error(`Batch ${this.batchId} is already being consumed`);
+    }
+    const iterator = this.iterator;
+    this.iterator = null;
+    return iterator;
+  }
+
+  /**
+   * Resolve with the batch summary once every record has been processed.
+   * Runs the batch to completion if nobody is iterating it.
+   */
+  async summary(): Promise<BatchSummary> {
+    if (this.iterator) {
+      for await (const _ of this) {
+        // Results are only aggregated
+      }
+    }
+    return this.completion;
+  }
+
+  private async *run(): AsyncGenerator<BatchRecordResult> {
+    const startTime = Date.now();
+    const { signal, onProgress } = this.options;
+    const limit = Math.max(1, Math.min(this.options.concurrency ?? DEFAULT_CONCURRENCY, this.analyzer.maxInFlight));
+
+    // Stops in-flight analyses when the consumer stops early
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const statistics = new CohortAccumulator();
+    const failures: BatchFailure[] = [];
+    const progress: BatchProgress = {
+      batchId: this.batchId,
+      total: this.records.length,
+      completed: 0,
+      succeeded: 0,
+      failed: 0,
+      deduplicated: 0
+    };
+    const inFlight = new Map<number, Promise<RecordOutcome>>();
+    const pending = new Map<string, Promise<PredictionResult[]>>();
+    let nextIndex = 0;
+
+    try {
+      throwIfAborted(signal);
+
+      while (nextIndex < this.records.length || inFlight.size > 0) {
+        while (inFlight.size < limit && nextIndex < this.records.length) {
+          const index = nextIndex++;
+          inFlight.set(index, this.analyzeRecord(index, pending, controller.signal));
+        }
+
+        const { result, healthData, failure } = await Promise.race(inFlight.values());
+        inFlight.delete(result.index);
+        throwIfAborted(signal);
+
+        progress.completed++;
+        if (result.deduplicated) progress.deduplicated++;
+        if (failure) {
+          progress.failed++;
+          failures.push(failure);
+        } else {
+          progress.succeeded++;
+          statistics.add(healthData!, result.results!);
+        }
+        onProgress?.({ ...progress });
+
+        yield result;
+      }
+    } catch (error) {
+      this.settle.reject(error as Error);
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      controller.abort();
+
+      const summary: BatchSummary = {
+        batchId: this.batchId,
+        total: progress.total,
+        completed: progress.completed,
+        succeeded: progress.succeeded,
+        failed: progress.failed,
+        deduplicated: progress.deduplicated,
+        failures,
+        statistics: statistics.toStatistics(),
+        processingTime: Date.now() - startTime
+      };
+      this.settle.resolve(summary);
+      this.options.onComplete?.(summary);
+    }
+  }
+
+  /**
+   * Analyze one record; never rejects, failures are returned as results
+   */
+  private async analyzeRecord(
+    index: number,
+    pending: Map<string, Promise<PredictionResult[]>>,
+    signal: AbortSignal
+  ): Promise<RecordOutcome> {
+    const record = this.records[index];
+    const recordId = this.options.getRecordId?.(record, index) ?? String(index);
+    let deduplicated = false;
+
+    try {
+      const { healthData, cacheKey } = this.analyzer.prepare(record);
+      let analysis = pending.get(cacheKey);
+
+      if (analysis) {
+        deduplicated = true;
+      } else {
+        deduplicated = this.analyzer.isCached(cacheKey);
+        analysis = this.analyzeWithBackoff(record, signal);
+        pending.set(cacheKey, analysis);
+        // Once settled, later duplicates are served by the engine cache
+        analysis.then(() => pending.delete(cacheKey), () => pending.delete(cacheKey));
+      }
+
+      return { result: { index, recordId, results: await analysis, deduplicated }, healthData };
+    } catch (error) {
+      const { message, name } = error as Error;
+      return {
+        result: { index, recordId, error: message, deduplicated },
+        failure: { index, recordId, error: message, errorType: name }
+      };
+    }
+  }
+
+  private async analyzeWithBackoff(record: HealthDataInput, signal: AbortSignal): Promise<PredictionResult[]> {
+    const options: AnalyzeHealthOptions = {
+      signal,
+      priority: 'batch',
+      tenantId: this.options.tenantId ?? this.batchId
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.analyzer.analyze(record, options);
+      } catch (error) {
+        if (!(error instanceof QueueFullError) || attempt > QUEUE_FULL_RETRIES) throw error;
+        await abortableDelay(QUEUE_FULL_RETRY_DELAY * attempt, signal);
+      }
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Cohort Statistics
+ * Aggregate risk statistics over a cohort of analyzed patient records
+ *
+ * Results are accumulated record by record so a batch of thousands of
+ * records can be summarized without keeping every result in memory. The
+ * summary has the shape of the analytics dashboard's PopulationMetrics,
+ * extended with the full risk distribution of every organ. Fields that a
+ * batch of snapshots cannot provide (regions, organ trends over time and
+ * recommendation effectiveness, which needs follow-up outcomes) are left
+ * empty or at 0.
+ */
+
+import { PredictionResult } from '../types/core';
+import { CanonicalHealthData } from '../types/healthData';
+
+export interface PopulationMetrics {
+  totalAnalyses: number;
+  averageRiskScore: number;
+  riskDistribution: { level: string; count: number; percentage: number }[];
+  organRisks: { organ: string; averageRisk: number; trend: number }[];
+  ageGroups: { group: string; count: number; averageRisk: number }[];
+  genderDistribution: { gender: string; count: number; averageRisk: number }[];
+  geographicData: { region: string; count: number; averageRisk: number }[];
+  timeSeriesData: { date: string; analyses: number; averageRisk: number }[];
+  topRiskFactors: { factor: string; prevalence: number; impact: number }[];
+  recommendations: { category: string; frequency: number; effectiveness: number }[];
+}
+
+export interface OrganRiskDistribution {
+  moduleId: string;
+  organ: string;
+  analyzed: number;
+  failed: number;
+  averageRisk: number;
+  levels: Record<PredictionResult['riskLevel'], number>;
+  percentiles: { p25: number; p50: number; p75: number; p90: number };
+}
+
+export interface CohortStatistics extends PopulationMetrics {
+  organDistributions: OrganRiskDistribution[];
+}
+
+// Same bands as the dashboard's global risk distribution
+const RISK_BANDS: Array<{ level: string; min: number }> = [
+  { level: 'High', min: 60 },
+  { level: 'Moderate', min: 30 },
+  { level: 'Low', min: 0 }
+];
+
+const AGE_GROUPS: Array<{ group: string; maxAge: number }> = [
+  { group: '18-30', maxAge: 30 },
+  { group: '31-45', maxAge: 45 },
+  { group: '46-60', maxAge: 60 },
+  { group: '61-75', maxAge: 75 },
+  { group: '75+', maxAge: Infinity }
+];
+
+const TOP_RISK_FACTORS = 10;
+
+interface RunningAverage {
+  count: number;
+  total: number;
+}
+
+const average = ({ count, total }: RunningAverage) => count > 0 ? Math.round((total / count) * 10) / 10 : 0;
+const percentage = (count: number, of: number) => of > 0 ? Math.round((count / of) * 1000) / 10 : 0;
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function addTo<K>(map: Map<K, RunningAverage>, key: K, value: number): void {
+  const entry = map.get(key) ?? { count: 0, total: 0 };
+  entry.count++;
+  entry.total += value;
+  map.set(key, entry);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Mean score of the modules that produced a result
+ */
+export function globalRiskScore(results: PredictionResult[]): number | null {
+  const valid = results.filter(r => !r.error);
+  return valid.length > 0 ? valid.reduce((sum, r) => sum + r.riskScore, 0) / valid.length : null;
+}
+
+export class CohortAccumulator {
+  private global: RunningAverage = { count: 0, total: 0 };
+  private bands = new Map<string, number>();
+  private ageGroups = new Map<string, RunningAverage>();
+  private genders = new Map<string, RunningAverage>();
+  private dates = new Map<string, RunningAverage>();
+  private organScores = new Map<string, number[]>();
+  private organFailures = new Map<string, number>();
+  private organLevels = new Map<string, Record<PredictionResult['riskLevel'], number>>();
+  private factorImpacts = new Map<string, RunningAverage>();
+  private factorPrevalence = new Map<string, number>();
+  private recommendationCategories = new Map<string, number>();
+
+  /**
+   * Add the results of one analyzed record. Failed module results only
+   * count towards their organ's failures; a record without any valid
+   * result is left out of the population figures.
+   */
+  add(healthData: CanonicalHealthData, results: PredictionResult[]): void {
+    const valid = results.filter(result => !result.error);
+    results.filter(result => result.error).forEach(({ moduleId }) => {
+      this.organFailures.set(moduleId, (this.organFailures.get(moduleId) ?? 0) + 1);
+    });
+
+    const risk = globalRiskScore(valid);
+    if (risk === null) return;
+
+    this.global.count++;
+    this.global.total += risk;
+
+    const band = RISK_BANDS.find(b => risk >= b.min)!.level;
+    this.bands.set(band, (this.bands.get(band) ?? 0) + 1);
+    addTo(this.ageGroups, AGE_GROUPS.find(g => healthData.age <= g.maxAge)!.group, risk);
+    addTo(this.genders, capitalize(healthData.sex), risk);
+    addTo(this.dates, new Date(healthData.timestamp).toISOString().split('T')[0], risk);
+
+    const factors = new Set<string>();
+    const categories = new Set<string>();
+
+    for (const result of valid) {
+      this.organScores.set(result.moduleId, [...(this.organScores.get(result.moduleId) ?? []), result.riskScore]);
+      const levels = this.organLevels.get(result.moduleId) ?? { low: 0, moderate: 0, high: 0, critical: 0 };
+      levels[result.riskLevel]++;
+      this.organLevels.set(result.moduleId, levels);
+
+      result.riskFactors.forEach(factor => factors.add(factor.name));
+      result.recommendations.forEach(recommendation => categories.add(recommendation.category));
+      result.contributions?.forEach(contribution => addTo(this.factorImpacts, contribution.label, contribution.points));
+    }
+
+    factors.forEach(factor => this.factorPrevalence.set(factor, (this.factorPrevalence.get(factor) ?? 0) + 1));
+    categories.forEach(category => {
+      this.recommendationCategories.set(category, (this.recommendationCategories.get(category) ?? 0) + 1);
+    });
+  }
+
+  get count(): number {
+    return this.global.count;
+  }
+
+  toStatistics(): CohortStatistics {
+    const total = this.global.count;
+    const moduleIds = Array.from(new Set([...this.organScores.keys(), ...this.organFailures.keys()]));
+
+    const organDistributions: OrganRiskDistribution[] = moduleIds.map(moduleId => {
+      const scores = [...(this.organScores.get(moduleId) ?? [])].sort((a, b) => a - b);
+      return {
+        moduleId,
+        organ: capitalize(moduleId),
+        analyzed: scores.length,
+        failed: this.organFailures.get(moduleId) ?? 0,
+        averageRisk: average({ count: scores.length, total: scores.reduce((sum, s) => sum + s, 0) }),
+        levels: this.organLevels.get(moduleId) ?? { low: 0, moderate: 0, high: 0, critical: 0 },
+        percentiles: {
+          p25: percentile(scores, 0.25),
+          p50: percentile(scores, 0.5),
+          p75: percentile(scores, 0.75),
+          p90: percentile(scores, 0.9)
+        }
+      };
+    });
+
+    return {
+      totalAnalyses: total,
+      averageRiskScore: average(this.global),
+      riskDistribution: [...RISK_BANDS].reverse().map(({ level }) => ({
+        level,
+        count: this.bands.get(level) ?? 0,
+        percentage: percentage(this.bands.get(level) ?? 0, total)
+      })),
+      organRisks: organDistributions.map(({ organ, averageRisk }) => ({ organ, averageRisk, trend: 0 })),
+      ageGroups: AGE_GROUPS.map(({ group }) => ({
+        group,
+        count: this.ageGroups.get(group)?.count ?? 0,
+        averageRisk: average(this.ageGroups.get(group) ?? { count: 0, total: 0 })
+      })),
+      genderDistribution: Array.from(this.genders.entries()).map(([gender, risk]) => ({
+        gender,
+        count: risk.count,
+        averageRisk: average(risk)
+      })),
+      geographicData: [],
+      timeSeriesData: Array.from(this.dates.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, risk]) => ({ date, analyses: risk.count, averageRisk: average(risk) })),
+      topRiskFactors: Array.from(this.factorPrevalence.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, TOP_RISK_FACTORS)
+        .map(([factor, count]) => ({
+          factor,
+          prevalence: percentage(count, total),
+          // Mean risk points the factor added where it applied
+          impact: average(this.factorImpacts.get(factor) ?? { count: 0, total: 0 })
+        })),
+      recommendations: Array.from(this.recommendationCategories.entries()).map(([category, count]) => ({
+        category: capitalize(category),
+        frequency: percentage(count, total),
+        effectiveness: 0
+      })),
+      organDistributions
+    };
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Batch Analysis Tests
+ * Unit tests for cohort analysis through the digital twin engine
+ */
+
+import { DigitalTwinEngine } from '../../engine/DigitalTwinEngine';
+import { OrganModule } from '../../types/core';
+import { createStubModule } from '../../../tests/setup';
+
+// Scores each record by age; fails for records older than 90
+function createAgeModule(onAnalyze: () => void): OrganModule {
+  return createStubModule('age', {
+    analyze: healthData => {
+      onAnalyze();
+      if (healthData.age > 90) throw new Error('Age out of model range');
+      return {
+        riskScore: healthData.age,
+        riskLevel: healthData.age >= 60 ? 'high' : 'low',
+        riskFactors: healthData.age >= 60 ? [{
+          id: 'advanced_age',
+          name: 'Advanced Age',
+          value: healthData.age,
+          severity: 'high',
+          description: 'Age of 60 years or older',
+          modifiable: false
+        }] : []
+      };
+    }
+  });
+}
+
+describe('DigitalTwinEngine.analyzeBatch', () => {
+  const measuredAt = Date.parse('2026-01-05');
+  const record = (name: string, age: number) => ({ name, age, sex: 'female' as const, measuredAt });
+  let analyses: number;
+  let engine: DigitalTwinEngine;
+
+  beforeEach(() => {
+    analyses = 0;
+    engine = new DigitalTwinEngine({
+      retryAttempts: 1,
+      validationMode: 'off',
+      cacheEnabled: false,
+      performanceMonitoring: false
+    });
+    engine.registerModule(createAgeModule(() => analyses++));
+  });
+
+  test('should stream one result per record and report progress', async () => {
+    const progress = jest.fn();
+    engine.on('batchProgress', progress);
+
+    const run = engine.analyzeBatch([record('a', 40), record('b', 70), record('c', 50)], {
+      getRecordId: r => (r as { name: string }).name
+    });
+    const recordIds: string[] = [];
+    for await (const result of run) recordIds.push(result.recordId);
+
+    expect(recordIds.sort()).toEqual(['a', 'b', 'c']);
+    expect(progress).toHaveBeenCalledTimes(3);
+    expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 3, total: 3, succeeded: 3 }));
+  });
+
+  test('should deduplicate identical records', async () => {
+    const summary = await engine.analyzeBatch([record('a', 40), record('a', 40), record('b', 50)]).summary();
+
+    expect(summary.succeeded).toBe(3);
+    expect(summary.deduplicated).toBe(1);
+    expect(analyses).toBe(2);
+  });
+
+  test('should aggregate cohort statistics', async () => {
+    const { statistics } = await engine.analyzeBatch([record('a', 40), record('b', 70), record('c', 20)]).summary();
+
+    expect(statistics.totalAnalyses).toBe(3);
+    expect(statistics.averageRiskScore).toBeCloseTo(43.3);
+    expect(statistics.riskDistribution.map(band => band.count)).toEqual([1, 1, 1]);
+    expect(statistics.organDistributions[0]).toMatchObject({
+      moduleId: 'age',
+      analyzed: 3,
+      levels: { low: 2, moderate: 0, high: 1, critical: 0 }
+    });
+    expect(statistics.topRiskFactors[0]).toMatchObject({ factor: 'Advanced Age', prevalence: 33.3 });
+  });
+
+  test('should leave failed module results out of the statistics', async () => {
+    const { statistics, failed } = await engine.analyzeBatch([record('a', 40), record('b', 95)]).summary();
+
+    // The engine reports module failures as error results, not as failed records
+    expect(failed).toBe(0);
+    expect(statistics.totalAnalyses).toBe(1);
+    expect(statistics.organDistributions[0]).toMatchObject({ analyzed: 1, failed: 1 });
+  });
+
+  test('should report invalid records as failures and continue', async () => {
+    engine.updateConfig({ validationMode: 'strict' });
+
+    const summary = await engine.analyzeBatch([record('a', 40), record('b', -5)]).summary();
+
+    expect(summary.succeeded).toBe(1);
+    expect(summary.failures).toEqual([
+      expect.objectContaining({ index: 1, recordId: '1', errorType: 'HealthDataValidationError' })
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Health Data Normalizer
+ * Maps every supported input representation onto the canonical schema
+ *
+ * Supported inputs:
+ * - Core HealthData (core/types/core.ts)
+ * - Legacy PatientData (types/patient.ts)
+ * - App form input (PatientFormInput)
+ * - Already canonical data (re-normalized to fill derived fields)
+ */
+
+import { HealthData } from '../types/core';
+import {
+  CanonicalHealthData,
+  CanonicalField,
+  FlagField,
+  HEALTH_DATA_SCHEMA_VERSION,
+  ActivityLevel,
+  LifestyleLevel,
+  PatientFormInput
+} from '../types/healthData';
+import { PatientData } from '../../types/patient';
+import { resolveQuantity, isQuantity, getCanonicalUnit, QuantityInput } from '../units/UnitConverter';
+import { UnitCode } from '../units/unitRegistry';
+
+export type HealthDataInput = HealthData | PatientData | PatientFormInput | CanonicalHealthData;
+
+// Chronic condition labels that map onto canonical history flags
+const CONDITION_FLAGS: Array<[FlagField, string[]]> = [
+  ['diabetes', ['diabetes']],
+  ['cardiovascularDisease', ['cardiovascular', 'heart_disease', 'coronary']],
+  ['atrialFibrillation', ['atrial_fibrillation', 'afib']],
+  ['chronicKidneyDisease', ['kidney_disease', 'ckd']],
+  ['depression', ['depression']],
+  ['anxiety', ['anxiety']],
+  ['asthmaHistory', ['asthma']],
+  ['sleepApnea', ['sleep_apnea']],
+  ['osteoporosis', ['osteoporosis']],
+  ['arthritis', ['arthritis']]
+];
+
+// Canonical field -> App form input name, used to render validation issues inline
+export const PATIENT_FORM_FIELDS: Partial<Record<CanonicalField, keyof PatientFormInput>> = {
+  age: 'age',
+  sex: 'sex',
+  height: 'height',
+  weight: 'weight',
+  bmi: 'weight',
+  bloodPressureSystolic: 'systolicBP',
+  bloodPressureDiastolic: 'diastolicBP',
+  totalCholesterol: 'totalCholesterol',
+  hdlCholesterol: 'hdlCholesterol',
+  glucose: 'glucose',
+  creatinine: 'creatinine',
+  smokingStatus: 'smokingStatus',
+  physicalActivity: 'activityLevel'
+};
+
+/**
+ * Check whether the input is already in canonical form
+ */
+export function isCanonicalHealthData(input: HealthDataInput): input is CanonicalHealthData {
+  return typeof (input as CanonicalHealthData).schemaVersion === 'string';
+}
+
+function isPatientData(input: HealthDataInput): input is PatientData {
+  return typeof (input as PatientData).bloodPressure === 'object';
+}
+
+function isPatientFormInput(input: HealthDataInput): input is PatientFormInput {
+  return typeof (input as PatientFormInput).name === 'string' && !('gender' in input);
+}
+
+/**
+ * Normalize any supported input into CanonicalHealthData
+ */
+export function normalizeHealthData(input: HealthDataInput): CanonicalHealthData {
+  let canonical: CanonicalHealthData;
+
+  if (isCanonicalHealthData(input)) {
+    canonical = { ...input, schemaVersion: HEALTH_DATA_SCHEMA_VERSION };
+  } else if (isPatientData(input)) {
+    canonical = fromPatientData(input);
+  } else if (isPatientFormInput(input)) {
+    canonical = fromPatientForm(input);
+  } else {
+    canonical = fromCoreHealthData(input);
+  }
+
+  return deriveFields(canonical);
+}
+
+/**
+ * Map the core engine HealthData shape
+ */
+export function fromCoreHealthData(data: HealthData): CanonicalHealthData {
+  return {
+    schemaVersion: HEALTH_DATA_SCHEMA_VERSION,
+    timestamp: data.timestamp || Date.now(),
+    age: data.age,
+    sex: data.gender,
+    height: data.height,
+    weight: data.weight,
+    bloodPressureSystolic: data.systolicBP,
+    bloodPressureDiastolic: data.diastolicBP,
+    heartRate: data.heartRate,
+    restingHeartRate: data.restingHeartRate,
+    temperature: data.temperature,
+    totalCholesterol: data.cholesterolTotal,
+    ldlCholesterol: data.cholesterolLDL,
+    hdlCholesterol: data.cholesterolHDL,
+    triglycerides: data.triglycerides,
+    glucose: data.glucose,
+    hba1c: data.hba1c,
+    creatinine: data.creatinine,
+    bun: data.bun,
+    alt: data.alt,
+    ast: data.ast,
+    totalBilirubin: data.bilirubin,
+    crp: data.inflammatoryMarkers?.crp,
+    esr: data.inflammatoryMarkers?.esr,
+    il6: data.inflammatoryMarkers?.il6,
+    smokingStatus: data.smokingStatus,
+    alcohol: data.alcoholConsumption,
+    physicalActivity: mapExerciseFrequency(data.exerciseFrequency),
+    dietQuality: data.dietQuality,
+    sleepHours: data.sleepHours,
+    stress: mapStressLevel(data.stressLevel),
+    familyHistory: data.familyHistory,
+    medications: data.medications,
+    allergies: data.allergies,
+    chronicConditions: data.chronicConditions,
+    steps: data.steps,
+    activeMinutes: data.activeMinutes,
+    vo2Max: data.vo2Max,
+    hrv: data.hrv
+  };
+}
+
+/**
+ * Map the legacy PatientData shape used by PatientForm
+ */
+export function fromPatientData(data: PatientData): CanonicalHealthData {
+  return {
+    schemaVersion: HEALTH_DATA_SCHEMA_VERSION,
+    timestamp: Date.now(),
+    age: data.age,
+    sex: data.sex,
+    bmi: data.bmi,
+    bloodPressureSystolic: data.bloodPressure.systolic,
+    bloodPressureDiastolic: data.bloodPressure.diastolic,
+    totalCholesterol: data.cholesterol,
+    glucose: data.glucose,
+    smokingStatus: data.smokingStatus,
+    physicalActivity: data.exerciseLevel === 'vigorous' ? 'active' : data.exerciseLevel
+  };
+}
+
+/**
+ * Map the App.tsx analysis form input, converting quantities to canonical units
+ */
+export function fromPatientForm(data: PatientFormInput): CanonicalHealthData {
+  const sourceUnits: Partial<Record<CanonicalField, UnitCode>> = {};
+  const quantity = (field: CanonicalField, input: QuantityInput | undefined) => {
+    if (isQuantity(input) && input.unit !== getCanonicalUnit(field)) {
+      sourceUnits[field] = input.unit;
+    }
+    return resolveQuantity(field, input);
+  };
+
+  const canonical: CanonicalHealthData = {
+    schemaVersion: HEALTH_DATA_SCHEMA_VERSION,
+    timestamp: data.measuredAt ?? Date.now(),
+    age: data.age,
+    sex: data.sex,
+    height: quantity('height', data.height),
+    weight: quantity('weight', data.weight),
+    bloodPressureSystolic: data.systolicBP,
+    bloodPressureDiastolic: data.diastolicBP,
+    totalCholesterol: quantity('totalCholesterol', data.totalCholesterol),
+    hdlCholesterol: quantity('hdlCholesterol', data.hdlCholesterol),
+    glucose: quantity('glucose', data.glucose),
+    creatinine: quantity('creatinine', data.creatinine),
+    smokingStatus: data.smokingStatus,
+    physicalActivity: data.activityLevel
+  };
+
+  if (Object.keys(sourceUnits).length > 0) {
+    canonical.sourceUnits = sourceUnits;
+  }
+  return canonical;
+}
+
+/**
+ * Fill fields that can be derived from other canonical fields
+ */
+function deriveFields(data: CanonicalHealthData): CanonicalHealthData {
+  const derived: CanonicalHealthData = { ...data };
+
+  if (derived.bmi === undefined && derived.weight && derived.height) {
+    const heightM = derived.height / 100;
+    derived.bmi = Math.round((derived.weight / (heightM * heightM)) * 10) / 10;
+  }
+
+  if (derived.smoking === undefined && derived.smokingStatus) {
+    derived.smoking = derived.smokingStatus === 'current';
+  }
+  if (derived.smokingStatus === undefined && derived.smoking !== undefined) {
+    derived.smokingStatus = derived.smoking ? 'current' : 'never';
+  }
+
+  if (derived.alcohol === undefined && derived.alcoholUnitsPerWeek !== undefined) {
+    derived.alcohol = alcoholLevelFromUnits(derived.alcoholUnitsPerWeek);
+  }
+
+  if (derived.restingHeartRate === undefined && derived.heartRate !== undefined) {
+    derived.restingHeartRate = derived.heartRate;
+  }
+
+  const conditions = (derived.chronicConditions || []).map(c => c.toLowerCase().replace(/[\s-]+/g, '_'));
+  for (const [flag, labels] of CONDITION_FLAGS) {
+    if (derived[flag] === undefined && conditions.some(c => labels.some(label => c.includes(label)))) {
+      derived[flag] = true;
+    }
+  }
+
+  return stripUndefined(derived);
+}
+
+function mapExerciseFrequency(frequency: HealthData['exerciseFrequency'] | undefined): ActivityLevel | undefined {
+  switch (frequency) {
+    case 'none': return 'sedentary';
+    case 'light': return 'light';
+    case 'moderate': return 'moderate';
+    case 'intense': return 'active';
+    default: return undefined;
+  }
+}
+
+function mapStressLevel(level: number | undefined): CanonicalHealthData['stress'] {
+  if (level === undefined) return undefined;
+  if (level <= 3) return 'low';
+  if (level <= 6) return 'moderate';
+  return 'high';
+}
+
+function alcoholLevelFromUnits(units: number): LifestyleLevel {
+  if (units <= 0) return 'none';
+  if (units <= 7) return 'light';
+  if (units <= 14) return 'moderate';
+  return 'heavy';
+}
+
+function stripUndefined<T extends object>(data: T): T {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as T;
+}
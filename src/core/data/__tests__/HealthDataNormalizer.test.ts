@@ -0,0 +1,105 @@
+/**
+ * Health Data Normalizer Tests
+ * Unit tests for mapping input shapes onto the canonical schema
+ */
+
+import { normalizeHealthData } from '../HealthDataNormalizer';
+import { HEALTH_DATA_SCHEMA_VERSION } from '../../types/healthData';
+import { HealthData } from '../../types/core';
+import { PatientData } from '../../../types/patient';
+
+describe('HealthDataNormalizer', () => {
+  const coreHealthData: HealthData = {
+    age: 52,
+    gender: 'male',
+    height: 180,
+    weight: 90,
+    systolicBP: 142,
+    diastolicBP: 91,
+    heartRate: 72,
+    temperature: 36.8,
+    cholesterolTotal: 230,
+    cholesterolLDL: 150,
+    cholesterolHDL: 38,
+    triglycerides: 180,
+    glucose: 105,
+    hba1c: 5.9,
+    creatinine: 1.1,
+    bun: 15,
+    alt: 30,
+    ast: 28,
+    bilirubin: 0.9,
+    smokingStatus: 'current',
+    alcoholConsumption: 'moderate',
+    exerciseFrequency: 'none',
+    dietQuality: 'fair',
+    sleepHours: 6,
+    stressLevel: 8,
+    familyHistory: ['heart_disease'],
+    medications: [],
+    allergies: [],
+    chronicConditions: ['Type 2 Diabetes'],
+    inflammatoryMarkers: { crp: 4.2, esr: 12 },
+    timestamp: 1700000000000
+  };
+
+  test('should map core HealthData field names onto canonical names', () => {
+    const canonical = normalizeHealthData(coreHealthData);
+
+    expect(canonical.schemaVersion).toBe(HEALTH_DATA_SCHEMA_VERSION);
+    expect(canonical.sex).toBe('male');
+    expect(canonical.bloodPressureSystolic).toBe(142);
+    expect(canonical.totalCholesterol).toBe(230);
+    expect(canonical.hdlCholesterol).toBe(38);
+    expect(canonical.totalBilirubin).toBe(0.9);
+    expect(canonical.crp).toBe(4.2);
+    expect(canonical.timestamp).toBe(1700000000000);
+  });
+
+  test('should derive lifestyle and history fields', () => {
+    const canonical = normalizeHealthData(coreHealthData);
+
+    expect(canonical.bmi).toBeCloseTo(27.8, 1);
+    expect(canonical.smoking).toBe(true);
+    expect(canonical.physicalActivity).toBe('sedentary');
+    expect(canonical.stress).toBe('high');
+    expect(canonical.diabetes).toBe(true);
+  });
+
+  test('should map legacy PatientData', () => {
+    const patientData: PatientData = {
+      age: 40,
+      sex: 'female',
+      bloodPressure: { systolic: 118, diastolic: 76 },
+      cholesterol: 190,
+      glucose: 88,
+      bmi: 23,
+      smokingStatus: 'former',
+      exerciseLevel: 'vigorous'
+    };
+
+    const canonical = normalizeHealthData(patientData);
+
+    expect(canonical.bloodPressureSystolic).toBe(118);
+    expect(canonical.bloodPressureDiastolic).toBe(76);
+    expect(canonical.totalCholesterol).toBe(190);
+    expect(canonical.smoking).toBe(false);
+    expect(canonical.physicalActivity).toBe('active');
+  });
+
+  test('should map app form input and omit fields that were not provided', () => {
+    const canonical = normalizeHealthData({
+      name: 'Test Patient',
+      age: 35,
+      sex: 'male',
+      weight: 70,
+      height: 175,
+      systolicBP: 125
+    });
+
+    expect(canonical.bloodPressureSystolic).toBe(125);
+    expect(canonical.bmi).toBeCloseTo(22.9, 1);
+    expect('creatinine' in canonical).toBe(false);
+    expect('name' in canonical).toBe(false);
+  });
+});
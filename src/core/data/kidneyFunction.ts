@@ -0,0 +1,42 @@
+/**
+ * Kidney Function
+ * Estimated glomerular filtration rate from canonical health data
+ *
+ * Shared by the renal module, which scores it, and the patient timeline,
+ * which follows it as a derived biomarker.
+ */
+
+import { CanonicalHealthData } from '../types/healthData';
+
+/**
+ * Calculate estimated Glomerular Filtration Rate using CKD-EPI equation.
+ * Returns undefined when creatinine is not available rather than assuming normal function.
+ */
+export function calculateGFR(healthData: CanonicalHealthData): number | undefined {
+  if (!healthData.creatinine || !healthData.age) {
+    return undefined;
+  }
+
+  const creatinine = healthData.creatinine; // mg/dL
+  const age = healthData.age;
+  const isFemale = healthData.sex === 'female';
+
+  // CKD-EPI equation (2021 version without race coefficient)
+  let gfr: number;
+  
+  if (isFemale) {
+    if (creatinine <= 0.7) {
+      gfr = 144 * Math.pow(creatinine / 0.7, -0.329) * Math.pow(0.993, age);
+    } else {
+      gfr = 144 * Math.pow(creatinine / 0.7, -1.209) * Math.pow(0.993, age);
+    }
+  } else {
+    if (creatinine <= 0.9) {
+      gfr = 141 * Math.pow(creatinine / 0.9, -0.411) * Math.pow(0.993, age);
+    } else {
+      gfr = 141 * Math.pow(creatinine / 0.9, -1.209) * Math.pow(0.993, age);
+    }
+  }
+
+  return Math.max(0, gfr);
+}
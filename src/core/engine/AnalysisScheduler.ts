@@ -0,0 +1,172 @@
+/**
+ * Analysis Scheduler
+ * Priority queue with per-tenant fairness for the engine's pending analyses
+ *
+ * Queued analyses are served strictly by priority: interactive requests
+ * from the UI first, then batch jobs, then background re-analyses. Within
+ * a priority, tenants (patients or client organisations) are served
+ * round-robin, so a tenant with a large backlog cannot starve the others.
+ * The queue depth is bounded overall and per tenant; enqueueing beyond a
+ * limit throws a QueueFullError so callers can back off and retry.
+ */
+
+export type AnalysisPriority = 'interactive' | 'batch' | 'background';
+
+// Highest priority first
+export const ANALYSIS_PRIORITIES: AnalysisPriority[] = ['interactive', 'batch', 'background'];
+
+export const DEFAULT_TENANT_ID = 'default';
+
+export interface SchedulableItem {
+  id: string;
+  tenantId: string;
+  priority: AnalysisPriority;
+  timestamp: number; // When the item was queued
+}
+
+export interface SchedulerLimits {
+  maxQueueDepth: number;
+  maxQueueDepthPerTenant: number;
+}
+
+export interface SchedulerStats {
+  queued: number;
+  byPriority: Record<AnalysisPriority, number>;
+  tenants: number;
+  oldestTimestamp: number | null;
+}
+
+/**
+ * Thrown when an analysis cannot be queued because a depth limit is reached
+ */
+export class QueueFullError extends Error {
+  readonly limit: 'queue' | 'tenant';
+  readonly maxDepth: number;
+  readonly tenantId: string;
+
+  constructor(limit: 'queue' | 'tenant', maxDepth: number, tenantId: string) {
+    super(limit === 'queue'
+      ? `Analysis queue is full (${maxDepth} pending analyses)`
+      : `Analysis queue is full for tenant ${tenantId} (${maxDepth} pending analyses)`);
+    this.name = 'QueueFullError';
+    this.limit = limit;
+    this.maxDepth = maxDepth;
+    this.tenantId = tenantId;
+  }
+}
+
+export class AnalysisScheduler<T extends SchedulableItem> {
+  // Per priority, each tenant's items in FIFO order; the Map's insertion order is the round-robin order
+  private queues = new Map<AnalysisPriority, Map<string, T[]>>(
+    ANALYSIS_PRIORITIES.map(priority => [priority, new Map()])
+  );
+  private tenantDepths = new Map<string, number>();
+  private size = 0;
+
+  constructor(private getLimits: () => SchedulerLimits) {}
+
+  get length(): number {
+    return this.size;
+  }
+
+  /**
+   * Queue an item behind the other items of its tenant and priority
+   */
+  enqueue(item: T): void {
+    const { maxQueueDepth, maxQueueDepthPerTenant } = this.getLimits();
+    const tenantDepth = this.tenantDepths.get(item.tenantId) ?? 0;
+
+    if (this.size >= maxQueueDepth) {
+      throw new QueueFullError('queue', maxQueueDepth, item.tenantId);
+    }
+    if (tenantDepth >= maxQueueDepthPerTenant) {
+      throw new QueueFullError('tenant', maxQueueDepthPerTenant, item.tenantId);
+    }
+
+    const tenants = this.queues.get(item.priority)!;
+    tenants.set(item.tenantId, [...(tenants.get(item.tenantId) ?? []), item]);
+    this.tenantDepths.set(item.tenantId, tenantDepth + 1);
+    this.size++;
+  }
+
+  /**
+   * Take the next item: the highest priority with pending items, and within
+   * it the tenant whose turn it is
+   */
+  next(): T | undefined {
+    for (const priority of ANALYSIS_PRIORITIES) {
+      const tenants = this.queues.get(priority)!;
+      const turn = tenants.entries().next();
+      if (turn.done) continue;
+
+      const [tenantId, [item, ...rest]] = turn.value;
+      // Move the tenant to the back of the rotation
+      tenants.delete(tenantId);
+      if (rest.length > 0) tenants.set(tenantId, rest);
+
+      this.release(item);
+      return item;
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove a pending item; returns false when it is no longer queued
+   */
+  remove(item: T): boolean {
+    const tenants = this.queues.get(item.priority)!;
+    const items = tenants.get(item.tenantId);
+    const index = items?.indexOf(item) ?? -1;
+    if (!items || index === -1) return false;
+
+    const rest = items.filter((_, i) => i !== index);
+    if (rest.length > 0) {
+      tenants.set(item.tenantId, rest);
+    } else {
+      tenants.delete(item.tenantId);
+    }
+
+    this.release(item);
+    return true;
+  }
+
+  /**
+   * Remove and return all pending items
+   */
+  drain(): T[] {
+    const items = this.items();
+    this.queues.forEach(tenants => tenants.clear());
+    this.tenantDepths.clear();
+    this.size = 0;
+    return items;
+  }
+
+  getStats(): SchedulerStats {
+    const items = this.items();
+    const byPriority = Object.fromEntries(ANALYSIS_PRIORITIES.map(priority => [
+      priority,
+      items.filter(item => item.priority === priority).length
+    ])) as Record<AnalysisPriority, number>;
+
+    return {
+      queued: this.size,
+      byPriority,
+      tenants: this.tenantDepths.size,
+      oldestTimestamp: items.length > 0 ? Math.min(...items.map(item => item.timestamp)) : null
+    };
+  }
+
+  private items(): T[] {
+    return ANALYSIS_PRIORITIES.flatMap(priority => Array.from(this.queues.get(priority)!.values()).flat());
+  }
+
+  private release(item: T): void {
+    const depth = (this.tenantDepths.get(item.tenantId) ?? 1) - 1;
+    if (depth > 0) {
+      this.tenantDepths.set(item.tenantId, depth);
+    } else {
+      this.tenantDepths.delete(item.tenantId);
+    }
+    this.size--;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Analysis Stream
+ * Incremental delivery of module results while an analysis is running
+ *
+ * Every module result is published as soon as its module finishes, along
+ * with the results so far and a provisional global score over them. With
+ * uncertainty estimation, a result is published again once its interval
+ * is known, replacing the earlier one among the results so far. The
+ * provisional score converges on the final global score, which it equals
+ * once the last module has reported.
+ */
+
+import { PredictionResult } from '../types/core';
+
+export interface AnalysisUpdate {
+  result: PredictionResult; // The module result that just arrived
+  results: PredictionResult[]; // All results so far, in completion order
+  completed: number;
+  total: number;
+  provisionalRiskScore: number;
+  provisionalConfidence: number;
+  final: boolean; // Every module has reported
+}
+
+/**
+ * Global risk score and confidence: the mean over the modules that
+ * produced a result
+ */
+export function aggregateRisk(results: PredictionResult[]): { globalRiskScore: number; globalConfidence: number } {
+  const validResults = results.filter(r => !r.error);
+  if (validResults.length === 0) {
+    return { globalRiskScore: 0, globalConfidence: 0 };
+  }
+
+  return {
+    globalRiskScore: validResults.reduce((sum, r) => sum + r.riskScore, 0) / validResults.length,
+    globalConfidence: validResults.reduce((sum, r) => sum + r.confidence, 0) / validResults.length
+  };
+}
+
+export function createAnalysisUpdate(result: PredictionResult, results: PredictionResult[], total: number): AnalysisUpdate {
+  const { globalRiskScore, globalConfidence } = aggregateRisk(results);
+  return {
+    result,
+    results: [...results],
+    completed: results.length,
+    total,
+    provisionalRiskScore: globalRiskScore,
+    provisionalConfidence: globalConfidence,
+    final: results.length >= total
+  };
+}
+
+/**
+ * Single-consumer async iterator over the updates of one analysis. Updates
+ * pushed before the consumer reads are buffered; returning early from the
+ * iteration (e.g. `break`) calls onReturn so the analysis can be aborted.
+ */
+export class AnalysisStream implements AsyncIterable<AnalysisUpdate>, AsyncIterator<AnalysisUpdate> {
+  private buffer: AnalysisUpdate[] = [];
+  private waiting: { resolve: (next: IteratorResult<AnalysisUpdate>) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+  private closed = false;
+
+  constructor(private onReturn: () => void = () => {}) {}
+
+  push(update: AnalysisUpdate): void {
+    if (this.closed) return;
+
+    if (this.waiting) {
+      this.waiting.resolve({ value: update, done: false });
+      this.waiting = null;
+    } else {
+      this.buffer.push(update);
+    }
+  }
+
+  end(error?: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.error = error ?? null;
+
+    if (this.waiting) {
+      if (this.error) {
+        this.waiting.reject(this.error);
+      } else {
+        this.waiting.resolve({ value: undefined, done: true });
+      }
+      this.waiting = null;
+    }
+  }
+
+  next(): Promise<IteratorResult<AnalysisUpdate>> {
+    const update = this.buffer.shift();
+    if (update) return Promise.resolve({ value: update, done: false });
+    if (this.error) return Promise.reject(this.error);
+    if (this.closed) return Promise.resolve({ value: undefined, done: true });
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<AnalysisUpdate>> {
+    const stoppedEarly = !this.closed;
+    this.closed = true;
+    this.error = null;
+    this.buffer = [];
+
+    if (stoppedEarly) this.onReturn();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<AnalysisUpdate> {
+    return this;
+  }
+}
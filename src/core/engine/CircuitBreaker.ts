@@ -0,0 +1,148 @@
+/**
+ * Circuit Breaker
+ * Stops calling an organ module that keeps failing
+ *
+ * A closed breaker lets every call through and counts consecutive
+ * failures. At the failure threshold it opens: calls are refused without
+ * reaching the module until the cool-down has passed. The breaker then
+ * half-opens and lets a limited number of trial calls through; enough
+ * successes close it again, while any failure re-opens it for another
+ * cool-down.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures that open the breaker
+  coolDown: number; // ms an open breaker refuses calls before half-opening
+  halfOpenMaxCalls: number; // Trial calls allowed at once while half-open
+  successThreshold: number; // Successful trial calls that close the breaker
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  coolDown: 30000,
+  halfOpenMaxCalls: 1,
+  successThreshold: 1
+};
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  rejectedCalls: number; // Calls refused while open or at the half-open limit
+  openedAt: number | null;
+  retryAt: number | null; // When an open breaker half-opens
+  lastError: string | null;
+}
+
+/**
+ * Thrown when a module's open circuit breaker refuses the call
+ */
+export class CircuitOpenError extends Error {
+  readonly moduleId: string;
+  readonly retryAt: number | null;
+
+  constructor(moduleId: string, status: CircuitBreakerStatus) {
+    super(`Circuit breaker for ${moduleId} is ${status.state} after repeated failures${status.lastError ? ` (last error: ${status.lastError})` : ''}`);
+    this.name = 'CircuitOpenError';
+    this.moduleId = moduleId;
+    this.retryAt = status.retryAt;
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private rejectedCalls = 0;
+  private trialCalls = 0;
+  private trialSuccesses = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private getConfig: () => CircuitBreakerConfig,
+    private onStateChange: (to: CircuitState, from: CircuitState, status: CircuitBreakerStatus) => void = () => {}
+  ) {}
+
+  /**
+   * Claim a call. Returns false when the breaker refuses it; a claimed call
+   * must be settled with recordSuccess() or recordFailure().
+   */
+  tryAcquire(): boolean {
+    const { coolDown, halfOpenMaxCalls } = this.getConfig();
+
+    if (this.state === 'open' && Date.now() - this.openedAt! >= coolDown) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'half-open' && this.trialCalls < halfOpenMaxCalls) {
+      this.trialCalls++;
+      return true;
+    }
+
+    this.rejectedCalls++;
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'half-open') return;
+
+    this.trialCalls = Math.max(0, this.trialCalls - 1);
+    if (++this.trialSuccesses >= this.getConfig().successThreshold) {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error.message;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.getConfig().failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Release a claimed call that neither succeeded nor failed (e.g. it was cancelled)
+   */
+  release(): void {
+    if (this.state === 'half-open') {
+      this.trialCalls = Math.max(0, this.trialCalls - 1);
+    }
+  }
+
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.transition('closed');
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      rejectedCalls: this.rejectedCalls,
+      openedAt: this.openedAt,
+      retryAt: this.state === 'open' ? this.openedAt! + this.getConfig().coolDown : null,
+      lastError: this.lastError
+    };
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    this.trialCalls = 0;
+    this.trialSuccesses = 0;
+    this.openedAt = to === 'open' ? Date.now() : to === 'closed' ? null : this.openedAt;
+
+    if (from !== to) {
+      this.onStateChange(to, from, this.getStatus());
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Dependency Graph
+ * Cycles, topological execution levels and critical path of the organ dependency graph
+ *
+ * Dependency cycles are found as strongly connected components and
+ * resolved by one of three strategies: removing the weakest dependency of
+ * each cycle until none is left, or keeping the cycle together as a group
+ * that is either analyzed jointly (its members do not see each other's
+ * results) or iterated until its risk scores reach a fixed point. Each
+ * module (or group) is then placed one level after the deepest of its
+ * sources, so a level only depends on the levels before it and its modules
+ * can run in parallel. The critical path is the chain of dependent modules
+ * with the longest combined analysis time, i.e. what bounds the
+ * orchestration no matter how many modules run at once.
+ */
+
+import type { OrganDependency } from './OrganOrchestrator';
+
+export type CycleResolutionStrategy = 'break-weakest-edge' | 'fixed-point' | 'joint-group';
+
+export interface DependencyCycle {
+  members: string[]; // Modules of one strongly connected component, in registration order
+  strategy: CycleResolutionStrategy;
+  removedDependencies: OrganDependency[]; // Only when breaking the weakest edges
+  dependencies: OrganDependency[]; // Remaining dependencies among the members, followed by fixed-point iterations
+}
+
+export interface ExecutionPlan {
+  levels: string[][]; // Module ids per level, in registration order
+  dependencies: OrganDependency[]; // Edges the plan respects; sources always run in an earlier level
+  cycles: DependencyCycle[];
+}
+
+/**
+ * Strongly connected components that contain a cycle (Tarjan's algorithm)
+ */
+export function findCycles(moduleIds: string[], dependencies: OrganDependency[]): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const connect = (moduleId: string): void => {
+    index.set(moduleId, index.size);
+    lowLink.set(moduleId, index.get(moduleId)!);
+    stack.push(moduleId);
+    onStack.add(moduleId);
+
+    for (const { targetOrgan } of dependencies.filter(d => d.sourceOrgan === moduleId)) {
+      if (!index.has(targetOrgan)) {
+        connect(targetOrgan);
+        lowLink.set(moduleId, Math.min(lowLink.get(moduleId)!, lowLink.get(targetOrgan)!));
+      } else if (onStack.has(targetOrgan)) {
+        lowLink.set(moduleId, Math.min(lowLink.get(moduleId)!, index.get(targetOrgan)!));
+      }
+    }
+
+    if (lowLink.get(moduleId) !== index.get(moduleId)) return;
+
+    const component = new Set<string>();
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.add(member);
+    } while (member !== moduleId);
+
+    const selfDependent = dependencies.some(d => d.sourceOrgan === moduleId && d.targetOrgan === moduleId);
+    if (component.size > 1 || selfDependent) {
+      cycles.push(moduleIds.filter(id => component.has(id)));
+    }
+  };
+
+  for (const moduleId of moduleIds) {
+    if (!index.has(moduleId)) connect(moduleId);
+  }
+  // Components are found in reverse topological order
+  return cycles.reverse();
+}
+
+const isWithin = (members: string[]) => (d: OrganDependency) =>
+  members.includes(d.sourceOrgan) && members.includes(d.targetOrgan);
+
+/**
+ * Remove the weakest dependency of every remaining cycle among the members
+ * until they are acyclic; on equal strength the later declared one goes
+ */
+function breakWeakestEdges(cycle: DependencyCycle): void {
+  for (let remaining = findCycles(cycle.members, cycle.dependencies); remaining.length > 0;
+    remaining = findCycles(cycle.members, cycle.dependencies)) {
+    for (const members of remaining) {
+      const weakest = cycle.dependencies
+        .filter(isWithin(members))
+        .reduce((weakest, d) => d.strength <= weakest.strength ? d : weakest);
+
+      cycle.dependencies = cycle.dependencies.filter(d => d !== weakest);
+      cycle.removedDependencies.push(weakest);
+    }
+  }
+}
+
+/**
+ * Resolve the cycles among the registered modules and split them into levels
+ */
+export function buildExecutionPlan(
+  moduleIds: string[],
+  dependencies: OrganDependency[],
+  strategy: CycleResolutionStrategy
+): ExecutionPlan {
+  let planned = dependencies.filter(d => moduleIds.includes(d.sourceOrgan) && moduleIds.includes(d.targetOrgan));
+
+  const cycles = findCycles(moduleIds, planned).map((members): DependencyCycle => ({
+    members,
+    strategy,
+    removedDependencies: [],
+    dependencies: planned.filter(isWithin(members))
+  }));
+
+  // Every module is its own unit, except the members of a cycle kept as a group
+  const unitOf = new Map(moduleIds.map(moduleId => [moduleId, moduleId]));
+  if (strategy === 'break-weakest-edge') {
+    cycles.forEach(breakWeakestEdges);
+    const removed = new Set(cycles.flatMap(cycle => cycle.removedDependencies));
+    planned = planned.filter(d => !removed.has(d));
+  } else {
+    cycles.forEach(cycle => cycle.members.forEach(moduleId => unitOf.set(moduleId, cycle.members[0])));
+    planned = planned.filter(d => unitOf.get(d.sourceOrgan) !== unitOf.get(d.targetOrgan));
+  }
+
+  // Kahn's algorithm, one level at a time: a unit is ready once all its sources ran
+  const units = [...new Set(unitOf.values())];
+  const pending = new Map(units.map(unit => [unit, new Set(
+    planned.filter(d => unitOf.get(d.targetOrgan) === unit).map(d => unitOf.get(d.sourceOrgan)!)
+  )]));
+  const levelOf = new Map<string, number>();
+
+  for (let level = 0; pending.size > 0; level++) {
+    const ready = [...pending].filter(([, sources]) => sources.size === 0).map(([unit]) => unit);
+    if (ready.length === 0) {
+      throw new Error(`Unresolved dependency cycle among ${[...pending.keys()].join(', ')}`);
+    }
+    ready.forEach(unit => {
+      levelOf.set(unit, level);
+      pending.delete(unit);
+    });
+    pending.forEach(sources => ready.forEach(unit => sources.delete(unit)));
+  }
+
+  const levels: string[][] = [];
+  for (const moduleId of moduleIds) {
+    const level = levelOf.get(unitOf.get(moduleId)!)!;
+    levels[level] = [...(levels[level] ?? []), moduleId];
+  }
+
+  return { levels, dependencies: planned, cycles };
+}
+
+/**
+ * The chain of dependent modules with the longest combined duration
+ */
+export function findCriticalPath(plan: ExecutionPlan, durations: Map<string, number>): string[] {
+  const pathTime = new Map<string, number>();
+  const previous = new Map<string, string>();
+
+  for (const moduleId of plan.levels.flat()) {
+    let slowestSource: string | undefined;
+    for (const { sourceOrgan, targetOrgan } of plan.dependencies) {
+      if (targetOrgan !== moduleId) continue;
+      if (slowestSource === undefined || pathTime.get(sourceOrgan)! > pathTime.get(slowestSource)!) {
+        slowestSource = sourceOrgan;
+      }
+    }
+
+    pathTime.set(moduleId, (durations.get(moduleId) ?? 0) + (slowestSource ? pathTime.get(slowestSource)! : 0));
+    if (slowestSource) previous.set(moduleId, slowestSource);
+  }
+
+  let last: string | undefined;
+  for (const [moduleId, time] of pathTime) {
+    if (last === undefined || time > pathTime.get(last)!) last = moduleId;
+  }
+
+  const path: string[] = [];
+  for (let moduleId = last; moduleId !== undefined; moduleId = previous.get(moduleId)) {
+    path.unshift(moduleId);
+  }
+  return path;
+}
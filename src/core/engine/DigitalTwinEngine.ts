@@ -9,32 +9,91 @@
  * 
  * Features:
  * - Multi-organ orchestration with dependency management
- * - Intelligent caching system for performance optimization
+ * - Content-addressed LRU result cache with an optional persistent tier
+ * - Priority scheduling with per-tenant fairness and back-pressure
+ * - Batch analysis of patient cohorts with population statistics
+ * - Streaming of module results as each organ finishes
+ * - Pluggable execution backends (in-thread or worker pool)
+ * - Module lifecycle management with lazy or eager initialization
+ * - Shadow versions of modules validated against the primary on live data
  * - Real-time performance monitoring and analytics
- * - Advanced error handling and recovery mechanisms
+ * - Per-module retries behind circuit breakers
+ * - Analysis bundles for audit and deterministic replay
  * - Scalable architecture for production deployment
  */
 
-import { OrganModule, HealthData, PredictionResult, DigitalTwinState } from '../types/core';
+import { OrganModule, PredictionResult, DigitalTwinState, ModuleSkipReason } from '../types/core';
+import { CanonicalHealthData } from '../types/healthData';
+import { normalizeHealthData, HealthDataInput } from '../data/HealthDataNormalizer';
+import { validateHealthData, ValidationReport, HealthDataValidationError, isMissingInputError } from '../validation/HealthDataValidator';
+import { estimateRiskInterval, resolveSeed, UncertaintyConfig, DEFAULT_UNCERTAINTY_CONFIG } from '../uncertainty/MonteCarloEstimator';
+import { AnalysisCancelledError, isAnalysisCancelled, throwIfAborted, abortable, abortableDelay } from './cancellation';
+import { AnalysisScheduler, AnalysisPriority, QueueFullError, DEFAULT_TENANT_ID } from './AnalysisScheduler';
+import { AnalysisStream, AnalysisUpdate, aggregateRisk, createAnalysisUpdate } from './AnalysisStream';
+import { ExecutionBackend, ExecutionStats, InThreadBackend } from './execution/ExecutionBackend';
+import { ModuleLifecycle, ModuleLifecycleStatus, ModuleLifecycleState } from './ModuleLifecycle';
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerStatus,
+  CircuitOpenError,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG
+} from './CircuitBreaker';
+import { ShadowDivergenceTracker, ShadowDivergenceStats } from './ShadowComparison';
+import { BatchRun, BatchOptions } from '../cohort/BatchAnalysis';
+import { LRUCache } from '../cache/LRUCache';
+import { PersistentCacheTier } from '../cache/PersistentCache';
+import { contentHash } from '../cache/contentHash';
+import { AnalysisBundle, OrchestrationSnapshot, createAnalysisBundle } from '../audit/AnalysisBundle';
 import { EventEmitter } from 'events';
 
 export interface EngineConfig {
-  maxConcurrentAnalyses: number;
+  maxConcurrentAnalyses: number; // Also the size of the execution backend's worker pool
+  maxQueueDepth: number; // Pending analyses beyond this are rejected with a QueueFullError
+  maxQueueDepthPerTenant: number;
   predictionTimeout: number;
   cacheEnabled: boolean;
   cacheMaxSize: number;
   cacheTTL: number;
   debugMode: boolean;
   performanceMonitoring: boolean;
-  retryAttempts: number;
-  retryDelay: number;
+  retryAttempts: number; // Attempts per module before its result is marked failed
+  retryDelay: number; // Grows linearly with each attempt
+  validationMode: 'strict' | 'warn' | 'off'; // strict rejects invalid data, warn only reports it
+  uncertainty: UncertaintyConfig; // Monte Carlo risk intervals, disabled by default
+  moduleInitialization: 'lazy' | 'eager'; // Initialize modules on first analysis or on registration
+  moduleRestartDelay: number; // ms a degraded or failed module is skipped before it is restarted
+  circuitBreaker: CircuitBreakerConfig; // Applied to each module separately
 }
 
-export interface CacheEntry {
-  data: PredictionResult[];
-  timestamp: number;
-  hash: string;
-  accessCount: number;
+export interface ModuleCircuitStatus extends CircuitBreakerStatus {
+  moduleId: string;
+}
+
+// Primary versions produce the results; shadow versions only run alongside for comparison
+export type ModuleRole = 'primary' | 'shadow';
+
+export interface RegisterModuleOptions {
+  role?: ModuleRole; // Defaults to 'primary'
+}
+
+export interface ModuleVersionInfo {
+  moduleId: string;
+  version: string;
+  role: ModuleRole;
+}
+
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+  hitRate: number; // Percentage of lookups answered by either tier
+  hits: number;
+  misses: number;
+  persistentHits: number; // Hits answered by the persistent tier
+  evictions: number;
+  expirations: number;
+  oldestEntry: number | null;
+  persistent: boolean;
 }
 
 export interface PerformanceMetrics {
@@ -49,6 +108,71 @@ export interface PerformanceMetrics {
   }>;
 }
 
+export interface AnalyzeHealthOptions {
+  // Aborting removes a queued analysis or stops the running one
+  signal?: AbortSignal;
+  priority?: AnalysisPriority; // Defaults to 'interactive'
+  tenantId?: string; // Patient or client the analysis is fair-queued under
+  onUpdate?: (update: AnalysisUpdate) => void; // Called as each module result arrives
+  uncertainty?: boolean; // Estimate risk intervals for this analysis; defaults to config.uncertainty.enabled
+  shadow?: boolean; // Run shadow module versions alongside; defaults to interactive analyses only
+}
+
+export interface EngineHealth {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  details: {
+    modulesRegistered: number;
+    moduleHealth: 'ok' | 'degraded' | 'failing'; // Degraded while any module is skipped, failing when all are
+    cacheHealth: 'ok' | 'full' | 'disabled';
+    queueHealth: 'ok' | 'backlogged' | 'stalled';
+    performanceHealth: 'ok' | 'slow' | 'failing';
+  };
+  modules: ModuleLifecycleStatus[];
+  circuits: ModuleCircuitStatus[];
+}
+
+export interface QueueStatus {
+  queueLength: number;
+  isProcessing: boolean;
+  oldestQueueItem: number | null;
+  running: number;
+  maxConcurrent: number;
+  byPriority: Record<AnalysisPriority, number>;
+  tenants: number; // Tenants with pending analyses
+  completed: number;
+  cancelled: number;
+  rejected: number; // Refused because the queue was full
+  averageWaitTime: number; // ms between queueing and start
+  maxWaitTime: number;
+}
+
+interface QueuedAnalysis {
+  id: string;
+  healthData: CanonicalHealthData;
+  signal?: AbortSignal;
+  onUpdate?: (update: AnalysisUpdate) => void;
+  priority: AnalysisPriority;
+  tenantId: string;
+  uncertainty: boolean;
+  shadow: boolean;
+  resolve: (results: PredictionResult[]) => void;
+  reject: (error: Error) => void;
+  timestamp: number;
+}
+
+interface QueueMetrics {
+  started: number;
+  completed: number;
+  cancelled: number;
+  rejected: number;
+  totalWaitTime: number;
+  maxWaitTime: number;
+}
+
+function emptyQueueMetrics(): QueueMetrics {
+  return { started: 0, completed: 0, cancelled: 0, rejected: 0, totalWaitTime: 0, maxWaitTime: 0 };
+}
+
 export class DigitalTwinEngine extends EventEmitter {
   private modules: Map<string, OrganModule> = new Map();
   private state: DigitalTwinState = {
@@ -59,7 +183,9 @@ export class DigitalTwinEngine extends EventEmitter {
     confidence: 0
   };
   private config: EngineConfig;
-  private cache: Map<string, CacheEntry> = new Map();
+  private cache: LRUCache<PredictionResult[]>;
+  private persistentCache: PersistentCacheTier<PredictionResult[]> | null = null;
+  private cacheLookups = { hits: 0, misses: 0, persistentHits: 0 };
   private metrics: PerformanceMetrics = {
     totalAnalyses: 0,
     averageProcessingTime: 0,
@@ -67,19 +193,38 @@ export class DigitalTwinEngine extends EventEmitter {
     errorRate: 0,
     modulePerformance: new Map()
   };
-  private analysisQueue: Array<{
-    id: string;
-    healthData: HealthData;
-    resolve: (results: PredictionResult[]) => void;
-    reject: (error: Error) => void;
-    timestamp: number;
-  }> = [];
-  private isProcessingQueue = false;
-
-  constructor(config: Partial<EngineConfig> = {}) {
+  private scheduler = new AnalysisScheduler<QueuedAnalysis>(() => ({
+    maxQueueDepth: this.config.maxQueueDepth,
+    maxQueueDepthPerTenant: this.config.maxQueueDepthPerTenant
+  }));
+  private activeAnalyses = 0;
+  private queueMetrics = emptyQueueMetrics();
+  private backend: ExecutionBackend;
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private shadows: Map<string, Map<string, OrganModule>> = new Map(); // Module id -> version -> shadow
+  private shadowInitialization: Map<OrganModule, Promise<void>> = new Map();
+  private divergence = new ShadowDivergenceTracker();
+  private lifecycle = new ModuleLifecycle(
+    () => this.config.moduleRestartDelay,
+    (transition) => {
+      this.emit('moduleStateChanged', { ...transition, timestamp: Date.now() });
+
+      if (this.config.debugMode) {
+        console.log(`[DigitalTwinEngine] Module ${transition.moduleId}: ${transition.from} -> ${transition.to}`);
+      }
+    }
+  );
+
+  /**
+   * Module analyses run on the given execution backend; by default on the
+   * calling thread
+   */
+  constructor(config: Partial<EngineConfig> = {}, backend: ExecutionBackend = new InThreadBackend()) {
     super();
     this.config = {
       maxConcurrentAnalyses: 5,
+      maxQueueDepth: 500,
+      maxQueueDepthPerTenant: 100,
       predictionTimeout: 30000,
       cacheEnabled: true,
       cacheMaxSize: 1000,
@@ -88,9 +233,18 @@ export class DigitalTwinEngine extends EventEmitter {
       performanceMonitoring: true,
       retryAttempts: 3,
       retryDelay: 1000,
-      ...config
+      validationMode: 'strict',
+      moduleInitialization: 'lazy',
+      moduleRestartDelay: 60000,
+      ...config,
+      uncertainty: { ...DEFAULT_UNCERTAINTY_CONFIG, ...config.uncertainty },
+      circuitBreaker: { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config.circuitBreaker }
     };
 
+    this.backend = backend;
+    this.backend.resize(this.config.maxConcurrentAnalyses);
+    this.cache = new LRUCache(this.config.cacheMaxSize, this.config.cacheTTL);
+
     // Initialize cache cleanup interval
     if (this.config.cacheEnabled) {
       setInterval(() => this.cleanupCache(), 60000); // Cleanup every minute
@@ -104,67 +258,94 @@ export class DigitalTwinEngine extends EventEmitter {
 
   /**
    * Generate cache key for health data
+   *
+   * SHA-256 of the canonical JSON of the data together with the registered
+   * modules' versions and configuration, so results are never served across
+   * a module upgrade or reconfiguration. Metadata no module reads (the
+   * measurement date and source units) is left out, so the same profile
+   * entered again hits the cache.
    */
-  private generateCacheKey(healthData: HealthData): string {
-    const dataString = JSON.stringify(healthData, Object.keys(healthData).sort());
-    return btoa(dataString).replace(/[^a-zA-Z0-9]/g, '').substring(0, 32);
+  private generateCacheKey(healthData: CanonicalHealthData, uncertainty: boolean): string {
+    const { timestamp, sourceUnits, ...data } = healthData;
+    const modules = this.getModules()
+      .map(module => module.describe?.() ?? { id: module.id, version: module.version, config: module.getConfig() })
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    // Results with and without intervals (or with different sampling) are cached separately
+    const { samples, imputeMissing, seed, seeds } = this.config.uncertainty;
+    return contentHash({ data, modules, uncertainty: uncertainty ? { samples, imputeMissing, seed, seeds } : null });
   }
 
   /**
-   * Check cache for existing analysis results
+   * Look up analysis results in memory
    */
-  private getCachedResult(healthData: HealthData): PredictionResult[] | null {
+  private getCachedResult(cacheKey: string): PredictionResult[] | null {
     if (!this.config.cacheEnabled) return null;
 
-    const cacheKey = this.generateCacheKey(healthData);
-    const entry = this.cache.get(cacheKey);
+    const results = this.cache.get(cacheKey) ?? null;
+    if (results) {
+      this.recordCacheLookup(cacheKey, 'memory');
+    } else if (!this.persistentCache) {
+      this.recordCacheLookup(cacheKey, null);
+    }
+    return results;
+  }
 
-    if (!entry) return null;
+  /**
+   * Look up analysis results in the persistent tier after a memory miss,
+   * keeping hits in memory for the next lookup
+   */
+  private async getPersistedResult(cacheKey: string): Promise<PredictionResult[] | null> {
+    if (!this.config.cacheEnabled || !this.persistentCache) return null;
 
-    // Check if cache entry is still valid
-    const now = Date.now();
-    if (now - entry.timestamp > this.config.cacheTTL) {
-      this.cache.delete(cacheKey);
+    const results = await this.persistentCache.get(cacheKey).catch((error: Error) => {
+      this.emit('cacheError', { cacheKey, operation: 'get', error: error.message });
       return null;
-    }
+    });
 
-    // Update access count and return cached data
-    entry.accessCount++;
-    this.emit('cacheHit', { cacheKey, accessCount: entry.accessCount });
-    
-    if (this.config.debugMode) {
-      console.log(`[DigitalTwinEngine] Cache hit for key: ${cacheKey}`);
+    if (results) {
+      this.cache.set(cacheKey, results);
+      this.cacheLookups.persistentHits++;
     }
-
-    return entry.data;
+    this.recordCacheLookup(cacheKey, results ? 'persistent' : null);
+    return results;
   }
 
   /**
-   * Store analysis results in cache
+   * Count a cache lookup as a hit in the given tier, or a miss
    */
-  private setCachedResult(healthData: HealthData, results: PredictionResult[]): void {
-    if (!this.config.cacheEnabled) return;
+  private recordCacheLookup(cacheKey: string, tier: 'memory' | 'persistent' | null): void {
+    if (tier) {
+      this.cacheLookups.hits++;
+    } else {
+      this.cacheLookups.misses++;
+    }
+    this.metrics.cacheHitRate = this.getCacheHitRate();
 
-    const cacheKey = this.generateCacheKey(healthData);
-    
-    // Check cache size limit
-    if (this.cache.size >= this.config.cacheMaxSize) {
-      // Remove oldest entries (LRU-like behavior)
-      const oldestKey = Array.from(this.cache.entries())
-        .sort(([,a], [,b]) => a.timestamp - b.timestamp)[0][0];
-      this.cache.delete(oldestKey);
+    if (!tier) return;
+
+    this.emit('cacheHit', { cacheKey, tier });
+
+    if (this.config.debugMode) {
+      console.log(`[DigitalTwinEngine] Cache hit (${tier}) for key: ${cacheKey}`);
     }
+  }
 
-    const entry: CacheEntry = {
-      data: results,
-      timestamp: Date.now(),
-      hash: cacheKey,
-      accessCount: 1
-    };
+  /**
+   * Store analysis results in memory and in the persistent tier
+   */
+  private setCachedResult(cacheKey: string, results: PredictionResult[]): void {
+    if (!this.config.cacheEnabled) return;
 
-    this.cache.set(cacheKey, entry);
+    // Evicts the least recently used entry when full
+    this.cache.set(cacheKey, results);
     this.emit('cacheSet', { cacheKey, dataSize: JSON.stringify(results).length });
 
+    // The analysis does not wait for the persistent write
+    this.persistentCache?.set(cacheKey, results, this.config.cacheTTL).catch((error: Error) => {
+      this.emit('cacheError', { cacheKey, operation: 'set', error: error.message });
+    });
+
     if (this.config.debugMode) {
       console.log(`[DigitalTwinEngine] Cached result for key: ${cacheKey}`);
     }
@@ -176,15 +357,7 @@ export class DigitalTwinEngine extends EventEmitter {
   private cleanupCache(): void {
     if (!this.config.cacheEnabled) return;
 
-    const now = Date.now();
-    let cleanedCount = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.config.cacheTTL) {
-        this.cache.delete(key);
-        cleanedCount++;
-      }
-    }
+    const cleanedCount = this.cache.pruneExpired();
 
     if (cleanedCount > 0) {
       this.emit('cacheCleanup', { cleanedEntries: cleanedCount, remainingEntries: this.cache.size });
@@ -195,20 +368,20 @@ export class DigitalTwinEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Percentage of cache lookups answered by either tier
+   */
+  private getCacheHitRate(): number {
+    const { hits, misses } = this.cacheLookups;
+    return hits + misses > 0 ? (hits / (hits + misses)) * 100 : 0;
+  }
+
   /**
    * Update performance metrics
    */
   private updateMetrics(): void {
     if (!this.config.performanceMonitoring) return;
 
-    // Calculate cache hit rate
-    const totalCacheAccesses = Array.from(this.cache.values())
-      .reduce((sum, entry) => sum + entry.accessCount, 0);
-    
-    this.metrics.cacheHitRate = totalCacheAccesses > 0 
-      ? (this.cache.size / totalCacheAccesses) * 100 
-      : 0;
-
     this.emit('metricsUpdated', { metrics: this.metrics });
 
     if (this.config.debugMode) {
@@ -217,88 +390,191 @@ export class DigitalTwinEngine extends EventEmitter {
   }
 
   /**
-   * Process analysis queue with concurrency control
+   * Start queued analyses while fewer than maxConcurrentAnalyses are
+   * running; each finished analysis frees its slot for the next one
    */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.analysisQueue.length === 0) return;
-
-    this.isProcessingQueue = true;
-    const concurrentLimit = this.config.maxConcurrentAnalyses;
-    const processing: Promise<void>[] = [];
-
-    while (this.analysisQueue.length > 0 && processing.length < concurrentLimit) {
-      const queueItem = this.analysisQueue.shift();
+  private processQueue(): void {
+    while (this.activeAnalyses < this.config.maxConcurrentAnalyses) {
+      const queueItem = this.scheduler.next();
       if (!queueItem) break;
 
-      const processPromise = this.executeAnalysis(queueItem)
-        .finally(() => {
-          const index = processing.indexOf(processPromise);
-          if (index > -1) processing.splice(index, 1);
-        });
+      const waitTime = Date.now() - queueItem.timestamp;
+      this.queueMetrics.started++;
+      this.queueMetrics.totalWaitTime += waitTime;
+      this.queueMetrics.maxWaitTime = Math.max(this.queueMetrics.maxWaitTime, waitTime);
+      this.activeAnalyses++;
 
-      processing.push(processPromise);
+      this.executeAnalysis(queueItem).finally(() => {
+        this.activeAnalyses--;
+        this.processQueue();
+      });
     }
+  }
 
-    await Promise.all(processing);
-    this.isProcessingQueue = false;
+  /**
+   * Execute individual analysis; failing modules are retried individually
+   */
+  private async executeAnalysis(queueItem: QueuedAnalysis): Promise<void> {
+    const { id, healthData, signal, onUpdate, uncertainty, shadow, resolve, reject } = queueItem;
 
-    // Continue processing if there are more items in queue
-    if (this.analysisQueue.length > 0) {
-      setImmediate(() => this.processQueue());
+    try {
+      resolve(await this.performAnalysis(healthData, { signal, onUpdate, uncertainty, shadow }));
+    } catch (error) {
+      if (isAnalysisCancelled(error)) {
+        this.emit('analysisCancelled', { analysisId: id, stage: 'running', timestamp: Date.now() });
+      }
+      reject(error as Error);
     }
   }
 
   /**
-   * Execute individual analysis with retry logic
+   * Run one module through its circuit breaker, retrying failed attempts
+   * while the breaker allows. Missing input and cancellation are not
+   * retried and say nothing about the module's health.
    */
-  private async executeAnalysis(queueItem: {
-    id: string;
-    healthData: HealthData;
-    resolve: (results: PredictionResult[]) => void;
-    reject: (error: Error) => void;
-    timestamp: number;
-  }): Promise<void> {
-    const { id, healthData, resolve, reject } = queueItem;
+  private async runModuleWithRetry(module: OrganModule, healthData: CanonicalHealthData, signal?: AbortSignal): Promise<PredictionResult> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
       try {
-        const results = await this.performAnalysis(healthData);
-        resolve(results);
-        return;
+        return await this.runGuardedModule(module, healthData, signal);
       } catch (error) {
+        if (error instanceof CircuitOpenError) throw lastError ?? error;
+        if (isAnalysisCancelled(error) || isMissingInputError(error)) throw error;
+
         lastError = error as Error;
-        
+
         if (attempt < this.config.retryAttempts) {
-          await new Promise(resolve => setTimeout(resolve, this.config.retryDelay * attempt));
-          
+          this.emit('moduleRetry', { moduleId: module.id, attempt, error: lastError.message });
+          await abortableDelay(this.config.retryDelay * attempt, signal);
+
           if (this.config.debugMode) {
-            console.log(`[DigitalTwinEngine] Retry attempt ${attempt} for analysis ${id}`);
+            console.log(`[DigitalTwinEngine] Retry attempt ${attempt} for module ${module.id}`);
           }
         }
       }
     }
 
-    reject(lastError || new Error('Analysis failed after all retry attempts'));
+    throw lastError ?? new Error(`${module.name} failed after all retry attempts`);
+  }
+
+  /**
+   * Run one module once through its circuit breaker and within the
+   * prediction timeout. Throws a CircuitOpenError when the breaker refuses
+   * the call.
+   */
+  private async runGuardedModule(module: OrganModule, healthData: CanonicalHealthData, signal?: AbortSignal): Promise<PredictionResult> {
+    const breaker = this.getBreaker(module.id);
+    if (!breaker.tryAcquire()) {
+      throw new CircuitOpenError(module.id, breaker.getStatus());
+    }
+
+    try {
+      const result = await this.runModule(module, healthData, signal);
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isAnalysisCancelled(error) || isMissingInputError(error)) {
+        breaker.release();
+      } else {
+        breaker.recordFailure(error as Error);
+      }
+      throw error;
+    }
+  }
+
+  private getBreaker(moduleId: string): CircuitBreaker {
+    let breaker = this.breakers.get(moduleId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(() => this.config.circuitBreaker, (to, from, status) => {
+        this.emit('circuitStateChanged', { moduleId, from, to, ...status, timestamp: Date.now() });
+
+        if (to === 'open') {
+          this.emit('performanceAlert', {
+            metric: 'moduleConsecutiveFailures',
+            value: status.consecutiveFailures,
+            threshold: this.config.circuitBreaker.failureThreshold,
+            moduleId,
+            retryAt: status.retryAt,
+            lastError: status.lastError
+          });
+        }
+
+        if (this.config.debugMode) {
+          console.log(`[DigitalTwinEngine] Circuit for module ${moduleId}: ${from} -> ${to}`);
+        }
+      });
+      this.breakers.set(moduleId, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Run one module within the prediction timeout. The module gets its own
+   * signal, aborted on timeout or cancellation, so a module that loses the
+   * race stops instead of running on in the background.
+   */
+  private async runModule(module: OrganModule, healthData: CanonicalHealthData, signal?: AbortSignal): Promise<PredictionResult> {
+    throwIfAborted(signal);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      return await Promise.race([
+        abortable(this.backend.run(module, healthData, { signal: controller.signal }), signal),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new Error('Module analysis timeout'));
+            controller.abort();
+          }, this.config.predictionTimeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 
   /**
-   * Perform the actual health analysis
+   * Perform the actual health analysis, reporting each module result as it completes
    */
-  private async performAnalysis(healthData: HealthData): Promise<PredictionResult[]> {
+  private async performAnalysis(
+    healthData: CanonicalHealthData,
+    { signal, onUpdate, uncertainty, shadow }: Pick<QueuedAnalysis, 'signal' | 'onUpdate' | 'uncertainty' | 'shadow'>
+  ): Promise<PredictionResult[]> {
     const startTime = Date.now();
+    const modules = Array.from(this.modules.values());
+    const completed: PredictionResult[] = [];
+
+    // A result reported again (with its uncertainty interval) replaces the earlier one
+    const report = (result: PredictionResult) => {
+      if (!signal?.aborted) {
+        const index = completed.findIndex(r => r.moduleId === result.moduleId);
+        if (index >= 0) completed[index] = result;
+        else completed.push(result);
+        onUpdate?.(createAnalysisUpdate(result, completed, modules.length));
+      }
+      return result;
+    };
 
     try {
-      const analysisPromises = Array.from(this.modules.values()).map(async (module) => {
+      const analysisPromises = modules.map(async (module) => {
         const moduleStartTime = Date.now();
         
         try {
-          const result = await Promise.race([
-            module.analyze(healthData),
-            new Promise<never>((_, reject) => 
-              setTimeout(() => reject(new Error('Module analysis timeout')), this.config.predictionTimeout)
-            )
-          ]);
+          // Degraded and failed modules are skipped rather than failing the analysis
+          const skipReason = await this.lifecycle.prepare(module.id);
+          throwIfAborted(signal);
+          if (skipReason) {
+            return this.createSkippedResult(module, skipReason, this.lifecycle.getStatus(module.id)?.error);
+          }
+
+          const shadowRuns = shadow ? this.startShadowRuns(module, healthData, signal) : [];
+          const result = await this.runModuleWithRetry(module, healthData, signal);
+          this.compareShadowRuns(module, result, shadowRuns);
 
           const duration = Date.now() - moduleStartTime;
           
@@ -330,6 +606,12 @@ export class DigitalTwinEngine extends EventEmitter {
             processingTime: duration
           };
         } catch (error) {
+          // Cancellation fails the whole analysis instead of a single module
+          if (isAnalysisCancelled(error)) throw error;
+          if (error instanceof CircuitOpenError) {
+            return this.createSkippedResult(module, 'circuit-open', error.message);
+          }
+
           const duration = Date.now() - moduleStartTime;
           
           // Update module performance metrics for failure
@@ -358,26 +640,25 @@ export class DigitalTwinEngine extends EventEmitter {
             moduleId: module.id,
             riskScore: 0,
             confidence: 0,
+            riskLevel: 'low' as const,
             recommendations: [],
             riskFactors: [],
             timestamp: Date.now(),
             processingTime: duration,
             error: (error as Error).message
           };
+        } finally {
+          this.lifecycle.refresh(module.id);
         }
-      });
+      }).map((analysis, index) => analysis
+        .then(report)
+        .then(result => uncertainty ? this.addUncertainty(modules[index], result, healthData, report, signal) : result));
 
       const results = await Promise.all(analysisPromises);
+      throwIfAborted(signal);
       
       // Calculate global risk score and confidence
-      const validResults = results.filter(r => !r.error);
-      const globalRiskScore = validResults.length > 0 
-        ? validResults.reduce((sum, r) => sum + r.riskScore, 0) / validResults.length
-        : 0;
-      
-      const globalConfidence = validResults.length > 0
-        ? validResults.reduce((sum, r) => sum + r.confidence, 0) / validResults.length
-        : 0;
+      const { globalRiskScore, globalConfidence } = aggregateRisk(results);
 
       this.state.globalRiskScore = globalRiskScore;
       this.state.confidence = globalConfidence;
@@ -403,6 +684,8 @@ export class DigitalTwinEngine extends EventEmitter {
 
       return results;
     } catch (error) {
+      if (isAnalysisCancelled(error)) throw error;
+
       this.emit('analysisError', {
         error: (error as Error).message,
         timestamp: Date.now(),
@@ -413,54 +696,124 @@ export class DigitalTwinEngine extends EventEmitter {
   }
 
   /**
-   * Register a new organ module with the engine
+   * Bound a module's point result by re-running the module on perturbed
+   * inputs. Sampling starts once the point result has been reported, so it
+   * does not hold back the stream; the result is reported again with its
+   * interval.
    */
-  registerModule(module: OrganModule): void {
-    if (this.modules.has(module.id)) {
-      throw new Error(`Module ${module.id} is already registered`);
-    }
+  private async addUncertainty(
+    module: OrganModule,
+    result: PredictionResult,
+    healthData: CanonicalHealthData,
+    report: (result: PredictionResult) => PredictionResult,
+    signal?: AbortSignal
+  ): Promise<PredictionResult> {
+    if (result.error) return result;
+
+    // Samples go through the module's breaker and timeout like the point estimate
+    const uncertainty = await estimateRiskInterval({
+      id: module.id,
+      analyze: (sample, options) => this.runGuardedModule(module, sample, options?.signal ?? signal)
+    }, healthData, this.config.uncertainty, signal);
+
+    return uncertainty ? report({ ...result, uncertainty }) : result;
+  }
 
-    this.modules.set(module.id, module);
-    this.state.activeModules.push(module.id);
-    
-    this.emit('moduleRegistered', { moduleId: module.id, module });
-    
-    if (this.config.debugMode) {
-      console.log(`[DigitalTwinEngine] Registered module: ${module.id}`);
+  /**
+   * Start the module's shadow versions on the same data. They share the
+   * analysis signal and timeout but not its retries, and nothing waits for
+   * them.
+   */
+  private startShadowRuns(
+    module: OrganModule,
+    healthData: CanonicalHealthData,
+    signal?: AbortSignal
+  ): Array<{ shadow: OrganModule; outcome: Promise<PredictionResult | Error> }> {
+    return Array.from(this.shadows.get(module.id)?.values() ?? [], shadow => ({
+      shadow,
+      outcome: this.initializeShadow(shadow)
+        .then(() => this.runModule(shadow, healthData, signal))
+        .catch((error: Error) => error)
+    }));
+  }
+
+  private initializeShadow(shadow: OrganModule): Promise<void> {
+    let initialization = this.shadowInitialization.get(shadow);
+    if (!initialization) {
+      initialization = shadow.initialize();
+      // A failed initialization is retried by the next analysis
+      initialization.catch(() => this.shadowInitialization.delete(shadow));
+      this.shadowInitialization.set(shadow, initialization);
     }
+    return initialization;
   }
 
   /**
-   * Unregister an organ module
+   * Record how each shadow result diverges from the primary result once it arrives
    */
-  unregisterModule(moduleId: string): void {
-    if (!this.modules.has(moduleId)) {
-      throw new Error(`Module ${moduleId} is not registered`);
-    }
+  private compareShadowRuns(
+    module: OrganModule,
+    primary: PredictionResult,
+    runs: Array<{ shadow: OrganModule; outcome: Promise<PredictionResult | Error> }>
+  ): void {
+    for (const { shadow, outcome } of runs) {
+      void outcome.then(shadowResult => {
+        if (isAnalysisCancelled(shadowResult)) return;
+
+        if (shadowResult instanceof Error) {
+          this.divergence.recordError(module.id, module.version, shadow.version);
+          this.emit('shadowError', { moduleId: module.id, version: shadow.version, error: shadowResult.message });
+          return;
+        }
 
-    this.modules.delete(moduleId);
-    this.state.activeModules = this.state.activeModules.filter(id => id !== moduleId);
-    
-    this.emit('moduleUnregistered', { moduleId });
-    
-    if (this.config.debugMode) {
-      console.log(`[DigitalTwinEngine] Unregistered module: ${moduleId}`);
+        const comparison = this.divergence.record(primary, module.version, shadow.version, shadowResult);
+        this.emit('shadowComparison', { ...comparison, timestamp: Date.now() });
+      });
     }
   }
 
   /**
-   * Perform comprehensive health analysis across all modules
+   * Placeholder result for a module kept out of the analysis by its
+   * lifecycle state or circuit breaker
    */
+  private createSkippedResult(module: OrganModule, reason: ModuleSkipReason, cause?: string | null): PredictionResult {
+    this.emit('moduleSkipped', { moduleId: module.id, reason, error: cause ?? null });
+
+    return {
+      moduleId: module.id,
+      riskScore: 0,
+      confidence: 0,
+      riskLevel: 'low',
+      recommendations: [],
+      riskFactors: [],
+      timestamp: Date.now(),
+      processingTime: 0,
+      error: `${module.name} skipped (${reason})${cause ? `: ${cause}` : ''}`,
+      skipped: reason
+    };
+  }
+
   /**
-   * Register a new organ module with the engine
+   * Register a new organ module with the engine. Further versions of a
+   * registered module can be added as shadows.
    */
-  registerModule(module: OrganModule): void {
+  registerModule(module: OrganModule, options: RegisterModuleOptions = {}): void {
+    if (options.role === 'shadow') {
+      this.registerShadow(module);
+      return;
+    }
+
     if (this.modules.has(module.id)) {
       throw new Error(`Module ${module.id} is already registered`);
     }
 
     this.modules.set(module.id, module);
     this.state.activeModules.push(module.id);
+    this.lifecycle.add(module);
+
+    if (this.config.moduleInitialization === 'eager') {
+      void this.lifecycle.initialize(module.id);
+    }
     
     // Initialize module performance metrics
     if (this.config.performanceMonitoring) {
@@ -478,17 +831,51 @@ export class DigitalTwinEngine extends EventEmitter {
     }
   }
 
+  private registerShadow(module: OrganModule): void {
+    const primary = this.modules.get(module.id);
+    if (!primary) {
+      throw new Error(`Module ${module.id} has no primary version to shadow`);
+    }
+
+    const versions = this.shadows.get(module.id) ?? new Map<string, OrganModule>();
+    if (module.version === primary.version || versions.has(module.version)) {
+      throw new Error(`Module ${module.id} ${module.version} is already registered`);
+    }
+
+    versions.set(module.version, module);
+    this.shadows.set(module.id, versions);
+    this.emit('moduleRegistered', { moduleId: module.id, module, role: 'shadow' });
+
+    if (this.config.debugMode) {
+      console.log(`[DigitalTwinEngine] Registered shadow module: ${module.id} ${module.version}`);
+    }
+  }
+
   /**
-   * Unregister an organ module
+   * Unregister an organ module with all its shadow versions, or only the
+   * given shadow version
    */
-  unregisterModule(moduleId: string): void {
+  unregisterModule(moduleId: string, version?: string): void {
     if (!this.modules.has(moduleId)) {
       throw new Error(`Module ${moduleId} is not registered`);
     }
 
+    if (version !== undefined && version !== this.modules.get(moduleId)!.version) {
+      this.unregisterShadow(moduleId, version);
+      return;
+    }
+
+    for (const shadow of this.shadows.get(moduleId)?.keys() ?? []) {
+      this.unregisterShadow(moduleId, shadow);
+    }
+
     this.modules.delete(moduleId);
     this.state.activeModules = this.state.activeModules.filter(id => id !== moduleId);
     this.metrics.modulePerformance.delete(moduleId);
+    this.breakers.delete(moduleId);
+    this.lifecycle.remove(moduleId).catch((error: Error) => {
+      this.emit('moduleCleanupError', { moduleId, error: error.message });
+    });
     
     this.emit('moduleUnregistered', { moduleId });
     
@@ -497,13 +884,155 @@ export class DigitalTwinEngine extends EventEmitter {
     }
   }
 
+  private unregisterShadow(moduleId: string, version: string): void {
+    const versions = this.shadows.get(moduleId);
+    const shadow = versions?.get(version);
+    if (!versions || !shadow) {
+      throw new Error(`Module ${moduleId} has no shadow version ${version}`);
+    }
+
+    versions.delete(version);
+    if (versions.size === 0) this.shadows.delete(moduleId);
+
+    const initialization = this.shadowInitialization.get(shadow);
+    this.shadowInitialization.delete(shadow);
+    initialization?.then(() => shadow.cleanup()).catch((error: Error) => {
+      this.emit('moduleCleanupError', { moduleId, version, error: error.message });
+    });
+
+    this.emit('moduleUnregistered', { moduleId, version, role: 'shadow' });
+  }
+
+  /**
+   * Make a shadow version the primary version of its module. The previous
+   * primary is cleaned up and keeps running as a shadow, so the swap can be
+   * compared against and reverted.
+   */
+  async promoteModuleVersion(moduleId: string, version: string): Promise<void> {
+    const versions = this.shadows.get(moduleId);
+    const promoted = versions?.get(version);
+    const previous = this.modules.get(moduleId);
+    if (!versions || !promoted || !previous) {
+      throw new Error(`Module ${moduleId} has no shadow version ${version}`);
+    }
+
+    versions.delete(version);
+    versions.set(previous.version, previous);
+    this.shadowInitialization.delete(promoted);
+    this.modules.set(moduleId, promoted);
+
+    // The new version starts with a closed breaker and a fresh lifecycle
+    this.breakers.delete(moduleId);
+    await this.lifecycle.remove(moduleId);
+    this.lifecycle.add(promoted);
+    if (this.config.moduleInitialization === 'eager') {
+      void this.lifecycle.initialize(moduleId);
+    }
+
+    this.emit('modulePromoted', { moduleId, version, previousVersion: previous.version, timestamp: Date.now() });
+
+    if (this.config.debugMode) {
+      console.log(`[DigitalTwinEngine] Promoted module ${moduleId} ${previous.version} -> ${version}`);
+    }
+  }
+
+  /**
+   * Get the registered versions of every module, or of one module
+   */
+  getModuleVersions(moduleId?: string): ModuleVersionInfo[] {
+    return Array.from(this.modules.values())
+      .filter(module => moduleId === undefined || module.id === moduleId)
+      .flatMap(module => [
+        { moduleId: module.id, version: module.version, role: 'primary' as const },
+        ...Array.from(this.shadows.get(module.id)?.keys() ?? [], shadowVersion => ({
+          moduleId: module.id,
+          version: shadowVersion,
+          role: 'shadow' as const
+        }))
+      ]);
+  }
+
+  /**
+   * Get how the shadow versions' results diverge from their primary versions
+   */
+  getShadowDivergence(moduleId?: string): ShadowDivergenceStats[] {
+    return this.divergence.getStats(moduleId);
+  }
+
+  resetShadowDivergence(moduleId?: string): void {
+    this.divergence.reset(moduleId);
+  }
+
+  /**
+   * Initialize all registered modules in parallel, retrying failed ones.
+   * Resolves once every module is ready or has failed.
+   */
+  async initializeModules(): Promise<ModuleLifecycleStatus[]> {
+    await Promise.all(Array.from(this.modules.keys(), moduleId => this.lifecycle.initialize(moduleId)));
+    return this.lifecycle.getStatuses();
+  }
+
+  /**
+   * Clean up and re-initialize a module without waiting for the restart delay
+   */
+  restartModule(moduleId: string): Promise<ModuleLifecycleState> {
+    return this.lifecycle.restart(moduleId);
+  }
+
+  /**
+   * Get the circuit breaker state of every module that has been analyzed
+   */
+  getCircuitStatuses(): ModuleCircuitStatus[] {
+    return Array.from(this.breakers, ([moduleId, breaker]) => ({ moduleId, ...breaker.getStatus() }));
+  }
+
+  /**
+   * Close a module's circuit breaker without waiting for the cool-down
+   */
+  resetCircuitBreaker(moduleId: string): void {
+    this.breakers.get(moduleId)?.reset();
+  }
+
+  /**
+   * Get the lifecycle state of every registered module
+   */
+  getModuleStatuses(): ModuleLifecycleStatus[] {
+    return this.lifecycle.getStatuses();
+  }
+
   /**
    * Perform comprehensive health analysis across all modules with caching and queue management
    */
-  async analyzeHealth(healthData: HealthData): Promise<PredictionResult[]> {
+  async analyzeHealth(input: HealthDataInput, options: AnalyzeHealthOptions = {}): Promise<PredictionResult[]> {
+    const { signal } = options;
+    throwIfAborted(signal);
+
+    // Map the input onto the canonical schema so every module sees the same fields
+    const healthData = normalizeHealthData(input);
+
+    // Reject physiologically impossible or inconsistent data before it reaches the modules
+    if (this.config.validationMode !== 'off') {
+      const report = validateHealthData(healthData);
+      this.emit('validationCompleted', { report });
+
+      if (!report.valid && this.config.validationMode === 'strict') {
+        throw new HealthDataValidationError(report);
+      }
+    }
+
     // Check cache first
-    const cachedResult = this.getCachedResult(healthData);
+    const uncertainty = options.uncertainty ?? this.config.uncertainty.enabled;
+    const cacheKey = this.generateCacheKey(healthData, uncertainty);
+    let cachedResult = this.getCachedResult(cacheKey);
+    // Only the persistent tier is asynchronous; memory hits and misses queue at once
+    if (!cachedResult && this.config.cacheEnabled && this.persistentCache) {
+      cachedResult = await this.getPersistedResult(cacheKey);
+      throwIfAborted(signal);
+    }
     if (cachedResult) {
+      cachedResult.forEach((result, index) => {
+        options.onUpdate?.(createAnalysisUpdate(result, cachedResult.slice(0, index + 1), cachedResult.length));
+      });
       this.emit('analysisComplete', {
         results: cachedResult,
         globalRiskScore: this.state.globalRiskScore,
@@ -515,23 +1044,168 @@ export class DigitalTwinEngine extends EventEmitter {
     }
 
     // Add to analysis queue
+    const priority = options.priority ?? 'interactive';
     return new Promise((resolve, reject) => {
       const analysisId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      this.analysisQueue.push({
+
+      // Aborting a queued analysis removes it; a running one stops at the signal
+      const onAbort = () => {
+        if (!this.scheduler.remove(queueItem)) return;
+
+        this.emit('analysisCancelled', { analysisId, stage: 'queued', timestamp: Date.now() });
+        queueItem.reject(new AnalysisCancelledError());
+      };
+
+      const queueItem: QueuedAnalysis = {
         id: analysisId,
         healthData,
+        signal,
+        onUpdate: options.onUpdate,
+        priority,
+        tenantId: options.tenantId ?? DEFAULT_TENANT_ID,
+        uncertainty,
+        // Shadows double each module's work, so background and batch analyses skip them by default
+        shadow: options.shadow ?? priority === 'interactive',
         resolve: (results) => {
-          // Cache the results
-          this.setCachedResult(healthData, results);
+          signal?.removeEventListener('abort', onAbort);
+          this.queueMetrics.completed++;
+          // Skipped and failed modules are re-run by the next identical analysis
+          if (results.every(r => !r.skipped && !r.error)) {
+            this.setCachedResult(cacheKey, results);
+          }
           resolve(results);
         },
-        reject,
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          if (isAnalysisCancelled(error)) this.queueMetrics.cancelled++;
+          reject(error);
+        },
         timestamp: Date.now()
-      });
+      };
+
+      // Back-pressure: refuse the analysis instead of queueing without bound
+      try {
+        this.scheduler.enqueue(queueItem);
+      } catch (error) {
+        if (error instanceof QueueFullError) {
+          this.queueMetrics.rejected++;
+          this.emit('queueFull', {
+            analysisId,
+            tenantId: queueItem.tenantId,
+            priority: queueItem.priority,
+            limit: error.limit
+          });
+        }
+        reject(error);
+        return;
+      }
 
-      // Start processing queue
-      this.processQueue().catch(reject);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Analyze health data and yield an update as each module finishes. The
+   * last update is marked final and holds every result. Stopping the
+   * iteration early cancels the analysis.
+   */
+  analyzeHealthStream(input: HealthDataInput, options: AnalyzeHealthOptions = {}): AsyncIterable<AnalysisUpdate> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) controller.abort();
+
+    const stream = new AnalysisStream(() => controller.abort());
+
+    this.analyzeHealth(input, {
+      ...options,
+      signal: controller.signal,
+      onUpdate: (update) => {
+        options.onUpdate?.(update);
+        stream.push(update);
+      }
+    })
+      .then(() => stream.end(), (error: Error) => stream.end(error))
+      .finally(() => options.signal?.removeEventListener('abort', onAbort));
+
+    return stream;
+  }
+
+  /**
+   * Analyze a cohort of records at batch priority. Iterate the returned run
+   * for per-record results as they complete, or await its summary() for
+   * the failure report and cohort statistics.
+   */
+  analyzeBatch(records: HealthDataInput[], options: BatchOptions = {}): BatchRun {
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const run = new BatchRun(batchId, records, {
+      prepare: (record) => {
+        const healthData = normalizeHealthData(record);
+        return { healthData, cacheKey: this.generateCacheKey(healthData, this.config.uncertainty.enabled) };
+      },
+      analyze: (record, analyzeOptions) => this.analyzeHealth(record, analyzeOptions),
+      isCached: (cacheKey) => this.config.cacheEnabled && this.cache.has(cacheKey), // In-memory tier only
+      maxInFlight: this.config.maxQueueDepthPerTenant
+    }, {
+      ...options,
+      onProgress: (progress) => {
+        this.emit('batchProgress', progress);
+        options.onProgress?.(progress);
+      },
+      onComplete: (summary) => {
+        this.emit('batchComplete', {
+          batchId,
+          total: summary.total,
+          completed: summary.completed,
+          succeeded: summary.succeeded,
+          failed: summary.failed,
+          processingTime: summary.processingTime
+        });
+        options.onComplete?.(summary);
+
+        if (this.config.debugMode) {
+          console.log(`[DigitalTwinEngine] Batch ${batchId}: ${summary.succeeded}/${summary.total} records analyzed`);
+        }
+      }
+    });
+
+    this.emit('batchStarted', { batchId, total: records.length, timestamp: Date.now() });
+    return run;
+  }
+
+  /**
+   * Validate health data without running an analysis
+   */
+  validate(input: HealthDataInput): ValidationReport {
+    return validateHealthData(normalizeHealthData(input));
+  }
+
+  /**
+   * Capture the input, module versions, configuration and seeds behind a
+   * set of results, for audit and replay. Pass `uncertainty` when the
+   * analysis overrode the configured interval estimation.
+   */
+  createAnalysisBundle(
+    input: HealthDataInput,
+    results: PredictionResult[],
+    orchestration?: OrchestrationSnapshot,
+    uncertainty = this.config.uncertainty.enabled
+  ): AnalysisBundle {
+    const healthData = normalizeHealthData(input);
+    const modules = this.getModules();
+    const uncertaintyConfig = { ...this.config.uncertainty, enabled: uncertainty };
+
+    return createAnalysisBundle({
+      healthData,
+      modules: modules.map(module => module.describe?.() ?? { id: module.id, version: module.version, config: module.getConfig() }),
+      engineConfig: { ...this.config, uncertainty: uncertaintyConfig },
+      orchestration,
+      seeds: uncertainty
+        ? Object.fromEntries(modules.map(module => [module.id, resolveSeed(module.id, healthData, uncertaintyConfig)]))
+        : {},
+      results
     });
   }
 
@@ -562,33 +1236,38 @@ export class DigitalTwinEngine extends EventEmitter {
   /**
    * Get cache statistics
    */
-  getCacheStats(): {
-    size: number;
-    maxSize: number;
-    hitRate: number;
-    totalEntries: number;
-    oldestEntry: number | null;
-  } {
-    const entries = Array.from(this.cache.values());
-    const oldestTimestamp = entries.length > 0 
-      ? Math.min(...entries.map(e => e.timestamp))
-      : null;
+  getCacheStats(): CacheStats {
+    const { size, maxSize, evictions, expirations, oldestEntry } = this.cache.getStats();
 
     return {
-      size: this.cache.size,
-      maxSize: this.config.cacheMaxSize,
-      hitRate: this.metrics.cacheHitRate,
-      totalEntries: entries.reduce((sum, entry) => sum + entry.accessCount, 0),
-      oldestEntry: oldestTimestamp
+      size,
+      maxSize,
+      hitRate: this.getCacheHitRate(),
+      ...this.cacheLookups,
+      evictions,
+      expirations,
+      oldestEntry,
+      persistent: this.persistentCache !== null
     };
   }
 
   /**
-   * Clear cache manually
+   * Back the in-memory result cache with a persistent tier (e.g. the
+   * encrypted IndexedDB cache) so results outlive the session
+   */
+  setPersistentCache(tier: PersistentCacheTier<PredictionResult[]> | null): void {
+    this.persistentCache?.close();
+    this.persistentCache = tier;
+  }
+
+  /**
+   * Clear cache manually, including the persistent tier
    */
   clearCache(): void {
-    const previousSize = this.cache.size;
-    this.cache.clear();
+    const previousSize = this.cache.clear();
+    this.persistentCache?.clear().catch((error: Error) => {
+      this.emit('cacheError', { operation: 'clear', error: error.message });
+    });
     
     this.emit('cacheCleared', { previousSize });
     
@@ -616,12 +1295,24 @@ export class DigitalTwinEngine extends EventEmitter {
    */
   updateConfig(newConfig: Partial<EngineConfig>): void {
     const oldConfig = { ...this.config };
-    this.config = { ...this.config, ...newConfig };
+    this.config = {
+      ...this.config,
+      ...newConfig,
+      uncertainty: { ...this.config.uncertainty, ...newConfig.uncertainty },
+      circuitBreaker: { ...this.config.circuitBreaker, ...newConfig.circuitBreaker }
+    };
     
     // Handle cache configuration changes
     if (newConfig.cacheEnabled === false && oldConfig.cacheEnabled === true) {
       this.clearCache();
     }
+    this.cache.resize(this.config.cacheMaxSize);
+    this.cache.setTTL(this.config.cacheTTL);
+
+    if (newConfig.maxConcurrentAnalyses !== undefined) {
+      this.backend.resize(this.config.maxConcurrentAnalyses);
+      this.processQueue();
+    }
     
     this.emit('configUpdated', { 
       oldConfig, 
@@ -638,12 +1329,11 @@ export class DigitalTwinEngine extends EventEmitter {
    * Reset engine state
    */
   reset(): void {
-    // Clear analysis queue
-    this.analysisQueue.forEach(item => {
+    // Clear analysis queue; running analyses finish and free their slots
+    this.scheduler.drain().forEach(item => {
       item.reject(new Error('Engine reset - analysis cancelled'));
     });
-    this.analysisQueue = [];
-    this.isProcessingQueue = false;
+    this.queueMetrics = emptyQueueMetrics();
 
     // Reset state
     this.state = {
@@ -674,6 +1364,8 @@ export class DigitalTwinEngine extends EventEmitter {
 
     // Clear cache
     this.clearCache();
+    this.cache.resetStats();
+    this.cacheLookups = { hits: 0, misses: 0, persistentHits: 0 };
     
     this.emit('engineReset', { timestamp: Date.now() });
     
@@ -683,53 +1375,62 @@ export class DigitalTwinEngine extends EventEmitter {
   }
 
   /**
-   * Get queue status
+   * Get the execution backend's pool and task counters
+   */
+  getExecutionStats(): ExecutionStats {
+    return this.backend.getStats();
+  }
+
+  /**
+   * Get queue status and scheduling metrics
    */
-  getQueueStatus(): {
-    queueLength: number;
-    isProcessing: boolean;
-    oldestQueueItem: number | null;
-  } {
-    const oldestTimestamp = this.analysisQueue.length > 0
-      ? Math.min(...this.analysisQueue.map(item => item.timestamp))
-      : null;
+  getQueueStatus(): QueueStatus {
+    const { queued, byPriority, tenants, oldestTimestamp } = this.scheduler.getStats();
+    const { started, completed, cancelled, rejected, totalWaitTime, maxWaitTime } = this.queueMetrics;
 
     return {
-      queueLength: this.analysisQueue.length,
-      isProcessing: this.isProcessingQueue,
-      oldestQueueItem: oldestTimestamp
+      queueLength: queued,
+      isProcessing: this.activeAnalyses > 0,
+      oldestQueueItem: oldestTimestamp,
+      running: this.activeAnalyses,
+      maxConcurrent: this.config.maxConcurrentAnalyses,
+      byPriority,
+      tenants,
+      completed,
+      cancelled,
+      rejected,
+      averageWaitTime: started > 0 ? totalWaitTime / started : 0,
+      maxWaitTime
     };
   }
 
   /**
    * Health check for the engine
    */
-  healthCheck(): {
-    status: 'healthy' | 'degraded' | 'unhealthy';
-    details: {
-      modulesRegistered: number;
-      cacheHealth: 'ok' | 'full' | 'disabled';
-      queueHealth: 'ok' | 'backlogged' | 'stalled';
-      performanceHealth: 'ok' | 'slow' | 'failing';
-    };
-  } {
-    const details = {
+  healthCheck(): EngineHealth {
+    const modules = this.lifecycle.getStatuses();
+    const circuits = this.getCircuitStatuses();
+    const openCircuits = new Set(circuits.filter(c => c.state === 'open').map(c => c.moduleId));
+    const down = modules.filter(m => m.state === 'degraded' || m.state === 'failed' || openCircuits.has(m.moduleId)).length;
+
+    const details: EngineHealth['details'] = {
       modulesRegistered: this.modules.size,
+      moduleHealth: down === 0 ? 'ok' : (down < modules.length ? 'degraded' : 'failing'),
       cacheHealth: this.config.cacheEnabled 
         ? (this.cache.size >= this.config.cacheMaxSize * 0.9 ? 'full' : 'ok')
-        : 'disabled' as const,
-      queueHealth: this.analysisQueue.length > 10 
+        : 'disabled',
+      queueHealth: this.scheduler.length > 10 
         ? 'backlogged' 
-        : (this.isProcessingQueue ? 'ok' : 'stalled') as const,
+        : (this.activeAnalyses > 0 ? 'ok' : 'stalled'),
       performanceHealth: this.metrics.errorRate > 10 
         ? 'failing' 
-        : (this.metrics.averageProcessingTime > 10000 ? 'slow' : 'ok') as const
+        : (this.metrics.averageProcessingTime > 10000 ? 'slow' : 'ok')
     };
 
     const healthyCount = Object.values(details).filter(v => v === 'ok').length;
-    const status = healthyCount >= 3 ? 'healthy' : healthyCount >= 2 ? 'degraded' : 'unhealthy';
+    const status = healthyCount >= 4 ? 'healthy' : healthyCount >= 3 ? 'degraded' : 'unhealthy';
 
-    return { status, details };
+    return { status, details, modules, circuits };
   }
 
   /**
@@ -737,14 +1438,19 @@ export class DigitalTwinEngine extends EventEmitter {
    */
   destroy(): void {
     // Cancel all pending analyses
-    this.analysisQueue.forEach(item => {
+    this.scheduler.drain().forEach(item => {
       item.reject(new Error('Engine destroyed - analysis cancelled'));
     });
-    this.analysisQueue = [];
+
+    void this.backend.terminate();
+    void this.lifecycle.cleanupAll().catch(() => undefined);
 
     // Clear all data
     this.modules.clear();
+    this.shadows.clear();
+    this.shadowInitialization.clear();
     this.cache.clear();
+    this.persistentCache?.close();
     this.removeAllListeners();
     this.state.activeModules = [];
     
@@ -0,0 +1,110 @@
+/**
+ * Interaction Model
+ * Strength and effect of the interactions between organ systems
+ *
+ * An interaction is as strong as the organs' risks are jointly elevated
+ * (the geometric mean of their risk scores, so one healthy organ keeps it
+ * weak) and as much as their risks share drivers: the inputs their scoring
+ * rules added points for and the risk factors they both report. Each
+ * active interaction adjusts the global risk score by its effect (how far
+ * its impact factor is from 1) times its strength. Adjustments are summed,
+ * so the order of the interactions does not matter, and the sum is bounded.
+ */
+
+import { PredictionResult } from '../types/core';
+import type { OrganInteraction } from './OrganOrchestrator';
+
+export interface InteractionModelConfig {
+  threshold: number; // Strength (0-1) at which an interaction becomes active
+  maxAdjustment: number; // Bound on the summed relative adjustment of the global risk score
+}
+
+export interface InteractionExplanation {
+  organs: string[];
+  interactionType: OrganInteraction['interactionType'];
+  coElevation: number; // 0-1, geometric mean of the organs' risk scores
+  sharedFactors: string[]; // Risk drivers all the organs have in common
+  factorOverlap: number; // 0-1, shared drivers among all drivers of the organs
+  strength: number; // 0-1
+  active: boolean;
+  adjustment: number; // Relative change of the global risk score, 0 when inactive
+  explanation: string;
+}
+
+// Inputs recorded by whole-score adjustments rather than by scoring rules
+const ADJUSTMENT_INPUTS = new Set(['before', 'after']);
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Inputs the module's own rules added risk points for, and the risk factors it reports
+ */
+export function riskDrivers(result: PredictionResult): Set<string> {
+  const drivers = new Set(result.riskFactors.map(factor => factor.name.toLowerCase()));
+
+  for (const contribution of result.contributions ?? []) {
+    if (contribution.points <= 0 || !contribution.ruleId.startsWith(`${result.moduleId}.`)) continue;
+    Object.keys(contribution.inputs)
+      .filter(input => !ADJUSTMENT_INPUTS.has(input))
+      .forEach(input => drivers.add(input));
+  }
+  return drivers;
+}
+
+/**
+ * How the organs of an interaction currently interact. Returns null when
+ * one of them has no valid result.
+ */
+export function explainInteraction(
+  interaction: OrganInteraction,
+  organResults: Map<string, PredictionResult>,
+  config: InteractionModelConfig
+): InteractionExplanation | null {
+  const results = interaction.organs.map(organId => organResults.get(organId));
+  if (results.some(result => !result || result.error)) return null;
+
+  const scores = results.map(result => Math.min(100, Math.max(0, result!.riskScore)) / 100);
+  const coElevation = Math.pow(scores.reduce((product, score) => product * score, 1), 1 / scores.length);
+
+  const drivers = results.map(result => riskDrivers(result!));
+  const allDrivers = new Set(drivers.flatMap(set => [...set]));
+  const sharedFactors = [...drivers[0]].filter(driver => drivers.every(set => set.has(driver))).sort();
+  const factorOverlap = allDrivers.size > 0 ? sharedFactors.length / allDrivers.size : 0;
+
+  // Jointly elevated risks interact even without shared drivers, shared drivers double it
+  const strength = coElevation * (0.5 + 0.5 * factorOverlap);
+  const active = interaction.interactionType !== 'neutral' && strength >= config.threshold;
+  // Both synergistic and antagonistic interactions compound risk; the factor sets how much
+  const effect = Math.abs(interaction.impactFactor - 1);
+  const adjustment = active ? effect * strength : 0;
+
+  const organs = interaction.organs.join(' and ');
+  const drivenBy = sharedFactors.length > 0
+    ? `share ${sharedFactors.length} risk driver${sharedFactors.length === 1 ? '' : 's'} (${sharedFactors.join(', ')})`
+    : 'share no risk drivers';
+  const outcome = active
+    ? `raising the global risk score by ${Math.round(adjustment * 1000) / 10}%`
+    : interaction.interactionType === 'neutral' ? 'a neutral interaction' : 'below the activation threshold';
+
+  return {
+    organs: interaction.organs,
+    interactionType: interaction.interactionType,
+    coElevation: round(coElevation),
+    sharedFactors,
+    factorOverlap: round(factorOverlap),
+    strength: round(strength),
+    active,
+    adjustment: round(adjustment),
+    explanation: `${interaction.description}. ${organs[0].toUpperCase()}${organs.slice(1)} risks are ` +
+      `${Math.round(coElevation * 100)}% jointly elevated and ${drivenBy}: interaction strength ` +
+      `${round(strength)}, ${outcome}.`
+  };
+}
+
+/**
+ * Relative adjustment of the global risk score by all active interactions
+ */
+export function combineInteractionAdjustments(explanations: InteractionExplanation[], maxAdjustment: number): number {
+  const total = explanations.reduce((sum, explanation) => sum + explanation.adjustment, 0);
+  return Math.min(maxAdjustment, total);
+}
@@ -0,0 +1,201 @@
+/**
+ * Module Lifecycle
+ * Tracks each registered organ module from registration to readiness
+ *
+ * A module starts out 'registered', is 'initializing' while its
+ * initialize() runs and becomes 'ready' once it resolves, or 'failed' if it
+ * throws. A ready module whose isHealthy() turns false is 'degraded'.
+ * Degraded and failed modules are skipped by analyses instead of holding
+ * them up; once the restart delay has passed the next analysis restarts
+ * them (cleanup, then initialize) and they rejoin if that succeeds.
+ */
+
+import { OrganModule, ModuleSkipReason } from '../types/core';
+
+export type ModuleLifecycleState = 'registered' | 'initializing' | 'ready' | 'degraded' | 'failed';
+
+export interface ModuleLifecycleStatus {
+  moduleId: string;
+  state: ModuleLifecycleState;
+  since: number; // When the module entered its state
+  initializationTime: number | null; // ms the last successful initialize() took
+  restarts: number;
+  error: string | null; // Why the module failed or is degraded
+}
+
+export interface ModuleTransition {
+  moduleId: string;
+  from: ModuleLifecycleState;
+  to: ModuleLifecycleState;
+  error: string | null;
+}
+
+interface LifecycleEntry {
+  module: OrganModule;
+  status: ModuleLifecycleStatus;
+  initialization: Promise<void> | null;
+}
+
+export class ModuleLifecycle {
+  private entries = new Map<string, LifecycleEntry>();
+
+  constructor(
+    private getRestartDelay: () => number,
+    private onTransition: (transition: ModuleTransition) => void = () => {}
+  ) {}
+
+  add(module: OrganModule): void {
+    this.entries.set(module.id, {
+      module,
+      status: {
+        moduleId: module.id,
+        state: 'registered',
+        since: Date.now(),
+        initializationTime: null,
+        restarts: 0,
+        error: null
+      },
+      initialization: null
+    });
+  }
+
+  /**
+   * Stop tracking a module, cleaning it up if it was initialized
+   */
+  async remove(moduleId: string): Promise<void> {
+    const entry = this.entries.get(moduleId);
+    if (!entry) return;
+
+    this.entries.delete(moduleId);
+    await entry.initialization;
+    if (entry.status.state !== 'registered' && entry.status.state !== 'failed') {
+      await entry.module.cleanup();
+    }
+  }
+
+  /**
+   * Initialize a module unless it is already initialized or initializing.
+   * Failed modules are retried. Resolves with the resulting state.
+   */
+  async initialize(moduleId: string): Promise<ModuleLifecycleState> {
+    const entry = this.require(moduleId);
+
+    if (entry.status.state === 'registered' || entry.status.state === 'failed') {
+      this.launch(entry);
+    }
+    await entry.initialization;
+    return entry.status.state;
+  }
+
+  /**
+   * Get a module ready to analyze: initialize it on first use, refresh its
+   * health and restart it when it has been down for the restart delay.
+   * Resolves with the reason to skip the module, or null to run it.
+   */
+  async prepare(moduleId: string): Promise<ModuleSkipReason | null> {
+    const entry = this.require(moduleId);
+    this.refresh(moduleId);
+
+    const { state, since } = entry.status;
+    if (state === 'registered') {
+      this.launch(entry);
+    } else if ((state === 'degraded' || state === 'failed') && Date.now() - since >= this.getRestartDelay()) {
+      this.launch(entry, true);
+    }
+    await entry.initialization;
+
+    this.refresh(moduleId);
+    const settled = entry.status.state;
+    return settled === 'degraded' || settled === 'failed' ? settled : null;
+  }
+
+  /**
+   * Move a ready module to degraded when it reports itself unhealthy, and back
+   */
+  refresh(moduleId: string): void {
+    const entry = this.entries.get(moduleId);
+    if (!entry) return;
+
+    const { state } = entry.status;
+    if (state !== 'ready' && state !== 'degraded') return;
+
+    const healthy = entry.module.isHealthy();
+    if (state === 'ready' && !healthy) {
+      this.transition(entry, 'degraded', `${entry.module.name} reports itself unhealthy`);
+    } else if (state === 'degraded' && healthy) {
+      this.transition(entry, 'ready', null);
+    }
+  }
+
+  /**
+   * Clean up and re-initialize a module now, whatever its state
+   */
+  async restart(moduleId: string): Promise<ModuleLifecycleState> {
+    const entry = this.require(moduleId);
+    await entry.initialization;
+    this.launch(entry, true);
+    await entry.initialization;
+    return entry.status.state;
+  }
+
+  getStatus(moduleId: string): ModuleLifecycleStatus | undefined {
+    const entry = this.entries.get(moduleId);
+    return entry && { ...entry.status };
+  }
+
+  getStatuses(): ModuleLifecycleStatus[] {
+    return Array.from(this.entries.values(), entry => ({ ...entry.status }));
+  }
+
+  /**
+   * Clean up every initialized module
+   */
+  async cleanupAll(): Promise<void> {
+    await Promise.all(Array.from(this.entries.keys(), moduleId => this.remove(moduleId)));
+  }
+
+  /**
+   * Run initialize(), after cleanup() when restarting a module that was up
+   */
+  private launch(entry: LifecycleEntry, restart = false): void {
+    const { state } = entry.status;
+    const cleanupFirst = restart && state !== 'registered' && state !== 'failed';
+    if (restart) entry.status.restarts++;
+    this.transition(entry, 'initializing', null);
+
+    const initialization = this.runInitialization(entry, cleanupFirst).finally(() => {
+      if (entry.initialization === initialization) entry.initialization = null;
+    });
+    entry.initialization = initialization;
+  }
+
+  private async runInitialization(entry: LifecycleEntry, cleanupFirst: boolean): Promise<void> {
+    try {
+      if (cleanupFirst) await entry.module.cleanup();
+      const startTime = Date.now();
+      await entry.module.initialize();
+      entry.status.initializationTime = Date.now() - startTime;
+      this.transition(entry, 'ready', null);
+    } catch (error) {
+      this.transition(entry, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private transition(entry: LifecycleEntry, to: ModuleLifecycleState, error: string | null): void {
+    const from = entry.status.state;
+    entry.status.state = to;
+    entry.status.since = Date.now();
+    entry.status.error = error;
+    if (from !== to) {
+      this.onTransition({ moduleId: entry.status.moduleId, from, to, error });
+    }
+  }
+
+  private require(moduleId: string): LifecycleEntry {
+    const entry = this.entries.get(moduleId);
+    if (!entry) {
+      throw new Error(`Module ${moduleId} is not registered`);
+    }
+    return entry;
+  }
+}
@@ -8,13 +8,45 @@
  * 
  * Features:
  * - Inter-organ dependency management
- * - Parallel and sequential analysis coordination
- * - Cross-organ correlation analysis
+ * - Layered parallel execution of the dependency graph
+ * - Dependency cycle detection and resolution
+ * - Cross-organ interaction modeling from shared risk drivers and co-elevated risks
  * - Dynamic module loading and unloading
- * - Health impact propagation modeling
+ * - Declarative dependency impact propagation onto inputs or risk scores
+ * - Organ graph loaded and hot-reloaded from a validated knowledge file
  */
 
-import { OrganModule, HealthData, PredictionResult } from '../types/core';
+import { OrganModule, PredictionResult } from '../types/core';
+import { CanonicalHealthData } from '../types/healthData';
+import { normalizeHealthData, HealthDataInput } from '../data/HealthDataNormalizer';
+import {
+  ExecutionPlan,
+  DependencyCycle,
+  CycleResolutionStrategy,
+  buildExecutionPlan,
+  findCycles,
+  findCriticalPath
+} from './DependencyGraph';
+import {
+  DependencyImpact,
+  ImpactPropagation,
+  dependencyKey,
+  measureImpacts,
+  modulateInputs,
+  modulateRisk
+} from './dependencyImpacts';
+import { InteractionExplanation, explainInteraction, combineInteractionAdjustments } from './InteractionModel';
+import {
+  OrganKnowledgeGraph,
+  EvidenceReference,
+  KnowledgeGraphDiff,
+  KnowledgeGraphValidationError,
+  KNOWN_ORGANS,
+  parseKnowledgeGraph,
+  diffKnowledgeGraph
+} from '../knowledge/OrganKnowledgeGraph';
+import { DEFAULT_ORGAN_KNOWLEDGE } from '../knowledge/defaultOrganKnowledge';
+import type { OrchestrationSnapshot } from '../audit/AnalysisBundle';
 import { EventEmitter } from 'events';
 
 export interface OrganDependency {
@@ -23,6 +55,7 @@ export interface OrganDependency {
   dependencyType: 'functional' | 'metabolic' | 'circulatory' | 'neural';
   strength: number; // 0-1, how strong the dependency is
   bidirectional: boolean;
+  evidence?: string[]; // Ids of the knowledge graph references it rests on
 }
 
 export interface OrganInteraction {
@@ -30,6 +63,7 @@ export interface OrganInteraction {
   interactionType: 'synergistic' | 'antagonistic' | 'neutral';
   impactFactor: number; // Multiplier for risk calculations
   description: string;
+  evidence?: string[]; // Ids of the knowledge graph references it rests on
 }
 
 export interface OrchestrationConfig {
@@ -37,7 +71,13 @@ export interface OrchestrationConfig {
   enableInteractionModeling: boolean;
   maxParallelAnalyses: number;
   dependencyTimeout: number;
-  correlationThreshold: number;
+  interactionThreshold: number; // Interaction strength (0-1) at which an interaction becomes active
+  maxInteractionAdjustment: number; // Bound on the relative change of the global risk score by interactions
+  cycleResolution: CycleResolutionStrategy; // How dependency cycles are made analyzable
+  convergenceTolerance: number; // Largest risk score change at which a fixed-point cycle has converged
+  maxCycleIterations: number; // Fixed-point iterations before giving up on convergence
+  impactPropagation: ImpactPropagation; // Propagate dependency impacts onto target inputs or risk scores
+  knownOrgans: string[]; // Organs a knowledge file may refer to
   debugMode: boolean;
 }
 
@@ -45,17 +85,62 @@ export interface OrchestrationResult {
   organResults: Map<string, PredictionResult>;
   globalRiskScore: number;
   globalConfidence: number;
-  organInteractions: OrganInteraction[];
-  dependencyImpacts: Map<string, number>;
+  organInteractions: OrganInteraction[]; // Interactions active in this analysis
+  interactionExplanations: InteractionExplanation[]; // Every interaction whose organs all have results
+  dependencyImpacts: Map<string, DependencyImpact>; // Keyed by dependencyKey, e.g. 'hepatic->renal:metabolic'
   recommendations: string[];
   processingTime: number;
-  analysisPath: string[];
+  analysisPath: string[]; // Critical path: the chain of dependent modules that took longest
+  levels: OrchestrationLevel[];
+  cycles: CycleReport[]; // Dependency cycles and how each was resolved
+}
+
+export interface OrchestrationLevel {
+  index: number;
+  modules: string[]; // Analyzed in parallel
+  duration: number; // ms from the first module starting to the last finishing
+}
+
+interface OrchestrationRun {
+  durations: Map<string, number>; // Analysis time per module, summed over fixed-point iterations
+  dependencyImpacts: Map<string, DependencyImpact>;
+}
+
+export interface CycleReport {
+  members: string[];
+  strategy: CycleResolutionStrategy;
+  removedDependencies: OrganDependency[]; // Dependencies ignored to break the cycle
+  iterations?: number; // Fixed-point passes over the members, including the first
+  converged?: boolean;
+  residual?: number; // Largest risk score change in the last iteration
+}
+
+/**
+ * Map items through an async function, at most `limit` at a time, keeping
+ * the results in item order
+ */
+async function runWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
 }
 
 export class OrganOrchestrator extends EventEmitter {
   private modules: Map<string, OrganModule> = new Map();
   private dependencies: OrganDependency[] = [];
   private interactions: OrganInteraction[] = [];
+  private knowledgeVersion = '';
+  private references: EvidenceReference[] = [];
+  private knowledgeWatchers: Set<() => void> = new Set();
   private config: OrchestrationConfig;
 
   constructor(config: Partial<OrchestrationConfig> = {}) {
@@ -65,151 +150,130 @@ export class OrganOrchestrator extends EventEmitter {
       enableInteractionModeling: true,
       maxParallelAnalyses: 4,
       dependencyTimeout: 15000,
-      correlationThreshold: 0.7,
+      interactionThreshold: 0.3,
+      maxInteractionAdjustment: 0.2,
+      cycleResolution: 'break-weakest-edge',
+      convergenceTolerance: 0.5,
+      maxCycleIterations: 10,
+      impactPropagation: 'inputs',
+      knownOrgans: KNOWN_ORGANS,
       debugMode: false,
       ...config
     };
 
-    this.initializeDefaultDependencies();
-    this.initializeDefaultInteractions();
+    this.initializeDefaultKnowledge();
   }
 
   /**
-   * Initialize default organ dependencies based on medical knowledge
+   * Start from the built-in organ knowledge graph
    */
-  private initializeDefaultDependencies(): void {
-    const defaultDependencies: OrganDependency[] = [
-      // Cardiovascular dependencies
-      {
-        sourceOrgan: 'cardiovascular',
-        targetOrgan: 'renal',
-        dependencyType: 'circulatory',
-        strength: 0.9,
-        bidirectional: true
-      },
-      {
-        sourceOrgan: 'cardiovascular',
-        targetOrgan: 'neurological',
-        dependencyType: 'circulatory',
-        strength: 0.8,
-        bidirectional: false
-      },
-      {
-        sourceOrgan: 'cardiovascular',
-        targetOrgan: 'pulmonary',
-        dependencyType: 'circulatory',
-        strength: 0.95,
-        bidirectional: true
-      },
-
-      // Hepatic dependencies
-      {
-        sourceOrgan: 'hepatic',
-        targetOrgan: 'cardiovascular',
-        dependencyType: 'metabolic',
-        strength: 0.7,
-        bidirectional: false
-      },
-      {
-        sourceOrgan: 'hepatic',
-        targetOrgan: 'renal',
-        dependencyType: 'metabolic',
-        strength: 0.6,
-        bidirectional: false
-      },
-
-      // Renal dependencies
-      {
-        sourceOrgan: 'renal',
-        targetOrgan: 'cardiovascular',
-        dependencyType: 'functional',
-        strength: 0.8,
-        bidirectional: false
-      },
-
-      // Pulmonary dependencies
-      {
-        sourceOrgan: 'pulmonary',
-        targetOrgan: 'cardiovascular',
-        dependencyType: 'functional',
-        strength: 0.9,
-        bidirectional: false
-      },
-
-      // Neurological dependencies
-      {
-        sourceOrgan: 'neurological',
-        targetOrgan: 'musculoskeletal',
-        dependencyType: 'neural',
-        strength: 0.85,
-        bidirectional: false
-      },
-
-      // Musculoskeletal dependencies
-      {
-        sourceOrgan: 'musculoskeletal',
-        targetOrgan: 'cardiovascular',
-        dependencyType: 'functional',
-        strength: 0.6,
-        bidirectional: false
-      }
-    ];
-
-    this.dependencies = defaultDependencies;
+  private initializeDefaultKnowledge(): void {
+    this.applyKnowledgeGraph(parseKnowledgeGraph(DEFAULT_ORGAN_KNOWLEDGE, { knownOrgans: this.config.knownOrgans }));
 
     if (this.config.debugMode) {
-      console.log('[OrganOrchestrator] Initialized default dependencies:', this.dependencies.length);
+      console.log(
+        `[OrganOrchestrator] Initialized default knowledge ${this.knowledgeVersion}:`,
+        this.dependencies.length, 'dependencies,', this.interactions.length, 'interactions'
+      );
     }
   }
 
+  private applyKnowledgeGraph(graph: OrganKnowledgeGraph): void {
+    this.knowledgeVersion = graph.version;
+    this.references = graph.references;
+    this.dependencies = graph.dependencies;
+    this.interactions = graph.interactions;
+  }
+
   /**
-   * Initialize default organ interactions
+   * Replace the organ dependencies and interactions with those of a JSON or
+   * YAML knowledge file (or its parsed contents). An invalid file is
+   * rejected as a whole, keeping the current graph. Dependencies and
+   * interactions added with addDependency and addInteraction are replaced
+   * too. Analyses already running finish on the graph they started with.
    */
-  private initializeDefaultInteractions(): void {
-    const defaultInteractions: OrganInteraction[] = [
-      {
-        organs: ['cardiovascular', 'pulmonary'],
-        interactionType: 'synergistic',
-        impactFactor: 1.2,
-        description: 'Cardiopulmonary synergy enhances overall cardiovascular health'
-      },
-      {
-        organs: ['cardiovascular', 'renal'],
-        interactionType: 'synergistic',
-        impactFactor: 1.15,
-        description: 'Cardiorenal axis - kidney and heart health are closely linked'
-      },
-      {
-        organs: ['hepatic', 'cardiovascular'],
-        interactionType: 'synergistic',
-        impactFactor: 1.1,
-        description: 'Liver metabolism affects cardiovascular risk factors'
-      },
-      {
-        organs: ['neurological', 'cardiovascular'],
-        interactionType: 'synergistic',
-        impactFactor: 1.25,
-        description: 'Neurovascular coupling - brain health depends on cardiovascular function'
-      },
-      {
-        organs: ['musculoskeletal', 'cardiovascular'],
-        interactionType: 'synergistic',
-        impactFactor: 1.1,
-        description: 'Physical activity and muscle health improve cardiovascular outcomes'
-      },
-      {
-        organs: ['hepatic', 'renal'],
-        interactionType: 'antagonistic',
-        impactFactor: 0.9,
-        description: 'Hepatorenal syndrome - liver dysfunction can impair kidney function'
-      }
-    ];
+  loadKnowledgeGraph(source: string | unknown): KnowledgeGraphDiff {
+    let graph: OrganKnowledgeGraph;
+    try {
+      graph = parseKnowledgeGraph(source, { knownOrgans: this.config.knownOrgans });
+    } catch (error) {
+      this.emit('knowledgeGraphRejected', {
+        error: (error as Error).message,
+        issues: (error as KnowledgeGraphValidationError).issues
+      });
+      throw error;
+    }
 
-    this.interactions = defaultInteractions;
+    const diff = diffKnowledgeGraph(
+      { version: this.knowledgeVersion, dependencies: this.dependencies, interactions: this.interactions },
+      graph
+    );
+    this.applyKnowledgeGraph(graph);
+    this.emit('knowledgeGraphLoaded', { version: graph.version, diff });
 
     if (this.config.debugMode) {
-      console.log('[OrganOrchestrator] Initialized default interactions:', this.interactions.length);
+      console.log(`[OrganOrchestrator] Loaded knowledge ${diff.fromVersion} -> ${diff.toVersion}:`, diff.unchanged ? 'unchanged' : {
+        dependencies: `+${diff.dependencies.added.length} -${diff.dependencies.removed.length} ~${diff.dependencies.changed.length}`,
+        interactions: `+${diff.interactions.added.length} -${diff.interactions.removed.length} ~${diff.interactions.changed.length}`
+      });
     }
+
+    return diff;
+  }
+
+  /**
+   * Hot-reload a knowledge file: read it now and every intervalMs, loading
+   * it whenever its contents change. Files that cannot be read or fail
+   * validation emit knowledgeGraphRejected and keep the current graph.
+   * Returns a function that stops watching.
+   */
+  watchKnowledgeGraph(read: () => Promise<string>, intervalMs = 60000): () => void {
+    let lastSource: string | null = null;
+    let reading = false;
+    let stopped = false;
+
+    const poll = async () => {
+      if (reading) return;
+      reading = true;
+
+      try {
+        const source = await read();
+        if (!stopped && source !== lastSource) {
+          lastSource = source;
+          this.loadKnowledgeGraph(source);
+        }
+      } catch (error) {
+        // Validation failures were already reported by loadKnowledgeGraph
+        if (!(error instanceof KnowledgeGraphValidationError)) {
+          this.emit('knowledgeGraphRejected', { error: (error as Error).message, issues: [] });
+        }
+      } finally {
+        reading = false;
+      }
+    };
+
+    const timer = setInterval(poll, intervalMs);
+    const stop = () => {
+      stopped = true;
+      clearInterval(timer);
+      this.knowledgeWatchers.delete(stop);
+    };
+
+    this.knowledgeWatchers.add(stop);
+    void poll();
+    return stop;
+  }
+
+  /**
+   * The organ knowledge graph currently in use
+   */
+  getKnowledgeGraph(): OrganKnowledgeGraph {
+    return JSON.parse(JSON.stringify({
+      version: this.knowledgeVersion,
+      references: this.references,
+      dependencies: this.dependencies,
+      interactions: this.interactions
+    }));
   }
 
   /**
@@ -281,149 +345,94 @@ export class OrganOrchestrator extends EventEmitter {
   }
 
   /**
-   * Calculate analysis order based on dependencies
+   * Find the dependency cycles among the registered modules
    */
-  private calculateAnalysisOrder(): string[] {
+  detectCycles(): string[][] {
     const moduleIds = Array.from(this.modules.keys());
-    const visited = new Set<string>();
-    const visiting = new Set<string>();
-    const order: string[] = [];
-
-    const visit = (moduleId: string): void => {
-      if (visited.has(moduleId)) return;
-      if (visiting.has(moduleId)) {
-        // Circular dependency detected - use parallel analysis
-        if (this.config.debugMode) {
-          console.log(`[OrganOrchestrator] Circular dependency detected for ${moduleId}`);
-        }
-        return;
-      }
-
-      visiting.add(moduleId);
-
-      // Visit dependencies first
-      const deps = this.dependencies.filter(d => d.targetOrgan === moduleId);
-      for (const dep of deps) {
-        if (this.modules.has(dep.sourceOrgan)) {
-          visit(dep.sourceOrgan);
-        }
-      }
-
-      visiting.delete(moduleId);
-      visited.add(moduleId);
-      order.push(moduleId);
-    };
+    return findCycles(moduleIds, this.dependencies.filter(d =>
+      this.modules.has(d.sourceOrgan) && this.modules.has(d.targetOrgan)
+    ));
+  }
 
-    for (const moduleId of moduleIds) {
-      visit(moduleId);
+  /**
+   * Plan the analysis as levels of modules that can run in parallel.
+   * Without dependency analysis all modules form a single level.
+   */
+  private planExecution(): ExecutionPlan {
+    if (!this.config.enableDependencyAnalysis) {
+      return { levels: [Array.from(this.modules.keys())], dependencies: [], cycles: [] };
     }
 
-    if (this.config.debugMode) {
-      console.log('[OrganOrchestrator] Analysis order:', order);
-    }
+    const plan = buildExecutionPlan(Array.from(this.modules.keys()), this.dependencies, this.config.cycleResolution);
+    for (const cycle of plan.cycles) {
+      this.emit('dependencyCycle', { members: cycle.members, strategy: cycle.strategy });
 
-    return order;
+      if (this.config.debugMode) {
+        console.log(`[OrganOrchestrator] Dependency cycle among ${cycle.members.join(', ')} resolved by ${cycle.strategy}`);
+      }
+    }
+    return plan;
   }
 
   /**
-   * Perform orchestrated health analysis across all modules
+   * Perform orchestrated health analysis across all modules. Levels run one
+   * after another; the modules within a level run in parallel, at most
+   * maxParallelAnalyses at a time. Cycles resolved as fixed points are
+   * iterated before their level completes.
    */
-  async orchestrateAnalysis(healthData: HealthData): Promise<OrchestrationResult> {
+  async orchestrateAnalysis(input: HealthDataInput): Promise<OrchestrationResult> {
+    const healthData = normalizeHealthData(input);
     const startTime = Date.now();
     const organResults = new Map<string, PredictionResult>();
-    const dependencyImpacts = new Map<string, number>();
-    const analysisPath: string[] = [];
+    const run: OrchestrationRun = { durations: new Map(), dependencyImpacts: new Map() };
+    const levels: OrchestrationLevel[] = [];
+    // A knowledge graph loaded while this analysis runs applies from the next one
+    const interactions = this.interactions;
 
     this.emit('orchestrationStarted', { timestamp: startTime });
 
     try {
-      if (this.config.enableDependencyAnalysis) {
-        // Sequential analysis based on dependencies
-        const analysisOrder = this.calculateAnalysisOrder();
-        
-        for (const moduleId of analysisOrder) {
-          const module = this.modules.get(moduleId);
-          if (!module) continue;
-
-          analysisPath.push(moduleId);
-          
-          try {
-            // Apply dependency impacts to health data
-            const adjustedHealthData = this.applyDependencyImpacts(healthData, moduleId, organResults);
-            
-            const result = await Promise.race([
-              module.analyze(adjustedHealthData),
-              new Promise<never>((_, reject) => 
-                setTimeout(() => reject(new Error('Module timeout')), this.config.dependencyTimeout)
-              )
-            ]);
-
-            organResults.set(moduleId, {
-              ...result,
-              moduleId,
-              timestamp: Date.now(),
-              processingTime: Date.now() - startTime
-            });
-
-            this.emit('moduleAnalysisComplete', { moduleId, result });
-
-          } catch (error) {
-            this.emit('moduleAnalysisError', { moduleId, error: (error as Error).message });
-            
-            // Continue with fallback result
-            organResults.set(moduleId, {
-              moduleId,
-              riskScore: 0,
-              confidence: 0,
-              recommendations: [],
-              riskFactors: [],
-              timestamp: Date.now(),
-              processingTime: Date.now() - startTime,
-              error: (error as Error).message
-            });
+      const plan = this.planExecution();
+
+      const cycles = new Map<DependencyCycle, CycleReport>(plan.cycles.map(cycle => [cycle, {
+        members: cycle.members,
+        strategy: cycle.strategy,
+        removedDependencies: cycle.removedDependencies
+      }]));
+
+      for (const [index, moduleIds] of plan.levels.entries()) {
+        const levelStartTime = Date.now();
+        // Earlier levels only, so modules of one level never see each other's results
+        const sourceResults = new Map(organResults);
+        const levelResults = await this.analyzeModules(moduleIds, healthData, sourceResults, plan.dependencies, run);
+        levelResults.forEach(result => organResults.set(result.moduleId, result));
+
+        for (const cycle of plan.cycles) {
+          if (cycle.strategy === 'fixed-point' && moduleIds.includes(cycle.members[0])) {
+            Object.assign(cycles.get(cycle)!, await this.iterateToFixedPoint(cycle, healthData, organResults, plan.dependencies, run));
           }
         }
-      } else {
-        // Parallel analysis without dependencies
-        const analysisPromises = Array.from(this.modules.entries()).map(async ([moduleId, module]) => {
-          analysisPath.push(moduleId);
-          
-          try {
-            const result = await module.analyze(healthData);
-            return [moduleId, {
-              ...result,
-              moduleId,
-              timestamp: Date.now(),
-              processingTime: Date.now() - startTime
-            }] as [string, PredictionResult];
-          } catch (error) {
-            return [moduleId, {
-              moduleId,
-              riskScore: 0,
-              confidence: 0,
-              recommendations: [],
-              riskFactors: [],
-              timestamp: Date.now(),
-              processingTime: Date.now() - startTime,
-              error: (error as Error).message
-            }] as [string, PredictionResult];
-          }
-        });
 
-        const results = await Promise.all(analysisPromises);
-        results.forEach(([moduleId, result]) => {
-          organResults.set(moduleId, result);
-        });
+        const level: OrchestrationLevel = { index, modules: moduleIds, duration: Date.now() - levelStartTime };
+        levels.push(level);
+        this.emit('levelComplete', level);
+
+        if (this.config.debugMode) {
+          console.log(`[OrganOrchestrator] Level ${index} (${moduleIds.join(', ')}) completed in ${level.duration}ms`);
+        }
       }
 
       // Calculate organ interactions
-      const organInteractions = this.config.enableInteractionModeling 
-        ? this.calculateOrganInteractions(organResults)
+      const interactionExplanations = this.config.enableInteractionModeling 
+        ? this.calculateOrganInteractions(interactions, organResults)
         : [];
+      const organInteractions = interactions.filter(interaction =>
+        interactionExplanations.some(explanation => explanation.active && explanation.organs === interaction.organs)
+      );
 
       // Calculate global metrics
       const validResults = Array.from(organResults.values()).filter(r => !r.error);
-      const globalRiskScore = this.calculateGlobalRiskScore(validResults, organInteractions);
+      const globalRiskScore = this.calculateGlobalRiskScore(validResults, interactionExplanations);
       const globalConfidence = validResults.length > 0
         ? validResults.reduce((sum, r) => sum + r.confidence, 0) / validResults.length
         : 0;
@@ -436,10 +445,13 @@ export class OrganOrchestrator extends EventEmitter {
         globalRiskScore,
         globalConfidence,
         organInteractions,
-        dependencyImpacts,
+        interactionExplanations,
+        dependencyImpacts: run.dependencyImpacts,
         recommendations,
         processingTime: Date.now() - startTime,
-        analysisPath
+        analysisPath: findCriticalPath(plan, run.durations),
+        levels,
+        cycles: [...cycles.values()]
       };
 
       this.emit('orchestrationComplete', { result, timestamp: Date.now() });
@@ -453,121 +465,143 @@ export class OrganOrchestrator extends EventEmitter {
   }
 
   /**
-   * Apply dependency impacts to health data for a specific module
+   * Analyze modules in parallel, at most maxParallelAnalyses at a time.
+   * The impacts of their dependencies on the source results are propagated
+   * onto their inputs or, with output propagation, onto their risk scores.
    */
-  private applyDependencyImpacts(
-    healthData: HealthData, 
-    targetModuleId: string, 
-    existingResults: Map<string, PredictionResult>
-  ): HealthData {
-    const adjustedData = { ...healthData };
-    
-    const relevantDependencies = this.dependencies.filter(d => d.targetOrgan === targetModuleId);
-    
-    for (const dependency of relevantDependencies) {
-      const sourceResult = existingResults.get(dependency.sourceOrgan);
-      if (!sourceResult || sourceResult.error) continue;
-
-      // Apply dependency impact based on source organ's risk score
-      const impactFactor = (sourceResult.riskScore / 100) * dependency.strength;
-      
-      // Adjust relevant health parameters based on dependency type
-      switch (dependency.dependencyType) {
-        case 'circulatory':
-          if (adjustedData.bloodPressureSystolic) {
-            adjustedData.bloodPressureSystolic *= (1 + impactFactor * 0.1);
-          }
-          break;
-        case 'metabolic':
-          if (adjustedData.glucose) {
-            adjustedData.glucose *= (1 + impactFactor * 0.05);
-          }
-          break;
-        case 'functional':
-          // General functional impact - could affect multiple parameters
-          break;
-        case 'neural':
-          // Neural impact - could affect cognitive or motor functions
-          break;
-      }
-    }
-
-    return adjustedData;
+  private analyzeModules(
+    moduleIds: string[],
+    healthData: CanonicalHealthData,
+    sourceResults: Map<string, PredictionResult>,
+    dependencies: OrganDependency[],
+    run: OrchestrationRun
+  ): Promise<PredictionResult[]> {
+    const propagation = this.config.impactPropagation;
+
+    return runWithConcurrency(moduleIds, this.config.maxParallelAnalyses, async (moduleId) => {
+      const moduleStartTime = Date.now();
+      const impacts = measureImpacts(moduleId, dependencies, sourceResults, propagation);
+
+      const result = propagation === 'inputs'
+        ? await this.analyzeModule(moduleId, modulateInputs(healthData, impacts))
+        : modulateRisk(await this.analyzeModule(moduleId, healthData), impacts);
+
+      // A later fixed-point iteration replaces the impacts of the one before
+      impacts.forEach(impact => run.dependencyImpacts.set(dependencyKey(impact.dependency), impact));
+      run.durations.set(moduleId, (run.durations.get(moduleId) ?? 0) + Date.now() - moduleStartTime);
+      return result;
+    });
   }
 
   /**
-   * Calculate organ interactions and their impacts
+   * Re-analyze the members of a cycle on each other's latest results until
+   * no risk score changes by more than the convergence tolerance. The
+   * first iteration is the level's own pass.
    */
-  private calculateOrganInteractions(organResults: Map<string, PredictionResult>): OrganInteraction[] {
-    const activeInteractions: OrganInteraction[] = [];
-
-    for (const interaction of this.interactions) {
-      // Check if all organs in the interaction have results
-      const hasAllResults = interaction.organs.every(organId => 
-        organResults.has(organId) && !organResults.get(organId)?.error
+  private async iterateToFixedPoint(
+    cycle: DependencyCycle,
+    healthData: CanonicalHealthData,
+    organResults: Map<string, PredictionResult>,
+    dependencies: OrganDependency[],
+    run: OrchestrationRun
+  ): Promise<Pick<CycleReport, 'iterations' | 'converged' | 'residual'>> {
+    const { convergenceTolerance, maxCycleIterations } = this.config;
+    let iterations = 1;
+    let residual: number | undefined;
+
+    while (iterations < maxCycleIterations && !(residual !== undefined && residual <= convergenceTolerance)) {
+      const previous = new Map(organResults);
+      const results = await this.analyzeModules(
+        cycle.members, healthData, previous, [...dependencies, ...cycle.dependencies], run
       );
 
-      if (hasAllResults) {
-        // Calculate correlation between organs
-        const organScores = interaction.organs.map(organId => 
-          organResults.get(organId)!.riskScore
-        );
-
-        const correlation = this.calculateCorrelation(organScores);
-        
-        if (Math.abs(correlation) >= this.config.correlationThreshold) {
-          activeInteractions.push({
-            ...interaction,
-            impactFactor: interaction.impactFactor * Math.abs(correlation)
-          });
-        }
-      }
+      residual = Math.max(...results.map(result => Math.abs(result.riskScore - previous.get(result.moduleId)!.riskScore)));
+      results.forEach(result => organResults.set(result.moduleId, result));
+      iterations++;
     }
 
-    return activeInteractions;
+    const converged = residual !== undefined && residual <= convergenceTolerance;
+    this.emit('cycleIterated', { members: cycle.members, iterations, converged, residual });
+
+    return { iterations, converged, residual };
   }
 
   /**
-   * Calculate correlation between organ scores
+   * Analyze one module within the dependency timeout, with a fallback
+   * result when it fails
    */
-  private calculateCorrelation(scores: number[]): number {
-    if (scores.length < 2) return 0;
+  private async analyzeModule(moduleId: string, healthData: CanonicalHealthData): Promise<PredictionResult> {
+    const module = this.modules.get(moduleId)!;
+    const startTime = Date.now();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
 
-    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
-    const variance = scores.reduce((sum, score) => sum + Math.pow(score - mean, 2), 0) / scores.length;
-    
-    if (variance === 0) return 1; // Perfect correlation if no variance
-    
-    // Simplified correlation calculation
-    return Math.min(1, variance / 1000); // Normalize to 0-1 range
+    try {
+      const result = await Promise.race([
+        module.analyze(healthData),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Module timeout')), this.config.dependencyTimeout);
+        })
+      ]);
+
+      this.emit('moduleAnalysisComplete', { moduleId, result });
+
+      return {
+        ...result,
+        moduleId,
+        timestamp: Date.now(),
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      this.emit('moduleAnalysisError', { moduleId, error: (error as Error).message });
+
+      return {
+        moduleId,
+        riskScore: 0,
+        confidence: 0,
+        riskLevel: 'low',
+        recommendations: [],
+        riskFactors: [],
+        timestamp: Date.now(),
+        processingTime: Date.now() - startTime,
+        error: (error as Error).message
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Explain how each pair (or group) of interacting organs interacts in
+   * this analysis
+   */
+  private calculateOrganInteractions(
+    interactions: OrganInteraction[],
+    organResults: Map<string, PredictionResult>
+  ): InteractionExplanation[] {
+    const config = {
+      threshold: this.config.interactionThreshold,
+      maxAdjustment: this.config.maxInteractionAdjustment
+    };
+
+    return interactions
+      .map(interaction => explainInteraction(interaction, organResults, config))
+      .filter((explanation): explanation is InteractionExplanation => explanation !== null);
   }
 
   /**
-   * Calculate global risk score considering organ interactions
+   * Calculate global risk score: the mean organ risk, adjusted by the
+   * active interactions within the configured bound
    */
   private calculateGlobalRiskScore(
     results: PredictionResult[], 
-    interactions: OrganInteraction[]
+    interactions: InteractionExplanation[]
   ): number {
     if (results.length === 0) return 0;
 
-    let baseScore = results.reduce((sum, r) => sum + r.riskScore, 0) / results.length;
-
-    // Apply interaction impacts
-    for (const interaction of interactions) {
-      const relevantResults = results.filter(r => interaction.organs.includes(r.moduleId));
-      if (relevantResults.length >= 2) {
-        const interactionScore = relevantResults.reduce((sum, r) => sum + r.riskScore, 0) / relevantResults.length;
-        
-        if (interaction.interactionType === 'synergistic') {
-          baseScore *= interaction.impactFactor;
-        } else if (interaction.interactionType === 'antagonistic') {
-          baseScore *= (2 - interaction.impactFactor); // Inverse effect
-        }
-      }
-    }
+    const baseScore = results.reduce((sum, r) => sum + r.riskScore, 0) / results.length;
+    const adjustment = combineInteractionAdjustments(interactions, this.config.maxInteractionAdjustment);
 
-    return Math.min(100, Math.max(0, baseScore));
+    return Math.min(100, Math.max(0, baseScore * (1 + adjustment)));
   }
 
   /**
@@ -624,6 +658,17 @@ export class OrganOrchestrator extends EventEmitter {
     };
   }
 
+  /**
+   * Configuration and dependency graph, for recording in an analysis bundle
+   */
+  getAuditSnapshot(): OrchestrationSnapshot {
+    return {
+      config: { ...this.config },
+      knowledgeVersion: this.knowledgeVersion,
+      dependencies: this.dependencies.map(dependency => ({ ...dependency }))
+    };
+  }
+
   /**
    * Update orchestrator configuration
    */
@@ -644,8 +689,7 @@ export class OrganOrchestrator extends EventEmitter {
     this.dependencies = [];
     this.interactions = [];
     
-    this.initializeDefaultDependencies();
-    this.initializeDefaultInteractions();
+    this.initializeDefaultKnowledge();
     
     this.emit('orchestratorReset', { timestamp: Date.now() });
 
@@ -658,6 +702,7 @@ export class OrganOrchestrator extends EventEmitter {
    * Cleanup resources
    */
   destroy(): void {
+    this.knowledgeWatchers.forEach(stop => stop());
     this.modules.clear();
     this.dependencies = [];
     this.interactions = [];
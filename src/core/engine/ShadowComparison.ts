@@ -0,0 +1,98 @@
+/**
+ * Shadow Comparison
+ * Divergence statistics between a module's primary and shadow versions
+ *
+ * Shadow versions analyze the same live data as the primary version, but
+ * their results are only compared, never returned. For every pair of
+ * versions the tracker keeps the mean and maximum absolute risk score
+ * difference and how often the two disagree on the risk level, so a new
+ * scoring version can be validated before it is promoted.
+ */
+
+import { PredictionResult } from '../types/core';
+
+export interface ShadowComparison {
+  moduleId: string;
+  primaryVersion: string;
+  shadowVersion: string;
+  scoreDelta: number; // Shadow minus primary risk score
+  riskLevelAgrees: boolean;
+}
+
+export interface ShadowDivergenceStats {
+  moduleId: string;
+  primaryVersion: string;
+  shadowVersion: string;
+  comparisons: number;
+  meanAbsoluteDelta: number;
+  maxAbsoluteDelta: number;
+  meanDelta: number; // Positive when the shadow scores higher on average
+  riskLevelDisagreements: number;
+  disagreementRate: number; // 0-1
+  shadowErrors: number; // Shadow analyses that failed while the primary succeeded
+  lastComparedAt: number | null;
+}
+
+export class ShadowDivergenceTracker {
+  private stats = new Map<string, ShadowDivergenceStats>();
+
+  /**
+   * Compare a shadow result with the primary result of the same analysis
+   */
+  record(primary: PredictionResult, primaryVersion: string, shadowVersion: string, shadow: PredictionResult): ShadowComparison {
+    const stats = this.entry(primary.moduleId, primaryVersion, shadowVersion);
+    const scoreDelta = shadow.riskScore - primary.riskScore;
+    const riskLevelAgrees = shadow.riskLevel === primary.riskLevel;
+
+    const n = ++stats.comparisons;
+    stats.meanAbsoluteDelta += (Math.abs(scoreDelta) - stats.meanAbsoluteDelta) / n;
+    stats.meanDelta += (scoreDelta - stats.meanDelta) / n;
+    stats.maxAbsoluteDelta = Math.max(stats.maxAbsoluteDelta, Math.abs(scoreDelta));
+    if (!riskLevelAgrees) stats.riskLevelDisagreements++;
+    stats.disagreementRate = stats.riskLevelDisagreements / n;
+    stats.lastComparedAt = Date.now();
+
+    return { moduleId: primary.moduleId, primaryVersion, shadowVersion, scoreDelta, riskLevelAgrees };
+  }
+
+  recordError(moduleId: string, primaryVersion: string, shadowVersion: string): void {
+    this.entry(moduleId, primaryVersion, shadowVersion).shadowErrors++;
+  }
+
+  getStats(moduleId?: string): ShadowDivergenceStats[] {
+    return Array.from(this.stats.values())
+      .filter(stats => moduleId === undefined || stats.moduleId === moduleId)
+      .map(stats => ({ ...stats }));
+  }
+
+  reset(moduleId?: string): void {
+    for (const [key, stats] of this.stats) {
+      if (moduleId === undefined || stats.moduleId === moduleId) {
+        this.stats.delete(key);
+      }
+    }
+  }
+
+  private entry(moduleId: string, primaryVersion: string, shadowVersion: string): ShadowDivergenceStats {
+    const key = `${moduleId}@${primaryVersion}:${shadowVersion}`;
+    let stats = this.stats.get(key);
+
+    if (!stats) {
+      stats = {
+        moduleId,
+        primaryVersion,
+        shadowVersion,
+        comparisons: 0,
+        meanAbsoluteDelta: 0,
+        maxAbsoluteDelta: 0,
+        meanDelta: 0,
+        riskLevelDisagreements: 0,
+        disagreementRate: 0,
+        shadowErrors: 0,
+        lastComparedAt: null
+      };
+      this.stats.set(key, stats);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Analysis Scheduler Tests
+ * Unit tests for priority ordering, tenant fairness and queue limits
+ */
+
+import { AnalysisScheduler, AnalysisPriority, QueueFullError, SchedulableItem } from '../AnalysisScheduler';
+
+describe('AnalysisScheduler', () => {
+  let scheduler: AnalysisScheduler<SchedulableItem>;
+
+  const item = (id: string, tenantId: string, priority: AnalysisPriority = 'batch'): SchedulableItem => ({
+    id,
+    tenantId,
+    priority,
+    timestamp: Date.now()
+  });
+
+  const drainIds = () => {
+    const ids: string[] = [];
+    for (let next = scheduler.next(); next; next = scheduler.next()) ids.push(next.id);
+    return ids;
+  };
+
+  beforeEach(() => {
+    scheduler = new AnalysisScheduler(() => ({ maxQueueDepth: 6, maxQueueDepthPerTenant: 3 }));
+  });
+
+  test('should serve higher priorities first', () => {
+    scheduler.enqueue(item('background', 'a', 'background'));
+    scheduler.enqueue(item('batch', 'a', 'batch'));
+    scheduler.enqueue(item('interactive', 'b', 'interactive'));
+
+    expect(drainIds()).toEqual(['interactive', 'batch', 'background']);
+  });
+
+  test('should rotate between tenants within a priority', () => {
+    ['a1', 'a2', 'a3'].forEach(id => scheduler.enqueue(item(id, 'a')));
+    ['b1', 'b2'].forEach(id => scheduler.enqueue(item(id, 'b')));
+
+    expect(drainIds()).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+  });
+
+  test('should reject items beyond the queue limits', () => {
+    ['a1', 'a2', 'a3'].forEach(id => scheduler.enqueue(item(id, 'a')));
+    expect(() => scheduler.enqueue(item('a4', 'a'))).toThrow(QueueFullError);
+
+    ['b1', 'b2', 'b3'].forEach(id => scheduler.enqueue(item(id, 'b')));
+    expect(() => scheduler.enqueue(item('c1', 'c'))).toThrow('Analysis queue is full (6 pending analyses)');
+  });
+
+  test('should remove pending items and report stats', () => {
+    const removed = item('a2', 'a', 'interactive');
+    scheduler.enqueue(item('a1', 'a', 'interactive'));
+    scheduler.enqueue(removed);
+    scheduler.enqueue(item('b1', 'b', 'background'));
+
+    expect(scheduler.remove(removed)).toBe(true);
+    expect(scheduler.remove(removed)).toBe(false);
+    expect(scheduler.getStats()).toMatchObject({
+      queued: 2,
+      byPriority: { interactive: 1, batch: 0, background: 1 },
+      tenants: 2
+    });
+    expect(scheduler.drain().map(i => i.id)).toEqual(['a1', 'b1']);
+    expect(scheduler.length).toBe(0);
+  });
+});
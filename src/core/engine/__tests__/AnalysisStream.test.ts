@@ -0,0 +1,98 @@
+/**
+ * Analysis Stream Tests
+ * Unit tests for incremental module results from the digital twin engine
+ */
+
+import { DigitalTwinEngine } from '../DigitalTwinEngine';
+import { AnalysisUpdate } from '../AnalysisStream';
+import { AnalysisCancelledError } from '../cancellation';
+import { createStubModule } from '../../../tests/setup';
+
+describe('DigitalTwinEngine.analyzeHealthStream', () => {
+  const input = { name: 'Test Patient', age: 50, sex: 'female' as const, measuredAt: Date.parse('2026-01-05') };
+  let engine: DigitalTwinEngine;
+
+  const collect = async (stream: AsyncIterable<AnalysisUpdate>) => {
+    const updates: AnalysisUpdate[] = [];
+    for await (const update of stream) updates.push(update);
+    return updates;
+  };
+
+  beforeEach(() => {
+    engine = new DigitalTwinEngine({
+      retryAttempts: 1,
+      validationMode: 'off',
+      performanceMonitoring: false
+    });
+    engine.registerModule(createStubModule('slow', { analyze: () => 60, delayMs: 40 }));
+    engine.registerModule(createStubModule('fast', { analyze: () => 20, delayMs: 5 }));
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  test('should yield each module result as it completes', async () => {
+    const updates = await collect(engine.analyzeHealthStream(input));
+
+    expect(updates.map(u => u.result.moduleId)).toEqual(['fast', 'slow']);
+    expect(updates.map(u => u.completed)).toEqual([1, 2]);
+    expect(updates.map(u => u.final)).toEqual([false, true]);
+  });
+
+  test('should refine the provisional score as results arrive', async () => {
+    const updates = await collect(engine.analyzeHealthStream(input));
+
+    expect(updates[0].provisionalRiskScore).toBe(20);
+    expect(updates[1].provisionalRiskScore).toBe(40);
+  });
+
+  test('should replay cached results as a stream', async () => {
+    await collect(engine.analyzeHealthStream(input));
+    const updates = await collect(engine.analyzeHealthStream(input));
+
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toMatchObject({ final: true, completed: 2, total: 2 });
+  });
+
+  test('should report a result before its uncertainty interval', async () => {
+    engine.updateConfig({ uncertainty: { enabled: false, samples: 4, imputeMissing: false } });
+    const updates = await collect(engine.analyzeHealthStream(input, { uncertainty: true }));
+    const fast = updates.filter(u => u.result.moduleId === 'fast');
+
+    expect(fast).toHaveLength(2);
+    expect(fast[0].result.uncertainty).toBeUndefined();
+    expect(fast[1].result.uncertainty).toBeDefined();
+    expect(updates[updates.length - 1].results).toHaveLength(2);
+    expect(updates[updates.length - 1].results.every(r => r.uncertainty)).toBe(true);
+  });
+
+  test('should estimate intervals only for the analysis that asked for them', async () => {
+    engine.updateConfig({ uncertainty: { enabled: false, samples: 4, imputeMissing: false } });
+    await engine.analyzeHealth(input, { uncertainty: true });
+    const results = await engine.analyzeHealth(input);
+
+    expect(results.every(r => r.uncertainty === undefined)).toBe(true);
+  });
+
+  test('should cancel the analysis when iteration stops early', async () => {
+    const cancelled = jest.fn();
+    engine.on('analysisCancelled', cancelled);
+
+    for await (const update of engine.analyzeHealthStream(input)) {
+      expect(update.result.moduleId).toBe('fast');
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ stage: 'running' }));
+  });
+
+  test('should reject when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const stream = engine.analyzeHealthStream(input, { signal: controller.signal });
+    controller.abort();
+
+    await expect(collect(stream)).rejects.toBeInstanceOf(AnalysisCancelledError);
+  });
+});
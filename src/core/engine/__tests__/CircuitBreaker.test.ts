@@ -0,0 +1,149 @@
+/**
+ * Circuit Breaker Tests
+ * Unit tests for per-module retries and circuit breakers in the engine
+ */
+
+import { DigitalTwinEngine } from '../DigitalTwinEngine';
+import { MissingInputError } from '../../validation/HealthDataValidator';
+import { EngineEventData, OrganModule } from '../../types/core';
+import { createStubModule } from '../../../tests/setup';
+
+/**
+ * Stub module that counts its analyses and fails as scripted
+ */
+function createTestModule(id: string, analyze: (call: number) => void): OrganModule & { calls: number } {
+  const module = Object.assign(createStubModule(id, {
+    analyze: () => {
+      analyze(++module.calls);
+      return 40;
+    }
+  }), { calls: 0 });
+  return module;
+}
+
+describe('DigitalTwinEngine circuit breakers', () => {
+  const input = { name: 'Test Patient', age: 50, sex: 'female' as const };
+  let engine: DigitalTwinEngine;
+
+  beforeEach(() => {
+    engine = new DigitalTwinEngine({
+      retryAttempts: 3,
+      retryDelay: 0,
+      validationMode: 'off',
+      cacheEnabled: false,
+      performanceMonitoring: false,
+      circuitBreaker: { failureThreshold: 3, coolDown: 60000, halfOpenMaxCalls: 1, successThreshold: 1 }
+    });
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  test('should retry only the failing module', async () => {
+    const healthy = createTestModule('renal', () => {});
+    const flaky = createTestModule('hepatic', call => {
+      if (call === 1) throw new Error('Transient failure');
+    });
+    engine.registerModule(healthy);
+    engine.registerModule(flaky);
+
+    const results = await engine.analyzeHealth(input);
+
+    expect(results.every(r => !r.error)).toBe(true);
+    expect(healthy.calls).toBe(1);
+    expect(flaky.calls).toBe(2);
+    expect(engine.getCircuitStatuses().find(c => c.moduleId === 'hepatic')).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  test('should open the breaker and skip the module after repeated failures', async () => {
+    const broken = createTestModule('hepatic', () => { throw new Error('Model crashed'); });
+    const alerts: EngineEventData['performanceAlert'][] = [];
+    engine.on('performanceAlert', (alert: EngineEventData['performanceAlert']) => alerts.push(alert));
+    engine.registerModule(createTestModule('renal', () => {}));
+    engine.registerModule(broken);
+
+    const first = await engine.analyzeHealth(input);
+    expect(first.find(r => r.moduleId === 'hepatic')!.error).toBe('Model crashed');
+    expect(broken.calls).toBe(3);
+    expect(alerts).toEqual([expect.objectContaining({ moduleId: 'hepatic', value: 3, threshold: 3 })]);
+
+    const second = await engine.analyzeHealth(input);
+    expect(second.find(r => r.moduleId === 'hepatic')!.skipped).toBe('circuit-open');
+    expect(broken.calls).toBe(3);
+
+    const health = engine.healthCheck();
+    expect(health.details.moduleHealth).toBe('degraded');
+    expect(health.circuits.find(c => c.moduleId === 'hepatic')).toMatchObject({ state: 'open', rejectedCalls: 1 });
+  });
+
+  test('should close the breaker after a successful half-open trial', async () => {
+    let failing = true;
+    engine.updateConfig({
+      retryAttempts: 1,
+      circuitBreaker: { failureThreshold: 1, coolDown: 0, halfOpenMaxCalls: 1, successThreshold: 1 }
+    });
+    engine.registerModule(createTestModule('hepatic', () => {
+      if (failing) throw new Error('Model crashed');
+    }));
+    const transitions: string[] = [];
+    engine.on('circuitStateChanged', ({ from, to }) => transitions.push(`${from}->${to}`));
+
+    await engine.analyzeHealth(input);
+    failing = false;
+    const [result] = await engine.analyzeHealth(input);
+
+    expect(result.error).toBeUndefined();
+    expect(transitions).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  test('should re-run a module skipped by its breaker once the cool-down has passed', async () => {
+    let failing = true;
+    engine.updateConfig({
+      retryAttempts: 1,
+      cacheEnabled: true,
+      circuitBreaker: { failureThreshold: 1, coolDown: 20, halfOpenMaxCalls: 1, successThreshold: 1 }
+    });
+    engine.registerModule(createTestModule('hepatic', () => {
+      if (failing) throw new Error('Model crashed');
+    }));
+
+    expect((await engine.analyzeHealth(input))[0].error).toBe('Model crashed');
+    expect((await engine.analyzeHealth(input))[0].skipped).toBe('circuit-open');
+
+    failing = false;
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const [result] = await engine.analyzeHealth(input);
+
+    expect(result.skipped).toBeUndefined();
+    expect(result.error).toBeUndefined();
+  });
+
+  test('should run uncertainty samples through the breaker', async () => {
+    const module = createTestModule('hepatic', call => {
+      if (call > 1) throw new Error('Model crashed');
+    });
+    engine.updateConfig({ retryAttempts: 1, uncertainty: { enabled: true, samples: 5, imputeMissing: false } });
+    engine.registerModule(module);
+
+    const [result] = await engine.analyzeHealth(input);
+
+    // The point estimate, then three failing samples open the breaker and the rest are refused
+    expect(result.error).toBeUndefined();
+    expect(module.calls).toBe(4);
+    expect(engine.getCircuitStatuses()[0]).toMatchObject({ state: 'open', rejectedCalls: 2 });
+  });
+
+  test('should not retry or count missing input', async () => {
+    const module = createTestModule('renal', () => {
+      throw new MissingInputError('renal', 'renal module', ['creatinine']);
+    });
+    engine.registerModule(module);
+
+    await engine.analyzeHealth(input);
+    await engine.analyzeHealth(input);
+
+    expect(module.calls).toBe(2);
+    expect(engine.getCircuitStatuses()[0]).toMatchObject({ state: 'closed', totalFailures: 0 });
+  });
+});
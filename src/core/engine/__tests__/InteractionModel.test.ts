@@ -0,0 +1,94 @@
+/**
+ * Interaction Model Tests
+ * Unit tests for cross-organ interaction strength and global risk adjustment
+ */
+
+import { explainInteraction, combineInteractionAdjustments, riskDrivers, InteractionExplanation } from '../InteractionModel';
+import { OrganInteraction } from '../OrganOrchestrator';
+import { PredictionResult, RiskContribution } from '../../types/core';
+
+function createResult(moduleId: string, riskScore: number, contributions: Array<Partial<RiskContribution>> = []): PredictionResult {
+  return {
+    moduleId,
+    riskScore,
+    confidence: 1,
+    riskLevel: 'low',
+    riskFactors: [],
+    recommendations: [],
+    timestamp: 0,
+    processingTime: 0,
+    contributions: contributions.map(c => ({ ruleId: `${moduleId}.rule`, label: 'Rule', points: 10, inputs: {}, ...c }))
+  };
+}
+
+function createExplanation(adjustment: number): InteractionExplanation {
+  return {
+    organs: ['cardiovascular', 'renal'],
+    interactionType: 'synergistic',
+    coElevation: 0.5,
+    sharedFactors: [],
+    factorOverlap: 0,
+    strength: 0.5,
+    active: true,
+    adjustment,
+    explanation: 'Interaction'
+  };
+}
+
+describe('Interaction model', () => {
+  const cardiorenal: OrganInteraction = {
+    organs: ['cardiovascular', 'renal'],
+    interactionType: 'synergistic',
+    impactFactor: 1.15,
+    description: 'Cardiorenal axis'
+  };
+  const config = { threshold: 0.3, maxAdjustment: 0.2 };
+
+  test('should take risk drivers from positive contributions of the module itself', () => {
+    const result = createResult('renal', 40, [
+      { inputs: { egfr: 50, age: 70 } },
+      { inputs: { bmi: 22 }, points: -5 },
+      { ruleId: 'renal.clamp', inputs: { before: 105, after: 100 } },
+      { ruleId: 'orchestrator.circulatory_dependency_on_cardiovascular', inputs: { sourceRiskScore: 60 } }
+    ]);
+
+    expect([...riskDrivers(result)].sort()).toEqual(['age', 'egfr']);
+  });
+
+  test('should strengthen interactions of co-elevated organs with shared drivers', () => {
+    const shared = new Map([
+      ['cardiovascular', createResult('cardiovascular', 64, [{ inputs: { age: 70, diabetes: true } }])],
+      ['renal', createResult('renal', 64, [{ inputs: { age: 70, diabetes: true } }])]
+    ]);
+    const unrelated = new Map([
+      ['cardiovascular', createResult('cardiovascular', 64, [{ inputs: { ldlCholesterol: 190 } }])],
+      ['renal', createResult('renal', 64, [{ inputs: { egfr: 40 } }])]
+    ]);
+
+    const withShared = explainInteraction(cardiorenal, shared, config)!;
+    const withoutShared = explainInteraction(cardiorenal, unrelated, config)!;
+
+    expect(withShared).toMatchObject({ coElevation: 0.64, sharedFactors: ['age', 'diabetes'], strength: 0.64, active: true });
+    expect(withShared.adjustment).toBeCloseTo(0.096);
+    expect(withShared.explanation).toContain('share 2 risk drivers (age, diabetes)');
+    expect(withoutShared).toMatchObject({ sharedFactors: [], strength: 0.32, active: true });
+  });
+
+  test('should keep an interaction with one healthy organ inactive', () => {
+    const results = new Map([
+      ['cardiovascular', createResult('cardiovascular', 90, [{ inputs: { age: 70 } }])],
+      ['renal', createResult('renal', 4, [{ inputs: { age: 70 } }])]
+    ]);
+
+    expect(explainInteraction(cardiorenal, results, config)).toMatchObject({ coElevation: 0.19, active: false, adjustment: 0 });
+    expect(explainInteraction(cardiorenal, new Map([['renal', results.get('renal')!]]), config)).toBeNull();
+  });
+
+  test('should bound the combined adjustment independently of order', () => {
+    const explanations = [0.12, 0.08, 0.09].map(createExplanation);
+
+    expect(combineInteractionAdjustments(explanations, 0.2)).toBe(0.2);
+    expect(combineInteractionAdjustments(explanations.slice(1), 0.2))
+      .toBe(combineInteractionAdjustments([...explanations.slice(1)].reverse(), 0.2));
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Module Lifecycle Tests
+ * Unit tests for module initialization, health checks and graceful degradation
+ */
+
+import { DigitalTwinEngine } from '../DigitalTwinEngine';
+import { OrganModule } from '../../types/core';
+import { createStubModule, StubModuleOptions } from '../../../tests/setup';
+
+/**
+ * Stub module that records its lifecycle calls
+ */
+function createTestModule(id: string, options: StubModuleOptions = {}): OrganModule & { calls: string[] } {
+  const calls: string[] = [];
+  return Object.assign(createStubModule(id, {
+    ...options,
+    analyze: () => {
+      calls.push('analyze');
+      return 30;
+    },
+    initialize: async () => {
+      calls.push('initialize');
+      await options.initialize?.();
+    },
+    cleanup: async () => { calls.push('cleanup'); }
+  }), { calls });
+}
+
+describe('DigitalTwinEngine module lifecycle', () => {
+  const input = { name: 'Test Patient', age: 50, sex: 'female' as const };
+  let engine: DigitalTwinEngine;
+
+  beforeEach(() => {
+    engine = new DigitalTwinEngine({
+      retryAttempts: 1,
+      validationMode: 'off',
+      cacheEnabled: false,
+      performanceMonitoring: false
+    });
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  test('should initialize modules on first analysis', async () => {
+    const module = createTestModule('renal');
+    const transitions: string[] = [];
+    engine.on('moduleStateChanged', ({ from, to }) => transitions.push(`${from}->${to}`));
+    engine.registerModule(module);
+
+    expect(engine.getModuleStatuses()[0].state).toBe('registered');
+    await engine.analyzeHealth(input);
+
+    expect(module.calls).toEqual(['initialize', 'analyze']);
+    expect(transitions).toEqual(['registered->initializing', 'initializing->ready']);
+  });
+
+  test('should initialize modules on registration when eager', async () => {
+    engine.updateConfig({ moduleInitialization: 'eager' });
+    const module = createTestModule('renal');
+    engine.registerModule(module);
+
+    expect(module.calls).toEqual(['initialize']);
+    expect((await engine.initializeModules()).map(s => s.state)).toEqual(['ready']);
+    expect(module.calls).toEqual(['initialize']);
+  });
+
+  test('should skip a module that failed to initialize', async () => {
+    engine.registerModule(createTestModule('renal'));
+    engine.registerModule(createTestModule('hepatic', {
+      initialize: async () => { throw new Error('Model weights not found'); }
+    }));
+
+    const results = await engine.analyzeHealth(input);
+    const hepatic = results.find(r => r.moduleId === 'hepatic')!;
+
+    expect(results.find(r => r.moduleId === 'renal')!.error).toBeUndefined();
+    expect(hepatic.skipped).toBe('failed');
+    expect(hepatic.error).toContain('Model weights not found');
+    expect(engine.healthCheck().details.moduleHealth).toBe('degraded');
+  });
+
+  test('should skip a degraded module until it is restarted', async () => {
+    let healthy = true;
+    const module = createTestModule('renal', { isHealthy: () => healthy });
+    engine.updateConfig({ moduleRestartDelay: 60000 });
+    engine.registerModule(module);
+    await engine.analyzeHealth(input);
+
+    healthy = false;
+    const [skipped] = await engine.analyzeHealth(input);
+    expect(skipped.skipped).toBe('degraded');
+    expect(engine.healthCheck().details.moduleHealth).toBe('failing');
+
+    healthy = true;
+    expect(await engine.restartModule('renal')).toBe('ready');
+    const [recovered] = await engine.analyzeHealth(input);
+
+    expect(recovered.skipped).toBeUndefined();
+    expect(module.calls).toEqual(['initialize', 'analyze', 'cleanup', 'initialize', 'analyze']);
+    expect(engine.getModuleStatuses()[0].restarts).toBe(1);
+  });
+
+  test('should restart a failed module once the restart delay has passed', async () => {
+    let attempts = 0;
+    engine.updateConfig({ moduleRestartDelay: 0 });
+    engine.registerModule(createTestModule('renal', {
+      initialize: async () => {
+        if (++attempts === 1) throw new Error('Temporarily unavailable');
+      }
+    }));
+
+    expect((await engine.analyzeHealth(input))[0].skipped).toBe('failed');
+    expect((await engine.analyzeHealth(input))[0].skipped).toBeUndefined();
+    expect(attempts).toBe(2);
+  });
+
+  test('should not cache results with a skipped module', async () => {
+    let attempts = 0;
+    const module = createTestModule('renal', {
+      initialize: async () => {
+        if (++attempts === 1) throw new Error('Temporarily unavailable');
+      }
+    });
+    engine.updateConfig({ cacheEnabled: true, moduleRestartDelay: 60000 });
+    engine.registerModule(module);
+
+    expect((await engine.analyzeHealth(input))[0].skipped).toBe('failed');
+    expect(await engine.restartModule('renal')).toBe('ready');
+    expect((await engine.analyzeHealth(input))[0].skipped).toBeUndefined();
+
+    // Complete results are cached as before
+    await engine.analyzeHealth(input);
+    expect(module.calls.filter(call => call === 'analyze')).toHaveLength(1);
+  });
+});
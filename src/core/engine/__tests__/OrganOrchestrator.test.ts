@@ -0,0 +1,117 @@
+/**
+ * Organ Orchestrator Tests
+ * Unit tests for layered execution of the organ dependency graph and its cycles
+ */
+
+import { OrganOrchestrator } from '../OrganOrchestrator';
+import { OrganModule } from '../../types/core';
+import { createStubModule, waitFor } from '../../../tests/setup';
+
+const ORGANS = ['cardiovascular', 'renal', 'hepatic', 'pulmonary', 'neurological', 'musculoskeletal'];
+
+function createDelayedModule(
+  id: string,
+  delay: number,
+  tracker: { running: number; maxRunning: number },
+  score: () => number = () => 20
+): OrganModule {
+  return createStubModule(id, {
+    analyze: async () => {
+      tracker.running++;
+      tracker.maxRunning = Math.max(tracker.maxRunning, tracker.running);
+      await waitFor(delay);
+      tracker.running--;
+      return score();
+    }
+  });
+}
+
+describe('OrganOrchestrator', () => {
+  const input = { name: 'Test Patient', age: 58, sex: 'male' as const };
+  let tracker: { running: number; maxRunning: number };
+
+  const createOrchestrator = (config = {}, delays: Record<string, number> = {}) => {
+    const orchestrator = new OrganOrchestrator(config);
+    ORGANS.forEach(id => orchestrator.registerModule(createDelayedModule(id, delays[id] ?? 5, tracker)));
+    return orchestrator;
+  };
+
+  beforeEach(() => {
+    tracker = { running: 0, maxRunning: 0 };
+  });
+
+  test('should run independent modules in the same level', async () => {
+    const result = await createOrchestrator().orchestrateAnalysis(input);
+
+    expect(result.levels.map(level => level.modules)).toEqual([
+      ['hepatic'],
+      ['cardiovascular'],
+      ['renal', 'pulmonary', 'neurological'],
+      ['musculoskeletal']
+    ]);
+    expect(result.organResults.size).toBe(6);
+    expect(tracker.maxRunning).toBe(3);
+  });
+
+  test('should limit each level to maxParallelAnalyses', async () => {
+    const result = await createOrchestrator({ maxParallelAnalyses: 2 }).orchestrateAnalysis(input);
+
+    expect(tracker.maxRunning).toBe(2);
+    expect(result.levels[2].modules).toHaveLength(3);
+  });
+
+  test('should report the slowest dependency chain as the critical path', async () => {
+    const result = await createOrchestrator({}, { neurological: 60 }).orchestrateAnalysis(input);
+
+    expect(result.analysisPath).toEqual(['hepatic', 'cardiovascular', 'neurological', 'musculoskeletal']);
+    expect(result.levels[2].duration).toBeGreaterThanOrEqual(60);
+  });
+
+  test('should run all modules in one level without dependency analysis', async () => {
+    const result = await createOrchestrator({ enableDependencyAnalysis: false }).orchestrateAnalysis(input);
+
+    expect(result.levels).toHaveLength(1);
+    expect(result.levels[0].modules).toEqual(ORGANS);
+    expect(tracker.maxRunning).toBe(4);
+  });
+
+  test('should break the weakest dependency of each cycle', async () => {
+    const orchestrator = createOrchestrator();
+    const result = await orchestrator.orchestrateAnalysis(input);
+
+    expect(orchestrator.detectCycles()).toEqual([['cardiovascular', 'renal', 'pulmonary', 'neurological', 'musculoskeletal']]);
+    expect(result.cycles).toHaveLength(1);
+    expect(result.cycles[0].removedDependencies.map(d => `${d.sourceOrgan}->${d.targetOrgan}`)).toEqual([
+      'musculoskeletal->cardiovascular',
+      'renal->cardiovascular',
+      'pulmonary->cardiovascular'
+    ]);
+  });
+
+  test('should analyze a cycle as a joint group', async () => {
+    const result = await createOrchestrator({ cycleResolution: 'joint-group' }).orchestrateAnalysis(input);
+
+    expect(result.levels.map(level => level.modules)).toEqual([
+      ['hepatic'],
+      ['cardiovascular', 'renal', 'pulmonary', 'neurological', 'musculoskeletal']
+    ]);
+    expect(result.cycles[0]).toMatchObject({ strategy: 'joint-group', removedDependencies: [] });
+  });
+
+  test('should iterate a cycle until its risk scores converge', async () => {
+    const result = await createOrchestrator({ cycleResolution: 'fixed-point' }).orchestrateAnalysis(input);
+
+    expect(result.cycles[0]).toMatchObject({ strategy: 'fixed-point', iterations: 2, converged: true, residual: 0 });
+  });
+
+  test('should stop iterating a cycle that does not converge', async () => {
+    let calls = 0;
+    const orchestrator = new OrganOrchestrator({ cycleResolution: 'fixed-point', maxCycleIterations: 4 });
+    ORGANS.forEach(id => orchestrator.registerModule(createDelayedModule(id, 1, tracker, () => (id === 'renal' ? ++calls : 20))));
+
+    const result = await orchestrator.orchestrateAnalysis(input);
+
+    expect(result.cycles[0]).toMatchObject({ iterations: 4, converged: false, residual: 1 });
+    expect(result.organResults.get('renal')!.riskScore).toBe(4);
+  });
+});
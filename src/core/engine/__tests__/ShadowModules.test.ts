@@ -0,0 +1,101 @@
+/**
+ * Shadow Module Tests
+ * Unit tests for versioned modules running in shadow mode
+ */
+
+import { DigitalTwinEngine } from '../DigitalTwinEngine';
+import { OrganModule } from '../../types/core';
+import { CanonicalHealthData } from '../../types/healthData';
+import { AnalysisService } from '../../services/AnalysisService';
+import { createStubModule } from '../../../tests/setup';
+
+function createVersionedModule(version: string, score: (data: CanonicalHealthData) => number): OrganModule {
+  return createStubModule('renal', { version, analyze: score });
+}
+
+describe('DigitalTwinEngine shadow modules', () => {
+  let engine: DigitalTwinEngine;
+
+  const analyze = async (age: number) => {
+    const compared = new Promise(resolve => engine.once('shadowComparison', resolve));
+    const results = await engine.analyzeHealth({ name: 'Test Patient', age, sex: 'female' });
+    await compared;
+    return results;
+  };
+
+  beforeEach(() => {
+    engine = new DigitalTwinEngine({ retryAttempts: 1, validationMode: 'off', performanceMonitoring: false });
+    engine.registerModule(createVersionedModule('2.0.0', data => data.age));
+    engine.registerModule(createVersionedModule('3.0.0', data => data.age + 10), { role: 'shadow' });
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  test('should return primary results and record the divergence of the shadow', async () => {
+    const [result] = await analyze(30);
+    await analyze(45);
+
+    expect(result.riskScore).toBe(30);
+    expect(engine.getShadowDivergence('renal')).toEqual([expect.objectContaining({
+      primaryVersion: '2.0.0',
+      shadowVersion: '3.0.0',
+      comparisons: 2,
+      meanAbsoluteDelta: 10,
+      meanDelta: 10,
+      riskLevelDisagreements: 1,
+      disagreementRate: 0.5
+    })]);
+  });
+
+  test('should count failed shadow analyses without affecting results', async () => {
+    const failing = createVersionedModule('3.1.0', () => 0);
+    failing.analyze = async () => { throw new Error('New model rejected input'); };
+    engine.registerModule(failing, { role: 'shadow' });
+
+    const shadowFailed = new Promise(resolve => engine.once('shadowError', resolve));
+    const [result] = await analyze(30);
+    await shadowFailed;
+
+    expect(result.error).toBeUndefined();
+    expect(engine.getShadowDivergence().find(d => d.shadowVersion === '3.1.0')).toMatchObject({ comparisons: 0, shadowErrors: 1 });
+  });
+
+  test('should not run shadows for background analyses', async () => {
+    let shadowRuns = 0;
+    engine.registerModule(createVersionedModule('3.2.0', () => ++shadowRuns), { role: 'shadow' });
+
+    await engine.analyzeHealth({ name: 'Test Patient', age: 30, sex: 'female' }, { priority: 'background' });
+    await analyze(45);
+
+    expect(shadowRuns).toBe(1);
+  });
+
+  test('should promote a shadow version and keep the previous primary as shadow', async () => {
+    await analyze(30);
+    await engine.promoteModuleVersion('renal', '3.0.0');
+    const [result] = await analyze(30);
+
+    expect(result.riskScore).toBe(40);
+    expect(engine.getModuleVersions('renal')).toEqual([
+      { moduleId: 'renal', version: '3.0.0', role: 'primary' },
+      { moduleId: 'renal', version: '2.0.0', role: 'shadow' }
+    ]);
+    expect(engine.getShadowDivergence().find(d => d.primaryVersion === '3.0.0')).toMatchObject({ meanDelta: -10 });
+  });
+
+  test('should report whether the service has shadow versions registered', () => {
+    const service = new AnalysisService({ performanceMonitoring: false }, [createVersionedModule('2.0.0', data => data.age)]);
+    expect(service.hasShadowModules()).toBe(false);
+
+    service.registerShadowModule(createVersionedModule('3.0.0', data => data.age + 10));
+    expect(service.hasShadowModules()).toBe(true);
+    service.getEngine().destroy();
+  });
+
+  test('should reject a shadow without a primary version', () => {
+    expect(() => engine.registerModule({ ...createVersionedModule('1.0.0', () => 0), id: 'hepatic' }, { role: 'shadow' }))
+      .toThrow('Module hepatic has no primary version to shadow');
+  });
+});
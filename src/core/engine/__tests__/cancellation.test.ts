@@ -0,0 +1,85 @@
+/**
+ * Analysis Cancellation Tests
+ * Unit tests for AbortSignal support in the digital twin engine
+ */
+
+import { DigitalTwinEngine } from '../DigitalTwinEngine';
+import { AnalysisCancelledError } from '../cancellation';
+import { createStubModule } from '../../../tests/setup';
+
+describe('DigitalTwinEngine cancellation', () => {
+  const input = (age: number) => ({ name: 'Test Patient', age, sex: 'male' as const });
+  let moduleAborts: number;
+
+  const createEngine = (predictionTimeout = 10000) => {
+    const engine = new DigitalTwinEngine({
+      maxConcurrentAnalyses: 1,
+      predictionTimeout,
+      retryAttempts: 1,
+      validationMode: 'off',
+      cacheEnabled: false,
+      performanceMonitoring: false
+    });
+    engine.registerModule(createStubModule('slow', {
+      analyze: (healthData, { signal }) => {
+        signal?.addEventListener('abort', () => moduleAborts++);
+        return healthData.age;
+      },
+      delayMs: 50
+    }));
+    return engine;
+  };
+
+  beforeEach(() => {
+    moduleAborts = 0;
+  });
+
+  test('should remove a queued analysis when aborted', async () => {
+    const engine = createEngine();
+    const cancelled = jest.fn();
+    engine.on('analysisCancelled', cancelled);
+
+    const controller = new AbortController();
+    const running = engine.analyzeHealth(input(40));
+    const queued = engine.analyzeHealth(input(50), { signal: controller.signal });
+
+    expect(engine.getQueueStatus().queueLength).toBe(1);
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(AnalysisCancelledError);
+    expect(engine.getQueueStatus().queueLength).toBe(0);
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ stage: 'queued' }));
+    await expect(running).resolves.toHaveLength(1);
+    expect(moduleAborts).toBe(0);
+  });
+
+  test('should propagate the signal into running modules', async () => {
+    const engine = createEngine();
+    const cancelled = jest.fn();
+    engine.on('analysisCancelled', cancelled);
+
+    const controller = new AbortController();
+    const running = engine.analyzeHealth(input(40), { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(running).rejects.toBeInstanceOf(AnalysisCancelledError);
+    expect(moduleAborts).toBe(1);
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ stage: 'running' }));
+  });
+
+  test('should reject immediately when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createEngine().analyzeHealth(input(40), { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AnalysisCancelledError);
+  });
+
+  test('should abort a module that exceeds the prediction timeout', async () => {
+    const [result] = await createEngine(10).analyzeHealth(input(40));
+
+    expect(result.error).toBe('Module analysis timeout');
+    expect(moduleAborts).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Dependency Impact Tests
+ * Unit tests for propagating organ dependency impacts onto inputs and risk scores
+ */
+
+import { measureImpacts, modulateInputs, modulateRisk } from '../dependencyImpacts';
+import { OrganDependency, OrganOrchestrator } from '../OrganOrchestrator';
+import { PredictionResult } from '../../types/core';
+import { CanonicalHealthData } from '../../types/healthData';
+import { normalizeHealthData } from '../../data/HealthDataNormalizer';
+import { createStubModule } from '../../../tests/setup';
+
+function createResult(moduleId: string, riskScore: number): PredictionResult {
+  return {
+    moduleId,
+    riskScore,
+    confidence: 1,
+    riskLevel: 'low',
+    riskFactors: [],
+    recommendations: [],
+    timestamp: 0,
+    processingTime: 0
+  };
+}
+
+describe('Dependency impacts', () => {
+  const healthData = normalizeHealthData({
+    name: 'Test Patient', age: 58, sex: 'male', creatinine: 1.4, systolicBP: 130, glucose: 100, measuredAt: 0
+  });
+  const circulatory: OrganDependency = {
+    sourceOrgan: 'cardiovascular', targetOrgan: 'renal', dependencyType: 'circulatory', strength: 0.9, bidirectional: false
+  };
+  const metabolic: OrganDependency = {
+    sourceOrgan: 'hepatic', targetOrgan: 'renal', dependencyType: 'metabolic', strength: 0.6, bidirectional: false
+  };
+  const sources = new Map([
+    ['cardiovascular', createResult('cardiovascular', 50)],
+    ['hepatic', createResult('hepatic', 50)]
+  ]);
+
+  test('should modulate the biomarkers of the dependency type in the target', () => {
+    const [impact] = measureImpacts('renal', [circulatory], sources, 'inputs');
+    const modulated = modulateInputs(healthData, [impact]);
+
+    expect(impact.impact).toBeCloseTo(0.45);
+    expect(modulated.creatinine).toBeCloseTo(1.4 * 1.045);
+    expect(modulated.bloodPressureSystolic).toBeCloseTo(130 * 1.045);
+    expect(modulated.restingHeartRate).toBeUndefined();
+    expect(Object.keys(impact.fieldChanges).sort()).toEqual(['bloodPressureSystolic', 'creatinine']);
+  });
+
+  test('should combine dependencies independently of their order', () => {
+    const impacts = measureImpacts('renal', [circulatory, metabolic], sources, 'inputs');
+    const reversed = measureImpacts('renal', [metabolic, circulatory], sources, 'inputs');
+
+    expect(modulateInputs(healthData, impacts)).toEqual(modulateInputs(healthData, reversed));
+    expect(modulateRisk(createResult('renal', 40), impacts).riskScore)
+      .toBe(modulateRisk(createResult('renal', 40), reversed).riskScore);
+  });
+
+  test('should raise the risk score within its headroom and explain each dependency', () => {
+    const [impact] = measureImpacts('renal', [circulatory], sources, 'outputs');
+    const result = modulateRisk(createResult('renal', 20), [impact]);
+
+    // 0.45 impact × 0.15 sensitivity of the 80 points left to 100
+    expect(result.riskScore).toBe(25.4);
+    expect(result.contributions).toEqual([expect.objectContaining({
+      ruleId: 'orchestrator.circulatory_dependency_on_cardiovascular',
+      points: 5.4
+    })]);
+  });
+
+  test('should record the impact of every dependency in the orchestration result', async () => {
+    const renalInputs: CanonicalHealthData[] = [];
+    const orchestrator = new OrganOrchestrator({ enableInteractionModeling: false });
+    orchestrator.registerModule(createStubModule('hepatic', { analyze: () => 50 }));
+    orchestrator.registerModule(createStubModule('renal', {
+      analyze: data => {
+        renalInputs.push(data);
+        return 20;
+      }
+    }));
+
+    const byInputs = await orchestrator.orchestrateAnalysis(healthData);
+    orchestrator.updateConfig({ impactPropagation: 'outputs' });
+    const byOutputs = await orchestrator.orchestrateAnalysis(healthData);
+
+    expect(renalInputs[0].glucose).toBeCloseTo(100 * 1.015);
+    expect(byInputs.dependencyImpacts.get('hepatic->renal:metabolic')).toMatchObject({ impact: 0.3, propagation: 'inputs' });
+    expect(renalInputs[1].glucose).toBe(100);
+    expect(byOutputs.organResults.get('renal')!.riskScore).toBe(22.4);
+    expect(byOutputs.dependencyImpacts.get('hepatic->renal:metabolic')).toMatchObject({ riskScoreChange: 2.4 });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Analysis Cancellation
+ * AbortSignal helpers shared by the engine and the organ modules
+ */
+
+/**
+ * Thrown when an analysis is aborted through its AbortSignal
+ */
+export class AnalysisCancelledError extends Error {
+  constructor(message = 'Analysis cancelled') {
+    super(message);
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export function isAnalysisCancelled(error: unknown): error is AnalysisCancelledError {
+  return error instanceof AnalysisCancelledError;
+}
+
+/**
+ * Throw an AnalysisCancelledError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AnalysisCancelledError();
+  }
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal is aborted.
+ * The abort listener is removed once the promise settles.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new AnalysisCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AnalysisCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Resolve after the delay, or reject early when the signal is aborted
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const delay = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+
+  return abortable(delay, signal).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,178 @@
+/**
+ * Dependency Impacts
+ * What a dependency on another organ modulates in the target organ
+ *
+ * A dependency's impact is the source organ's risk (0-1) times the
+ * dependency's strength. Propagated on inputs, every biomarker the
+ * dependency type modulates in the target is scaled by 1 + impact ×
+ * sensitivity before the target is analyzed (derived features such as eGFR
+ * follow from the biomarkers they are computed from). Propagated on
+ * outputs, the target's own risk score instead takes up impact ×
+ * riskSensitivity of its remaining headroom to 100. Several dependencies on
+ * the same target combine multiplicatively, so their order does not matter.
+ */
+
+import { PredictionResult, RiskContribution } from '../types/core';
+import { CanonicalHealthData, CanonicalField, NumericField } from '../types/healthData';
+import { PHYSIOLOGICAL_RANGES } from '../validation/physiologicalRanges';
+import type { OrganDependency } from './OrganOrchestrator';
+
+export type ImpactPropagation = 'inputs' | 'outputs';
+
+export interface FieldModulation {
+  field: NumericField; // Absent values are left absent
+  sensitivity: number; // Relative change at full impact, e.g. -0.1 lowers the value by up to 10%
+  targets?: string[]; // Target organs the field is modulated in; every target when omitted
+}
+
+export interface DependencyModulation {
+  fields: FieldModulation[];
+  riskSensitivity: number; // Share of the remaining risk headroom taken up at full impact
+}
+
+export interface DependencyImpact {
+  dependency: OrganDependency;
+  sourceRiskScore: number;
+  impact: number; // Source risk (0-1) × dependency strength
+  propagation: ImpactPropagation;
+  fieldChanges: Partial<Record<CanonicalField, number>>; // Relative change per modulated field (inputs)
+  riskScoreChange: number; // Points added to the target's risk score (outputs)
+}
+
+export const DEPENDENCY_MODULATIONS: Record<OrganDependency['dependencyType'], DependencyModulation> = {
+  // Reduced perfusion and raised vascular load
+  circulatory: {
+    fields: [
+      { field: 'bloodPressureSystolic', sensitivity: 0.1 },
+      { field: 'bloodPressureDiastolic', sensitivity: 0.08 },
+      { field: 'restingHeartRate', sensitivity: 0.08, targets: ['cardiovascular', 'pulmonary'] },
+      { field: 'creatinine', sensitivity: 0.1, targets: ['renal'] },
+      { field: 'vo2Max', sensitivity: -0.1, targets: ['pulmonary', 'musculoskeletal'] }
+    ],
+    riskSensitivity: 0.15
+  },
+  // Shared burden of glucose and lipid handling
+  metabolic: {
+    fields: [
+      { field: 'glucose', sensitivity: 0.05 },
+      { field: 'hba1c', sensitivity: 0.03 },
+      { field: 'triglycerides', sensitivity: 0.1 },
+      { field: 'ldlCholesterol', sensitivity: 0.05, targets: ['cardiovascular'] },
+      { field: 'hdlCholesterol', sensitivity: -0.05, targets: ['cardiovascular'] },
+      { field: 'crp', sensitivity: 0.1 }
+    ],
+    riskSensitivity: 0.1
+  },
+  // The source organ failing at a function the target relies on
+  functional: {
+    fields: [
+      { field: 'bloodPressureSystolic', sensitivity: 0.05, targets: ['cardiovascular'] },
+      { field: 'restingHeartRate', sensitivity: 0.05, targets: ['cardiovascular'] },
+      { field: 'crp', sensitivity: 0.1, targets: ['cardiovascular'] },
+      { field: 'bun', sensitivity: 0.1, targets: ['renal'] },
+      { field: 'hrv', sensitivity: -0.1 }
+    ],
+    riskSensitivity: 0.12
+  },
+  // Impaired neural control of movement and autonomic regulation
+  neural: {
+    fields: [
+      { field: 'steps', sensitivity: -0.15, targets: ['musculoskeletal'] },
+      { field: 'activeMinutes', sensitivity: -0.15, targets: ['musculoskeletal'] },
+      { field: 'hrv', sensitivity: -0.1 }
+    ],
+    riskSensitivity: 0.1
+  }
+};
+
+export function dependencyKey(dependency: OrganDependency): string {
+  return `${dependency.sourceOrgan}->${dependency.targetOrgan}:${dependency.dependencyType}`;
+}
+
+function clampToRange(field: CanonicalField, value: number): number {
+  const range = PHYSIOLOGICAL_RANGES[field];
+  return range ? Math.min(range.absolute[1], Math.max(range.absolute[0], value)) : value;
+}
+
+/**
+ * Impacts of the dependencies of a target organ whose source has a result
+ */
+export function measureImpacts(
+  targetOrgan: string,
+  dependencies: OrganDependency[],
+  sourceResults: Map<string, PredictionResult>,
+  propagation: ImpactPropagation
+): DependencyImpact[] {
+  return dependencies
+    .filter(d => d.targetOrgan === targetOrgan)
+    .flatMap(dependency => {
+      const source = sourceResults.get(dependency.sourceOrgan);
+      if (!source || source.error) return [];
+
+      return [{
+        dependency,
+        sourceRiskScore: source.riskScore,
+        impact: (source.riskScore / 100) * dependency.strength,
+        propagation,
+        fieldChanges: {},
+        riskScoreChange: 0
+      }];
+    });
+}
+
+/**
+ * Modulate the target organ's biomarkers by the impacts of its dependencies
+ */
+export function modulateInputs(healthData: CanonicalHealthData, impacts: DependencyImpact[]): CanonicalHealthData {
+  const factors = new Map<NumericField, number>();
+
+  for (const impact of impacts) {
+    const { dependencyType, targetOrgan } = impact.dependency;
+
+    for (const { field, sensitivity, targets } of DEPENDENCY_MODULATIONS[dependencyType].fields) {
+      if (typeof healthData[field] !== 'number' || (targets && !targets.includes(targetOrgan))) continue;
+
+      const change = impact.impact * sensitivity;
+      impact.fieldChanges[field] = change;
+      factors.set(field, (factors.get(field) ?? 1) * (1 + change));
+    }
+  }
+
+  const modulated: CanonicalHealthData = { ...healthData };
+  for (const [field, factor] of factors) {
+    modulated[field] = clampToRange(field, healthData[field]! * factor);
+  }
+  return modulated;
+}
+
+/**
+ * Raise the target organ's risk score by the impacts of its dependencies,
+ * adding a contribution per dependency. The risk level is left to the
+ * module, as the thresholds are its own.
+ */
+export function modulateRisk(result: PredictionResult, impacts: DependencyImpact[]): PredictionResult {
+  if (result.error || impacts.length === 0) return result;
+
+  const shares = impacts.map(impact => impact.impact * DEPENDENCY_MODULATIONS[impact.dependency.dependencyType].riskSensitivity);
+  const remaining = shares.reduce((headroom, share) => headroom * (1 - share), 100 - result.riskScore);
+  const totalChange = 100 - result.riskScore - remaining;
+  const totalShare = shares.reduce((sum, share) => sum + share, 0);
+
+  const contributions: RiskContribution[] = impacts.map((impact, index) => {
+    impact.riskScoreChange = totalShare > 0 ? Math.round(totalChange * shares[index] / totalShare * 10) / 10 : 0;
+    const { sourceOrgan, dependencyType, strength } = impact.dependency;
+
+    return {
+      ruleId: `orchestrator.${dependencyType}_dependency_on_${sourceOrgan}`,
+      label: `${dependencyType[0].toUpperCase()}${dependencyType.slice(1)} dependency on ${sourceOrgan} risk`,
+      points: impact.riskScoreChange,
+      inputs: { sourceRiskScore: impact.sourceRiskScore, strength }
+    };
+  });
+
+  return {
+    ...result,
+    riskScore: Math.round((result.riskScore + contributions.reduce((sum, c) => sum + c.points, 0)) * 10) / 10,
+    contributions: [...(result.contributions ?? []), ...contributions]
+  };
+}
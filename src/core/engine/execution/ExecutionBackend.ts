@@ -0,0 +1,78 @@
+/**
+ * Execution Backend
+ * Where the engine runs its organ module analyses
+ *
+ * The engine hands every module analysis (including the Monte Carlo
+ * re-runs) to an execution backend. The in-thread backend calls the module
+ * directly, which keeps tests and simple scripts free of workers. The
+ * worker pool backend runs modules in Web Workers or worker_threads, so
+ * scoring and model inference stay off the thread that renders the UI.
+ */
+
+import { OrganModule, AnalyzeOptions, PredictionResult } from '../../types/core';
+import { CanonicalHealthData } from '../../types/healthData';
+import { isAnalysisCancelled } from '../cancellation';
+
+export type ExecutionBackendKind = 'in-thread' | 'worker-pool';
+
+export interface ExecutionStats {
+  kind: ExecutionBackendKind;
+  size: number; // Analyses that can run in parallel
+  busy: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  restarted: number; // Workers replaced after crashing or ignoring a cancellation
+}
+
+export interface ExecutionBackend {
+  readonly kind: ExecutionBackendKind;
+  run(module: OrganModule, healthData: CanonicalHealthData, options?: AnalyzeOptions): Promise<PredictionResult>;
+  resize(size: number): void;
+  getStats(): ExecutionStats;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Runs modules on the calling thread
+ */
+export class InThreadBackend implements ExecutionBackend {
+  readonly kind = 'in-thread' as const;
+  private size = 1;
+  private busy = 0;
+  private completed = 0;
+  private failed = 0;
+
+  async run(module: OrganModule, healthData: CanonicalHealthData, options: AnalyzeOptions = {}): Promise<PredictionResult> {
+    this.busy++;
+    try {
+      const result = await module.analyze(healthData, options);
+      this.completed++;
+      return result;
+    } catch (error) {
+      if (!isAnalysisCancelled(error)) this.failed++;
+      throw error;
+    } finally {
+      this.busy--;
+    }
+  }
+
+  // Modules share the thread; the size is only reported
+  resize(size: number): void {
+    this.size = Math.max(1, size);
+  }
+
+  getStats(): ExecutionStats {
+    return {
+      kind: this.kind,
+      size: this.size,
+      busy: this.busy,
+      queued: 0,
+      completed: this.completed,
+      failed: this.failed,
+      restarted: 0
+    };
+  }
+
+  async terminate(): Promise<void> {}
+}
@@ -0,0 +1,65 @@
+/**
+ * Module Worker Host
+ * Runs organ module analyses inside an analysis worker
+ *
+ * Modules are recreated from their descriptors through the organ module
+ * registry and initialized once per descriptor, so a worker loads each
+ * module's model only on first use. A factory registered for the exact
+ * version (`id@version`, e.g. a shadow version) takes precedence.
+ */
+
+import { ModuleDescriptor, OrganModule } from '../../types/core';
+import type { ModuleFactory } from '../../../modules/registry';
+import { WorkerPort, serializeError } from './workerProtocol';
+
+export function createModuleWorkerHost(port: WorkerPort, factories: Record<string, ModuleFactory>): void {
+  const modules = new Map<string, Promise<OrganModule>>();
+  const running = new Map<number, AbortController>();
+
+  const load = (descriptor: ModuleDescriptor): Promise<OrganModule> => {
+    const key = `${descriptor.id}@${descriptor.version}:${JSON.stringify(descriptor.config)}`;
+    let module = modules.get(key);
+
+    if (!module) {
+      module = (async () => {
+        const create = factories[`${descriptor.id}@${descriptor.version}`] ?? factories[descriptor.id];
+        if (!create) {
+          throw new Error(`Unknown organ module: ${descriptor.id}`);
+        }
+
+        const instance = create();
+        if (instance.version !== descriptor.version) {
+          throw new Error(`Worker provides ${descriptor.id} ${instance.version}, expected ${descriptor.version}`);
+        }
+        instance.updateConfig(descriptor.config);
+        await instance.initialize();
+        return instance;
+      })();
+      // A failed load is retried by the next analysis
+      module.catch(() => modules.delete(key));
+      modules.set(key, module);
+    }
+    return module;
+  };
+
+  port.onMessage(async (message) => {
+    if (message.type === 'cancel') {
+      running.get(message.taskId)?.abort();
+      return;
+    }
+
+    const { taskId, descriptor, healthData } = message;
+    const controller = new AbortController();
+    running.set(taskId, controller);
+
+    try {
+      const module = await load(descriptor);
+      const result = await module.analyze(healthData, { signal: controller.signal });
+      port.postMessage({ type: 'result', taskId, result });
+    } catch (error) {
+      port.postMessage({ type: 'error', taskId, error: serializeError(error) });
+    } finally {
+      running.delete(taskId);
+    }
+  });
+}
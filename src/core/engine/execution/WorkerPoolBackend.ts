@@ -0,0 +1,199 @@
+/**
+ * Worker Pool Backend
+ * Runs organ module analyses on a pool of analysis workers
+ *
+ * Each worker runs one analysis at a time; further analyses wait in FIFO
+ * order for a free worker, and workers are started on demand up to the
+ * pool size. Cancelling a running analysis settles it at once and sends
+ * the worker a cancel message. A worker that does not acknowledge it
+ * within the grace period (e.g. stuck in synchronous model inference) is
+ * terminated and replaced, as is a worker that crashes. Modules that
+ * cannot describe themselves run in-thread.
+ */
+
+import { OrganModule, AnalyzeOptions, PredictionResult, ModuleDescriptor } from '../../types/core';
+import { CanonicalHealthData } from '../../types/healthData';
+import { AnalysisCancelledError, isAnalysisCancelled, throwIfAborted } from '../cancellation';
+import { ExecutionBackend, ExecutionStats, InThreadBackend } from './ExecutionBackend';
+import { WorkerHandle, WorkerResponse, deserializeError } from './workerProtocol';
+
+// How long a worker may take to acknowledge a cancellation before it is replaced
+const CANCEL_GRACE_MS = 1000;
+
+interface PoolTask {
+  id: number;
+  descriptor: ModuleDescriptor;
+  healthData: CanonicalHealthData;
+  settle: (outcome: { result: PredictionResult } | { error: Error }) => void;
+}
+
+interface PoolWorker {
+  handle: WorkerHandle;
+  task: PoolTask | null;
+  cancelTimer?: ReturnType<typeof setTimeout>;
+}
+
+export class WorkerPoolBackend implements ExecutionBackend {
+  readonly kind = 'worker-pool' as const;
+  private workers: PoolWorker[] = [];
+  private queue: PoolTask[] = [];
+  private inThread = new InThreadBackend();
+  private nextTaskId = 1;
+  private completed = 0;
+  private failed = 0;
+  private restarted = 0;
+
+  constructor(private createWorker: () => WorkerHandle, private size = 1) {
+    this.size = Math.max(1, size);
+  }
+
+  run(module: OrganModule, healthData: CanonicalHealthData, options: AnalyzeOptions = {}): Promise<PredictionResult> {
+    const descriptor = module.describe?.();
+    if (!descriptor) {
+      return this.inThread.run(module, healthData, options);
+    }
+
+    const { signal } = options;
+    throwIfAborted(signal);
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => this.cancel(task);
+
+      const task: PoolTask = {
+        id: this.nextTaskId++,
+        descriptor,
+        healthData,
+        settle: (outcome) => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+
+          if ('result' in outcome) {
+            this.completed++;
+            resolve(outcome.result);
+          } else {
+            if (!isAnalysisCancelled(outcome.error)) this.failed++;
+            reject(outcome.error);
+          }
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  resize(size: number): void {
+    this.size = Math.max(1, size);
+
+    // Idle workers beyond the new size stop now, busy ones when they finish
+    this.workers
+      .filter(worker => !worker.task)
+      .slice(0, Math.max(0, this.workers.length - this.size))
+      .forEach(worker => this.retire(worker));
+    this.dispatch();
+  }
+
+  getStats(): ExecutionStats {
+    return {
+      kind: this.kind,
+      size: this.size,
+      busy: this.workers.filter(worker => worker.task).length,
+      queued: this.queue.length,
+      completed: this.completed,
+      failed: this.failed,
+      restarted: this.restarted
+    };
+  }
+
+  async terminate(): Promise<void> {
+    const error = new Error('Worker pool terminated');
+    this.queue.splice(0).forEach(task => task.settle({ error }));
+    [...this.workers].forEach(worker => {
+      worker.task?.settle({ error });
+      this.retire(worker);
+    });
+  }
+
+  /**
+   * Hand queued tasks to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.workers.find(w => !w.task) ?? this.spawn();
+      if (!worker) return;
+
+      const task = this.queue.shift()!;
+      worker.task = task;
+      worker.handle.postMessage({
+        type: 'analyze',
+        taskId: task.id,
+        descriptor: task.descriptor,
+        healthData: task.healthData
+      });
+    }
+  }
+
+  private spawn(): PoolWorker | null {
+    if (this.workers.length >= this.size) return null;
+
+    const worker: PoolWorker = { handle: this.createWorker(), task: null };
+    worker.handle.onMessage(message => this.handleResponse(worker, message));
+    worker.handle.onError(error => this.handleCrash(worker, error));
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private handleResponse(worker: PoolWorker, message: WorkerResponse): void {
+    const task = worker.task;
+    if (!task || task.id !== message.taskId) return;
+
+    clearTimeout(worker.cancelTimer);
+    worker.task = null;
+    task.settle(message.type === 'result' ? { result: message.result } : { error: deserializeError(message.error) });
+
+    if (this.workers.length > this.size) {
+      this.retire(worker);
+    }
+    this.dispatch();
+  }
+
+  private handleCrash(worker: PoolWorker, error: Error): void {
+    // Workers that were already retired report their exit too
+    if (!this.workers.includes(worker)) return;
+
+    worker.task?.settle({ error });
+    this.replace(worker);
+  }
+
+  private cancel(task: PoolTask): void {
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      task.settle({ error: new AnalysisCancelledError() });
+      return;
+    }
+
+    const worker = this.workers.find(w => w.task === task);
+    if (!worker) return;
+
+    task.settle({ error: new AnalysisCancelledError() });
+    worker.handle.postMessage({ type: 'cancel', taskId: task.id });
+    // The worker stays busy until it acknowledges the cancellation
+    worker.cancelTimer = setTimeout(() => this.replace(worker), CANCEL_GRACE_MS);
+  }
+
+  private replace(worker: PoolWorker): void {
+    this.retire(worker);
+    this.restarted++;
+    this.dispatch();
+  }
+
+  private retire(worker: PoolWorker): void {
+    clearTimeout(worker.cancelTimer);
+    this.workers = this.workers.filter(w => w !== worker);
+    worker.handle.terminate();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Worker Pool Backend Tests
+ * Unit tests for dispatching module analyses to analysis workers
+ */
+
+import { WorkerPoolBackend } from '../WorkerPoolBackend';
+import { createModuleWorkerHost } from '../ModuleWorkerHost';
+import { WorkerHandle, WorkerRequest, WorkerResponse } from '../workerProtocol';
+import { AnalysisCancelledError } from '../../cancellation';
+import { normalizeHealthData } from '../../../data/HealthDataNormalizer';
+import { ORGAN_MODULE_FACTORIES } from '../../../../modules/registry';
+import { RenalModule } from '../../../../modules/renal';
+import { OrganModule } from '../../../types/core';
+
+/**
+ * Worker running the module worker host in-process, with asynchronous
+ * message delivery like a real worker
+ */
+function createFakeWorker(): WorkerHandle & { requests: WorkerRequest[]; crash: (error: Error) => void } {
+  const requests: WorkerRequest[] = [];
+  let deliverToHost: (message: WorkerRequest) => void = () => {};
+  let deliverToPool: (message: WorkerResponse) => void = () => {};
+  let reportError: (error: Error) => void = () => {};
+  let terminated = false;
+
+  createModuleWorkerHost({
+    postMessage: message => setTimeout(() => !terminated && deliverToPool(message), 0),
+    onMessage: listener => { deliverToHost = listener; }
+  }, ORGAN_MODULE_FACTORIES);
+
+  return {
+    requests,
+    postMessage: message => {
+      requests.push(message);
+      setTimeout(() => deliverToHost(message), 0);
+    },
+    onMessage: listener => { deliverToPool = listener; },
+    onError: listener => { reportError = listener; },
+    terminate: () => { terminated = true; },
+    crash: error => reportError(error)
+  };
+}
+
+describe('WorkerPoolBackend', () => {
+  const healthData = normalizeHealthData({ name: 'Test Patient', age: 58, sex: 'male', creatinine: 1.4, measuredAt: 0 });
+  let workers: ReturnType<typeof createFakeWorker>[];
+  let pool: WorkerPoolBackend;
+
+  beforeEach(() => {
+    workers = [];
+    pool = new WorkerPoolBackend(() => {
+      const worker = createFakeWorker();
+      workers.push(worker);
+      return worker;
+    }, 2);
+  });
+
+  test('should match the in-thread result of the module', async () => {
+    const module = new RenalModule();
+    const [inThread, inWorker] = await Promise.all([module.analyze(healthData), pool.run(module, healthData)]);
+
+    expect(inWorker.riskScore).toBe(inThread.riskScore);
+    expect(inWorker.contributions).toEqual(inThread.contributions);
+    expect(pool.getStats()).toMatchObject({ kind: 'worker-pool', completed: 1, busy: 0 });
+  });
+
+  test('should start workers on demand up to the pool size', async () => {
+    const module = new RenalModule();
+    await Promise.all([1, 2, 3, 4].map(() => pool.run(module, healthData)));
+
+    expect(workers).toHaveLength(2);
+    expect(pool.getStats().completed).toBe(4);
+  });
+
+  test('should run modules without a descriptor in-thread', async () => {
+    const undescribed: OrganModule = new RenalModule();
+    undescribed.describe = undefined;
+
+    await pool.run(undescribed, healthData);
+
+    expect(workers).toHaveLength(0);
+  });
+
+  test('should cancel queued and running analyses', async () => {
+    pool.resize(1);
+    const controller = new AbortController();
+    const running = pool.run(new RenalModule(), healthData, { signal: controller.signal });
+    const queued = pool.run(new RenalModule(), healthData, { signal: controller.signal });
+    controller.abort();
+
+    await expect(running).rejects.toBeInstanceOf(AnalysisCancelledError);
+    await expect(queued).rejects.toBeInstanceOf(AnalysisCancelledError);
+    expect(workers[0].requests.map(r => r.type)).toEqual(['analyze', 'cancel']);
+  });
+
+  test('should replace a crashed worker', async () => {
+    const analysis = pool.run(new RenalModule(), healthData);
+    workers[0].crash(new Error('Worker out of memory'));
+
+    await expect(analysis).rejects.toThrow('Worker out of memory');
+    await pool.run(new RenalModule(), healthData);
+    expect(workers).toHaveLength(2);
+    expect(pool.getStats()).toMatchObject({ restarted: 1, failed: 1, completed: 1 });
+  });
+});
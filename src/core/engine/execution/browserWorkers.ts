@@ -0,0 +1,34 @@
+/**
+ * Browser Workers
+ * Web Worker adapter for the worker pool backend
+ */
+
+import { WorkerHandle } from './workerProtocol';
+import { WorkerPoolBackend } from './WorkerPoolBackend';
+
+export function supportsWebWorkers(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+export function wrapWebWorker(worker: Worker): WorkerHandle {
+  return {
+    postMessage: message => worker.postMessage(message),
+    onMessage: listener => worker.addEventListener('message', event => listener(event.data)),
+    onError: listener => worker.addEventListener('error', event => {
+      event.preventDefault();
+      listener(new Error(event.message || 'Analysis worker crashed'));
+    }),
+    terminate: () => worker.terminate()
+  };
+}
+
+/**
+ * Pool of module workers bundled from moduleWorker.browser.ts; the engine
+ * resizes it to its maxConcurrentAnalyses
+ */
+export function createWebWorkerPool(size = 1): WorkerPoolBackend {
+  return new WorkerPoolBackend(
+    () => wrapWebWorker(new Worker(new URL('./moduleWorker.browser.ts', import.meta.url), { type: 'module' })),
+    size
+  );
+}
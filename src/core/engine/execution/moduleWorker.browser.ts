@@ -0,0 +1,11 @@
+/**
+ * Analysis worker entry point for the browser
+ */
+
+import { createModuleWorkerHost } from './ModuleWorkerHost';
+import { ORGAN_MODULE_FACTORIES } from '../../../modules/registry';
+
+createModuleWorkerHost({
+  postMessage: message => self.postMessage(message),
+  onMessage: listener => self.addEventListener('message', event => listener((event as MessageEvent).data))
+}, ORGAN_MODULE_FACTORIES);
@@ -0,0 +1,18 @@
+/**
+ * Analysis worker entry point for Node worker_threads
+ */
+
+import { parentPort } from 'worker_threads';
+import { createModuleWorkerHost } from './ModuleWorkerHost';
+import { ORGAN_MODULE_FACTORIES } from '../../../modules/registry';
+
+if (!parentPort) {
+  throw new Error('moduleWorker.node must be started as a worker thread');
+}
+
+const port = parentPort;
+
+createModuleWorkerHost({
+  postMessage: message => port.postMessage(message),
+  onMessage: listener => port.on('message', listener)
+}, ORGAN_MODULE_FACTORIES);
@@ -0,0 +1,32 @@
+/**
+ * Node Workers
+ * worker_threads adapter for the worker pool backend
+ */
+
+import { Worker } from 'worker_threads';
+import { WorkerHandle } from './workerProtocol';
+import { WorkerPoolBackend } from './WorkerPoolBackend';
+
+export function wrapNodeWorker(worker: Worker): WorkerHandle {
+  return {
+    postMessage: message => worker.postMessage(message),
+    onMessage: listener => worker.on('message', listener),
+    onError: listener => {
+      worker.on('error', listener);
+      worker.on('exit', code => {
+        if (code !== 0) listener(new Error(`Analysis worker exited with code ${code}`));
+      });
+    },
+    terminate: () => {
+      void worker.terminate();
+    }
+  };
+}
+
+/**
+ * Pool of module workers; scriptPath is the compiled moduleWorker.node
+ * entry point (worker_threads cannot load TypeScript sources)
+ */
+export function createNodeWorkerPool(size: number, scriptPath: string): WorkerPoolBackend {
+  return new WorkerPoolBackend(() => wrapNodeWorker(new Worker(scriptPath)), size);
+}
@@ -0,0 +1,57 @@
+/**
+ * Worker Protocol
+ * Messages between the worker pool and the analysis workers
+ *
+ * Everything that crosses the worker boundary must survive structured
+ * cloning: modules travel as descriptors, AbortSignals as cancel messages
+ * and errors as their name and message.
+ */
+
+import { ModuleDescriptor, PredictionResult } from '../../types/core';
+import { CanonicalHealthData } from '../../types/healthData';
+import { AnalysisCancelledError } from '../cancellation';
+
+export type WorkerRequest =
+  | { type: 'analyze'; taskId: number; descriptor: ModuleDescriptor; healthData: CanonicalHealthData }
+  | { type: 'cancel'; taskId: number };
+
+export type WorkerResponse =
+  | { type: 'result'; taskId: number; result: PredictionResult }
+  | { type: 'error'; taskId: number; error: SerializedError };
+
+export interface SerializedError {
+  name: string;
+  message: string;
+}
+
+/**
+ * The worker's side of the channel
+ */
+export interface WorkerPort {
+  postMessage(message: WorkerResponse): void;
+  onMessage(listener: (message: WorkerRequest) => void): void;
+}
+
+/**
+ * The pool's handle on one worker
+ */
+export interface WorkerHandle {
+  postMessage(message: WorkerRequest): void;
+  onMessage(listener: (message: WorkerResponse) => void): void;
+  onError(listener: (error: Error) => void): void; // The worker crashed or exited
+  terminate(): void;
+}
+
+export function serializeError(error: unknown): SerializedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
+}
+
+export function deserializeError({ name, message }: SerializedError): Error {
+  if (name === 'AnalysisCancelledError') return new AnalysisCancelledError(message);
+
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
@@ -0,0 +1,305 @@
+/**
+ * Organ Knowledge Graph
+ * Declarative organ dependencies and interactions, with their evidence
+ *
+ * The clinical team maintains the organ graph as a versioned JSON or YAML
+ * knowledge file. Every dependency and interaction may cite the evidence
+ * references it rests on. A file is validated as a whole before it is
+ * used: unknown organs, strengths outside 0-1, implausible impact factors
+ * and citations of undeclared references are reported together, each with
+ * the path of the offending entry, so a bad file never replaces a good
+ * graph half-way.
+ */
+
+import type { OrganDependency, OrganInteraction } from '../engine/OrganOrchestrator';
+import { dependencyKey } from '../engine/dependencyImpacts';
+import { parseYamlSubset, YamlSyntaxError } from './yamlSubset';
+
+export const KNOWN_ORGANS = ['cardiovascular', 'renal', 'hepatic', 'pulmonary', 'neurological', 'musculoskeletal'];
+
+export const DEPENDENCY_TYPES: OrganDependency['dependencyType'][] = ['functional', 'metabolic', 'circulatory', 'neural'];
+export const INTERACTION_TYPES: OrganInteraction['interactionType'][] = ['synergistic', 'antagonistic', 'neutral'];
+
+// Plausible multipliers for risk calculations; outside this an entry is almost certainly a typo
+export const IMPACT_FACTOR_RANGE: [number, number] = [0.5, 2];
+
+export interface EvidenceReference {
+  id: string;
+  citation: string;
+  url?: string;
+}
+
+export interface OrganKnowledgeGraph {
+  version: string;
+  description?: string;
+  references: EvidenceReference[];
+  dependencies: OrganDependency[];
+  interactions: OrganInteraction[];
+}
+
+export interface KnowledgeGraphIssue {
+  path: string; // e.g. 'dependencies[2].strength', or 'line 14' for syntax errors
+  code: string;
+  message: string;
+}
+
+export interface KnowledgeGraphValidationOptions {
+  knownOrgans?: string[];
+}
+
+export interface KnowledgeGraphChange<T> {
+  key: string;
+  before: T;
+  after: T;
+  fields: string[]; // Fields whose value changed
+}
+
+export interface KnowledgeGraphDiff {
+  fromVersion: string | null;
+  toVersion: string;
+  dependencies: {
+    added: OrganDependency[];
+    removed: OrganDependency[];
+    changed: Array<KnowledgeGraphChange<OrganDependency>>;
+  };
+  interactions: {
+    added: OrganInteraction[];
+    removed: OrganInteraction[];
+    changed: Array<KnowledgeGraphChange<OrganInteraction>>;
+  };
+  unchanged: boolean;
+}
+
+export class KnowledgeGraphValidationError extends Error {
+  readonly issues: KnowledgeGraphIssue[];
+
+  constructor(issues: KnowledgeGraphIssue[]) {
+    super(`Invalid organ knowledge graph: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+    this.name = 'KnowledgeGraphValidationError';
+    this.issues = issues;
+  }
+}
+
+type Entry = Record<string, unknown>;
+
+const isEntry = (value: unknown): value is Entry =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export function interactionKey(interaction: OrganInteraction): string {
+  return [...interaction.organs].sort().join('+');
+}
+
+/**
+ * Collects issues for one knowledge file
+ */
+class KnowledgeGraphChecker {
+  readonly issues: KnowledgeGraphIssue[] = [];
+
+  constructor(private knownOrgans: Set<string>) {}
+
+  report(path: string, code: string, message: string): void {
+    this.issues.push({ path, code, message });
+  }
+
+  list(data: Entry, key: string, required = true): Entry[] {
+    const value = data[key];
+    if (!Array.isArray(value)) {
+      if (value !== undefined || required) this.report(key, value === undefined ? 'required' : 'type', `${key} must be a list`);
+      return [];
+    }
+
+    return value.flatMap((item, index) => {
+      if (isEntry(item)) return [item];
+      this.report(`${key}[${index}]`, 'type', 'Entry must be a mapping');
+      return [];
+    });
+  }
+
+  string(entry: Entry, path: string, field: string, required = true): string | undefined {
+    const value = entry[field];
+    if (typeof value === 'string' && value.trim() !== '') return value;
+    if (value !== undefined || required) {
+      this.report(`${path}.${field}`, value === undefined ? 'required' : 'type', `${field} must be a non-empty string`);
+    }
+    return undefined;
+  }
+
+  organ(entry: Entry, path: string, field: string, value: unknown = entry[field]): void {
+    if (typeof value !== 'string') {
+      this.report(`${path}.${field}`, value === undefined ? 'required' : 'type', `${field} must name an organ`);
+    } else if (!this.knownOrgans.has(value)) {
+      this.report(`${path}.${field}`, 'unknown_organ', `Unknown organ ${value}`);
+    }
+  }
+
+  number(entry: Entry, path: string, field: string, [min, max]: [number, number]): void {
+    const value = entry[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.report(`${path}.${field}`, value === undefined ? 'required' : 'type', `${field} must be a number`);
+    } else if (value < min || value > max) {
+      this.report(`${path}.${field}`, 'out_of_range', `${field} ${value} is outside ${min}-${max}`);
+    }
+  }
+
+  oneOf(entry: Entry, path: string, field: string, allowed: string[]): void {
+    const value = entry[field];
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.report(`${path}.${field}`, value === undefined ? 'required' : 'invalid_value', `${field} must be one of ${allowed.join(', ')}`);
+    }
+  }
+
+  evidence(entry: Entry, path: string, referenceIds: Set<string>): void {
+    const value = entry.evidence;
+    if (value === undefined) return;
+    if (!isStringList(value)) {
+      this.report(`${path}.evidence`, 'type', 'evidence must be a list of reference ids');
+      return;
+    }
+
+    value
+      .filter(id => !referenceIds.has(id))
+      .forEach(id => this.report(`${path}.evidence`, 'unknown_reference', `Unknown evidence reference ${id}`));
+  }
+
+  unique(keys: Array<[string, string]>, kind: string): void {
+    const seen = new Set<string>();
+    for (const [path, key] of keys) {
+      if (seen.has(key)) this.report(path, 'duplicate', `Duplicate ${kind} ${key}`);
+      seen.add(key);
+    }
+  }
+}
+
+/**
+ * Check a parsed knowledge file against the schema, returning every issue
+ */
+export function validateKnowledgeGraph(data: unknown, options: KnowledgeGraphValidationOptions = {}): KnowledgeGraphIssue[] {
+  const checker = new KnowledgeGraphChecker(new Set(options.knownOrgans ?? KNOWN_ORGANS));
+  if (!isEntry(data)) {
+    checker.report('', 'type', 'A knowledge file must be a mapping');
+    return checker.issues;
+  }
+
+  if (typeof data.version !== 'string' || data.version.trim() === '') {
+    checker.report('version', data.version === undefined ? 'required' : 'type', 'version must be a string (quote it in YAML)');
+  }
+
+  const references = checker.list(data, 'references', false);
+  references.forEach((reference, index) => {
+    checker.string(reference, `references[${index}]`, 'id');
+    checker.string(reference, `references[${index}]`, 'citation');
+    checker.string(reference, `references[${index}]`, 'url', false);
+  });
+  const referenceKeys = references.flatMap((reference, index): Array<[string, string]> =>
+    typeof reference.id === 'string' ? [[`references[${index}].id`, reference.id]] : []
+  );
+  checker.unique(referenceKeys, 'reference');
+  const referenceIds = new Set(referenceKeys.map(([, id]) => id));
+
+  const dependencies = checker.list(data, 'dependencies');
+  dependencies.forEach((dependency, index) => {
+    const path = `dependencies[${index}]`;
+    checker.organ(dependency, path, 'sourceOrgan');
+    checker.organ(dependency, path, 'targetOrgan');
+    checker.oneOf(dependency, path, 'dependencyType', DEPENDENCY_TYPES);
+    checker.number(dependency, path, 'strength', [0, 1]);
+    if (typeof dependency.bidirectional !== 'boolean') {
+      checker.report(`${path}.bidirectional`, dependency.bidirectional === undefined ? 'required' : 'type', 'bidirectional must be true or false');
+    }
+    checker.evidence(dependency, path, referenceIds);
+  });
+  checker.unique(dependencies.map((dependency, index) =>
+    [`dependencies[${index}]`, dependencyKey(dependency as unknown as OrganDependency)]
+  ), 'dependency');
+
+  const interactions = checker.list(data, 'interactions');
+  interactions.forEach((interaction, index) => {
+    const path = `interactions[${index}]`;
+    if (!Array.isArray(interaction.organs) || interaction.organs.length < 2) {
+      checker.report(`${path}.organs`, interaction.organs === undefined ? 'required' : 'type', 'organs must list at least two organs');
+    } else {
+      interaction.organs.forEach((organ, organIndex) => checker.organ(interaction, path, `organs[${organIndex}]`, organ));
+    }
+    checker.oneOf(interaction, path, 'interactionType', INTERACTION_TYPES);
+    checker.number(interaction, path, 'impactFactor', IMPACT_FACTOR_RANGE);
+    checker.string(interaction, path, 'description');
+    checker.evidence(interaction, path, referenceIds);
+  });
+  checker.unique(interactions.flatMap((interaction, index): Array<[string, string]> =>
+    isStringList(interaction.organs) ? [[`interactions[${index}]`, interactionKey(interaction as unknown as OrganInteraction)]] : []
+  ), 'interaction');
+
+  return checker.issues;
+}
+
+/**
+ * Parse a JSON or YAML knowledge file. Throws a KnowledgeGraphValidationError
+ * for syntax errors and schema violations alike.
+ */
+export function parseKnowledgeGraph(source: string | unknown, options: KnowledgeGraphValidationOptions = {}): OrganKnowledgeGraph {
+  let data: unknown = source;
+
+  if (typeof source === 'string') {
+    try {
+      data = source.trimStart().startsWith('{') ? JSON.parse(source) : parseYamlSubset(source);
+    } catch (error) {
+      const path = error instanceof YamlSyntaxError ? `line ${error.line}` : '';
+      throw new KnowledgeGraphValidationError([{ path, code: 'syntax', message: (error as Error).message }]);
+    }
+  }
+
+  const issues = validateKnowledgeGraph(data, options);
+  if (issues.length > 0) throw new KnowledgeGraphValidationError(issues);
+
+  // Detach from the source so later edits to it cannot reach a loaded graph
+  const graph = JSON.parse(JSON.stringify(data));
+  return { ...graph, references: graph.references ?? [] };
+}
+
+function changedFields<T extends object>(before: T, after: T): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields].filter(field =>
+    JSON.stringify((before as Record<string, unknown>)[field]) !== JSON.stringify((after as Record<string, unknown>)[field])
+  );
+}
+
+function diffEntries<T extends object>(current: T[], next: T[], keyOf: (entry: T) => string) {
+  const before = new Map(current.map(entry => [keyOf(entry), entry]));
+  const after = new Map(next.map(entry => [keyOf(entry), entry]));
+
+  return {
+    added: next.filter(entry => !before.has(keyOf(entry))),
+    removed: current.filter(entry => !after.has(keyOf(entry))),
+    changed: next.flatMap(entry => {
+      const key = keyOf(entry);
+      const previous = before.get(key);
+      const fields = previous ? changedFields(previous, entry) : [];
+      return previous && fields.length > 0 ? [{ key, before: previous, after: entry, fields }] : [];
+    })
+  };
+}
+
+/**
+ * What loading the next graph changes. Dependencies are matched by source,
+ * target and type, interactions by their organs.
+ */
+export function diffKnowledgeGraph(
+  current: Pick<OrganKnowledgeGraph, 'dependencies' | 'interactions'> & { version?: string | null },
+  next: OrganKnowledgeGraph
+): KnowledgeGraphDiff {
+  const dependencies = diffEntries(current.dependencies, next.dependencies, dependencyKey);
+  const interactions = diffEntries(current.interactions, next.interactions, interactionKey);
+
+  return {
+    fromVersion: current.version ?? null,
+    toVersion: next.version,
+    dependencies,
+    interactions,
+    unchanged: [dependencies, interactions].every(diff =>
+      diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+    )
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Organ Knowledge Graph Tests
+ * Unit tests for loading, validating, diffing and hot-reloading knowledge files
+ */
+
+import {
+  parseKnowledgeGraph,
+  validateKnowledgeGraph,
+  diffKnowledgeGraph,
+  KnowledgeGraphValidationError
+} from '../OrganKnowledgeGraph';
+import { DEFAULT_ORGAN_KNOWLEDGE } from '../defaultOrganKnowledge';
+import { OrganOrchestrator } from '../../engine/OrganOrchestrator';
+
+const KNOWLEDGE_YAML = `
+# Reviewed by the clinical team
+version: "2.0.0"
+references:
+  - id: ronco-2008
+    citation: 'Ronco C et al. Cardiorenal syndrome. J Am Coll Cardiol. 2008'
+dependencies:
+- sourceOrgan: cardiovascular
+  targetOrgan: renal
+  dependencyType: circulatory
+  strength: 0.7   # lowered after review
+  bidirectional: true
+  evidence: [ronco-2008]
+interactions:
+  - organs: [cardiovascular, renal]
+    interactionType: synergistic
+    impactFactor: 1.15
+    description: Cardiorenal axis - kidney and heart health are closely linked
+    evidence:
+      - ronco-2008
+`;
+
+function parseIssues(source: string | unknown) {
+  try {
+    parseKnowledgeGraph(source);
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(KnowledgeGraphValidationError);
+    return (error as KnowledgeGraphValidationError).issues;
+  }
+}
+
+describe('Organ knowledge graph', () => {
+  test('should read the same graph from YAML and JSON', () => {
+    const graph = parseKnowledgeGraph(KNOWLEDGE_YAML);
+
+    expect(graph.dependencies).toEqual([{
+      sourceOrgan: 'cardiovascular',
+      targetOrgan: 'renal',
+      dependencyType: 'circulatory',
+      strength: 0.7,
+      bidirectional: true,
+      evidence: ['ronco-2008']
+    }]);
+    expect(graph.interactions[0].evidence).toEqual(['ronco-2008']);
+    expect(parseKnowledgeGraph(JSON.stringify(graph))).toEqual(graph);
+    expect(validateKnowledgeGraph(DEFAULT_ORGAN_KNOWLEDGE)).toEqual([]);
+  });
+
+  test('should report every invalid entry with its path', () => {
+    const issues = parseIssues({
+      version: '2.0.0',
+      dependencies: [
+        { sourceOrgan: 'cardiovascular', targetOrgan: 'spleen', dependencyType: 'circulatory', strength: 1.4, bidirectional: false },
+        { sourceOrgan: 'hepatic', targetOrgan: 'renal', dependencyType: 'hormonal', strength: 0.5, bidirectional: false, evidence: ['unknown-2020'] }
+      ],
+      interactions: [{ organs: ['renal'], interactionType: 'synergistic', impactFactor: 12, description: 'Typo' }]
+    });
+
+    expect(issues.map(issue => [issue.path, issue.code])).toEqual([
+      ['dependencies[0].targetOrgan', 'unknown_organ'],
+      ['dependencies[0].strength', 'out_of_range'],
+      ['dependencies[1].dependencyType', 'invalid_value'],
+      ['dependencies[1].evidence', 'unknown_reference'],
+      ['interactions[0].organs', 'type'],
+      ['interactions[0].impactFactor', 'out_of_range']
+    ]);
+    expect(parseIssues('version: "2.0.0"\ndependencies:\n  - sourceOrgan: renal\n\tstrength: 1')).toEqual([
+      expect.objectContaining({ path: 'line 4', code: 'syntax' })
+    ]);
+  });
+
+  test('should diff dependencies by their organs and type', () => {
+    const next = parseKnowledgeGraph(KNOWLEDGE_YAML);
+    const diff = diffKnowledgeGraph(DEFAULT_ORGAN_KNOWLEDGE, next);
+
+    expect(diff).toMatchObject({ fromVersion: '1.0.0', toVersion: '2.0.0', unchanged: false });
+    expect(diff.dependencies.added).toEqual([]);
+    expect(diff.dependencies.removed).toHaveLength(8);
+    expect(diff.dependencies.changed).toEqual([expect.objectContaining({
+      key: 'cardiovascular->renal:circulatory',
+      fields: ['strength']
+    })]);
+    expect(diff.interactions.changed).toEqual([]);
+    expect(diffKnowledgeGraph(next, next).unchanged).toBe(true);
+  });
+
+  test('should hot-reload a changed file and keep the graph when it is invalid', async () => {
+    const orchestrator = new OrganOrchestrator();
+    const loaded: string[] = [];
+    const rejected: string[] = [];
+    orchestrator.on('knowledgeGraphLoaded', ({ version }) => loaded.push(version));
+    orchestrator.on('knowledgeGraphRejected', ({ issues }) => rejected.push(issues[0].path));
+
+    let file = KNOWLEDGE_YAML;
+    const stop = orchestrator.watchKnowledgeGraph(async () => file, 5);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    file = KNOWLEDGE_YAML.replace('strength: 0.7', 'strength: 7');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    stop();
+
+    expect(loaded).toEqual(['2.0.0']);
+    expect(rejected).toEqual(['dependencies[0].strength']);
+    expect(orchestrator.getKnowledgeGraph().dependencies[0].strength).toBe(0.7);
+    expect(orchestrator.getStatistics()).toMatchObject({ dependencies: 1, interactions: 1 });
+    orchestrator.destroy();
+  });
+});
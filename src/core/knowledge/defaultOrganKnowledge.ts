@@ -0,0 +1,161 @@
+/**
+ * Default Organ Knowledge
+ * The organ graph the orchestrator starts with before a knowledge file is loaded
+ *
+ * Kept in the knowledge file schema, so it is validated like any loaded
+ * file and serves as the template for one.
+ */
+
+import { OrganKnowledgeGraph } from './OrganKnowledgeGraph';
+
+export const DEFAULT_ORGAN_KNOWLEDGE: OrganKnowledgeGraph = {
+  version: '1.0.0',
+  description: 'Built-in organ dependencies and interactions',
+  references: [
+    {
+      id: 'ronco-2008',
+      citation: 'Ronco C, Haapio M, House AA, Anavekar N, Bellomo R. Cardiorenal syndrome. J Am Coll Cardiol. 2008;52(19):1527-1539.'
+    },
+    {
+      id: 'targher-2010',
+      citation: 'Targher G, Day CP, Bonora E. Risk of cardiovascular disease in patients with nonalcoholic fatty liver disease. N Engl J Med. 2010;363(14):1341-1350.'
+    },
+    {
+      id: 'iadecola-2017',
+      citation: 'Iadecola C. The neurovascular unit coming of age: a journey through neurovascular coupling in health and disease. Neuron. 2017;96(1):17-42.'
+    },
+    {
+      id: 'myers-2002',
+      citation: 'Myers J, Prakash M, Froelicher V, Do D, Partington S, Atwood JE. Exercise capacity and mortality among men referred for exercise testing. N Engl J Med. 2002;346(11):793-801.'
+    },
+    {
+      id: 'gines-2018',
+      citation: 'Ginès P, Solà E, Angeli P, Wong F, Nadim MK, Kamath PS. Hepatorenal syndrome. Nat Rev Dis Primers. 2018;4(1):23.'
+    }
+  ],
+  dependencies: [
+    // Cardiovascular dependencies
+    {
+      sourceOrgan: 'cardiovascular',
+      targetOrgan: 'renal',
+      dependencyType: 'circulatory',
+      strength: 0.9,
+      bidirectional: true,
+      evidence: ['ronco-2008']
+    },
+    {
+      sourceOrgan: 'cardiovascular',
+      targetOrgan: 'neurological',
+      dependencyType: 'circulatory',
+      strength: 0.8,
+      bidirectional: false,
+      evidence: ['iadecola-2017']
+    },
+    {
+      sourceOrgan: 'cardiovascular',
+      targetOrgan: 'pulmonary',
+      dependencyType: 'circulatory',
+      strength: 0.95,
+      bidirectional: true
+    },
+
+    // Hepatic dependencies
+    {
+      sourceOrgan: 'hepatic',
+      targetOrgan: 'cardiovascular',
+      dependencyType: 'metabolic',
+      strength: 0.7,
+      bidirectional: false,
+      evidence: ['targher-2010']
+    },
+    {
+      sourceOrgan: 'hepatic',
+      targetOrgan: 'renal',
+      dependencyType: 'metabolic',
+      strength: 0.6,
+      bidirectional: false,
+      evidence: ['gines-2018']
+    },
+
+    // Renal dependencies
+    {
+      sourceOrgan: 'renal',
+      targetOrgan: 'cardiovascular',
+      dependencyType: 'functional',
+      strength: 0.8,
+      bidirectional: false,
+      evidence: ['ronco-2008']
+    },
+
+    // Pulmonary dependencies
+    {
+      sourceOrgan: 'pulmonary',
+      targetOrgan: 'cardiovascular',
+      dependencyType: 'functional',
+      strength: 0.9,
+      bidirectional: false
+    },
+
+    // Neurological dependencies
+    {
+      sourceOrgan: 'neurological',
+      targetOrgan: 'musculoskeletal',
+      dependencyType: 'neural',
+      strength: 0.85,
+      bidirectional: false
+    },
+
+    // Musculoskeletal dependencies
+    {
+      sourceOrgan: 'musculoskeletal',
+      targetOrgan: 'cardiovascular',
+      dependencyType: 'functional',
+      strength: 0.6,
+      bidirectional: false,
+      evidence: ['myers-2002']
+    }
+  ],
+  interactions: [
+    {
+      organs: ['cardiovascular', 'pulmonary'],
+      interactionType: 'synergistic',
+      impactFactor: 1.2,
+      description: 'Cardiopulmonary synergy enhances overall cardiovascular health'
+    },
+    {
+      organs: ['cardiovascular', 'renal'],
+      interactionType: 'synergistic',
+      impactFactor: 1.15,
+      description: 'Cardiorenal axis - kidney and heart health are closely linked',
+      evidence: ['ronco-2008']
+    },
+    {
+      organs: ['hepatic', 'cardiovascular'],
+      interactionType: 'synergistic',
+      impactFactor: 1.1,
+      description: 'Liver metabolism affects cardiovascular risk factors',
+      evidence: ['targher-2010']
+    },
+    {
+      organs: ['neurological', 'cardiovascular'],
+      interactionType: 'synergistic',
+      impactFactor: 1.25,
+      description: 'Neurovascular coupling - brain health depends on cardiovascular function',
+      evidence: ['iadecola-2017']
+    },
+    {
+      organs: ['musculoskeletal', 'cardiovascular'],
+      interactionType: 'synergistic',
+      impactFactor: 1.1,
+      description: 'Physical activity and muscle health improve cardiovascular outcomes',
+      evidence: ['myers-2002']
+    },
+    {
+      organs: ['hepatic', 'renal'],
+      interactionType: 'antagonistic',
+      impactFactor: 0.9,
+      description: 'Hepatorenal syndrome - liver dysfunction can impair kidney function',
+      evidence: ['gines-2018']
+    }
+  ]
+};
@@ -0,0 +1,209 @@
+/**
+ * YAML Subset Parser
+ * Parses the part of YAML that knowledge files are written in
+ *
+ * Supported: block mappings and sequences indented with spaces, sequence
+ * items that start a mapping (`- key: value`), plain, single- and
+ * double-quoted scalars, numbers, booleans, null, flat flow sequences
+ * (`[a, b]`) and comments. Anchors, tags, multi-line scalars and flow
+ * mappings are not; files using them are rejected with the offending line
+ * rather than misread.
+ */
+
+export class YamlSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlSyntaxError';
+  }
+}
+
+interface Line {
+  number: number; // 1-based, for error messages
+  indent: number;
+  text: string; // Without indentation and comment
+}
+
+const MAPPING_ENTRY = /^("[^"]*"|'[^']*'|[^\s:#'"[\]{}-][^:#]*?|-[^\s:#][^:#]*?)\s*:(?:\s+(.*))?$/;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+function stripComment(text: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function toLines(source: string): Line[] {
+  return source.split(/\r?\n/).flatMap((raw, index) => {
+    const number = index + 1;
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '' || text === '---') return [];
+
+    const indentation = text.match(/^[ \t]*/)![0];
+    if (indentation.includes('\t')) throw new YamlSyntaxError('Tabs are not allowed for indentation', number);
+
+    return [{ number, indent: indentation.length, text: text.slice(indentation.length) }];
+  });
+}
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+/**
+ * Split a flow sequence's content on the commas outside quotes and brackets
+ */
+function splitFlowItems(content: string, line: number): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(content.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  if (quote || depth !== 0) throw new YamlSyntaxError('Unterminated flow sequence', line);
+
+  items.push(content.slice(start).trim());
+  if (items.some(item => item === '')) throw new YamlSyntaxError('Empty flow sequence item', line);
+  return items;
+}
+
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlSyntaxError(`Invalid double-quoted string ${text}`, line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) throw new YamlSyntaxError(`Unterminated string ${text}`, line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw new YamlSyntaxError(`Unterminated flow sequence ${text}`, line);
+    const content = text.slice(1, -1).trim();
+    return content === '' ? [] : splitFlowItems(content, line).map(item => parseScalar(item, line));
+  }
+  if (text.startsWith('{')) {
+    if (text.replace(/\s/g, '') === '{}') return {};
+    throw new YamlSyntaxError('Flow mappings are not supported, use a block mapping', line);
+  }
+  if (/^[&*!|>]/.test(text)) {
+    throw new YamlSyntaxError(`Unsupported YAML syntax ${text}`, line);
+  }
+
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (text === 'null' || text === '~') return null;
+  if (NUMBER.test(text)) return Number(text);
+  return text;
+}
+
+function parseKey(key: string): string {
+  return key.startsWith('"') ? JSON.parse(key) : key.startsWith("'") ? key.slice(1, -1).replace(/''/g, "'") : key;
+}
+
+class YamlSubsetParser {
+  private index = 0;
+
+  constructor(private lines: Line[]) {}
+
+  parseDocument(): unknown {
+    if (this.lines.length === 0) return null;
+
+    const value = this.parseBlock();
+    const next = this.lines[this.index];
+    if (next) throw new YamlSyntaxError('Unexpected indentation', next.number);
+    return value;
+  }
+
+  private parseBlock(): unknown {
+    const line = this.lines[this.index];
+    return isSequenceItem(line.text) ? this.parseSequence(line.indent) : this.parseMapping(line.indent);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent || !isSequenceItem(line.text)) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        this.index++;
+        items.push(this.parseNested(indent, false));
+      } else if (isSequenceItem(rest) || MAPPING_ENTRY.test(rest)) {
+        // The item's content starts on the dash's line, indented past it
+        this.lines[this.index] = { ...line, indent: indent + line.text.length - rest.length, text: rest };
+        items.push(this.parseBlock());
+      } else {
+        this.index++;
+        items.push(parseScalar(rest, line.number));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent || isSequenceItem(line.text)) break;
+
+      const match = line.text.match(MAPPING_ENTRY);
+      if (!match) throw new YamlSyntaxError(`Expected "key: value", found ${line.text}`, line.number);
+
+      const key = parseKey(match[1]);
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new YamlSyntaxError(`Duplicate key ${key}`, line.number);
+      }
+
+      this.index++;
+      // A sequence may sit at the key's own indentation
+      mapping[key] = match[2] === undefined ? this.parseNested(indent, true) : parseScalar(match[2], line.number);
+    }
+    return mapping;
+  }
+
+  /**
+   * The block below a key or dash with no value of its own, null if none
+   */
+  private parseNested(indent: number, allowSequenceAtIndent: boolean): unknown {
+    const next = this.lines[this.index];
+    if (!next) return null;
+
+    if (next.indent > indent || (allowSequenceAtIndent && next.indent === indent && isSequenceItem(next.text))) {
+      return this.parseBlock();
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a YAML document written in the supported subset
+ */
+export function parseYamlSubset(source: string): unknown {
+  return new YamlSubsetParser(toLines(source)).parseDocument();
+}
@@ -0,0 +1,244 @@
+/**
+ * Risk Projector
+ * Forward risk trajectories of the digital twin
+ *
+ * Ages a canonical health profile year by year — age itself, the expected
+ * population drift of each biomarker, or the patient's own observed trend
+ * where the timeline provides one — and runs each projected year through
+ * the DigitalTwinEngine as a background analysis. With interventions, the same projection is repeated on
+ * the modified profile; fields changed by an intervention follow population
+ * drift instead of the patient's observed trend, which the intervention is
+ * assumed to halt. Projected values are kept within plausible ranges.
+ */
+
+import { DigitalTwinEngine, AnalyzeHealthOptions } from '../engine/DigitalTwinEngine';
+import { isAnalysisCancelled } from '../engine/cancellation';
+import { PredictionResult } from '../types/core';
+import { CanonicalHealthData, CanonicalField, NumericField, HealthTrends } from '../types/healthData';
+import { PHYSIOLOGICAL_RANGES } from '../validation/physiologicalRanges';
+import { Intervention, applyInterventions } from '../simulation/ScenarioSimulator';
+import { EXPECTED_DRIFT_PER_YEAR, MENOPAUSE_AGE } from './biomarkerDrift';
+
+export interface ProjectedRisk {
+  year: number; // Years from the baseline measurement
+  age: number;
+  riskScore: number;
+}
+
+export interface ProjectedOrganRisk extends ProjectedRisk {
+  riskLevel: PredictionResult['riskLevel'];
+}
+
+export interface OrganRiskCurve {
+  moduleId: string;
+  baseline: ProjectedOrganRisk[];
+  intervention: ProjectedOrganRisk[] | null;
+}
+
+export interface RiskProjection {
+  horizonYears: number;
+  startAge: number;
+  interventions: Intervention[];
+  organs: OrganRiskCurve[];
+  global: {
+    baseline: ProjectedRisk[];
+    intervention: ProjectedRisk[] | null;
+  };
+}
+
+export interface ProjectionMilestone {
+  moduleId: string; // 'global' for the average over all organs
+  year: number;
+  age: number;
+  baseline: number;
+  intervention: number | null;
+}
+
+export interface ProjectionOptions {
+  horizonYears: number;
+  interventions: Intervention[];
+}
+
+export const DEFAULT_PROJECTION_OPTIONS: ProjectionOptions = {
+  horizonYears: 10,
+  interventions: []
+};
+
+// Years highlighted in summaries and exports
+export const PROJECTION_MILESTONES = [1, 5, 10];
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Keep a drifted value within the plausible range. A baseline already
+ * outside the range is kept as measured: drift may carry it back in, but
+ * the clamp never moves it further out or past where it started.
+ */
+function clampToPlausible(field: CanonicalField, value: number, baseline: number): number {
+  const range = PHYSIOLOGICAL_RANGES[field];
+  if (!range) return value;
+
+  const min = Math.min(range.plausible[0], baseline);
+  const max = Math.max(range.plausible[1], baseline);
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Project a health profile the given number of years forward
+ */
+export function ageHealthData(data: CanonicalHealthData, years: number): CanonicalHealthData {
+  if (years === 0) return data;
+
+  const aged: CanonicalHealthData = {
+    ...data,
+    age: data.age + years,
+    timestamp: data.timestamp + years * YEAR_MS
+  };
+
+  const driftingFields = new Set<NumericField>([
+    ...Object.keys(EXPECTED_DRIFT_PER_YEAR),
+    ...Object.keys(data.trends ?? {}).filter(metric => metric !== 'egfr')
+  ] as NumericField[]);
+
+  for (const field of driftingFields) {
+    const value = data[field];
+    if (typeof value !== 'number') continue;
+
+    const ratePerYear = data.trends?.[field] ?? EXPECTED_DRIFT_PER_YEAR[field] ?? 0;
+    aged[field] = clampToPlausible(field, value + ratePerYear * years, value);
+  }
+
+  if (aged.weight !== data.weight && aged.height) {
+    const heightM = aged.height / 100;
+    aged.bmi = Math.round((aged.weight! / (heightM * heightM)) * 10) / 10;
+  }
+
+  if (aged.sex === 'female' && aged.menopause === undefined && aged.age >= MENOPAUSE_AGE) {
+    aged.menopause = true;
+  }
+
+  return aged;
+}
+
+function withoutTrends(data: CanonicalHealthData, fields: string[]): CanonicalHealthData {
+  if (!data.trends) return data;
+
+  const trends: HealthTrends = Object.fromEntries(
+    Object.entries(data.trends).filter(([metric]) => !fields.includes(metric))
+  );
+  return { ...data, trends };
+}
+
+function globalCurve(organs: OrganRiskCurve[], scenario: 'baseline' | 'intervention'): ProjectedRisk[] {
+  const byYear = new Map<number, ProjectedOrganRisk[]>();
+  for (const organ of organs) {
+    for (const point of organ[scenario] ?? []) {
+      byYear.set(point.year, [...(byYear.get(point.year) ?? []), point]);
+    }
+  }
+
+  return Array.from(byYear.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, points]) => ({
+      year,
+      age: points[0].age,
+      riskScore: Math.round(points.reduce((sum, p) => sum + p.riskScore, 0) / points.length)
+    }));
+}
+
+/**
+ * Risk at the milestone years for every organ and the global average
+ */
+export function summarizeMilestones(projection: RiskProjection): ProjectionMilestone[] {
+  const curves: Array<{ moduleId: string; baseline: ProjectedRisk[]; intervention: ProjectedRisk[] | null }> = [
+    { moduleId: 'global', ...projection.global },
+    ...projection.organs
+  ];
+
+  return curves.flatMap(curve => PROJECTION_MILESTONES
+    .filter(year => year <= projection.horizonYears)
+    .flatMap(year => {
+      const baseline = curve.baseline.find(p => p.year === year);
+      if (!baseline) return [];
+
+      return [{
+        moduleId: curve.moduleId,
+        year,
+        age: baseline.age,
+        baseline: baseline.riskScore,
+        intervention: curve.intervention?.find(p => p.year === year)?.riskScore ?? null
+      }];
+    }));
+}
+
+export class RiskProjector {
+  constructor(private engine: DigitalTwinEngine) {}
+
+  /**
+   * Yearly risk curves per organ from the baseline year to the horizon
+   */
+  async project(
+    data: CanonicalHealthData,
+    options: Partial<ProjectionOptions> = {},
+    analyzeOptions: AnalyzeHealthOptions = {}
+  ): Promise<RiskProjection> {
+    const { horizonYears, interventions } = { ...DEFAULT_PROJECTION_OPTIONS, ...options };
+
+    const baseline = await this.projectCurves(data, horizonYears, analyzeOptions);
+
+    let intervention: Map<string, ProjectedOrganRisk[]> | null = null;
+    if (interventions.length > 0) {
+      const { data: modified, modifiedFields } = applyInterventions(data, interventions);
+      intervention = await this.projectCurves(withoutTrends(modified, modifiedFields), horizonYears, analyzeOptions);
+    }
+
+    const organs: OrganRiskCurve[] = Array.from(baseline.entries()).map(([moduleId, points]) => ({
+      moduleId,
+      baseline: points,
+      intervention: intervention?.get(moduleId) ?? null
+    }));
+
+    return {
+      horizonYears,
+      startAge: data.age,
+      interventions,
+      organs,
+      global: {
+        baseline: globalCurve(organs, 'baseline'),
+        intervention: intervention ? globalCurve(organs, 'intervention') : null
+      }
+    };
+  }
+
+  private async projectCurves(
+    data: CanonicalHealthData,
+    horizonYears: number,
+    analyzeOptions: AnalyzeHealthOptions
+  ): Promise<Map<string, ProjectedOrganRisk[]>> {
+    const curves = new Map<string, ProjectedOrganRisk[]>();
+
+    for (let year = 0; year <= horizonYears; year++) {
+      const aged = ageHealthData(data, year);
+
+      let results: PredictionResult[];
+      try {
+        results = await this.engine.analyzeHealth(aged, { priority: 'background', ...analyzeOptions });
+      } catch (error) {
+        if (isAnalysisCancelled(error)) throw error;
+        continue; // A year the engine rejects is left out of every curve
+      }
+
+      // Years a module cannot analyze are left out of its curve
+      for (const result of results.filter(r => !r.error)) {
+        curves.set(result.moduleId, [
+          ...(curves.get(result.moduleId) ?? []),
+          { year, age: aged.age, riskScore: result.riskScore, riskLevel: result.riskLevel }
+        ]);
+      }
+    }
+
+    return curves;
+  }
+}
+
+export default RiskProjector;
@@ -0,0 +1,61 @@
+/**
+ * Risk Projector Tests
+ * Unit tests for twin aging and forward risk curves
+ */
+
+import { RiskProjector, ageHealthData, summarizeMilestones } from '../RiskProjector';
+import { normalizeHealthData } from '../../data/HealthDataNormalizer';
+import { createOrganModules } from '../../services/AnalysisService';
+import { DigitalTwinEngine } from '../../engine/DigitalTwinEngine';
+
+describe('RiskProjector', () => {
+  const healthData = normalizeHealthData({
+    name: 'Test Patient',
+    age: 55,
+    sex: 'female',
+    weight: 92,
+    height: 165,
+    systolicBP: 148,
+    diastolicBP: 92,
+    totalCholesterol: 240,
+    hdlCholesterol: 42,
+    glucose: 112,
+    creatinine: 1.0,
+    smokingStatus: 'current'
+  });
+
+  test('should age the profile with observed trends taking precedence over population drift', () => {
+    const aged = ageHealthData({ ...healthData, trends: { bloodPressureSystolic: 3 } }, 10);
+
+    expect(aged.age).toBe(65);
+    expect(aged.bloodPressureSystolic).toBe(178);
+    expect(aged.totalCholesterol).toBeGreaterThan(240);
+    expect(aged.bmi).toBeGreaterThan(healthData.bmi!);
+    expect(aged.menopause).toBe(true);
+  });
+
+  test('should keep an out-of-range baseline as measured', () => {
+    const hypertensive = { ...healthData, bloodPressureSystolic: 210 };
+
+    expect(ageHealthData(hypertensive, 0)).toBe(hypertensive);
+    expect(ageHealthData(hypertensive, 10).bloodPressureSystolic).toBe(210);
+    expect(ageHealthData({ ...hypertensive, trends: { bloodPressureSystolic: -2 } }, 10).bloodPressureSystolic).toBe(190);
+  });
+
+  test('should project yearly curves and lower risk with interventions', async () => {
+    const engine = new DigitalTwinEngine({ performanceMonitoring: false });
+    createOrganModules().forEach(module => engine.registerModule(module));
+    await engine.initializeModules();
+
+    const projection = await new RiskProjector(engine).project(healthData, {
+      interventions: [{ type: 'quitSmoking' }, { type: 'bloodPressureTarget', systolic: 125, diastolic: 80 }]
+    });
+    engine.destroy();
+    const cardiovascular = projection.organs.find(o => o.moduleId === 'cardiovascular')!;
+
+    expect(cardiovascular.baseline).toHaveLength(11);
+    expect(cardiovascular.baseline[10].riskScore).toBeGreaterThanOrEqual(cardiovascular.baseline[0].riskScore);
+    expect(cardiovascular.intervention![10].riskScore).toBeLessThan(cardiovascular.baseline[10].riskScore);
+    expect(summarizeMilestones(projection).filter(m => m.moduleId === 'global').map(m => m.year)).toEqual([1, 5, 10]);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Expected Biomarker Drift
+ *
+ * Average change per year of age in adults, from longitudinal population
+ * cohorts (e.g. Framingham Offspring, NHANES). Used to age a digital twin
+ * when no trend has been observed for a biomarker; observed trends from the
+ * patient's timeline take precedence. Age-dependent terms inside the risk
+ * algorithms (e.g. the age factor of CKD-EPI) are applied by the modules
+ * themselves and are not duplicated here. All values are in canonical units.
+ */
+
+import { CanonicalField } from '../types/healthData';
+
+export const EXPECTED_DRIFT_PER_YEAR: Partial<Record<CanonicalField, number>> = {
+  bloodPressureSystolic: 0.6,
+  bloodPressureDiastolic: 0.1,
+  totalCholesterol: 0.9,
+  ldlCholesterol: 0.7,
+  triglycerides: 0.8,
+  glucose: 0.4,
+  hba1c: 0.015,
+  creatinine: 0.004,
+  weight: 0.25,
+  alt: -0.1,
+  boneDensity: -0.02,
+  restingHeartRate: 0.1
+};
+
+// Age at which natural menopause is assumed when it has not been reported
+export const MENOPAUSE_AGE = 51;
@@ -0,0 +1,300 @@
+/**
+ * BioTwin360 Analysis Service
+ * Application service layer between the UI and the digital twin engine
+ *
+ * Owns the application's DigitalTwinEngine and its organ modules, analyzes
+ * patient form input against the patient's timeline and publishes the
+ * streamed results, history entries and errors to the app store. It also
+ * runs what-if scenarios, risk projections and audit bundle replays.
+ */
+
+import { DigitalTwinEngine, EngineConfig, AnalyzeHealthOptions } from '../engine/DigitalTwinEngine';
+import { isAnalysisCancelled } from '../engine/cancellation';
+import { aggregateRisk } from '../engine/AnalysisStream';
+import { ExecutionBackend } from '../engine/execution/ExecutionBackend';
+import { supportsWebWorkers, createWebWorkerPool } from '../engine/execution/browserWorkers';
+import { EncryptedIndexedDBCache, supportsEncryptedIndexedDB } from '../cache/PersistentCache';
+import { OrganModule, PredictionResult } from '../types/core';
+import { CanonicalHealthData, PatientFormInput } from '../types/healthData';
+import { HealthDataInput, normalizeHealthData, isCanonicalHealthData } from '../data/HealthDataNormalizer';
+import { HealthDataValidationError } from '../validation/HealthDataValidator';
+import { DEFAULT_UNCERTAINTY_CONFIG } from '../uncertainty/MonteCarloEstimator';
+import { ScenarioSimulator, Intervention, ScenarioResult } from '../simulation/ScenarioSimulator';
+import { RiskProjector, RiskProjection } from '../projection/RiskProjector';
+import { PatientTimeline, toPatientId } from '../timeline/PatientTimeline';
+import { TrendAlert, evaluateTrendAlerts } from '../timeline/trendRules';
+import { AnalysisBundle } from '../audit/AnalysisBundle';
+import { replayAnalysisBundle, ReplayReport } from '../audit/AnalysisReplay';
+import { useAppStore } from '../StateManager';
+import { createOrganModules, createShadowModules, ORGAN_MODULE_FACTORIES } from '../../modules/registry';
+
+export type { PatientFormInput };
+export { createOrganModules };
+
+// Engine events after which the registered shadow versions may have changed
+const SHADOW_MODULE_EVENTS = ['moduleRegistered', 'moduleUnregistered', 'modulePromoted'];
+
+export interface AnalysisOutcome {
+  results: PredictionResult[];
+  globalRiskScore: number;
+  globalConfidence: number;
+  failedModules: string[];
+  isPartial: boolean;
+  trendAlerts: TrendAlert[];
+}
+
+export class AnalysisService {
+  private engine: DigitalTwinEngine;
+  private simulator: ScenarioSimulator;
+  private projector: RiskProjector;
+  private initialization: Promise<void> | null = null;
+  private patientAnalysis: AbortController | null = null;
+  private uncertaintyIntervals: boolean; // Estimate intervals for patient analyses even when the setting is off
+
+  constructor(
+    engineConfig: Partial<EngineConfig> = {},
+    modules: OrganModule[] = createOrganModules(),
+    backend?: ExecutionBackend,
+    shadowModules: OrganModule[] = []
+  ) {
+    // Only patient analyses estimate intervals; projections and what-if runs take point results
+    this.engine = new DigitalTwinEngine({
+      ...engineConfig,
+      uncertainty: { ...DEFAULT_UNCERTAINTY_CONFIG, ...engineConfig.uncertainty, enabled: false }
+    }, backend);
+    this.uncertaintyIntervals = engineConfig.uncertainty?.enabled ?? false;
+
+    for (const module of modules) {
+      this.engine.registerModule(module);
+    }
+    for (const module of shadowModules) {
+      this.registerShadowModule(module);
+    }
+
+    this.simulator = new ScenarioSimulator(this.engine);
+    this.projector = new RiskProjector(this.engine);
+  }
+
+  /**
+   * Initialize all registered modules once; modules that fail are skipped
+   * by analyses and restarted by the engine
+   */
+  private ensureInitialized(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.engine.initializeModules().then(() => undefined);
+    }
+    return this.initialization;
+  }
+
+  /**
+   * Run a full multi-organ analysis
+   */
+  async analyze(healthData: HealthDataInput, options: AnalyzeHealthOptions = {}): Promise<AnalysisOutcome> {
+    await this.ensureInitialized();
+
+    const results = await this.engine.analyzeHealth(healthData, options);
+    return this.toOutcome(healthData, results);
+  }
+
+  private toOutcome(healthData: HealthDataInput, results: PredictionResult[]): AnalysisOutcome {
+    const { globalRiskScore, globalConfidence } = aggregateRisk(results);
+    const failedModules = results.filter(r => r.error).map(r => r.moduleId);
+
+    return {
+      results,
+      globalRiskScore: Math.round(globalRiskScore),
+      globalConfidence,
+      failedModules,
+      isPartial: failedModules.length > 0 && results.length > failedModules.length,
+      trendAlerts: evaluateTrendAlerts(isCanonicalHealthData(healthData) ? healthData.trends : undefined)
+    };
+  }
+
+  /**
+   * Analyze patient form input against the patient's timeline and publish
+   * the results to the app store. Returns null when the analysis failed,
+   * with the reason added to the store's errors, or was superseded by a
+   * newer one.
+   */
+  async analyzePatient(input: PatientFormInput): Promise<AnalysisOutcome | null> {
+    const store = useAppStore.getState();
+    this.patientAnalysis?.abort();
+    const controller = new AbortController();
+    this.patientAnalysis = controller;
+
+    store.setIsAnalyzing(true);
+    store.setAnalysisResult(null);
+    store.setAnalysisProgress(null);
+    store.setRiskProjection(null);
+
+    try {
+      await this.ensureInitialized();
+
+      const { patientId, snapshot, healthData } = this.withPatientTrends(input);
+      // Intervals are opt-in: sampling re-runs every module many times
+      const uncertainty = this.uncertaintyIntervals || store.settings.uncertaintyIntervals;
+      let results: PredictionResult[] = [];
+
+      for await (const update of this.engine.analyzeHealthStream(healthData, {
+        signal: controller.signal,
+        tenantId: patientId,
+        uncertainty
+      })) {
+        store.setAnalysisProgress(update);
+        results = update.results;
+      }
+
+      const outcome = this.toOutcome(healthData, results);
+      store.setAnalysisResult(outcome.results);
+      store.addToHistory({
+        patientId,
+        patientData: input,
+        healthData: snapshot,
+        results: outcome.results,
+        globalRiskScore: outcome.globalRiskScore,
+        bundle: this.engine.createAnalysisBundle(healthData, outcome.results, undefined, uncertainty)
+      });
+      store.updatePerformanceMetrics({
+        averageResponseTime: this.engine.getMetrics().averageProcessingTime
+      });
+
+      for (const result of outcome.results.filter(r => r.error)) {
+        store.addError({
+          type: 'analysis',
+          message: `${result.moduleId} analysis failed: ${result.error}`,
+          details: { moduleId: result.moduleId }
+        });
+      }
+
+      return outcome;
+    } catch (error) {
+      if (isAnalysisCancelled(error)) {
+        return null;
+      }
+
+      if (error instanceof HealthDataValidationError) {
+        store.addError({
+          type: 'validation',
+          message: error.message,
+          details: error.report
+        });
+      } else {
+        store.addError({
+          type: 'analysis',
+          message: (error as Error).message
+        });
+      }
+      return null;
+    } finally {
+      // A superseding analysis keeps the analyzing flag set
+      if (this.patientAnalysis === controller) {
+        this.patientAnalysis = null;
+        store.setIsAnalyzing(false);
+        store.setAnalysisProgress(null);
+      }
+    }
+  }
+
+  /**
+   * Project the patient's organ risks forward, optionally alongside an
+   * intervention scenario, and publish the projection to the app store so
+   * it is included in the analysis report
+   */
+  async projectRisk(
+    input: PatientFormInput,
+    interventions: Intervention[] = [],
+    options: AnalyzeHealthOptions = {}
+  ): Promise<RiskProjection> {
+    await this.ensureInitialized();
+
+    const projection = await this.projector.project(this.withPatientTrends(input).healthData, { interventions }, options);
+    if (!options.signal?.aborted) useAppStore.getState().setRiskProjection(projection);
+    return projection;
+  }
+
+  /**
+   * Run a what-if scenario against the patient's profile, with the trends
+   * of their timeline as in the analysis it is compared to
+   */
+  async simulateScenario(
+    input: PatientFormInput,
+    interventions: Intervention[],
+    options: AnalyzeHealthOptions = {}
+  ): Promise<ScenarioResult> {
+    await this.ensureInitialized();
+    return this.simulator.simulate(this.withPatientTrends(input).healthData, interventions, options);
+  }
+
+  /**
+   * Re-execute the analysis recorded in a bundle and report any difference
+   * from its stored results
+   */
+  replay(bundle: AnalysisBundle): Promise<ReplayReport> {
+    return replayAnalysisBundle(bundle, ORGAN_MODULE_FACTORIES);
+  }
+
+  /**
+   * Normalize form input and attach the trends of the patient's timeline
+   */
+  private withPatientTrends(input: PatientFormInput): {
+    patientId?: string;
+    snapshot: CanonicalHealthData;
+    healthData: CanonicalHealthData;
+  } {
+    const patientId = toPatientId(input);
+    const snapshot = normalizeHealthData(input);
+    if (!patientId) return { snapshot, healthData: snapshot };
+
+    const timeline = PatientTimeline.fromHistory(useAppStore.getState().analysisHistory, patientId);
+    return { patientId, snapshot, healthData: timeline.withTrends(snapshot) };
+  }
+
+  /**
+   * Run a candidate version of a registered module alongside its primary
+   * version; its results are only compared, never published
+   */
+  registerShadowModule(module: OrganModule): void {
+    this.engine.registerModule(module, { role: 'shadow' });
+  }
+
+  /**
+   * Whether any module has a shadow version registered
+   */
+  hasShadowModules(): boolean {
+    return this.engine.getModuleVersions().some(version => version.role === 'shadow');
+  }
+
+  getEngine(): DigitalTwinEngine {
+    return this.engine;
+  }
+}
+
+let sharedService: AnalysisService | null = null;
+
+/**
+ * Get the application-wide analysis service
+ */
+export function getAnalysisService(): AnalysisService {
+  if (!sharedService) {
+    // Organ analyses run in Web Workers so they do not stall the 3D organ models
+    // Shadow versions come from the module registry's `id@version` factories
+    sharedService = new AnalysisService(
+      {},
+      createOrganModules(),
+      supportsWebWorkers() ? createWebWorkerPool() : undefined,
+      createShadowModules()
+    );
+
+    if (supportsEncryptedIndexedDB()) {
+      sharedService.getEngine().setPersistentCache(new EncryptedIndexedDBCache());
+    }
+
+    const service = sharedService;
+    const publishShadowModules = () => useAppStore.getState().setHasShadowModules(service.hasShadowModules());
+    SHADOW_MODULE_EVENTS.forEach(event => service.getEngine().on(event, publishShadowModules));
+    publishShadowModules();
+  }
+  return sharedService;
+}
+
+export default AnalysisService;
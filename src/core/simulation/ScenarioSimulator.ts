@@ -0,0 +1,210 @@
+/**
+ * Scenario Simulator
+ * What-if analysis of interventions on modifiable risk factors
+ *
+ * Applies a set of interventions to a baseline health profile, runs both
+ * the baseline and the modified profile through the DigitalTwinEngine and
+ * reports the per-organ and global risk deltas. Interventions only ever
+ * improve a value (a blood pressure target above the current reading
+ * leaves it unchanged), so a scenario never describes a worse lifestyle.
+ */
+
+import { DigitalTwinEngine, AnalyzeHealthOptions } from '../engine/DigitalTwinEngine';
+import { aggregateRisk } from '../engine/AnalysisStream';
+import { PredictionResult } from '../types/core';
+import { CanonicalHealthData, ActivityLevel } from '../types/healthData';
+import { normalizeHealthData, HealthDataInput } from '../data/HealthDataNormalizer';
+import { PHYSIOLOGICAL_RANGES } from '../validation/physiologicalRanges';
+
+export type Intervention =
+  | { type: 'quitSmoking' }
+  | { type: 'lowerLdl'; amount: number } // mg/dL
+  | { type: 'loseWeight'; kg: number }
+  | { type: 'changeActivity'; level: ActivityLevel }
+  | { type: 'bloodPressureTarget'; systolic: number; diastolic: number }; // mmHg
+
+export interface OrganRiskDelta {
+  moduleId: string;
+  before: number;
+  after: number;
+  delta: number; // Negative values are risk reductions
+  riskLevelBefore: PredictionResult['riskLevel'];
+  riskLevelAfter: PredictionResult['riskLevel'];
+}
+
+export interface ScenarioResult {
+  interventions: Intervention[];
+  modifiedFields: string[];
+  baseline: PredictionResult[];
+  scenario: PredictionResult[];
+  organDeltas: OrganRiskDelta[];
+  globalRiskBefore: number;
+  globalRiskAfter: number;
+  globalDelta: number;
+}
+
+const ACTIVITY_ORDER: ActivityLevel[] = ['sedentary', 'light', 'moderate', 'active'];
+
+// Modifiable risk factor keywords and the intervention that addresses them
+const INTERVENTION_SUGGESTIONS: Array<[string[], Intervention]> = [
+  [['smok'], { type: 'quitSmoking' }],
+  [['cholesterol', 'ldl', 'lipid'], { type: 'lowerLdl', amount: 30 }],
+  [['obes', 'weight', 'bmi'], { type: 'loseWeight', kg: 5 }],
+  [['sedentary', 'physical activity', 'inactivity'], { type: 'changeActivity', level: 'moderate' }],
+  [['blood pressure', 'hypertension'], { type: 'bloodPressureTarget', systolic: 130, diastolic: 80 }]
+];
+
+function clampToPlausible(field: keyof typeof PHYSIOLOGICAL_RANGES, value: number): number {
+  const range = PHYSIOLOGICAL_RANGES[field];
+  return range ? Math.max(range.plausible[0], value) : value;
+}
+
+/**
+ * Apply interventions to a canonical health profile
+ */
+export function applyInterventions(
+  baseline: CanonicalHealthData,
+  interventions: Intervention[]
+): { data: CanonicalHealthData; modifiedFields: string[] } {
+  const data: CanonicalHealthData = { ...baseline };
+  const modified = new Set<string>();
+  const set = <K extends keyof CanonicalHealthData>(field: K, value: CanonicalHealthData[K]) => {
+    if (data[field] !== value) {
+      data[field] = value;
+      modified.add(field);
+    }
+  };
+
+  for (const intervention of interventions) {
+    switch (intervention.type) {
+      case 'quitSmoking':
+        if (data.smoking || data.smokingStatus === 'current') {
+          set('smoking', false);
+          set('smokingStatus', 'former');
+        }
+        break;
+
+      case 'lowerLdl':
+        if (data.ldlCholesterol !== undefined) {
+          set('ldlCholesterol', clampToPlausible('ldlCholesterol', data.ldlCholesterol - intervention.amount));
+        }
+        // LDL is part of total cholesterol, so lowering it lowers the total as well
+        if (data.totalCholesterol !== undefined) {
+          set('totalCholesterol', clampToPlausible('totalCholesterol', data.totalCholesterol - intervention.amount));
+        }
+        break;
+
+      case 'loseWeight':
+        if (data.weight !== undefined) {
+          const weight = clampToPlausible('weight', data.weight - intervention.kg);
+          set('weight', weight);
+          if (data.height) {
+            const heightM = data.height / 100;
+            set('bmi', Math.round((weight / (heightM * heightM)) * 10) / 10);
+          }
+        }
+        break;
+
+      case 'changeActivity': {
+        const current = ACTIVITY_ORDER.indexOf(data.physicalActivity ?? 'sedentary');
+        if (ACTIVITY_ORDER.indexOf(intervention.level) > current) {
+          set('physicalActivity', intervention.level);
+        }
+        break;
+      }
+
+      case 'bloodPressureTarget':
+        if (data.bloodPressureSystolic !== undefined && data.bloodPressureSystolic > intervention.systolic) {
+          set('bloodPressureSystolic', intervention.systolic);
+        }
+        if (data.bloodPressureDiastolic !== undefined && data.bloodPressureDiastolic > intervention.diastolic) {
+          set('bloodPressureDiastolic', intervention.diastolic);
+        }
+        break;
+    }
+  }
+
+  return { data, modifiedFields: Array.from(modified) };
+}
+
+/**
+ * Human-readable description of an intervention
+ */
+export function describeIntervention(intervention: Intervention): string {
+  switch (intervention.type) {
+    case 'quitSmoking': return 'Quit smoking';
+    case 'lowerLdl': return `Lower LDL by ${intervention.amount} mg/dL`;
+    case 'loseWeight': return `Lose ${intervention.kg} kg`;
+    case 'changeActivity': return `Increase activity to ${intervention.level}`;
+    case 'bloodPressureTarget': return `Blood pressure to ${intervention.systolic}/${intervention.diastolic} mmHg`;
+  }
+}
+
+/**
+ * Suggest interventions for the modifiable risk factors found by an analysis
+ */
+export function suggestInterventions(results: PredictionResult[]): Intervention[] {
+  const factorNames = results
+    .flatMap(result => result.riskFactors)
+    .filter(factor => factor.modifiable)
+    .map(factor => factor.name.toLowerCase());
+
+  return INTERVENTION_SUGGESTIONS
+    .filter(([keywords]) => factorNames.some(name => keywords.some(keyword => name.includes(keyword))))
+    .map(([, intervention]) => intervention);
+}
+
+export class ScenarioSimulator {
+  constructor(private engine: DigitalTwinEngine) {}
+
+  /**
+   * Compare the baseline profile with the profile after the interventions
+   */
+  async simulate(
+    baselineInput: HealthDataInput,
+    interventions: Intervention[],
+    options: AnalyzeHealthOptions = {}
+  ): Promise<ScenarioResult> {
+    const baselineData = normalizeHealthData(baselineInput);
+    const { data: scenarioData, modifiedFields } = applyInterventions(baselineData, interventions);
+
+    // Hypothetical profiles are not live data for shadow comparison
+    const analyzeOptions: AnalyzeHealthOptions = { shadow: false, ...options };
+    const baseline = await this.engine.analyzeHealth(baselineData, analyzeOptions);
+    const scenario = modifiedFields.length > 0
+      ? await this.engine.analyzeHealth(scenarioData, analyzeOptions)
+      : baseline;
+
+    const organDeltas: OrganRiskDelta[] = baseline
+      .filter(before => !before.error)
+      .flatMap(before => {
+        const after = scenario.find(r => r.moduleId === before.moduleId);
+        if (!after || after.error) return [];
+
+        return [{
+          moduleId: before.moduleId,
+          before: before.riskScore,
+          after: after.riskScore,
+          delta: after.riskScore - before.riskScore,
+          riskLevelBefore: before.riskLevel,
+          riskLevelAfter: after.riskLevel
+        }];
+      });
+
+    const globalRiskBefore = Math.round(aggregateRisk(baseline).globalRiskScore);
+    const globalRiskAfter = Math.round(aggregateRisk(scenario).globalRiskScore);
+
+    return {
+      interventions,
+      modifiedFields,
+      baseline,
+      scenario,
+      organDeltas,
+      globalRiskBefore,
+      globalRiskAfter,
+      globalDelta: globalRiskAfter - globalRiskBefore
+    };
+  }
+}
+
+export default ScenarioSimulator;
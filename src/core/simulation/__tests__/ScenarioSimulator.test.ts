@@ -0,0 +1,54 @@
+/**
+ * Scenario Simulator Tests
+ * Unit tests for intervention application and what-if risk deltas
+ */
+
+import { applyInterventions } from '../ScenarioSimulator';
+import { normalizeHealthData } from '../../data/HealthDataNormalizer';
+import { AnalysisService } from '../../services/AnalysisService';
+
+describe('ScenarioSimulator', () => {
+  const baseline = {
+    name: 'Test Patient',
+    age: 58,
+    sex: 'male' as const,
+    weight: 98,
+    height: 178,
+    systolicBP: 152,
+    diastolicBP: 94,
+    totalCholesterol: 245,
+    hdlCholesterol: 38,
+    glucose: 110,
+    smokingStatus: 'current' as const
+  };
+
+  test('should only ever improve modifiable values', () => {
+    const data = normalizeHealthData(baseline);
+    const { data: modified, modifiedFields } = applyInterventions(data, [
+      { type: 'quitSmoking' },
+      { type: 'loseWeight', kg: 8 },
+      { type: 'bloodPressureTarget', systolic: 160, diastolic: 80 }
+    ]);
+
+    expect(modified.smoking).toBe(false);
+    expect(modified.weight).toBe(90);
+    expect(modified.bmi).toBeLessThan(data.bmi!);
+    expect(modified.bloodPressureSystolic).toBe(152);
+    expect(modified.bloodPressureDiastolic).toBe(80);
+    expect(modifiedFields).not.toContain('bloodPressureSystolic');
+  });
+
+  test('should report lower cardiovascular risk after interventions', async () => {
+    const service = new AnalysisService();
+
+    const result = await service.simulateScenario(baseline, [
+      { type: 'quitSmoking' },
+      { type: 'bloodPressureTarget', systolic: 125, diastolic: 80 }
+    ]);
+    const cardiovascular = result.organDeltas.find(d => d.moduleId === 'cardiovascular');
+
+    expect(cardiovascular).toBeDefined();
+    expect(cardiovascular!.delta).toBeLessThan(0);
+    expect(result.globalDelta).toBeLessThanOrEqual(0);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Patient Timeline
+ * Longitudinal view of a patient's digital twin
+ *
+ * Accumulates canonical health data snapshots ordered by measurement date
+ * and fits a least-squares slope per biomarker, so the organ modules can
+ * weigh the trajectory of a value and not only its latest reading. At most
+ * one snapshot is kept per calendar day (the most recently added one), and
+ * trends are only reported once measurements span at least a month.
+ */
+
+import { CanonicalHealthData, HealthTrends, TrendMetric, PatientFormInput } from '../types/healthData';
+import type { AnalysisHistoryEntry } from '../StateManager';
+import { calculateGFR } from '../data/kidneyFunction';
+import { TrendAlert, evaluateTrendAlerts } from './trendRules';
+
+export interface TimelinePoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface BiomarkerTrend {
+  metric: TrendMetric;
+  points: TimelinePoint[];
+  slopePerYear: number; // Canonical units per year
+  first: number;
+  latest: number;
+  spanDays: number;
+  direction: 'rising' | 'falling' | 'stable';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+const MIN_TREND_SPAN_DAYS = 30;
+
+// Slopes below this fraction of the mean value per year are reported as stable
+const STABLE_FRACTION_PER_YEAR = 0.02;
+
+const TRACKED_METRICS: TrendMetric[] = [
+  'egfr',
+  'creatinine',
+  'hba1c',
+  'glucose',
+  'bloodPressureSystolic',
+  'bloodPressureDiastolic',
+  'totalCholesterol',
+  'ldlCholesterol',
+  'hdlCholesterol',
+  'triglycerides',
+  'weight',
+  'bmi',
+  'alt',
+  'ast',
+  'crp',
+  'vitaminD',
+  'boneDensity',
+  'restingHeartRate'
+];
+
+/**
+ * The id a patient's timeline is kept under. Input without an identifier
+ * has none: a name does not tell two patients apart.
+ */
+export function toPatientId(input: Pick<PatientFormInput, 'patientId'>): string | undefined {
+  const patientId = input.patientId?.trim();
+  return patientId ? patientId : undefined;
+}
+
+function metricValue(data: CanonicalHealthData, metric: TrendMetric): number | undefined {
+  if (metric === 'egfr') return calculateGFR(data);
+
+  const value = data[metric];
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Least-squares slope of the points in units per year
+ */
+export function calculateSlopePerYear(points: TimelinePoint[]): number {
+  const n = points.length;
+  if (n < 2) return 0;
+
+  const t0 = points[0].timestamp;
+  const xs = points.map(p => (p.timestamp - t0) / YEAR_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / n;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (points[i].value - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+
+  return variance > 0 ? covariance / variance : 0;
+}
+
+export class PatientTimeline {
+  private snapshots: CanonicalHealthData[] = [];
+
+  constructor(readonly patientId: string, snapshots: CanonicalHealthData[] = []) {
+    for (const snapshot of snapshots) {
+      this.addSnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Rebuild a patient's timeline from the analysis history
+   */
+  static fromHistory(history: AnalysisHistoryEntry[], patientId: string): PatientTimeline {
+    const snapshots = history
+      .filter(entry => entry.patientId === patientId && entry.healthData)
+      .sort((a, b) => a.timestamp - b.timestamp) // Later analyses replace earlier ones for the same day
+      .map(entry => entry.healthData!);
+
+    return new PatientTimeline(patientId, snapshots);
+  }
+
+  /**
+   * Add a snapshot, replacing any snapshot measured on the same day
+   */
+  addSnapshot(data: CanonicalHealthData): void {
+    const { trends: _trends, ...snapshot } = data;
+    const day = Math.floor(snapshot.timestamp / DAY_MS);
+
+    this.snapshots = this.snapshots
+      .filter(existing => Math.floor(existing.timestamp / DAY_MS) !== day)
+      .concat(snapshot)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  getSnapshots(): CanonicalHealthData[] {
+    return [...this.snapshots];
+  }
+
+  getLatestSnapshot(): CanonicalHealthData | null {
+    return this.snapshots[this.snapshots.length - 1] ?? null;
+  }
+
+  /**
+   * Trend of one biomarker, or null when there are too few measurements
+   */
+  getTrend(metric: TrendMetric): BiomarkerTrend | null {
+    const points = this.snapshots.flatMap(snapshot => {
+      const value = metricValue(snapshot, metric);
+      return value !== undefined ? [{ timestamp: snapshot.timestamp, value }] : [];
+    });
+    if (points.length < 2) return null;
+
+    const spanDays = (points[points.length - 1].timestamp - points[0].timestamp) / DAY_MS;
+    if (spanDays < MIN_TREND_SPAN_DAYS) return null;
+
+    const slopePerYear = calculateSlopePerYear(points);
+    const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+    const direction = Math.abs(slopePerYear) < Math.abs(meanValue) * STABLE_FRACTION_PER_YEAR
+      ? 'stable'
+      : slopePerYear > 0 ? 'rising' : 'falling';
+
+    return {
+      metric,
+      points,
+      slopePerYear,
+      first: points[0].value,
+      latest: points[points.length - 1].value,
+      spanDays: Math.round(spanDays),
+      direction
+    };
+  }
+
+  getTrends(): BiomarkerTrend[] {
+    return TRACKED_METRICS
+      .map(metric => this.getTrend(metric))
+      .filter((trend): trend is BiomarkerTrend => trend !== null);
+  }
+
+  /**
+   * Slopes per biomarker in the shape the organ modules read from `trends`
+   */
+  getTrendFeatures(): HealthTrends {
+    return Object.fromEntries(this.getTrends().map(trend => [trend.metric, trend.slopePerYear]));
+  }
+
+  getAlerts(): TrendAlert[] {
+    return evaluateTrendAlerts(this.getTrendFeatures());
+  }
+
+  /**
+   * Attach the trends up to and including this snapshot to the data,
+   * without adding the snapshot to the timeline
+   */
+  withTrends(data: CanonicalHealthData): CanonicalHealthData {
+    const timeline = new PatientTimeline(
+      this.patientId,
+      [...this.snapshots.filter(snapshot => snapshot.timestamp <= data.timestamp), data]
+    );
+    const trends = timeline.getTrendFeatures();
+
+    return Object.keys(trends).length > 0 ? { ...data, trends } : data;
+  }
+}
+
+export default PatientTimeline;
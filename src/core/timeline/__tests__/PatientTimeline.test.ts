@@ -0,0 +1,69 @@
+/**
+ * Patient Timeline Tests
+ * Unit tests for biomarker trends, trend alerts and trend features
+ */
+
+import { PatientTimeline, calculateSlopePerYear, toPatientId } from '../PatientTimeline';
+import { hasAlarmingTrend } from '../trendRules';
+import { normalizeHealthData } from '../../data/HealthDataNormalizer';
+import type { AnalysisHistoryEntry } from '../../StateManager';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+const visit = (yearsAgo: number, creatinine: number, systolicBP: number) => normalizeHealthData({
+  name: 'Test Patient',
+  measuredAt: NOW - yearsAgo * YEAR_MS,
+  age: 60 - yearsAgo,
+  sex: 'female',
+  systolicBP,
+  diastolicBP: 85,
+  creatinine
+});
+
+describe('PatientTimeline', () => {
+  test('should fit a least-squares slope per year', () => {
+    const slope = calculateSlopePerYear([
+      { timestamp: NOW - 2 * YEAR_MS, value: 120 },
+      { timestamp: NOW - YEAR_MS, value: 126 },
+      { timestamp: NOW, value: 132 }
+    ]);
+
+    expect(slope).toBeCloseTo(6);
+  });
+
+  test('should keep one snapshot per day and require a month of data for trends', () => {
+    const timeline = new PatientTimeline('test patient', [visit(0, 1.0, 120), visit(0, 1.1, 125)]);
+
+    expect(timeline.getSnapshots()).toHaveLength(1);
+    expect(timeline.getSnapshots()[0].creatinine).toBe(1.1);
+    expect(timeline.getTrends()).toHaveLength(0);
+  });
+
+  test('should only link visits recorded under the same patient id', () => {
+    const entry = (id: string, patientId?: string): AnalysisHistoryEntry => ({
+      id,
+      timestamp: NOW,
+      patientId,
+      patientData: { name: 'Test Patient', age: 60, sex: 'female' },
+      healthData: visit(0, 1.0, 120),
+      results: [],
+      globalRiskScore: 0
+    });
+    const history = [entry('1', 'MRN-1'), entry('2', 'MRN-2'), entry('3')];
+
+    expect(toPatientId({ patientId: ' MRN-1 ' })).toBe('MRN-1');
+    expect(toPatientId({ patientId: '  ' })).toBeUndefined();
+    expect(PatientTimeline.fromHistory(history, 'MRN-1').getSnapshots()).toHaveLength(1);
+  });
+
+  test('should flag rapid eGFR decline and rising blood pressure', () => {
+    const timeline = new PatientTimeline('test patient', [visit(2, 0.9, 125), visit(1, 1.1, 132)]);
+    const current = timeline.withTrends(visit(0, 1.35, 140));
+
+    expect(current.trends?.egfr).toBeLessThan(-5);
+    expect(hasAlarmingTrend(current.trends, 'egfr')).toBe(true);
+    expect(hasAlarmingTrend(current.trends, 'bloodPressureSystolic')).toBe(true);
+    expect(timeline.getSnapshots()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Trend Alert Rules
+ *
+ * Rates of change that are clinically significant on their own, regardless
+ * of whether the latest value is still in range (e.g. KDIGO defines an eGFR
+ * decline of more than 5 mL/min/1.73m² per year as rapid progression).
+ * Thresholds are in canonical units per year and are shared by the timeline
+ * alerts and the organ modules, so both flag the same trajectories.
+ */
+
+import { HealthTrends, TrendMetric } from '../types/healthData';
+
+export interface TrendAlertRule {
+  metric: TrendMetric;
+  direction: 'rising' | 'falling';
+  threshold: number; // Absolute rate of change per year
+  unit: string;
+  label: string;
+  severity: 'moderate' | 'high';
+}
+
+export interface TrendAlert {
+  metric: TrendMetric;
+  label: string;
+  severity: TrendAlertRule['severity'];
+  slopePerYear: number;
+  threshold: number;
+  message: string;
+}
+
+export const TREND_ALERT_RULES: TrendAlertRule[] = [
+  { metric: 'egfr', direction: 'falling', threshold: 5, unit: 'mL/min/1.73m²', label: 'Rapid eGFR decline', severity: 'high' },
+  { metric: 'creatinine', direction: 'rising', threshold: 0.3, unit: 'mg/dL', label: 'Rising creatinine', severity: 'moderate' },
+  { metric: 'hba1c', direction: 'rising', threshold: 0.3, unit: '%', label: 'Rising HbA1c', severity: 'moderate' },
+  { metric: 'glucose', direction: 'rising', threshold: 10, unit: 'mg/dL', label: 'Rising fasting glucose', severity: 'moderate' },
+  { metric: 'bloodPressureSystolic', direction: 'rising', threshold: 5, unit: 'mmHg', label: 'Rising systolic blood pressure', severity: 'moderate' },
+  { metric: 'ldlCholesterol', direction: 'rising', threshold: 15, unit: 'mg/dL', label: 'Rising LDL cholesterol', severity: 'moderate' },
+  { metric: 'totalCholesterol', direction: 'rising', threshold: 20, unit: 'mg/dL', label: 'Rising total cholesterol', severity: 'moderate' },
+  { metric: 'weight', direction: 'rising', threshold: 5, unit: 'kg', label: 'Rapid weight gain', severity: 'moderate' },
+  { metric: 'alt', direction: 'rising', threshold: 10, unit: 'U/L', label: 'Rising ALT', severity: 'moderate' },
+  { metric: 'boneDensity', direction: 'falling', threshold: 0.1, unit: 'T-score', label: 'Declining bone density', severity: 'moderate' }
+];
+
+/**
+ * Check whether a trend crosses its alert threshold in the rule's direction
+ */
+export function matchesTrendRule(rule: TrendAlertRule, slopePerYear: number): boolean {
+  return rule.direction === 'rising' ? slopePerYear > rule.threshold : slopePerYear < -rule.threshold;
+}
+
+/**
+ * Check whether the given metric's trend is alarming.
+ * Returns false when the metric has no trend or no alert rule.
+ */
+export function hasAlarmingTrend(trends: HealthTrends | undefined, metric: TrendMetric): boolean {
+  const slope = trends?.[metric];
+  if (slope === undefined) return false;
+
+  return TREND_ALERT_RULES.some(rule => rule.metric === metric && matchesTrendRule(rule, slope));
+}
+
+/**
+ * Raise an alert for every trend that crosses its rule's threshold
+ */
+export function evaluateTrendAlerts(trends: HealthTrends | undefined): TrendAlert[] {
+  if (!trends) return [];
+
+  return TREND_ALERT_RULES.flatMap(rule => {
+    const slope = trends[rule.metric];
+    if (slope === undefined || !matchesTrendRule(rule, slope)) return [];
+
+    const rate = `${slope > 0 ? '+' : ''}${Math.round(slope * 100) / 100}`;
+    return [{
+      metric: rule.metric,
+      label: rule.label,
+      severity: rule.severity,
+      slopePerYear: slope,
+      threshold: rule.threshold,
+      message: `${rule.label}: ${rate} ${rule.unit} per year (alert threshold ${rule.threshold} ${rule.unit} per year)`
+    }];
+  });
+}
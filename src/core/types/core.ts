@@ -2,6 +2,15 @@
  * Core Types for BioTwin360 Digital Twin Engine
  */
 
+import { CanonicalHealthData } from './healthData';
+import type { ValidationReport } from '../validation/HealthDataValidator';
+import type { PerformanceMetrics as EngineMetrics, ModuleRole } from '../engine/DigitalTwinEngine';
+import type { ShadowComparison } from '../engine/ShadowComparison';
+import type { AnalysisPriority } from '../engine/AnalysisScheduler';
+import type { BatchProgress } from '../cohort/BatchAnalysis';
+import type { ModuleTransition } from '../engine/ModuleLifecycle';
+import type { CircuitState, CircuitBreakerStatus } from '../engine/CircuitBreaker';
+
 export interface HealthData {
   // Basic Demographics
   age: number;
@@ -90,19 +99,69 @@ export interface PredictionResult {
   timestamp: number;
   processingTime: number;
   error?: string;
+  skipped?: ModuleSkipReason; // The engine did not run the module; error says why
+  
+  // Which inputs the estimate is based on
+  dataCompleteness?: DataCompleteness;
+  
+  // Monte Carlo risk score interval, when uncertainty estimation is enabled
+  uncertainty?: RiskInterval;
+
+  // How each rule of the module's algorithm built up the risk score
+  contributions?: RiskContribution[];
   
   // Module-specific data
   organSpecificData?: Record<string, any>;
 }
 
+// Lifecycle or circuit breaker state that keeps a module out of analyses
+export type ModuleSkipReason = 'degraded' | 'failed' | 'circuit-open';
+
+export interface RiskContribution {
+  ruleId: string; // Namespaced by module, e.g. 'renal.reduced_kidney_function'
+  label: string;
+  points: number; // Points added (negative when subtracted); all points sum to the risk score
+  inputs: Record<string, number | string | boolean>; // Input values the rule evaluated
+  source?: string; // Guideline or study the rule is based on
+}
+
+export interface RiskInterval {
+  p5: number;
+  p50: number;
+  p95: number;
+  samples: number; // Successful perturbed analyses
+  imputedFields: string[]; // Fields sampled from population priors
+}
+
+export interface DataCompleteness {
+  score: number; // 0-1, importance-weighted share of inputs provided
+  qualityScore: number; // 0-1, share of provided inputs within plausible ranges
+  used: string[];
+  missing: string[];
+  defaulted: DefaultedInput[];
+  missingEssential: string[]; // Inputs the estimate is incomplete without; confidence is capped
+  suggestedTests: SuggestedTest[]; // Sorted by confidence gain, highest first
+}
+
+export interface DefaultedInput {
+  field: string;
+  assumption: string;
+}
+
+export interface SuggestedTest {
+  test: string;
+  fields: string[];
+  confidenceGain: number; // Absolute increase in confidence (0-1)
+}
+
 export interface OrganModule {
   id: string;
   name: string;
   version: string;
   description: string;
   
-  // Core analysis function
-  analyze(healthData: HealthData): Promise<PredictionResult>;
+  // Core analysis function, always called with normalized data
+  analyze(healthData: CanonicalHealthData, options?: AnalyzeOptions): Promise<PredictionResult>;
   
   // Module lifecycle
   initialize(): Promise<void>;
@@ -115,6 +174,20 @@ export interface OrganModule {
   // Health checks
   isHealthy(): boolean;
   getStatus(): ModuleStatus;
+
+  // Structured-clone-safe description from which a worker can recreate the module
+  describe?(): ModuleDescriptor;
+}
+
+export interface ModuleDescriptor {
+  id: string; // Key in the organ module registry
+  version: string;
+  config: Record<string, any>;
+}
+
+export interface AnalyzeOptions {
+  // Aborted when the analysis is cancelled or the module times out
+  signal?: AbortSignal;
 }
 
 export interface ModuleStatus {
@@ -224,18 +297,40 @@ export interface GlobalConfig {
 export type EngineEvent = 
   | 'moduleRegistered'
   | 'moduleUnregistered'
+  | 'validationCompleted'
   | 'analysisStarted'
   | 'analysisComplete'
+  | 'analysisError'
+  | 'analysisCancelled'
   | 'moduleAnalysisComplete'
   | 'moduleAnalysisError'
+  | 'moduleStateChanged'
+  | 'moduleSkipped'
+  | 'moduleCleanupError'
+  | 'moduleRetry'
+  | 'circuitStateChanged'
+  | 'shadowComparison'
+  | 'shadowError'
+  | 'modulePromoted'
   | 'configUpdated'
   | 'engineReset'
   | 'performanceAlert'
-  | 'memoryWarning';
+  | 'memoryWarning'
+  | 'metricsUpdated'
+  | 'cacheHit'
+  | 'cacheSet'
+  | 'cacheError'
+  | 'cacheCleanup'
+  | 'cacheCleared'
+  | 'queueFull'
+  | 'batchStarted'
+  | 'batchProgress'
+  | 'batchComplete';
 
 export interface EngineEventData {
-  moduleRegistered: { moduleId: string; module: OrganModule };
-  moduleUnregistered: { moduleId: string };
+  moduleRegistered: { moduleId: string; module: OrganModule; role?: ModuleRole };
+  moduleUnregistered: { moduleId: string; version?: string; role?: ModuleRole }; // Version and role are set for shadows
+  validationCompleted: { report: ValidationReport };
   analysisStarted: { timestamp: number };
   analysisComplete: { 
     results: PredictionResult[]; 
@@ -243,6 +338,16 @@ export interface EngineEventData {
     globalConfidence: number; 
     timestamp: number 
   };
+  analysisError: {
+    error: string;
+    timestamp: number;
+    processingTime: number;
+  };
+  analysisCancelled: {
+    analysisId: string;
+    stage: 'queued' | 'running'; // Removed from the queue, or stopped while running
+    timestamp: number;
+  };
   moduleAnalysisComplete: { 
     moduleId: string; 
     duration: number; 
@@ -253,16 +358,63 @@ export interface EngineEventData {
     error: string; 
     duration: number 
   };
+  moduleStateChanged: ModuleTransition & { timestamp: number };
+  moduleSkipped: {
+    moduleId: string;
+    reason: ModuleSkipReason;
+    error: string | null;
+  };
+  moduleCleanupError: { moduleId: string; error: string };
+  moduleRetry: { moduleId: string; attempt: number; error: string };
+  shadowComparison: ShadowComparison & { timestamp: number };
+  shadowError: { moduleId: string; version: string; error: string };
+  modulePromoted: {
+    moduleId: string;
+    version: string;
+    previousVersion: string; // Kept as a shadow version
+    timestamp: number;
+  };
+  circuitStateChanged: CircuitBreakerStatus & {
+    moduleId: string;
+    from: CircuitState;
+    to: CircuitState;
+    timestamp: number;
+  };
   configUpdated: { config: any };
   engineReset: { timestamp: number };
   performanceAlert: { 
     metric: string; 
     value: number; 
-    threshold: number 
+    threshold: number;
+    moduleId?: string; // Set for per-module alerts such as an opened circuit breaker
+    retryAt?: number | null; // When an opened circuit breaker half-opens
+    lastError?: string | null;
   };
   memoryWarning: { 
     usage: number; 
     limit: number 
   };
+  metricsUpdated: { metrics: EngineMetrics };
+  cacheHit: { cacheKey: string; tier: 'memory' | 'persistent' };
+  cacheSet: { cacheKey: string; dataSize: number };
+  cacheError: { cacheKey: string; operation: 'get' | 'set'; error: string }; // Persistent tier failures
+  cacheCleanup: { cleanedEntries: number; remainingEntries: number };
+  cacheCleared: { previousSize: number };
+  queueFull: {
+    analysisId: string;
+    tenantId: string;
+    priority: AnalysisPriority;
+    limit: 'queue' | 'tenant'; // Which depth limit refused the analysis
+  };
+  batchStarted: { batchId: string; total: number; timestamp: number };
+  batchProgress: BatchProgress;
+  batchComplete: {
+    batchId: string;
+    total: number;
+    completed: number;
+    succeeded: number;
+    failed: number;
+    processingTime: number;
+  };
 }
 
@@ -0,0 +1,170 @@
+/**
+ * Canonical Health Data Schema for BioTwin360
+ *
+ * This is the single input shape consumed by every organ module. All
+ * external representations (core HealthData, legacy PatientData, the app
+ * form) are mapped onto it by the HealthDataNormalizer before analysis.
+ *
+ * Quantities are always stored in the canonical unit noted next to each
+ * field (see units/unitRegistry); `sourceUnits` records the unit a value
+ * was originally entered in when it differed. `timestamp` is the date the
+ * measurements were taken, which orders snapshots on a patient timeline.
+ */
+
+import type { UnitCode } from '../units/unitRegistry';
+import type { QuantityInput } from '../units/UnitConverter';
+
+export const HEALTH_DATA_SCHEMA_VERSION = '2.0.0';
+
+export type Sex = 'male' | 'female' | 'other';
+export type LifestyleLevel = 'none' | 'light' | 'moderate' | 'heavy';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active';
+export type QualitativeLevel = 'low' | 'moderate' | 'high';
+
+export interface CanonicalHealthData {
+  schemaVersion: string;
+  timestamp: number;
+  sourceUnits?: Partial<Record<CanonicalField, UnitCode>>;
+  trends?: HealthTrends; // Rates of change from earlier snapshots of the same patient
+
+  // Demographics
+  age: number;
+  sex: Sex;
+  ethnicity?: string;
+  education?: 'low' | 'medium' | 'high';
+  height?: number; // cm
+  weight?: number; // kg
+  bmi?: number; // kg/m²
+
+  // Vital signs
+  bloodPressureSystolic?: number; // mmHg
+  bloodPressureDiastolic?: number; // mmHg
+  heartRate?: number; // bpm
+  restingHeartRate?: number; // bpm
+  temperature?: number; // °C
+
+  // Lipids and glucose metabolism
+  totalCholesterol?: number; // mg/dL
+  ldlCholesterol?: number; // mg/dL
+  hdlCholesterol?: number; // mg/dL
+  triglycerides?: number; // mg/dL
+  glucose?: number; // mg/dL, fasting
+  hba1c?: number; // %
+
+  // Renal function
+  creatinine?: number; // mg/dL
+  bun?: number; // mg/dL
+  proteinuria?: number; // mg/day
+
+  // Hepatic function
+  alt?: number; // U/L
+  ast?: number; // U/L
+  totalBilirubin?: number; // mg/dL
+  albumin?: number; // g/dL
+  alkalinePhosphatase?: number; // U/L
+  ggt?: number; // U/L
+  inr?: number;
+  platelets?: number; // 10³/µL
+  hepatitisBSurface?: boolean;
+  hepatitisCRNA?: boolean;
+
+  // Inflammation
+  crp?: number; // mg/L
+  esr?: number; // mm/h
+  il6?: number; // pg/mL
+
+  // Bone and nutrition
+  vitaminD?: number; // ng/mL
+  calciumIntake?: number; // mg/day
+  proteinIntake?: number; // g/kg/day
+  boneDensity?: number; // T-score
+
+  // Lifestyle
+  smoking?: boolean; // Current smoker
+  smokingStatus?: 'never' | 'former' | 'current';
+  smokingPackYears?: number;
+  alcohol?: LifestyleLevel;
+  alcoholUnitsPerWeek?: number;
+  physicalActivity?: ActivityLevel;
+  resistanceTraining?: boolean;
+  flexibilityExercises?: boolean;
+  sedentaryWork?: boolean;
+  dietQuality?: 'poor' | 'fair' | 'good' | 'excellent';
+  sleepHours?: number;
+  stress?: QualitativeLevel;
+  posture?: 'poor' | 'fair' | 'good' | 'excellent';
+  socialIsolation?: boolean;
+  airPollutionExposure?: boolean;
+  occupationalExposure?: string[];
+
+  // Medical history
+  familyHistory?: string[];
+  medications?: string[];
+  allergies?: string[];
+  chronicConditions?: string[];
+  diabetes?: boolean;
+  cardiovascularDisease?: boolean;
+  atrialFibrillation?: boolean;
+  chronicKidneyDisease?: boolean;
+  depression?: boolean;
+  anxiety?: boolean;
+  asthmaHistory?: boolean;
+  sleepApnea?: boolean;
+  respiratoryInfections?: number; // per year
+  menopause?: boolean;
+  osteoporosis?: boolean;
+  arthritis?: boolean;
+  previousFractures?: boolean;
+  corticosteroids?: boolean;
+  lowTestosterone?: boolean;
+  jointPain?: boolean;
+  chronicPain?: boolean;
+  fallRisk?: boolean;
+  headInjury?: boolean;
+
+  // Wearable data
+  steps?: number;
+  activeMinutes?: number;
+  vo2Max?: number;
+  hrv?: number;
+}
+
+export type CanonicalField = Exclude<keyof CanonicalHealthData, 'schemaVersion' | 'timestamp' | 'sourceUnits' | 'trends'>;
+
+// Canonical fields holding a yes/no flag, for setting flags by name
+export type FlagField = {
+  [K in CanonicalField]-?: NonNullable<CanonicalHealthData[K]> extends boolean ? K : never
+}[CanonicalField];
+
+// Canonical fields holding a measured or derived number
+export type NumericField = {
+  [K in CanonicalField]-?: NonNullable<CanonicalHealthData[K]> extends number ? K : never
+}[CanonicalField];
+
+// Biomarkers followed over time; eGFR is derived from creatinine, age and sex
+export type TrendMetric = CanonicalField | 'egfr';
+
+// Least-squares slope of each biomarker in canonical units per year
+export type HealthTrends = Partial<Record<TrendMetric, number>>;
+
+/**
+ * Shape submitted by the analysis form in App.tsx.
+ * Lab and body measurements may be given with an explicit unit.
+ */
+export interface PatientFormInput {
+  patientId?: string; // Identifier unique to the patient, e.g. a medical record number
+  name: string;
+  measuredAt?: number; // Date the measurements were taken (epoch ms), defaults to now
+  age: number;
+  sex: 'male' | 'female';
+  weight?: QuantityInput;
+  height?: QuantityInput;
+  systolicBP?: number;
+  diastolicBP?: number;
+  totalCholesterol?: QuantityInput;
+  hdlCholesterol?: QuantityInput;
+  glucose?: QuantityInput;
+  creatinine?: QuantityInput;
+  smokingStatus?: 'never' | 'former' | 'current';
+  activityLevel?: ActivityLevel;
+}
@@ -0,0 +1,161 @@
+/**
+ * Monte Carlo Uncertainty Estimator
+ * Risk score intervals from repeated analyses of perturbed inputs
+ *
+ * Each sample perturbs every measured value within its measurement error
+ * and, optionally, fills fields that were not provided from population
+ * priors. The module is re-run on every sample and the spread of the
+ * resulting risk scores is summarized as p5/p50/p95. Sampling is seeded
+ * from the input data, so identical inputs always yield identical intervals.
+ */
+
+import { OrganModule, RiskInterval } from '../types/core';
+import { CanonicalHealthData, CanonicalField, NumericField } from '../types/healthData';
+import { PHYSIOLOGICAL_RANGES } from '../validation/physiologicalRanges';
+import { MEASUREMENT_ERROR, POPULATION_PRIORS, MeasurementError, PopulationPrior } from './inputDistributions';
+import { throwIfAborted, isAnalysisCancelled } from '../engine/cancellation';
+
+export interface UncertaintyConfig {
+  enabled: boolean;
+  samples: number; // Perturbed analyses per module
+  imputeMissing: boolean; // Sample fields that were not provided from population priors
+  seed?: number; // Fixed seed; derived from the input data when omitted
+  seeds?: Record<string, number>; // Per-module seeds, e.g. pinned by an analysis replay
+}
+
+export const DEFAULT_UNCERTAINTY_CONFIG: UncertaintyConfig = {
+  enabled: false,
+  samples: 200,
+  imputeMissing: true
+};
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  // Box-Muller transform
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function hashString(value: string): number {
+  // FNV-1a
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function clampToRange(field: CanonicalField, value: number): number {
+  const range = PHYSIOLOGICAL_RANGES[field];
+  return range ? Math.min(range.absolute[1], Math.max(range.absolute[0], value)) : value;
+}
+
+/**
+ * Draw one perturbed copy of the health data
+ */
+export function sampleHealthData(
+  healthData: CanonicalHealthData,
+  random: () => number,
+  imputeMissing: boolean
+): { sample: CanonicalHealthData; imputedFields: string[] } {
+  const sample: CanonicalHealthData = { ...healthData };
+  const imputedFields: string[] = [];
+
+  for (const [field, error] of Object.entries(MEASUREMENT_ERROR) as Array<[NumericField, MeasurementError]>) {
+    const value = healthData[field];
+    if (typeof value !== 'number') continue;
+
+    const sd = error.sd ?? (error.cv ?? 0) * Math.abs(value);
+    sample[field] = clampToRange(field, value + gaussian(random) * sd);
+  }
+
+  if (imputeMissing) {
+    for (const [field, prior] of Object.entries(POPULATION_PRIORS) as Array<[NumericField, PopulationPrior]>) {
+      if (healthData[field] !== undefined) continue;
+
+      sample[field] = clampToRange(field, prior.mean + gaussian(random) * prior.sd);
+      imputedFields.push(field);
+    }
+  }
+
+  return { sample, imputedFields };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Seed the sampling of a module's interval draws from
+ */
+export function resolveSeed(moduleId: string, healthData: CanonicalHealthData, config: UncertaintyConfig): number {
+  return config.seeds?.[moduleId]
+    ?? config.seed
+    ?? hashString(`${moduleId}:${JSON.stringify(healthData, Object.keys(healthData).sort())}`);
+}
+
+/**
+ * Estimate the p5/p50/p95 risk score interval of a module.
+ * Returns null when no perturbed analysis succeeded.
+ */
+export async function estimateRiskInterval(
+  module: Pick<OrganModule, 'id' | 'analyze'>,
+  healthData: CanonicalHealthData,
+  config: UncertaintyConfig,
+  signal?: AbortSignal
+): Promise<RiskInterval | null> {
+  const random = createRandom(resolveSeed(module.id, healthData, config));
+  const scores: number[] = [];
+  let imputedFields: string[] = [];
+
+  for (let i = 0; i < config.samples; i++) {
+    throwIfAborted(signal);
+    const { sample, imputedFields: imputed } = sampleHealthData(healthData, random, config.imputeMissing);
+    imputedFields = imputed;
+
+    try {
+      const result = await module.analyze(sample, { signal });
+      scores.push(result.riskScore);
+    } catch (error) {
+      if (isAnalysisCancelled(error)) throw error;
+      // Samples the module cannot analyze do not contribute to the interval
+    }
+  }
+
+  if (scores.length === 0) return null;
+
+  scores.sort((a, b) => a - b);
+
+  return {
+    p5: Math.round(percentile(scores, 0.05)),
+    p50: Math.round(percentile(scores, 0.5)),
+    p95: Math.round(percentile(scores, 0.95)),
+    samples: scores.length,
+    imputedFields
+  };
+}
+
+/**
+ * Format a risk score with its interval, e.g. "42 (35–51)"
+ */
+export function formatRiskScore(riskScore: number, interval?: Pick<RiskInterval, 'p5' | 'p95'> | null): string {
+  return interval ? `${riskScore} (${interval.p5}–${interval.p95})` : String(riskScore);
+}
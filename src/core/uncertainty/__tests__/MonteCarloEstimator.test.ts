@@ -0,0 +1,46 @@
+/**
+ * Monte Carlo Estimator Tests
+ * Unit tests for input perturbation and risk interval estimation
+ */
+
+import { estimateRiskInterval, sampleHealthData, createRandom, formatRiskScore } from '../MonteCarloEstimator';
+import { normalizeHealthData } from '../../data/HealthDataNormalizer';
+import { RenalModule } from '../../../modules/renal';
+
+describe('MonteCarloEstimator', () => {
+  const healthData = normalizeHealthData({
+    name: 'Test Patient',
+    age: 62,
+    sex: 'male',
+    systolicBP: 150,
+    diastolicBP: 92,
+    glucose: 118,
+    creatinine: 1.3
+  });
+
+  test('should perturb measured values and impute missing ones', () => {
+    const { sample, imputedFields } = sampleHealthData(healthData, createRandom(1), true);
+
+    expect(sample.age).toBe(healthData.age);
+    expect(sample.glucose).not.toBe(healthData.glucose);
+    expect(imputedFields).toContain('proteinuria');
+    expect(imputedFields).not.toContain('creatinine');
+  });
+
+  test('should return ordered, reproducible percentiles', async () => {
+    const config = { enabled: true, samples: 100, imputeMissing: true };
+    const first = await estimateRiskInterval(new RenalModule(), healthData, config);
+    const second = await estimateRiskInterval(new RenalModule(), healthData, config);
+
+    expect(first).not.toBeNull();
+    expect(first!.p5).toBeLessThanOrEqual(first!.p50);
+    expect(first!.p50).toBeLessThanOrEqual(first!.p95);
+    expect(first!.samples).toBe(100);
+    expect(second).toEqual(first);
+  });
+
+  test('should format scores with their interval', () => {
+    expect(formatRiskScore(42, { p5: 35, p95: 51 })).toBe('42 (35–51)');
+    expect(formatRiskScore(42)).toBe('42');
+  });
+});
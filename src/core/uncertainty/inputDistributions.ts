@@ -0,0 +1,78 @@
+/**
+ * Input Distributions for Uncertainty Estimation
+ *
+ * MEASUREMENT_ERROR describes how much a measured value can differ from the
+ * patient's true value (combined analytical and within-subject biological
+ * variation), either as a coefficient of variation or an absolute SD.
+ * POPULATION_PRIORS describe adult reference populations and are used to
+ * sample values for fields that were not provided. All values are in
+ * canonical units.
+ */
+
+import { NumericField } from '../types/healthData';
+
+export interface MeasurementError {
+  cv?: number; // Coefficient of variation (fraction of the value)
+  sd?: number; // Absolute standard deviation
+}
+
+export interface PopulationPrior {
+  mean: number;
+  sd: number;
+}
+
+export const MEASUREMENT_ERROR: Partial<Record<NumericField, MeasurementError>> = {
+  height: { sd: 0.5 },
+  weight: { sd: 0.5 },
+  bmi: { cv: 0.02 },
+  bloodPressureSystolic: { sd: 6 },
+  bloodPressureDiastolic: { sd: 4 },
+  heartRate: { cv: 0.08 },
+  restingHeartRate: { cv: 0.08 },
+  totalCholesterol: { cv: 0.06 },
+  ldlCholesterol: { cv: 0.08 },
+  hdlCholesterol: { cv: 0.07 },
+  triglycerides: { cv: 0.2 },
+  glucose: { cv: 0.06 },
+  hba1c: { cv: 0.02 },
+  creatinine: { cv: 0.06 },
+  bun: { cv: 0.12 },
+  proteinuria: { cv: 0.3 },
+  alt: { cv: 0.19 },
+  ast: { cv: 0.12 },
+  totalBilirubin: { cv: 0.22 },
+  albumin: { cv: 0.03 },
+  alkalinePhosphatase: { cv: 0.06 },
+  ggt: { cv: 0.13 },
+  inr: { cv: 0.05 },
+  platelets: { cv: 0.09 },
+  crp: { cv: 0.42 },
+  vitaminD: { cv: 0.1 },
+  boneDensity: { sd: 0.15 }
+};
+
+export const POPULATION_PRIORS: Partial<Record<NumericField, PopulationPrior>> = {
+  bloodPressureSystolic: { mean: 125, sd: 17 },
+  bloodPressureDiastolic: { mean: 78, sd: 10 },
+  bmi: { mean: 27, sd: 5 },
+  totalCholesterol: { mean: 195, sd: 40 },
+  ldlCholesterol: { mean: 118, sd: 35 },
+  hdlCholesterol: { mean: 53, sd: 15 },
+  triglycerides: { mean: 130, sd: 70 },
+  glucose: { mean: 98, sd: 18 },
+  hba1c: { mean: 5.6, sd: 0.6 },
+  creatinine: { mean: 0.9, sd: 0.2 },
+  bun: { mean: 14, sd: 4 },
+  proteinuria: { mean: 20, sd: 15 },
+  alt: { mean: 25, sd: 12 },
+  ast: { mean: 24, sd: 9 },
+  totalBilirubin: { mean: 0.7, sd: 0.3 },
+  albumin: { mean: 4.3, sd: 0.3 },
+  alkalinePhosphatase: { mean: 75, sd: 20 },
+  ggt: { mean: 30, sd: 20 },
+  inr: { mean: 1.0, sd: 0.1 },
+  platelets: { mean: 250, sd: 60 },
+  crp: { mean: 2.5, sd: 2 },
+  vitaminD: { mean: 28, sd: 10 },
+  boneDensity: { mean: -0.5, sd: 1.1 }
+};
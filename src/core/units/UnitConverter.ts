@@ -0,0 +1,129 @@
+/**
+ * Unit Converter
+ * Converts quantities between input/display units and canonical units
+ *
+ * Inputs may give a quantity either as a bare number (assumed to already be
+ * in the canonical unit) or as a { value, unit } pair. Display helpers
+ * render canonical values in the unit preferred by the user's unit system.
+ */
+
+import type { CanonicalField } from '../types/healthData';
+import { QUANTITY_DEFINITIONS, UNIT_LABELS, UnitCode, UnitSystem, UnitConversion } from './unitRegistry';
+
+export interface Quantity {
+  value: number;
+  unit: UnitCode;
+}
+
+export type QuantityInput = number | Quantity;
+
+/**
+ * Thrown when a unit is not accepted for a field
+ */
+export class UnitConversionError extends Error {
+  readonly field: string;
+  readonly unit: string;
+
+  constructor(field: string, unit: string) {
+    super(`Unit "${unit}" is not supported for ${field}`);
+    this.name = 'UnitConversionError';
+    this.field = field;
+    this.unit = unit;
+  }
+}
+
+export function isQuantity(input: unknown): input is Quantity {
+  return typeof input === 'object' && input !== null &&
+    typeof (input as Quantity).value === 'number' && typeof (input as Quantity).unit === 'string';
+}
+
+function getConversion(field: CanonicalField, unit: UnitCode): UnitConversion {
+  const conversion = QUANTITY_DEFINITIONS[field]?.conversions[unit];
+  if (!conversion) {
+    throw new UnitConversionError(field, unit);
+  }
+  return conversion;
+}
+
+/**
+ * Get the canonical unit of a field, or undefined for unitless fields
+ */
+export function getCanonicalUnit(field: CanonicalField): UnitCode | undefined {
+  return QUANTITY_DEFINITIONS[field]?.canonical;
+}
+
+/**
+ * Get the unit a field should be entered and displayed in for a unit system
+ */
+export function getPreferredUnit(field: CanonicalField, system: UnitSystem): UnitCode | undefined {
+  return QUANTITY_DEFINITIONS[field]?.preferred[system];
+}
+
+/**
+ * Human readable label for a UCUM unit code
+ */
+export function getUnitLabel(unit: UnitCode | string): string {
+  return UNIT_LABELS[unit as UnitCode] ?? unit;
+}
+
+/**
+ * Convert a value expressed in `unit` into the canonical unit of the field
+ */
+export function toCanonicalUnit(field: CanonicalField, value: number, unit: UnitCode): number {
+  const conversion = getConversion(field, unit);
+  return value * conversion.factor + (conversion.offset ?? 0);
+}
+
+/**
+ * Convert a canonical value of the field into `unit`
+ */
+export function fromCanonicalUnit(field: CanonicalField, value: number, unit: UnitCode): number {
+  const conversion = getConversion(field, unit);
+  return (value - (conversion.offset ?? 0)) / conversion.factor;
+}
+
+/**
+ * Resolve a bare number or a quantity into the canonical unit of the field
+ */
+export function resolveQuantity(field: CanonicalField, input: QuantityInput | undefined): number | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (!isQuantity(input)) return input;
+  if (input.unit === getCanonicalUnit(field)) return input.value;
+
+  return toCanonicalUnit(field, input.value, input.unit);
+}
+
+/**
+ * Express a canonical value in the unit preferred by the unit system,
+ * rounded to the precision customary for that unit
+ */
+export function toDisplayQuantity(field: CanonicalField, value: number, system: UnitSystem): Quantity | null {
+  const definition = QUANTITY_DEFINITIONS[field];
+  if (!definition) return null;
+
+  const unit = definition.preferred[system];
+  const decimals = definition.decimals[unit] ?? 1;
+  const factor = Math.pow(10, decimals);
+
+  return {
+    value: Math.round(fromCanonicalUnit(field, value, unit) * factor) / factor,
+    unit
+  };
+}
+
+/**
+ * Format a canonical value for display, e.g. "5.5 mmol/L".
+ * `fallbackUnit` is appended for fields without conversions (e.g. mmHg).
+ */
+export function formatQuantity(
+  field: CanonicalField,
+  value: number,
+  system: UnitSystem,
+  fallbackUnit?: string
+): string {
+  const quantity = toDisplayQuantity(field, value, system);
+  if (!quantity) {
+    return fallbackUnit ? `${value} ${fallbackUnit}` : String(value);
+  }
+  return `${quantity.value} ${getUnitLabel(quantity.unit)}`;
+}
@@ -0,0 +1,54 @@
+/**
+ * Unit Converter Tests
+ * Unit tests for canonical unit conversion and display formatting
+ */
+
+import {
+  toCanonicalUnit,
+  fromCanonicalUnit,
+  resolveQuantity,
+  formatQuantity,
+  UnitConversionError
+} from '../UnitConverter';
+import { normalizeHealthData } from '../../data/HealthDataNormalizer';
+
+describe('UnitConverter', () => {
+  test('should convert SI lab values into canonical units', () => {
+    expect(toCanonicalUnit('glucose', 5.5, 'mmol/L')).toBeCloseTo(99.1, 1);
+    expect(toCanonicalUnit('totalCholesterol', 5.2, 'mmol/L')).toBeCloseTo(201.1, 1);
+    expect(toCanonicalUnit('creatinine', 88.42, 'umol/L')).toBeCloseTo(1.0, 2);
+    expect(toCanonicalUnit('weight', 154, '[lb_av]')).toBeCloseTo(69.9, 1);
+  });
+
+  test('should round-trip affine conversions', () => {
+    const canonical = toCanonicalUnit('hba1c', 48, 'mmol/mol');
+
+    expect(canonical).toBeCloseTo(6.5, 1);
+    expect(fromCanonicalUnit('hba1c', canonical, 'mmol/mol')).toBeCloseTo(48, 5);
+  });
+
+  test('should treat bare numbers as canonical and reject unknown units', () => {
+    expect(resolveQuantity('glucose', 100)).toBe(100);
+    expect(() => toCanonicalUnit('glucose', 5, 'g/L')).toThrow(UnitConversionError);
+  });
+
+  test('should format canonical values in the preferred unit system', () => {
+    expect(formatQuantity('glucose', 99, 'metric')).toBe('5.5 mmol/L');
+    expect(formatQuantity('glucose', 99, 'imperial')).toBe('99 mg/dL');
+    expect(formatQuantity('bloodPressureSystolic', 120, 'metric', 'mmHg')).toBe('120 mmHg');
+  });
+
+  test('should normalize form quantities and record their source units', () => {
+    const canonical = normalizeHealthData({
+      name: 'Test Patient',
+      age: 50,
+      sex: 'female',
+      glucose: { value: 6.1, unit: 'mmol/L' },
+      creatinine: { value: 80, unit: 'umol/L' }
+    });
+
+    expect(canonical.glucose).toBeCloseTo(109.9, 1);
+    expect(canonical.creatinine).toBeCloseTo(0.9, 1);
+    expect(canonical.sourceUnits).toEqual({ glucose: 'mmol/L', creatinine: 'umol/L' });
+  });
+});
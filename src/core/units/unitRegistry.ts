@@ -0,0 +1,145 @@
+/**
+ * Unit Registry for BioTwin360
+ * UCUM-coded units and per-field conversion factors
+ *
+ * Every quantity in CanonicalHealthData is stored in a single canonical
+ * unit (the unit all module thresholds are calibrated against). Each entry
+ * lists the units accepted for that field together with the linear
+ * conversion into the canonical unit: canonical = value * factor + offset.
+ */
+
+import type { CanonicalField } from '../types/healthData';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type UnitCode =
+  | 'cm'
+  | '[in_i]'
+  | 'kg'
+  | '[lb_av]'
+  | 'Cel'
+  | '[degF]'
+  | 'mg/dL'
+  | 'mmol/L'
+  | 'umol/L'
+  | 'g/dL'
+  | 'g/L'
+  | 'ng/mL'
+  | 'nmol/L'
+  | '%'
+  | 'mmol/mol';
+
+export interface UnitConversion {
+  factor: number;
+  offset?: number;
+}
+
+export interface QuantityDefinition {
+  canonical: UnitCode;
+  preferred: Record<UnitSystem, UnitCode>;
+  conversions: Partial<Record<UnitCode, UnitConversion>>;
+  decimals: Partial<Record<UnitCode, number>>;
+}
+
+// Display labels for UCUM codes that are not human friendly
+export const UNIT_LABELS: Record<UnitCode, string> = {
+  'cm': 'cm',
+  '[in_i]': 'in',
+  'kg': 'kg',
+  '[lb_av]': 'lb',
+  'Cel': '°C',
+  '[degF]': '°F',
+  'mg/dL': 'mg/dL',
+  'mmol/L': 'mmol/L',
+  'umol/L': 'µmol/L',
+  'g/dL': 'g/dL',
+  'g/L': 'g/L',
+  'ng/mL': 'ng/mL',
+  'nmol/L': 'nmol/L',
+  '%': '%',
+  'mmol/mol': 'mmol/mol'
+};
+
+const IDENTITY: UnitConversion = { factor: 1 };
+
+// Cholesterol fractions share the same molar mass based factor
+const CHOLESTEROL: QuantityDefinition = {
+  canonical: 'mg/dL',
+  preferred: { metric: 'mmol/L', imperial: 'mg/dL' },
+  conversions: { 'mg/dL': IDENTITY, 'mmol/L': { factor: 38.67 } },
+  decimals: { 'mg/dL': 0, 'mmol/L': 2 }
+};
+
+export const QUANTITY_DEFINITIONS: Partial<Record<CanonicalField, QuantityDefinition>> = {
+  height: {
+    canonical: 'cm',
+    preferred: { metric: 'cm', imperial: '[in_i]' },
+    conversions: { 'cm': IDENTITY, '[in_i]': { factor: 2.54 } },
+    decimals: { 'cm': 0, '[in_i]': 1 }
+  },
+  weight: {
+    canonical: 'kg',
+    preferred: { metric: 'kg', imperial: '[lb_av]' },
+    conversions: { 'kg': IDENTITY, '[lb_av]': { factor: 0.45359237 } },
+    decimals: { 'kg': 1, '[lb_av]': 0 }
+  },
+  temperature: {
+    canonical: 'Cel',
+    preferred: { metric: 'Cel', imperial: '[degF]' },
+    conversions: { 'Cel': IDENTITY, '[degF]': { factor: 5 / 9, offset: -160 / 9 } },
+    decimals: { 'Cel': 1, '[degF]': 1 }
+  },
+  totalCholesterol: CHOLESTEROL,
+  ldlCholesterol: CHOLESTEROL,
+  hdlCholesterol: CHOLESTEROL,
+  triglycerides: {
+    canonical: 'mg/dL',
+    preferred: { metric: 'mmol/L', imperial: 'mg/dL' },
+    conversions: { 'mg/dL': IDENTITY, 'mmol/L': { factor: 88.57 } },
+    decimals: { 'mg/dL': 0, 'mmol/L': 2 }
+  },
+  glucose: {
+    canonical: 'mg/dL',
+    preferred: { metric: 'mmol/L', imperial: 'mg/dL' },
+    conversions: { 'mg/dL': IDENTITY, 'mmol/L': { factor: 18.016 } },
+    decimals: { 'mg/dL': 0, 'mmol/L': 1 }
+  },
+  hba1c: {
+    canonical: '%',
+    preferred: { metric: 'mmol/mol', imperial: '%' },
+    // NGSP/IFCC master equation
+    conversions: { '%': IDENTITY, 'mmol/mol': { factor: 0.09148, offset: 2.152 } },
+    decimals: { '%': 1, 'mmol/mol': 0 }
+  },
+  creatinine: {
+    canonical: 'mg/dL',
+    preferred: { metric: 'umol/L', imperial: 'mg/dL' },
+    conversions: { 'mg/dL': IDENTITY, 'umol/L': { factor: 1 / 88.42 } },
+    decimals: { 'mg/dL': 2, 'umol/L': 0 }
+  },
+  bun: {
+    // Metric reports give urea in mmol/L; one mmol of urea carries 28.01 mg of nitrogen
+    canonical: 'mg/dL',
+    preferred: { metric: 'mmol/L', imperial: 'mg/dL' },
+    conversions: { 'mg/dL': IDENTITY, 'mmol/L': { factor: 2.801 } },
+    decimals: { 'mg/dL': 0, 'mmol/L': 1 }
+  },
+  totalBilirubin: {
+    canonical: 'mg/dL',
+    preferred: { metric: 'umol/L', imperial: 'mg/dL' },
+    conversions: { 'mg/dL': IDENTITY, 'umol/L': { factor: 1 / 17.1 } },
+    decimals: { 'mg/dL': 1, 'umol/L': 0 }
+  },
+  albumin: {
+    canonical: 'g/dL',
+    preferred: { metric: 'g/L', imperial: 'g/dL' },
+    conversions: { 'g/dL': IDENTITY, 'g/L': { factor: 0.1 } },
+    decimals: { 'g/dL': 1, 'g/L': 0 }
+  },
+  vitaminD: {
+    canonical: 'ng/mL',
+    preferred: { metric: 'nmol/L', imperial: 'ng/mL' },
+    conversions: { 'ng/mL': IDENTITY, 'nmol/L': { factor: 1 / 2.496 } },
+    decimals: { 'ng/mL': 0, 'nmol/L': 0 }
+  }
+};
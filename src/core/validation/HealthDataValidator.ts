@@ -0,0 +1,263 @@
+/**
+ * Health Data Validator
+ * Range and plausibility checking of canonical health data before analysis
+ *
+ * Produces a structured ValidationReport separating errors (data that must
+ * not be analyzed) from warnings (unusual values worth double-checking).
+ * Every issue carries the canonical field path so the UI can render it
+ * next to the matching input.
+ */
+
+import { CanonicalHealthData, CanonicalField } from '../types/healthData';
+import { normalizeHealthData, isCanonicalHealthData, HealthDataInput } from '../data/HealthDataNormalizer';
+import { PHYSIOLOGICAL_RANGES } from './physiologicalRanges';
+import { formatQuantity } from '../units/UnitConverter';
+import { UnitSystem } from '../units/unitRegistry';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  field: string; // Canonical field path, comma-separated for cross-field rules
+  code: string;
+  severity: ValidationSeverity;
+  message: string;
+  value?: number | string | boolean;
+  unit?: string;
+}
+
+export interface ValidationOptions {
+  // Unit system used in messages; values stay canonical in `value`/`unit`
+  unitSystem?: UnitSystem;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  checkedFields: string[];
+  schemaVersion: string;
+  timestamp: number;
+}
+
+/**
+ * Thrown by the engine when health data fails validation
+ */
+export class HealthDataValidationError extends Error {
+  readonly report: ValidationReport;
+
+  constructor(report: ValidationReport) {
+    super(`Health data validation failed: ${report.errors.map(e => e.message).join('; ')}`);
+    this.name = 'HealthDataValidationError';
+    this.report = report;
+  }
+}
+
+/**
+ * Thrown by an organ module when the data lacks inputs it cannot do without
+ */
+export class MissingInputError extends Error {
+  readonly moduleId: string;
+  readonly fields: string[];
+
+  constructor(moduleId: string, moduleName: string, fields: string[]) {
+    super(`Missing required data for ${moduleName} analysis (${fields.join(', ')})`);
+    this.name = 'MissingInputError';
+    this.moduleId = moduleId;
+    this.fields = fields;
+  }
+}
+
+// Also matches errors rebuilt from an analysis worker, which keep only their name
+export function isMissingInputError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'MissingInputError';
+}
+
+type QuantityFormatter = (field: CanonicalField, value: number) => string;
+
+interface CrossFieldRule {
+  id: string;
+  fields: CanonicalField[];
+  check: (data: CanonicalHealthData, format: QuantityFormatter) => Omit<ValidationIssue, 'field' | 'code'> | null;
+}
+
+const CROSS_FIELD_RULES: CrossFieldRule[] = [
+  {
+    id: 'diastolic_below_systolic',
+    fields: ['bloodPressureSystolic', 'bloodPressureDiastolic'],
+    check: ({ bloodPressureSystolic: sys, bloodPressureDiastolic: dia }) =>
+      sys !== undefined && dia !== undefined && dia >= sys
+        ? { severity: 'error', message: `Diastolic pressure (${dia}) must be lower than systolic pressure (${sys})` }
+        : null
+  },
+  {
+    id: 'pulse_pressure',
+    fields: ['bloodPressureSystolic', 'bloodPressureDiastolic'],
+    check: ({ bloodPressureSystolic: sys, bloodPressureDiastolic: dia }) =>
+      sys !== undefined && dia !== undefined && sys - dia > 100
+        ? { severity: 'warning', message: `Pulse pressure of ${sys - dia} mmHg is unusually wide` }
+        : null
+  },
+  {
+    id: 'lipid_fractions_exceed_total',
+    fields: ['ldlCholesterol', 'hdlCholesterol', 'totalCholesterol'],
+    check: ({ ldlCholesterol: ldl, hdlCholesterol: hdl, totalCholesterol: total }, format) =>
+      ldl !== undefined && hdl !== undefined && total !== undefined && ldl + hdl > total + 5
+        ? {
+            severity: 'error',
+            message: `LDL + HDL (${format('ldlCholesterol', ldl + hdl)}) cannot exceed total cholesterol (${format('totalCholesterol', total)})`
+          }
+        : null
+  },
+  {
+    id: 'friedewald_consistency',
+    fields: ['totalCholesterol', 'ldlCholesterol', 'hdlCholesterol', 'triglycerides'],
+    check: ({ totalCholesterol: total, ldlCholesterol: ldl, hdlCholesterol: hdl, triglycerides: tg }, format) => {
+      if ([total, ldl, hdl, tg].some(v => v === undefined) || tg! >= 400) return null;
+      const estimatedTotal = ldl! + hdl! + tg! / 5;
+      return Math.abs(total! - estimatedTotal) > 40
+        ? { severity: 'warning', message: `Lipid panel is internally inconsistent (expected total ≈ ${format('totalCholesterol', estimatedTotal)})` }
+        : null;
+    }
+  },
+  {
+    id: 'ast_alt_ratio',
+    fields: ['ast', 'alt'],
+    check: ({ ast, alt }) => {
+      if (ast === undefined || alt === undefined) return null;
+      const ratio = ast / alt;
+      return ratio > 5 || ratio < 0.2
+        ? { severity: 'warning', message: `AST/ALT ratio of ${ratio.toFixed(1)} is outside the usual range` }
+        : null;
+    }
+  },
+  {
+    id: 'bmi_matches_height_weight',
+    fields: ['bmi', 'height', 'weight'],
+    check: ({ bmi, height, weight }) => {
+      if (bmi === undefined || height === undefined || weight === undefined) return null;
+      const computed = weight / Math.pow(height / 100, 2);
+      return Math.abs(computed - bmi) > 2
+        ? { severity: 'error', message: `BMI ${bmi} does not match height and weight (calculated ${computed.toFixed(1)})` }
+        : null;
+    }
+  },
+  {
+    id: 'smoking_status_consistency',
+    fields: ['smoking', 'smokingStatus'],
+    check: ({ smoking, smokingStatus }) =>
+      smoking !== undefined && smokingStatus !== undefined && smoking !== (smokingStatus === 'current')
+        ? { severity: 'error', message: `Current smoking flag contradicts smoking status "${smokingStatus}"` }
+        : null
+  },
+  {
+    id: 'pack_years_never_smoker',
+    fields: ['smokingPackYears', 'smokingStatus'],
+    check: ({ smokingPackYears, smokingStatus }) =>
+      smokingStatus === 'never' && smokingPackYears !== undefined && smokingPackYears > 0
+        ? { severity: 'warning', message: 'Pack-years reported for a never-smoker' }
+        : null
+  },
+  {
+    id: 'menopause_sex',
+    fields: ['menopause', 'sex'],
+    check: ({ menopause, sex }) =>
+      menopause && sex === 'male'
+        ? { severity: 'error', message: 'Menopause cannot be reported for male patients' }
+        : null
+  }
+];
+
+/**
+ * Validate health data against physiological ranges and cross-field rules
+ */
+export function validateHealthData(input: HealthDataInput, options: ValidationOptions = {}): ValidationReport {
+  const data = isCanonicalHealthData(input) ? input : normalizeHealthData(input);
+  const issues: ValidationIssue[] = [];
+  const checkedFields: string[] = [];
+
+  const format: QuantityFormatter = (field, value) => {
+    const unit = PHYSIOLOGICAL_RANGES[field]?.unit;
+    return options.unitSystem
+      ? formatQuantity(field, value, options.unitSystem, unit)
+      : unit ? `${value} ${unit}` : String(value);
+  };
+
+  // Required demographics
+  if (typeof data.age !== 'number' || isNaN(data.age)) {
+    issues.push({ field: 'age', code: 'required', severity: 'error', message: 'Age is required' });
+  }
+  if (!['male', 'female', 'other'].includes(data.sex)) {
+    issues.push({ field: 'sex', code: 'required', severity: 'error', message: 'Sex is required' });
+  }
+
+  // Per-field ranges
+  for (const [field, range] of Object.entries(PHYSIOLOGICAL_RANGES)) {
+    const value = data[field as CanonicalField];
+    if (value === undefined || value === null) continue;
+    checkedFields.push(field);
+
+    if (typeof value !== 'number' || !isFinite(value)) {
+      issues.push({ field, code: 'not_a_number', severity: 'error', message: `${range!.label} must be a number`, value: String(value) });
+      continue;
+    }
+
+    const [min, max] = range!.absolute;
+    const [plausibleMin, plausibleMax] = range!.plausible;
+    const canonicalField = field as CanonicalField;
+
+    if (value < min || value > max) {
+      issues.push({
+        field,
+        code: 'out_of_range',
+        severity: 'error',
+        message: `${range!.label} of ${format(canonicalField, value)} is outside the physiological range (${format(canonicalField, min)} – ${format(canonicalField, max)})`,
+        value,
+        unit: range!.unit
+      });
+    } else if (value < plausibleMin || value > plausibleMax) {
+      issues.push({
+        field,
+        code: 'implausible',
+        severity: 'warning',
+        message: `${range!.label} of ${format(canonicalField, value)} is unusual; please verify the value and unit`,
+        value,
+        unit: range!.unit
+      });
+    }
+  }
+
+  // Cross-field consistency
+  for (const rule of CROSS_FIELD_RULES) {
+    const issue = rule.check(data, format);
+    if (issue) {
+      issues.push({ ...issue, field: rule.fields.join(','), code: rule.id });
+    }
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+    checkedFields,
+    schemaVersion: data.schemaVersion,
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Group the issues of a report by field, for inline rendering in forms.
+ * Cross-field issues are attached to every field they involve.
+ */
+export function groupIssuesByField(report: ValidationReport): Record<string, ValidationIssue[]> {
+  const grouped: Record<string, ValidationIssue[]> = {};
+
+  for (const issue of [...report.errors, ...report.warnings]) {
+    for (const field of issue.field.split(',')) {
+      (grouped[field] ||= []).push(issue);
+    }
+  }
+
+  return grouped;
+}
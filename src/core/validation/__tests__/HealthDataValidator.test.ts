@@ -0,0 +1,52 @@
+/**
+ * Health Data Validator Tests
+ * Unit tests for range, plausibility and cross-field validation
+ */
+
+import { validateHealthData, groupIssuesByField } from '../HealthDataValidator';
+
+describe('HealthDataValidator', () => {
+  const validInput = {
+    name: 'Test Patient',
+    age: 45,
+    sex: 'female' as const,
+    weight: 65,
+    height: 168,
+    systolicBP: 122,
+    diastolicBP: 78,
+    totalCholesterol: 190,
+    hdlCholesterol: 55
+  };
+
+  test('should accept physiologically valid data', () => {
+    const report = validateHealthData(validInput);
+
+    expect(report.valid).toBe(true);
+    expect(report.errors).toHaveLength(0);
+    expect(report.checkedFields).toContain('bloodPressureSystolic');
+  });
+
+  test('should reject values outside the physiological range', () => {
+    const report = validateHealthData({ ...validInput, systolicBP: 400 });
+
+    expect(report.valid).toBe(false);
+    expect(report.errors[0].field).toBe('bloodPressureSystolic');
+    expect(report.errors[0].code).toBe('out_of_range');
+  });
+
+  test('should warn about implausible but possible values', () => {
+    const report = validateHealthData({ ...validInput, glucose: 450 });
+
+    expect(report.valid).toBe(true);
+    expect(report.warnings.map(w => w.code)).toContain('implausible');
+  });
+
+  test('should report cross-field inconsistencies on every involved field', () => {
+    const report = validateHealthData({ ...validInput, systolicBP: 80, diastolicBP: 90 });
+    const grouped = groupIssuesByField(report);
+
+    expect(report.valid).toBe(false);
+    expect(grouped.bloodPressureSystolic[0].code).toBe('diastolic_below_systolic');
+    expect(grouped.bloodPressureDiastolic[0].code).toBe('diastolic_below_systolic');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Physiological Ranges for Canonical Health Data
+ *
+ * `absolute` bounds are physiologically impossible outside the range and
+ * produce validation errors. `plausible` bounds describe values that can
+ * occur but are unusual enough to be worth double-checking (typos, wrong
+ * unit) and produce warnings. All values are in canonical units.
+ */
+
+import { CanonicalField } from '../types/healthData';
+
+export interface FieldRange {
+  label: string;
+  unit: string;
+  absolute: [number, number];
+  plausible: [number, number];
+}
+
+export const PHYSIOLOGICAL_RANGES: Partial<Record<CanonicalField, FieldRange>> = {
+  // Demographics and anthropometrics
+  age: { label: 'Age', unit: 'years', absolute: [0, 120], plausible: [18, 100] },
+  height: { label: 'Height', unit: 'cm', absolute: [50, 250], plausible: [130, 210] },
+  weight: { label: 'Weight', unit: 'kg', absolute: [2, 400], plausible: [35, 200] },
+  bmi: { label: 'BMI', unit: 'kg/m²', absolute: [10, 80], plausible: [15, 50] },
+
+  // Vital signs
+  bloodPressureSystolic: { label: 'Systolic blood pressure', unit: 'mmHg', absolute: [50, 300], plausible: [80, 200] },
+  bloodPressureDiastolic: { label: 'Diastolic blood pressure', unit: 'mmHg', absolute: [20, 200], plausible: [40, 130] },
+  heartRate: { label: 'Heart rate', unit: 'bpm', absolute: [20, 250], plausible: [40, 150] },
+  restingHeartRate: { label: 'Resting heart rate', unit: 'bpm', absolute: [20, 250], plausible: [40, 120] },
+  temperature: { label: 'Body temperature', unit: '°C', absolute: [25, 45], plausible: [35, 39.5] },
+
+  // Lipids and glucose metabolism
+  totalCholesterol: { label: 'Total cholesterol', unit: 'mg/dL', absolute: [50, 1000], plausible: [100, 400] },
+  ldlCholesterol: { label: 'LDL cholesterol', unit: 'mg/dL', absolute: [10, 600], plausible: [30, 300] },
+  hdlCholesterol: { label: 'HDL cholesterol', unit: 'mg/dL', absolute: [5, 200], plausible: [20, 120] },
+  triglycerides: { label: 'Triglycerides', unit: 'mg/dL', absolute: [10, 5000], plausible: [30, 1000] },
+  glucose: { label: 'Fasting glucose', unit: 'mg/dL', absolute: [10, 1500], plausible: [50, 400] },
+  hba1c: { label: 'HbA1c', unit: '%', absolute: [2, 20], plausible: [4, 14] },
+
+  // Renal function
+  creatinine: { label: 'Creatinine', unit: 'mg/dL', absolute: [0.1, 25], plausible: [0.3, 10] },
+  bun: { label: 'Blood urea nitrogen', unit: 'mg/dL', absolute: [1, 200], plausible: [5, 80] },
+  proteinuria: { label: 'Proteinuria', unit: 'mg/day', absolute: [0, 20000], plausible: [0, 3500] },
+
+  // Hepatic function
+  alt: { label: 'ALT', unit: 'U/L', absolute: [1, 10000], plausible: [5, 1000] },
+  ast: { label: 'AST', unit: 'U/L', absolute: [1, 10000], plausible: [5, 1000] },
+  totalBilirubin: { label: 'Total bilirubin', unit: 'mg/dL', absolute: [0.05, 50], plausible: [0.1, 20] },
+  albumin: { label: 'Albumin', unit: 'g/dL', absolute: [0.5, 7], plausible: [2, 5.5] },
+  alkalinePhosphatase: { label: 'Alkaline phosphatase', unit: 'U/L', absolute: [5, 3000], plausible: [20, 500] },
+  ggt: { label: 'GGT', unit: 'U/L', absolute: [1, 5000], plausible: [5, 1000] },
+  inr: { label: 'INR', unit: '', absolute: [0.5, 15], plausible: [0.8, 5] },
+  platelets: { label: 'Platelets', unit: '10³/µL', absolute: [1, 2000], plausible: [50, 800] },
+
+  // Inflammation
+  crp: { label: 'CRP', unit: 'mg/L', absolute: [0, 500], plausible: [0, 100] },
+  esr: { label: 'ESR', unit: 'mm/h', absolute: [0, 150], plausible: [0, 100] },
+  il6: { label: 'IL-6', unit: 'pg/mL', absolute: [0, 5000], plausible: [0, 100] },
+
+  // Bone and nutrition
+  vitaminD: { label: 'Vitamin D', unit: 'ng/mL', absolute: [1, 250], plausible: [5, 150] },
+  calciumIntake: { label: 'Calcium intake', unit: 'mg/day', absolute: [0, 5000], plausible: [200, 2500] },
+  proteinIntake: { label: 'Protein intake', unit: 'g/kg/day', absolute: [0, 5], plausible: [0.3, 3] },
+  boneDensity: { label: 'Bone density T-score', unit: 'SD', absolute: [-6, 5], plausible: [-4.5, 3] },
+
+  // Lifestyle
+  smokingPackYears: { label: 'Smoking pack-years', unit: 'pack-years', absolute: [0, 200], plausible: [0, 100] },
+  alcoholUnitsPerWeek: { label: 'Alcohol intake', unit: 'units/week', absolute: [0, 300], plausible: [0, 70] },
+  sleepHours: { label: 'Sleep duration', unit: 'h/night', absolute: [0, 24], plausible: [3, 14] },
+  respiratoryInfections: { label: 'Respiratory infections', unit: 'per year', absolute: [0, 50], plausible: [0, 12] },
+
+  // Wearable data
+  steps: { label: 'Daily steps', unit: 'steps/day', absolute: [0, 100000], plausible: [0, 40000] },
+  activeMinutes: { label: 'Active minutes', unit: 'min/day', absolute: [0, 1440], plausible: [0, 600] },
+  vo2Max: { label: 'VO2 max', unit: 'mL/kg/min', absolute: [5, 95], plausible: [10, 80] },
+  hrv: { label: 'Heart rate variability', unit: 'ms', absolute: [1, 300], plausible: [10, 200] }
+};
@@ -4,7 +4,20 @@
  * Based on established clinical guidelines and enhanced with AI predictions.
  */
 
-import { HealthData } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { RiskContribution } from '../../core/types/core';
+import { hasAlarmingTrend } from '../../core/timeline/trendRules';
+import { ContributionTrace } from '../shared/ContributionTrace';
+
+const SOURCES = {
+  hypertension: 'ACC/AHA 2017 Hypertension Guideline',
+  lipids: 'NCEP ATP III',
+  diabetes: 'ADA Standards of Care',
+  prevention: 'ACC/AHA 2019 Primary Prevention Guideline',
+  obesity: 'WHO BMI Classification',
+  inflammation: 'AHA/CDC Scientific Statement on Markers of Inflammation',
+  secondaryPrevention: 'AHA/ACC Secondary Prevention Guideline'
+};
 
 export interface CardiovascularRiskResult {
   riskScore: number;
@@ -14,16 +27,18 @@ export interface CardiovascularRiskResult {
   heartAge?: number;
   riskCategory: 'low' | 'moderate' | 'high' | 'very-high';
   recommendations: string[];
+  contributions: RiskContribution[];
 }
 
 /**
  * Calculate comprehensive cardiovascular risk score
  * Combines multiple validated risk assessment tools
  */
-export function calculateCardiovascularRisk(healthData: HealthData, model?: any): CardiovascularRiskResult {
+export function calculateCardiovascularRisk(healthData: CanonicalHealthData, model?: any): CardiovascularRiskResult {
   let riskScore = 0;
   const riskFactors: string[] = [];
   const recommendations: string[] = [];
+  const trace = new ContributionTrace('cardiovascular');
 
   // Calculate individual risk scores
   const framinghamScore = calculateFraminghamRisk(healthData);
@@ -38,19 +53,19 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
     const diastolic = healthData.bloodPressureDiastolic;
     
     if (systolic >= 180 || diastolic >= 110) {
-      riskScore += 35;
+      riskScore += trace.add('severe_hypertension_stage_3', 'Severe Hypertension (Stage 3)', 35, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
       riskFactors.push('Severe Hypertension (Stage 3)');
       recommendations.push('Immediate medical attention required for blood pressure control');
     } else if (systolic >= 160 || diastolic >= 100) {
-      riskScore += 25;
+      riskScore += trace.add('stage_2_hypertension', 'Stage 2 Hypertension', 25, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
       riskFactors.push('Stage 2 Hypertension');
       recommendations.push('Antihypertensive medication and lifestyle modifications needed');
     } else if (systolic >= 140 || diastolic >= 90) {
-      riskScore += 15;
+      riskScore += trace.add('stage_1_hypertension', 'Stage 1 Hypertension', 15, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
       riskFactors.push('Stage 1 Hypertension');
       recommendations.push('Lifestyle modifications and possible medication');
     } else if (systolic >= 130 || diastolic >= 80) {
-      riskScore += 8;
+      riskScore += trace.add('elevated_blood_pressure', 'Elevated Blood Pressure', 8, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
       riskFactors.push('Elevated Blood Pressure');
       recommendations.push('Lifestyle modifications recommended');
     }
@@ -59,11 +74,11 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
   // 2. Cholesterol Assessment
   if (healthData.totalCholesterol) {
     if (healthData.totalCholesterol >= 240) {
-      riskScore += 20;
+      riskScore += trace.add('high_total_cholesterol', 'High Total Cholesterol', 20, { totalCholesterol: healthData.totalCholesterol }, SOURCES.lipids);
       riskFactors.push('High Total Cholesterol');
       recommendations.push('Statin therapy and dietary changes recommended');
     } else if (healthData.totalCholesterol >= 200) {
-      riskScore += 10;
+      riskScore += trace.add('borderline_high_cholesterol', 'Borderline High Cholesterol', 10, { totalCholesterol: healthData.totalCholesterol }, SOURCES.lipids);
       riskFactors.push('Borderline High Cholesterol');
       recommendations.push('Dietary modifications and regular monitoring');
     }
@@ -71,15 +86,15 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
 
   if (healthData.ldlCholesterol) {
     if (healthData.ldlCholesterol >= 190) {
-      riskScore += 25;
+      riskScore += trace.add('very_high_ldl_cholesterol', 'Very High LDL Cholesterol', 25, { ldlCholesterol: healthData.ldlCholesterol }, SOURCES.lipids);
       riskFactors.push('Very High LDL Cholesterol');
       recommendations.push('Aggressive statin therapy required');
     } else if (healthData.ldlCholesterol >= 160) {
-      riskScore += 18;
+      riskScore += trace.add('high_ldl_cholesterol', 'High LDL Cholesterol', 18, { ldlCholesterol: healthData.ldlCholesterol }, SOURCES.lipids);
       riskFactors.push('High LDL Cholesterol');
       recommendations.push('Statin therapy consideration');
     } else if (healthData.ldlCholesterol >= 130) {
-      riskScore += 12;
+      riskScore += trace.add('borderline_high_ldl', 'Borderline High LDL', 12, { ldlCholesterol: healthData.ldlCholesterol }, SOURCES.lipids);
       riskFactors.push('Borderline High LDL');
       recommendations.push('Lifestyle modifications');
     }
@@ -87,25 +102,25 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
 
   if (healthData.hdlCholesterol) {
     if (healthData.hdlCholesterol < 40) { // Men
-      riskScore += 15;
+      riskScore += trace.add('low_hdl_cholesterol', 'Low HDL Cholesterol', 15, { hdlCholesterol: healthData.hdlCholesterol }, SOURCES.lipids);
       riskFactors.push('Low HDL Cholesterol');
       recommendations.push('Exercise and weight management to raise HDL');
     } else if (healthData.hdlCholesterol >= 60) {
-      riskScore -= 5; // Protective factor
+      riskScore += trace.add('high_hdl_cholesterol', 'High HDL Cholesterol (Protective)', -5, { hdlCholesterol: healthData.hdlCholesterol }, SOURCES.lipids);
     }
   }
 
   if (healthData.triglycerides) {
     if (healthData.triglycerides >= 500) {
-      riskScore += 20;
+      riskScore += trace.add('very_high_triglycerides', 'Very High Triglycerides', 20, { triglycerides: healthData.triglycerides }, SOURCES.lipids);
       riskFactors.push('Very High Triglycerides');
       recommendations.push('Immediate treatment to prevent pancreatitis');
     } else if (healthData.triglycerides >= 200) {
-      riskScore += 12;
+      riskScore += trace.add('high_triglycerides', 'High Triglycerides', 12, { triglycerides: healthData.triglycerides }, SOURCES.lipids);
       riskFactors.push('High Triglycerides');
       recommendations.push('Dietary changes and possible medication');
     } else if (healthData.triglycerides >= 150) {
-      riskScore += 6;
+      riskScore += trace.add('borderline_high_triglycerides', 'Borderline High Triglycerides', 6, { triglycerides: healthData.triglycerides }, SOURCES.lipids);
       riskFactors.push('Borderline High Triglycerides');
       recommendations.push('Lifestyle modifications');
     }
@@ -113,12 +128,12 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
 
   // 3. Diabetes Assessment
   if (healthData.glucose) {
-    if (healthData.glucose >= 126 || healthData.hba1c >= 6.5) {
-      riskScore += 25;
+    if ((healthData.glucose ?? 0) >= 126 || (healthData.hba1c ?? 0) >= 6.5) {
+      riskScore += trace.add('diabetes_mellitus', 'Diabetes Mellitus', 25, { glucose: healthData.glucose, hba1c: healthData.hba1c }, SOURCES.diabetes);
       riskFactors.push('Diabetes Mellitus');
       recommendations.push('Optimal diabetes management crucial for cardiovascular health');
-    } else if (healthData.glucose >= 100 || healthData.hba1c >= 5.7) {
-      riskScore += 12;
+    } else if ((healthData.glucose ?? 0) >= 100 || (healthData.hba1c ?? 0) >= 5.7) {
+      riskScore += trace.add('pre_diabetes', 'Pre-diabetes', 12, { glucose: healthData.glucose, hba1c: healthData.hba1c }, SOURCES.diabetes);
       riskFactors.push('Pre-diabetes');
       recommendations.push('Lifestyle intervention to prevent diabetes progression');
     }
@@ -128,12 +143,12 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
   if (healthData.age) {
     if (healthData.sex === 'male') {
       if (healthData.age >= 45) {
-        riskScore += Math.min(15, (healthData.age - 45) * 0.8);
+        riskScore += trace.add('age_related_risk_male', 'Age-related Risk (Male)', Math.min(15, (healthData.age - 45) * 0.8), { age: healthData.age, sex: healthData.sex }, SOURCES.prevention);
         riskFactors.push('Age-related Risk (Male)');
       }
     } else {
       if (healthData.age >= 55) {
-        riskScore += Math.min(12, (healthData.age - 55) * 0.7);
+        riskScore += trace.add('age_related_risk_female', 'Age-related Risk (Female)', Math.min(12, (healthData.age - 55) * 0.7), { age: healthData.age, sex: healthData.sex }, SOURCES.prevention);
         riskFactors.push('Age-related Risk (Female)');
       }
     }
@@ -141,22 +156,22 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
 
   // 5. Lifestyle Risk Factors
   if (healthData.smoking) {
-    riskScore += 20;
+    riskScore += trace.add('current_smoking', 'Current Smoking', 20, { smoking: healthData.smoking }, SOURCES.prevention);
     riskFactors.push('Current Smoking');
     recommendations.push('Smoking cessation is the most important intervention');
   }
 
   if (healthData.bmi) {
     if (healthData.bmi >= 35) {
-      riskScore += 15;
+      riskScore += trace.add('severe_obesity', 'Severe Obesity', 15, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Severe Obesity');
       recommendations.push('Weight loss surgery consideration');
     } else if (healthData.bmi >= 30) {
-      riskScore += 10;
+      riskScore += trace.add('obesity', 'Obesity', 10, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Obesity');
       recommendations.push('Structured weight loss program');
     } else if (healthData.bmi >= 25) {
-      riskScore += 5;
+      riskScore += trace.add('overweight', 'Overweight', 5, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Overweight');
       recommendations.push('Weight management through diet and exercise');
     }
@@ -164,45 +179,64 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
 
   // 6. Family History
   if (healthData.familyHistory?.includes('heart_disease')) {
-    riskScore += 12;
+    riskScore += trace.add('family_history_of_heart_disease', 'Family History of Heart Disease', 12, { familyHistory: healthData.familyHistory?.join(', ') }, SOURCES.prevention);
     riskFactors.push('Family History of Heart Disease');
     recommendations.push('Enhanced screening and preventive measures');
   }
 
   // 7. Physical Activity
   if (healthData.physicalActivity === 'sedentary') {
-    riskScore += 8;
+    riskScore += trace.add('sedentary_lifestyle', 'Sedentary Lifestyle', 8, { physicalActivity: healthData.physicalActivity }, SOURCES.prevention);
     riskFactors.push('Sedentary Lifestyle');
     recommendations.push('Regular aerobic exercise at least 150 minutes per week');
   }
 
   // 8. Additional Biomarkers
   if (healthData.crp && healthData.crp > 3.0) {
-    riskScore += 8;
+    riskScore += trace.add('elevated_inflammation_crp', 'Elevated Inflammation (CRP)', 8, { crp: healthData.crp }, SOURCES.inflammation);
     riskFactors.push('Elevated Inflammation (CRP)');
     recommendations.push('Anti-inflammatory lifestyle measures');
   }
 
   // 9. Existing Cardiovascular Conditions
   if (healthData.cardiovascularDisease) {
-    riskScore += 30;
+    riskScore += trace.add('existing_cardiovascular_disease', 'Existing Cardiovascular Disease', 30, { cardiovascularDisease: healthData.cardiovascularDisease }, SOURCES.secondaryPrevention);
     riskFactors.push('Existing Cardiovascular Disease');
     recommendations.push('Secondary prevention measures and optimal medical therapy');
   }
 
+  // 10. Trajectory across earlier measurements
+  if (hasAlarmingTrend(healthData.trends, 'bloodPressureSystolic')) {
+    riskScore += trace.add('rising_blood_pressure', 'Rising Blood Pressure', 6, { bloodPressureSystolicPerYear: healthData.trends?.bloodPressureSystolic });
+    riskFactors.push('Rising Blood Pressure');
+    recommendations.push('Monitor blood pressure at home to confirm the upward trend');
+  }
+
+  if (hasAlarmingTrend(healthData.trends, 'ldlCholesterol') || hasAlarmingTrend(healthData.trends, 'totalCholesterol')) {
+    riskScore += trace.add('rising_cholesterol', 'Rising Cholesterol', 5, { ldlCholesterolPerYear: healthData.trends?.ldlCholesterol, totalCholesterolPerYear: healthData.trends?.totalCholesterol });
+    riskFactors.push('Rising Cholesterol');
+    recommendations.push('Repeat lipid panel and review diet and lipid-lowering therapy');
+  }
+
+  if (hasAlarmingTrend(healthData.trends, 'hba1c') || hasAlarmingTrend(healthData.trends, 'glucose')) {
+    riskScore += trace.add('rising_blood_glucose', 'Rising Blood Glucose', 5, { hba1cPerYear: healthData.trends?.hba1c, glucosePerYear: healthData.trends?.glucose });
+    riskFactors.push('Rising Blood Glucose');
+    recommendations.push('Diabetes screening and glycemic control review');
+  }
+
   // Apply AI model prediction if available
   if (model) {
     try {
       const aiPrediction = predictCardiovascularRiskWithAI(healthData, model);
       // Combine traditional risk score (75%) with AI prediction (25%)
-      riskScore = riskScore * 0.75 + aiPrediction * 0.25;
+      riskScore = trace.adjust('ai_model_blend', 'AI Model Adjustment', riskScore, riskScore * 0.75 + aiPrediction * 0.25);
     } catch (error) {
       console.warn('[CardiovascularAnalysis] AI prediction failed, using traditional algorithms only');
     }
   }
 
   // Ensure score is within bounds
-  riskScore = Math.min(100, Math.max(0, riskScore));
+  riskScore = trace.adjust('score_bounds', 'Score Limit (0-100)', riskScore, Math.min(100, Math.max(0, riskScore)));
 
   // Determine risk category
   let riskCategory: 'low' | 'moderate' | 'high' | 'very-high';
@@ -238,14 +272,15 @@ export function calculateCardiovascularRisk(healthData: HealthData, model?: any)
     ascvdScore,
     heartAge,
     riskCategory,
-    recommendations: [...new Set(recommendations)] // Remove duplicates
+    recommendations: [...new Set(recommendations)], // Remove duplicates
+    contributions: trace.toArray()
   };
 }
 
 /**
  * Calculate Framingham Risk Score (10-year CHD risk)
  */
-function calculateFraminghamRisk(healthData: HealthData): number {
+function calculateFraminghamRisk(healthData: CanonicalHealthData): number {
   if (!healthData.age || !healthData.sex) return 0;
 
   let points = 0;
@@ -294,7 +329,7 @@ function calculateFraminghamRisk(healthData: HealthData): number {
   }
 
   // Diabetes
-  if (healthData.glucose >= 126 || healthData.hba1c >= 6.5) {
+  if ((healthData.glucose ?? 0) >= 126 || (healthData.hba1c ?? 0) >= 6.5) {
     points += isMale ? 2 : 4;
   }
 
@@ -313,7 +348,7 @@ function calculateFraminghamRisk(healthData: HealthData): number {
 /**
  * Calculate ASCVD Risk Score (10-year risk)
  */
-function calculateASCVDRisk(healthData: HealthData): number {
+function calculateASCVDRisk(healthData: CanonicalHealthData): number {
   if (!healthData.age || !healthData.sex || healthData.age < 40 || healthData.age > 79) {
     return 0;
   }
@@ -327,7 +362,7 @@ function calculateASCVDRisk(healthData: HealthData): number {
   let lnHdl = healthData.hdlCholesterol ? Math.log(healthData.hdlCholesterol) : Math.log(50);
   let lnSbp = healthData.bloodPressureSystolic ? Math.log(healthData.bloodPressureSystolic) : Math.log(120);
   
-  let diabetes = (healthData.glucose >= 126 || healthData.hba1c >= 6.5) ? 1 : 0;
+  let diabetes = ((healthData.glucose ?? 0) >= 126 || (healthData.hba1c ?? 0) >= 6.5) ? 1 : 0;
   let smoking = healthData.smoking ? 1 : 0;
   
   let sum = 0;
@@ -362,7 +397,7 @@ function calculateASCVDRisk(healthData: HealthData): number {
 /**
  * Calculate Heart Age
  */
-function calculateHeartAge(healthData: HealthData): number {
+function calculateHeartAge(healthData: CanonicalHealthData): number {
   if (!healthData.age) return healthData.age || 40;
   
   let ageAdjustment = 0;
@@ -374,16 +409,16 @@ function calculateHeartAge(healthData: HealthData): number {
   }
   
   // Cholesterol adjustment
-  if (healthData.totalCholesterol >= 240) ageAdjustment += 5;
+  if ((healthData.totalCholesterol ?? 0) >= 240) ageAdjustment += 5;
   if (healthData.hdlCholesterol && healthData.hdlCholesterol < 40) ageAdjustment += 3;
   
   // Lifestyle factors
   if (healthData.smoking) ageAdjustment += 8;
-  if (healthData.bmi >= 30) ageAdjustment += 3;
+  if ((healthData.bmi ?? 0) >= 30) ageAdjustment += 3;
   if (healthData.physicalActivity === 'sedentary') ageAdjustment += 2;
   
   // Diabetes
-  if (healthData.glucose >= 126) ageAdjustment += 6;
+  if ((healthData.glucose ?? 0) >= 126) ageAdjustment += 6;
   
   return healthData.age + ageAdjustment;
 }
@@ -391,7 +426,7 @@ function calculateHeartAge(healthData: HealthData): number {
 /**
  * AI-based cardiovascular risk prediction
  */
-function predictCardiovascularRiskWithAI(healthData: HealthData, model: any): number {
+function predictCardiovascularRiskWithAI(healthData: CanonicalHealthData, model: any): number {
   // This would use the actual TensorFlow.js model
   // For now, return a mock prediction based on key factors
   
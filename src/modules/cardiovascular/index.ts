@@ -3,9 +3,61 @@
  * Advanced cardiovascular analysis and risk assessment algorithms
  */
 
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { BaseOrganModule, ModuleEvaluation, ModuleInputSpec } from '../shared/BaseOrganModule';
+import { calculateCardiovascularRisk } from './cardiovascularAnalysis';
+
 export { calculateCardiovascularRisk, generateCardiovascularInsights } from './cardiovascularAnalysis';
 export type { CardiovascularRiskResult } from './cardiovascularAnalysis';
 
+export class CardiovascularModule extends BaseOrganModule {
+  id = 'cardiovascular';
+  name = 'Cardiovascular System';
+  description = 'Analyzes heart health and cardiovascular disease risk.';
+  protected thresholds = { moderate: 30, high: 60, critical: 80 };
+  protected baseConfidence = 0.87;
+  protected inputs: ModuleInputSpec[] = [
+    { field: 'age', weight: 3, required: true },
+    { field: 'sex', weight: 1, required: true },
+    { field: 'bloodPressureSystolic', weight: 3, test: 'Blood pressure measurement', assumption: 'Systolic pressure of 120 mmHg assumed for ASCVD risk' },
+    { field: 'bloodPressureDiastolic', weight: 1, test: 'Blood pressure measurement' },
+    { field: 'totalCholesterol', weight: 3, test: 'Lipid panel', assumption: 'Total cholesterol of 200 mg/dL assumed for ASCVD risk' },
+    { field: 'hdlCholesterol', weight: 2, test: 'Lipid panel', assumption: 'HDL cholesterol of 50 mg/dL assumed for ASCVD risk' },
+    { field: 'ldlCholesterol', weight: 1, test: 'Lipid panel' },
+    { field: 'triglycerides', weight: 1, test: 'Lipid panel' },
+    { field: 'glucose', weight: 2, test: 'Fasting glucose' },
+    { field: 'hba1c', weight: 1, test: 'HbA1c' },
+    { field: 'crp', weight: 1, test: 'hs-CRP' },
+    { field: 'bmi', weight: 1, test: 'Height and weight' },
+    { field: 'smoking', weight: 2, test: 'Smoking history' },
+    { field: 'physicalActivity', weight: 1, test: 'Lifestyle questionnaire' },
+    { field: 'familyHistory', weight: 1, test: 'Family history' }
+  ];
+
+  protected evaluate(healthData: CanonicalHealthData): ModuleEvaluation {
+    // Calculate risk score using validated risk calculators and AI model
+    const result = calculateCardiovascularRisk(healthData, this.model);
+    const riskLevel = this.determineRiskLevel(result.riskScore);
+
+    return {
+      moduleId: this.id,
+      riskScore: result.riskScore,
+      riskLevel,
+      riskFactors: this.toRiskFactors(result.riskFactors, riskLevel),
+      contributions: result.contributions,
+      recommendations: this.toRecommendations(result.recommendations, riskLevel),
+      timestamp: Date.now(),
+      processingTime: 0, // Will be calculated by the engine
+      organSpecificData: {
+        framinghamScore: result.framinghamScore,
+        ascvdScore: result.ascvdScore,
+        heartAge: result.heartAge,
+        riskCategory: result.riskCategory
+      }
+    };
+  }
+}
+
 // Module metadata
 export const cardiovascularModule = {
   name: 'Cardiovascular Analysis',
@@ -30,3 +82,4 @@ export const cardiovascularModule = {
   ]
 };
 
+export default new CardiovascularModule();
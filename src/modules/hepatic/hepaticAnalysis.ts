@@ -4,7 +4,19 @@
  * Based on established clinical guidelines and enhanced with AI predictions.
  */
 
-import { HealthData } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { RiskContribution } from '../../core/types/core';
+import { hasAlarmingTrend } from '../../core/timeline/trendRules';
+import { ContributionTrace } from '../shared/ContributionTrace';
+
+const SOURCES = {
+  liverChemistries: 'ACG 2017 Guideline on Abnormal Liver Chemistries',
+  alcohol: 'EASL 2018 Alcohol-related Liver Disease Guideline',
+  obesity: 'WHO BMI Classification',
+  diabetes: 'ADA Standards of Care',
+  metabolic: 'NCEP ATP III',
+  viralHepatitis: 'AASLD/IDSA Viral Hepatitis Guidance'
+};
 
 export interface HepaticRiskResult {
   riskScore: number;
@@ -16,16 +28,18 @@ export interface HepaticRiskResult {
   fibrosisStage?: number;
   riskCategory: 'low' | 'moderate' | 'high' | 'severe';
   recommendations: string[];
+  contributions: RiskContribution[];
 }
 
 /**
  * Calculate comprehensive hepatic risk score
  * Combines multiple validated liver assessment tools
  */
-export function calculateHepaticRisk(healthData: HealthData, model?: any): HepaticRiskResult {
+export function calculateHepaticRisk(healthData: CanonicalHealthData, model?: any): HepaticRiskResult {
   let riskScore = 0;
   const riskFactors: string[] = [];
   const recommendations: string[] = [];
+  const trace = new ContributionTrace('hepatic');
 
   // Calculate individual liver scores
   const meldScore = calculateMELDScore(healthData);
@@ -41,19 +55,19 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
     const altRatio = healthData.alt / altULN;
     
     if (altRatio >= 10) {
-      riskScore += 40;
+      riskScore += trace.add('severe_alt_elevation', 'Severe ALT Elevation (>10x ULN)', 40, { alt: healthData.alt, altRatio }, SOURCES.liverChemistries);
       riskFactors.push('Severe ALT Elevation (>10x ULN)');
       recommendations.push('Immediate hepatology consultation for acute liver injury');
     } else if (altRatio >= 5) {
-      riskScore += 30;
+      riskScore += trace.add('marked_alt_elevation', 'Marked ALT Elevation (5-10x ULN)', 30, { alt: healthData.alt, altRatio }, SOURCES.liverChemistries);
       riskFactors.push('Marked ALT Elevation (5-10x ULN)');
       recommendations.push('Urgent medical evaluation within 24-48 hours');
     } else if (altRatio >= 3) {
-      riskScore += 20;
+      riskScore += trace.add('moderate_alt_elevation', 'Moderate ALT Elevation (3-5x ULN)', 20, { alt: healthData.alt, altRatio }, SOURCES.liverChemistries);
       riskFactors.push('Moderate ALT Elevation (3-5x ULN)');
       recommendations.push('Medical evaluation within 1 week');
     } else if (altRatio >= 1.5) {
-      riskScore += 10;
+      riskScore += trace.add('mild_alt_elevation', 'Mild ALT Elevation', 10, { alt: healthData.alt, altRatio }, SOURCES.liverChemistries);
       riskFactors.push('Mild ALT Elevation');
       recommendations.push('Lifestyle modifications and follow-up in 3 months');
     }
@@ -65,16 +79,16 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
     const astRatio = healthData.ast / astULN;
     
     if (astRatio >= 10) {
-      riskScore += 35;
+      riskScore += trace.add('severe_ast_elevation', 'Severe AST Elevation', 35, { ast: healthData.ast, astRatio }, SOURCES.liverChemistries);
       riskFactors.push('Severe AST Elevation');
     } else if (astRatio >= 5) {
-      riskScore += 25;
+      riskScore += trace.add('marked_ast_elevation', 'Marked AST Elevation', 25, { ast: healthData.ast, astRatio }, SOURCES.liverChemistries);
       riskFactors.push('Marked AST Elevation');
     } else if (astRatio >= 3) {
-      riskScore += 15;
+      riskScore += trace.add('moderate_ast_elevation', 'Moderate AST Elevation', 15, { ast: healthData.ast, astRatio }, SOURCES.liverChemistries);
       riskFactors.push('Moderate AST Elevation');
     } else if (astRatio >= 1.5) {
-      riskScore += 8;
+      riskScore += trace.add('mild_ast_elevation', 'Mild AST Elevation', 8, { ast: healthData.ast, astRatio }, SOURCES.liverChemistries);
       riskFactors.push('Mild AST Elevation');
     }
   }
@@ -83,11 +97,11 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
   if (healthData.ast && healthData.alt) {
     const astAltRatio = healthData.ast / healthData.alt;
     if (astAltRatio >= 2.0) {
-      riskScore += 15;
+      riskScore += trace.add('high_ast_alt_ratio', 'High AST/ALT Ratio (Suggests Alcoholic Liver Disease)', 15, { ast: healthData.ast, alt: healthData.alt, astAltRatio }, SOURCES.liverChemistries);
       riskFactors.push('High AST/ALT Ratio (Suggests Alcoholic Liver Disease)');
       recommendations.push('Alcohol cessation counseling and addiction support');
     } else if (astAltRatio >= 1.5) {
-      riskScore += 8;
+      riskScore += trace.add('elevated_ast_alt_ratio', 'Elevated AST/ALT Ratio', 8, { ast: healthData.ast, alt: healthData.alt, astAltRatio }, SOURCES.liverChemistries);
       riskFactors.push('Elevated AST/ALT Ratio');
     }
   }
@@ -95,19 +109,19 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
   // 4. Bilirubin Assessment
   if (healthData.totalBilirubin) {
     if (healthData.totalBilirubin >= 10.0) {
-      riskScore += 30;
+      riskScore += trace.add('severe_hyperbilirubinemia', 'Severe Hyperbilirubinemia', 30, { totalBilirubin: healthData.totalBilirubin }, SOURCES.liverChemistries);
       riskFactors.push('Severe Hyperbilirubinemia');
       recommendations.push('Emergency evaluation for acute liver failure');
     } else if (healthData.totalBilirubin >= 5.0) {
-      riskScore += 20;
+      riskScore += trace.add('marked_hyperbilirubinemia', 'Marked Hyperbilirubinemia', 20, { totalBilirubin: healthData.totalBilirubin }, SOURCES.liverChemistries);
       riskFactors.push('Marked Hyperbilirubinemia');
       recommendations.push('Urgent hepatology consultation');
     } else if (healthData.totalBilirubin >= 2.0) {
-      riskScore += 12;
+      riskScore += trace.add('moderate_hyperbilirubinemia', 'Moderate Hyperbilirubinemia', 12, { totalBilirubin: healthData.totalBilirubin }, SOURCES.liverChemistries);
       riskFactors.push('Moderate Hyperbilirubinemia');
       recommendations.push('Investigation for biliary obstruction or liver dysfunction');
     } else if (healthData.totalBilirubin >= 1.2) {
-      riskScore += 6;
+      riskScore += trace.add('mild_hyperbilirubinemia', 'Mild Hyperbilirubinemia', 6, { totalBilirubin: healthData.totalBilirubin }, SOURCES.liverChemistries);
       riskFactors.push('Mild Hyperbilirubinemia');
       recommendations.push('Monitor liver function and investigate underlying causes');
     }
@@ -116,15 +130,15 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
   // 5. Albumin Assessment
   if (healthData.albumin) {
     if (healthData.albumin < 2.5) {
-      riskScore += 25;
+      riskScore += trace.add('severe_hypoalbuminemia', 'Severe Hypoalbuminemia', 25, { albumin: healthData.albumin }, SOURCES.liverChemistries);
       riskFactors.push('Severe Hypoalbuminemia');
       recommendations.push('Evaluation for chronic liver disease and nutritional support');
     } else if (healthData.albumin < 3.0) {
-      riskScore += 15;
+      riskScore += trace.add('moderate_hypoalbuminemia', 'Moderate Hypoalbuminemia', 15, { albumin: healthData.albumin }, SOURCES.liverChemistries);
       riskFactors.push('Moderate Hypoalbuminemia');
       recommendations.push('Liver function assessment and nutritional evaluation');
     } else if (healthData.albumin < 3.5) {
-      riskScore += 8;
+      riskScore += trace.add('mild_hypoalbuminemia', 'Mild Hypoalbuminemia', 8, { albumin: healthData.albumin }, SOURCES.liverChemistries);
       riskFactors.push('Mild Hypoalbuminemia');
       recommendations.push('Monitor liver synthetic function');
     }
@@ -136,15 +150,15 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
     const alpRatio = healthData.alkalinePhosphatase / alpULN;
     
     if (alpRatio >= 4) {
-      riskScore += 20;
+      riskScore += trace.add('severe_alkaline_phosphatase_elevation', 'Severe Alkaline Phosphatase Elevation', 20, { alkalinePhosphatase: healthData.alkalinePhosphatase, alpRatio }, SOURCES.liverChemistries);
       riskFactors.push('Severe Alkaline Phosphatase Elevation');
       recommendations.push('Investigation for biliary obstruction or infiltrative liver disease');
     } else if (alpRatio >= 2) {
-      riskScore += 12;
+      riskScore += trace.add('moderate_alkaline_phosphatase_elevation', 'Moderate Alkaline Phosphatase Elevation', 12, { alkalinePhosphatase: healthData.alkalinePhosphatase, alpRatio }, SOURCES.liverChemistries);
       riskFactors.push('Moderate Alkaline Phosphatase Elevation');
       recommendations.push('Hepatobiliary imaging and further evaluation');
     } else if (alpRatio >= 1.5) {
-      riskScore += 6;
+      riskScore += trace.add('mild_alkaline_phosphatase_elevation', 'Mild Alkaline Phosphatase Elevation', 6, { alkalinePhosphatase: healthData.alkalinePhosphatase, alpRatio }, SOURCES.liverChemistries);
       riskFactors.push('Mild Alkaline Phosphatase Elevation');
     }
   }
@@ -155,14 +169,14 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
     const ggtRatio = healthData.ggt / ggtULN;
     
     if (ggtRatio >= 5) {
-      riskScore += 15;
+      riskScore += trace.add('severe_ggt_elevation', 'Severe GGT Elevation', 15, { ggt: healthData.ggt, ggtRatio }, SOURCES.liverChemistries);
       riskFactors.push('Severe GGT Elevation');
       recommendations.push('Alcohol assessment and hepatobiliary evaluation');
     } else if (ggtRatio >= 3) {
-      riskScore += 10;
+      riskScore += trace.add('moderate_ggt_elevation', 'Moderate GGT Elevation', 10, { ggt: healthData.ggt, ggtRatio }, SOURCES.liverChemistries);
       riskFactors.push('Moderate GGT Elevation');
     } else if (ggtRatio >= 2) {
-      riskScore += 5;
+      riskScore += trace.add('mild_ggt_elevation', 'Mild GGT Elevation', 5, { ggt: healthData.ggt, ggtRatio }, SOURCES.liverChemistries);
       riskFactors.push('Mild GGT Elevation');
     }
   }
@@ -170,15 +184,15 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
   // 8. Coagulation Assessment (PT/INR)
   if (healthData.inr) {
     if (healthData.inr >= 2.5) {
-      riskScore += 25;
+      riskScore += trace.add('severe_coagulopathy', 'Severe Coagulopathy', 25, { inr: healthData.inr }, SOURCES.liverChemistries);
       riskFactors.push('Severe Coagulopathy');
       recommendations.push('Evaluation for acute liver failure and coagulation support');
     } else if (healthData.inr >= 1.8) {
-      riskScore += 15;
+      riskScore += trace.add('moderate_coagulopathy', 'Moderate Coagulopathy', 15, { inr: healthData.inr }, SOURCES.liverChemistries);
       riskFactors.push('Moderate Coagulopathy');
       recommendations.push('Liver synthetic function assessment');
     } else if (healthData.inr >= 1.3) {
-      riskScore += 8;
+      riskScore += trace.add('mild_coagulopathy', 'Mild Coagulopathy', 8, { inr: healthData.inr }, SOURCES.liverChemistries);
       riskFactors.push('Mild Coagulopathy');
     }
   }
@@ -186,15 +200,15 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
   // 9. Platelet Count Assessment
   if (healthData.platelets) {
     if (healthData.platelets < 50) {
-      riskScore += 20;
+      riskScore += trace.add('severe_thrombocytopenia', 'Severe Thrombocytopenia', 20, { platelets: healthData.platelets }, SOURCES.liverChemistries);
       riskFactors.push('Severe Thrombocytopenia');
       recommendations.push('Evaluation for portal hypertension and splenomegaly');
     } else if (healthData.platelets < 100) {
-      riskScore += 12;
+      riskScore += trace.add('moderate_thrombocytopenia', 'Moderate Thrombocytopenia', 12, { platelets: healthData.platelets }, SOURCES.liverChemistries);
       riskFactors.push('Moderate Thrombocytopenia');
       recommendations.push('Assessment for chronic liver disease');
     } else if (healthData.platelets < 150) {
-      riskScore += 6;
+      riskScore += trace.add('mild_thrombocytopenia', 'Mild Thrombocytopenia', 6, { platelets: healthData.platelets }, SOURCES.liverChemistries);
       riskFactors.push('Mild Thrombocytopenia');
     }
   }
@@ -202,18 +216,18 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
   // 10. Risk Factors for Liver Disease
 
   // Alcohol consumption
-  if (healthData.alcoholConsumption) {
-    const unitsPerWeek = healthData.alcoholConsumption;
+  if (healthData.alcoholUnitsPerWeek) {
+    const unitsPerWeek = healthData.alcoholUnitsPerWeek;
     if (unitsPerWeek >= 50) {
-      riskScore += 25;
+      riskScore += trace.add('heavy_alcohol_consumption', 'Heavy Alcohol Consumption (>50 units/week)', 25, { alcoholUnitsPerWeek: healthData.alcoholUnitsPerWeek }, SOURCES.alcohol);
       riskFactors.push('Heavy Alcohol Consumption (>50 units/week)');
       recommendations.push('Immediate alcohol cessation and addiction treatment');
     } else if (unitsPerWeek >= 21) {
-      riskScore += 15;
+      riskScore += trace.add('moderate_heavy_alcohol_consumption', 'Moderate-Heavy Alcohol Consumption', 15, { alcoholUnitsPerWeek: healthData.alcoholUnitsPerWeek }, SOURCES.alcohol);
       riskFactors.push('Moderate-Heavy Alcohol Consumption');
       recommendations.push('Alcohol reduction counseling');
     } else if (unitsPerWeek >= 14) {
-      riskScore += 8;
+      riskScore += trace.add('above_recommended_alcohol_consumption', 'Above Recommended Alcohol Consumption', 8, { alcoholUnitsPerWeek: healthData.alcoholUnitsPerWeek }, SOURCES.alcohol);
       riskFactors.push('Above Recommended Alcohol Consumption');
       recommendations.push('Lifestyle modification and alcohol awareness');
     }
@@ -222,54 +236,67 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
   // Obesity and metabolic factors
   if (healthData.bmi) {
     if (healthData.bmi >= 35) {
-      riskScore += 15;
+      riskScore += trace.add('severe_obesity', 'Severe Obesity (BMI ≥35)', 15, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Severe Obesity (BMI ≥35)');
       recommendations.push('Weight loss intervention and NAFLD screening');
     } else if (healthData.bmi >= 30) {
-      riskScore += 10;
+      riskScore += trace.add('obesity', 'Obesity (BMI 30-35)', 10, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Obesity (BMI 30-35)');
       recommendations.push('Weight management and metabolic assessment');
     } else if (healthData.bmi >= 25) {
-      riskScore += 5;
+      riskScore += trace.add('overweight', 'Overweight (BMI 25-30)', 5, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Overweight (BMI 25-30)');
       recommendations.push('Lifestyle modifications for weight control');
     }
   }
 
   // Diabetes
-  if (healthData.glucose >= 126 || healthData.hba1c >= 6.5) {
-    riskScore += 12;
+  if ((healthData.glucose ?? 0) >= 126 || (healthData.hba1c ?? 0) >= 6.5) {
+    riskScore += trace.add('diabetes_mellitus', 'Diabetes Mellitus', 12, { glucose: healthData.glucose, hba1c: healthData.hba1c }, SOURCES.diabetes);
     riskFactors.push('Diabetes Mellitus');
     recommendations.push('Optimal diabetes control and NAFLD monitoring');
   }
 
   // Metabolic syndrome components
-  if (healthData.triglycerides >= 150) {
-    riskScore += 6;
+  if ((healthData.triglycerides ?? 0) >= 150) {
+    riskScore += trace.add('hypertriglyceridemia', 'Hypertriglyceridemia', 6, { triglycerides: healthData.triglycerides }, SOURCES.metabolic);
     riskFactors.push('Hypertriglyceridemia');
     recommendations.push('Lipid management and metabolic syndrome evaluation');
   }
 
   // Viral hepatitis risk factors
   if (healthData.hepatitisBSurface || healthData.hepatitisCRNA) {
-    riskScore += 30;
+    riskScore += trace.add('chronic_viral_hepatitis', 'Chronic Viral Hepatitis', 30, { hepatitisBSurface: healthData.hepatitisBSurface, hepatitisCRNA: healthData.hepatitisCRNA }, SOURCES.viralHepatitis);
     riskFactors.push('Chronic Viral Hepatitis');
     recommendations.push('Antiviral therapy evaluation and hepatology follow-up');
   }
 
+  // Trajectory across earlier measurements
+  if (hasAlarmingTrend(healthData.trends, 'alt')) {
+    riskScore += trace.add('rising_liver_enzymes', 'Rising Liver Enzymes', 8, { altPerYear: healthData.trends?.alt });
+    riskFactors.push('Rising Liver Enzymes');
+    recommendations.push('Repeat liver function tests to follow the rising ALT');
+  }
+
+  if (hasAlarmingTrend(healthData.trends, 'weight')) {
+    riskScore += trace.add('rapid_weight_gain', 'Rapid Weight Gain', 4, { weightPerYear: healthData.trends?.weight });
+    riskFactors.push('Rapid Weight Gain');
+    recommendations.push('Weight management to prevent fatty liver disease');
+  }
+
   // Apply AI model prediction if available
   if (model) {
     try {
       const aiPrediction = predictHepaticRiskWithAI(healthData, model);
       // Combine traditional risk score (70%) with AI prediction (30%)
-      riskScore = riskScore * 0.7 + aiPrediction * 0.3;
+      riskScore = trace.adjust('ai_model_blend', 'AI Model Adjustment', riskScore, riskScore * 0.7 + aiPrediction * 0.3);
     } catch (error) {
       console.warn('[HepaticAnalysis] AI prediction failed, using traditional algorithms only');
     }
   }
 
   // Ensure score is within bounds
-  riskScore = Math.min(100, Math.max(0, riskScore));
+  riskScore = trace.adjust('score_bounds', 'Score Limit (0-100)', riskScore, Math.min(100, Math.max(0, riskScore)));
 
   // Determine risk category
   let riskCategory: 'low' | 'moderate' | 'high' | 'severe';
@@ -307,14 +334,15 @@ export function calculateHepaticRisk(healthData: HealthData, model?: any): Hepat
     nafldRisk,
     fibrosisStage,
     riskCategory,
-    recommendations: [...new Set(recommendations)]
+    recommendations: [...new Set(recommendations)],
+    contributions: trace.toArray()
   };
 }
 
 /**
  * Calculate MELD Score (Model for End-Stage Liver Disease)
  */
-function calculateMELDScore(healthData: HealthData): number {
+function calculateMELDScore(healthData: CanonicalHealthData): number {
   if (!healthData.totalBilirubin || !healthData.inr || !healthData.creatinine) {
     return 0;
   }
@@ -331,7 +359,7 @@ function calculateMELDScore(healthData: HealthData): number {
 /**
  * Calculate Child-Pugh Score
  */
-function calculateChildPughScore(healthData: HealthData): { score: number; class: 'A' | 'B' | 'C' } {
+function calculateChildPughScore(healthData: CanonicalHealthData): { score: number; class: 'A' | 'B' | 'C' } {
   let score = 0;
 
   // Bilirubin (mg/dL)
@@ -372,7 +400,7 @@ function calculateChildPughScore(healthData: HealthData): { score: number; class
 /**
  * Calculate NAFLD (Non-Alcoholic Fatty Liver Disease) Risk
  */
-function calculateNAFLDRisk(healthData: HealthData): number {
+function calculateNAFLDRisk(healthData: CanonicalHealthData): number {
   let nafldScore = 0;
 
   // Age factor
@@ -380,19 +408,19 @@ function calculateNAFLDRisk(healthData: HealthData): number {
   else if (healthData.age >= 40) nafldScore += 1;
 
   // BMI factor
-  if (healthData.bmi >= 35) nafldScore += 3;
-  else if (healthData.bmi >= 30) nafldScore += 2;
-  else if (healthData.bmi >= 25) nafldScore += 1;
+  if ((healthData.bmi ?? 0) >= 35) nafldScore += 3;
+  else if ((healthData.bmi ?? 0) >= 30) nafldScore += 2;
+  else if ((healthData.bmi ?? 0) >= 25) nafldScore += 1;
 
   // Diabetes
-  if (healthData.glucose >= 126 || healthData.hba1c >= 6.5) nafldScore += 2;
+  if ((healthData.glucose ?? 0) >= 126 || (healthData.hba1c ?? 0) >= 6.5) nafldScore += 2;
 
   // Metabolic factors
-  if (healthData.triglycerides >= 150) nafldScore += 1;
-  if (healthData.hdlCholesterol < 40) nafldScore += 1;
+  if ((healthData.triglycerides ?? 0) >= 150) nafldScore += 1;
+  if (healthData.hdlCholesterol !== undefined && healthData.hdlCholesterol < 40) nafldScore += 1;
 
   // Hypertension
-  if (healthData.bloodPressureSystolic >= 130 || healthData.bloodPressureDiastolic >= 85) {
+  if ((healthData.bloodPressureSystolic ?? 0) >= 130 || (healthData.bloodPressureDiastolic ?? 0) >= 85) {
     nafldScore += 1;
   }
 
@@ -403,7 +431,7 @@ function calculateNAFLDRisk(healthData: HealthData): number {
 /**
  * Estimate Fibrosis Stage using non-invasive markers
  */
-function estimateFibrosisStage(healthData: HealthData): number {
+function estimateFibrosisStage(healthData: CanonicalHealthData): number {
   // Simplified fibrosis estimation based on available markers
   let fibrosisScore = 0;
 
@@ -435,7 +463,7 @@ function estimateFibrosisStage(healthData: HealthData): number {
 /**
  * AI-based hepatic risk prediction
  */
-function predictHepaticRiskWithAI(healthData: HealthData, model: any): number {
+function predictHepaticRiskWithAI(healthData: CanonicalHealthData, model: any): number {
   // Mock AI prediction based on key hepatic factors
   const features = [
     healthData.alt || 25,
@@ -447,7 +475,7 @@ function predictHepaticRiskWithAI(healthData: HealthData, model: any): number {
     healthData.platelets || 250,
     healthData.bmi || 25,
     healthData.age || 40,
-    healthData.alcoholConsumption || 0
+    healthData.alcoholUnitsPerWeek || 0
   ];
 
   // Normalize features
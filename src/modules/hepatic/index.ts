@@ -3,9 +3,62 @@
  * Advanced liver function analysis and disease risk assessment algorithms
  */
 
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { BaseOrganModule, ModuleEvaluation, ModuleInputSpec } from '../shared/BaseOrganModule';
+import { calculateHepaticRisk } from './hepaticAnalysis';
+
 export { calculateHepaticRisk, generateHepaticInsights } from './hepaticAnalysis';
 export type { HepaticRiskResult } from './hepaticAnalysis';
 
+export class HepaticModule extends BaseOrganModule {
+  id = 'hepatic';
+  name = 'Hepatic System';
+  description = 'Analyzes liver function and hepatic disease risk.';
+  protected thresholds = { moderate: 30, high: 60, critical: 80 };
+  protected baseConfidence = 0.84;
+  protected inputs: ModuleInputSpec[] = [
+    { field: 'age', weight: 1, required: true },
+    { field: 'alt', weight: 3, test: 'Liver function panel' },
+    { field: 'ast', weight: 3, test: 'Liver function panel' },
+    { field: 'totalBilirubin', weight: 2, test: 'Liver function panel' },
+    { field: 'albumin', weight: 2, test: 'Liver function panel' },
+    { field: 'alkalinePhosphatase', weight: 1, test: 'Liver function panel' },
+    { field: 'ggt', weight: 1, test: 'Liver function panel' },
+    { field: 'inr', weight: 2, test: 'Coagulation test (INR)' },
+    { field: 'platelets', weight: 2, test: 'Complete blood count' },
+    { field: 'creatinine', weight: 1, test: 'Serum creatinine' },
+    { field: 'bmi', weight: 1, test: 'Height and weight' },
+    { field: 'glucose', weight: 1, test: 'Fasting glucose' },
+    { field: 'triglycerides', weight: 1, test: 'Lipid panel' },
+    { field: 'alcoholUnitsPerWeek', weight: 2, test: 'Alcohol intake questionnaire' }
+  ];
+
+  protected evaluate(healthData: CanonicalHealthData): ModuleEvaluation {
+    // Calculate risk score using validated liver scores and AI model
+    const result = calculateHepaticRisk(healthData, this.model);
+    const riskLevel = this.determineRiskLevel(result.riskScore);
+
+    return {
+      moduleId: this.id,
+      riskScore: result.riskScore,
+      riskLevel,
+      riskFactors: this.toRiskFactors(result.riskFactors, riskLevel),
+      contributions: result.contributions,
+      recommendations: this.toRecommendations(result.recommendations, riskLevel),
+      timestamp: Date.now(),
+      processingTime: 0, // Will be calculated by the engine
+      organSpecificData: {
+        meldScore: result.meldScore,
+        childPughScore: result.childPughScore,
+        childPughClass: result.childPughClass,
+        nafldRisk: result.nafldRisk,
+        fibrosisStage: result.fibrosisStage,
+        riskCategory: result.riskCategory
+      }
+    };
+  }
+}
+
 // Module metadata
 export const hepaticModule = {
   name: 'Hepatic Analysis',
@@ -30,3 +83,4 @@ export const hepaticModule = {
   ]
 };
 
+export default new HepaticModule();
@@ -3,35 +3,35 @@
  * Analyzes muscle and bone health, predicts risks related to mobility and posture.
  */
 
-import { OrganModule, HealthData, PredictionResult } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { BaseOrganModule, ModuleEvaluation, ModuleInputSpec } from '../shared/BaseOrganModule';
 import { calculateMusculoskeletalRisk } from './musculoskeletalAnalysis';
-import { loadMusculoskeletalModel } from './musculoskeletalModel';
 
-export class MusculoskeletalModule implements OrganModule {
+export class MusculoskeletalModule extends BaseOrganModule {
   id = 'musculoskeletal';
   name = 'Musculoskeletal System';
   description = 'Analyzes muscle strength, bone health, and mobility.';
-  model: any = null; // Placeholder for TensorFlow.js model
+  protected thresholds = { moderate: 25, high: 55 };
+  protected baseConfidence = 0.83;
+  protected inputs: ModuleInputSpec[] = [
+    { field: 'age', weight: 3, required: true },
+    { field: 'sex', weight: 1, required: true },
+    { field: 'boneDensity', weight: 4, test: 'Bone density scan (DEXA)' },
+    { field: 'vitaminD', weight: 2, test: 'Vitamin D' },
+    { field: 'calciumIntake', weight: 1, test: 'Nutrition questionnaire' },
+    { field: 'proteinIntake', weight: 1, test: 'Nutrition questionnaire' },
+    { field: 'bmi', weight: 2, test: 'Height and weight' },
+    { field: 'physicalActivity', weight: 2, test: 'Lifestyle questionnaire' },
+    { field: 'smoking', weight: 1, test: 'Smoking history' },
+    { field: 'alcohol', weight: 1, test: 'Alcohol intake questionnaire' },
+    { field: 'familyHistory', weight: 1, test: 'Family history' }
+  ];
 
-  async initialize(): Promise<void> {
-    // Load the TensorFlow.js model for musculoskeletal analysis
-    // this.model = await loadMusculoskeletalModel();
-    console.log('[MusculoskeletalModule] Initialized');
-  }
-
-  async analyze(healthData: HealthData): Promise<PredictionResult> {
+  protected evaluate(healthData: CanonicalHealthData): ModuleEvaluation {
     // Calculate risk score using traditional algorithms and AI model
-    const { riskScore, riskFactors } = calculateMusculoskeletalRisk(healthData, this.model);
+    const { riskScore, riskFactors, contributions } = calculateMusculoskeletalRisk(healthData, this.model);
     
-    // Determine risk level based on score
-    let riskLevel: 'low' | 'moderate' | 'high';
-    if (riskScore < 25) {
-      riskLevel = 'low';
-    } else if (riskScore < 55) {
-      riskLevel = 'moderate';
-    } else {
-      riskLevel = 'high';
-    }
+    const riskLevel = this.determineRiskLevel(riskScore);
 
     // Generate recommendations based on risk factors
     const recommendations = this.generateRecommendations(riskFactors);
@@ -40,9 +40,9 @@ export class MusculoskeletalModule implements OrganModule {
       moduleId: this.id,
       riskScore,
       riskLevel,
-      confidence: 0.83, // Example confidence score
-      riskFactors,
-      recommendations,
+      riskFactors: this.toRiskFactors(riskFactors, riskLevel),
+      contributions,
+      recommendations: this.toRecommendations(recommendations, riskLevel),
       timestamp: Date.now(),
       processingTime: 0 // Will be calculated by the engine
     };
@@ -90,12 +90,6 @@ export class MusculoskeletalModule implements OrganModule {
 
     return recommendations;
   }
-
-  destroy(): void {
-    // Cleanup resources if needed
-    this.model = null;
-    console.log('[MusculoskeletalModule] Destroyed');
-  }
 }
 
 export default new MusculoskeletalModule();
@@ -3,7 +3,18 @@
  * Medical algorithms for muscle, bone, and joint health assessment.
  */
 
-import { HealthData } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { RiskContribution } from '../../core/types/core';
+import { hasAlarmingTrend } from '../../core/timeline/trendRules';
+import { ContributionTrace } from '../shared/ContributionTrace';
+
+const SOURCES = {
+  osteoporosis: 'BHOF Clinician\'s Guide to Osteoporosis (FRAX risk factors)',
+  sarcopenia: 'EWGSOP2 Sarcopenia Consensus',
+  activity: 'WHO 2020 Physical Activity Guidelines',
+  nutrition: 'IOM 2011 Dietary Reference Intakes for Calcium and Vitamin D',
+  obesity: 'WHO BMI Classification'
+};
 
 export interface MusculoskeletalRiskResult {
   riskScore: number;
@@ -13,14 +24,16 @@ export interface MusculoskeletalRiskResult {
   mobilityScore?: number; // Mobility and flexibility score (0-100)
   osteoporosisRisk?: number; // Osteoporosis risk percentage
   fractureRisk?: number; // Fracture risk percentage
+  contributions: RiskContribution[];
 }
 
 /**
  * Calculate musculoskeletal risk score based on medical guidelines
  */
-export function calculateMusculoskeletalRisk(healthData: HealthData, model?: any): MusculoskeletalRiskResult {
+export function calculateMusculoskeletalRisk(healthData: CanonicalHealthData, model?: any): MusculoskeletalRiskResult {
   let riskScore = 0;
   const riskFactors: string[] = [];
+  const trace = new ContributionTrace('musculoskeletal');
 
   // Calculate specific assessments
   const boneHealth = calculateBoneHealth(healthData);
@@ -34,155 +47,161 @@ export function calculateMusculoskeletalRisk(healthData: HealthData, model?: any
   // 1. Age factor (significant for bone and muscle health)
   if (healthData.age) {
     if (healthData.age >= 70) {
-      riskScore += 20;
+      riskScore += trace.add('advanced_age', 'Advanced Age', 20, { age: healthData.age }, SOURCES.osteoporosis);
       riskFactors.push('Advanced Age');
     } else if (healthData.age >= 60) {
-      riskScore += 12;
+      riskScore += trace.add('age_factor', 'Age Factor', 12, { age: healthData.age }, SOURCES.osteoporosis);
       riskFactors.push('Age Factor');
     } else if (healthData.age >= 50) {
-      riskScore += 6;
+      riskScore += trace.add('age_50_59', 'Age 50-59', 6, { age: healthData.age }, SOURCES.osteoporosis);
     }
   }
 
   // 2. Gender factor (especially for osteoporosis)
   if (healthData.sex === 'female' && healthData.age && healthData.age >= 50) {
-    riskScore += 8;
+    riskScore += trace.add('postmenopausal_risk', 'Postmenopausal Risk', 8, { sex: healthData.sex, age: healthData.age }, SOURCES.osteoporosis);
     riskFactors.push('Postmenopausal Risk');
   }
 
   // 3. Bone health assessment
   if (boneHealth < 70) {
-    riskScore += 15;
+    riskScore += trace.add('low_bone_density', 'Low Bone Density', 15, { boneHealth }, SOURCES.osteoporosis);
     riskFactors.push('Low Bone Density');
     
     if (boneHealth < 50) {
-      riskScore += 10;
+      riskScore += trace.add('osteoporosis_risk', 'Osteoporosis Risk', 10, { boneHealth }, SOURCES.osteoporosis);
       riskFactors.push('Osteoporosis Risk');
     }
   }
 
   // 4. Muscle strength assessment
   if (muscleStrength < 70) {
-    riskScore += 12;
+    riskScore += trace.add('muscle_weakness', 'Muscle Weakness', 12, { muscleStrength }, SOURCES.sarcopenia);
     riskFactors.push('Muscle Weakness');
     
     if (muscleStrength < 50) {
-      riskScore += 8;
+      riskScore += trace.add('sarcopenia_risk', 'Sarcopenia Risk', 8, { muscleStrength }, SOURCES.sarcopenia);
       riskFactors.push('Sarcopenia Risk');
     }
   }
 
   // 5. Mobility and flexibility
   if (mobilityScore < 70) {
-    riskScore += 10;
+    riskScore += trace.add('joint_stiffness', 'Joint Stiffness', 10, { mobilityScore });
     riskFactors.push('Joint Stiffness');
     
     if (mobilityScore < 50) {
-      riskScore += 8;
+      riskScore += trace.add('mobility_impairment', 'Mobility Impairment', 8, { mobilityScore });
       riskFactors.push('Mobility Impairment');
     }
   }
 
   // 6. Physical activity level
   if (healthData.physicalActivity === 'sedentary') {
-    riskScore += 15;
+    riskScore += trace.add('low_physical_activity', 'Low Physical Activity', 15, { physicalActivity: healthData.physicalActivity }, SOURCES.activity);
     riskFactors.push('Low Physical Activity');
   } else if (healthData.physicalActivity === 'light') {
-    riskScore += 8;
+    riskScore += trace.add('light_physical_activity', 'Light Physical Activity', 8, { physicalActivity: healthData.physicalActivity }, SOURCES.activity);
   }
 
   // 7. BMI factors
   if (healthData.bmi) {
     if (healthData.bmi < 18.5) {
-      riskScore += 10;
+      riskScore += trace.add('underweight', 'Underweight', 10, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Underweight');
     } else if (healthData.bmi >= 30) {
-      riskScore += 8;
+      riskScore += trace.add('obesity', 'Obesity', 8, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Obesity');
     }
   }
 
   // 8. Nutritional factors
   if (healthData.calciumIntake && healthData.calciumIntake < 800) { // mg/day
-    riskScore += 8;
+    riskScore += trace.add('low_calcium_intake', 'Low Calcium Intake', 8, { calciumIntake: healthData.calciumIntake }, SOURCES.nutrition);
     riskFactors.push('Low Calcium Intake');
   }
 
   if (healthData.vitaminD && healthData.vitaminD < 20) { // ng/mL
-    riskScore += 10;
+    riskScore += trace.add('vitamin_d_deficiency', 'Vitamin D Deficiency', 10, { vitaminD: healthData.vitaminD }, SOURCES.nutrition);
     riskFactors.push('Vitamin D Deficiency');
   }
 
   // 9. Lifestyle factors
   if (healthData.smoking) {
-    riskScore += 8;
+    riskScore += trace.add('smoking', 'Smoking', 8, { smoking: healthData.smoking }, SOURCES.osteoporosis);
     riskFactors.push('Smoking');
   }
 
   if (healthData.alcohol === 'heavy') {
-    riskScore += 6;
+    riskScore += trace.add('heavy_alcohol_use', 'Heavy Alcohol Use', 6, { alcohol: healthData.alcohol }, SOURCES.osteoporosis);
     riskFactors.push('Heavy Alcohol Use');
   }
 
   // 10. Medical history
   if (healthData.previousFractures) {
-    riskScore += 12;
+    riskScore += trace.add('previous_fractures', 'Previous Fractures', 12, { previousFractures: healthData.previousFractures }, SOURCES.osteoporosis);
     riskFactors.push('Previous Fractures');
   }
 
   if (healthData.arthritis) {
-    riskScore += 10;
+    riskScore += trace.add('arthritis', 'Arthritis', 10, { arthritis: healthData.arthritis });
     riskFactors.push('Arthritis');
   }
 
   if (healthData.osteoporosis) {
-    riskScore += 20;
+    riskScore += trace.add('osteoporosis', 'Osteoporosis', 20, { osteoporosis: healthData.osteoporosis }, SOURCES.osteoporosis);
     riskFactors.push('Osteoporosis');
   }
 
   // 11. Hormonal factors
   if (healthData.menopause && healthData.sex === 'female') {
-    riskScore += 10;
+    riskScore += trace.add('menopause', 'Menopause', 10, { menopause: healthData.menopause, sex: healthData.sex }, SOURCES.osteoporosis);
     riskFactors.push('Menopause');
   }
 
   if (healthData.lowTestosterone && healthData.sex === 'male') {
-    riskScore += 8;
+    riskScore += trace.add('low_testosterone', 'Low Testosterone', 8, { lowTestosterone: healthData.lowTestosterone, sex: healthData.sex }, SOURCES.osteoporosis);
     riskFactors.push('Low Testosterone');
   }
 
   // 12. Medications
   if (healthData.corticosteroids) {
-    riskScore += 12;
+    riskScore += trace.add('corticosteroid_use', 'Corticosteroid Use', 12, { corticosteroids: healthData.corticosteroids }, SOURCES.osteoporosis);
     riskFactors.push('Corticosteroid Use');
   }
 
   // 13. Family history
   if (healthData.familyHistory?.includes('osteoporosis') || 
       healthData.familyHistory?.includes('fractures')) {
-    riskScore += 8;
+    riskScore += trace.add('family_history', 'Family History', 8, { familyHistory: healthData.familyHistory?.join(', ') }, SOURCES.osteoporosis);
     riskFactors.push('Family History');
   }
 
   // 14. Posture assessment
   if (healthData.posture === 'poor') {
-    riskScore += 8;
+    riskScore += trace.add('poor_posture', 'Poor Posture', 8, { posture: healthData.posture });
     riskFactors.push('Poor Posture');
   }
 
+  // 15. Trajectory across earlier measurements
+  if (hasAlarmingTrend(healthData.trends, 'boneDensity')) {
+    riskScore += trace.add('declining_bone_density', 'Declining Bone Density', 10, { boneDensityPerYear: healthData.trends?.boneDensity });
+    riskFactors.push('Declining Bone Density');
+  }
+
   // Apply AI model prediction if available
   if (model) {
     try {
       const aiPrediction = predictWithAI(healthData, model);
       // Combine traditional risk score (75%) with AI prediction (25%)
-      riskScore = riskScore * 0.75 + aiPrediction * 0.25;
+      riskScore = trace.adjust('ai_model_blend', 'AI Model Adjustment', riskScore, riskScore * 0.75 + aiPrediction * 0.25);
     } catch (error) {
       console.warn('[MusculoskeletalAnalysis] AI prediction failed, using traditional algorithm only');
     }
   }
 
   // Ensure score is within bounds
-  riskScore = Math.min(100, Math.max(0, riskScore));
+  riskScore = trace.adjust('score_bounds', 'Score Limit (0-100)', riskScore, Math.min(100, Math.max(0, riskScore)));
 
   return {
     riskScore: Math.round(riskScore),
@@ -191,14 +210,15 @@ export function calculateMusculoskeletalRisk(healthData: HealthData, model?: any
     muscleStrength: Math.round(muscleStrength),
     mobilityScore: Math.round(mobilityScore),
     osteoporosisRisk: Math.round(osteoporosisRisk),
-    fractureRisk: Math.round(fractureRisk)
+    fractureRisk: Math.round(fractureRisk),
+    contributions: trace.toArray()
   };
 }
 
 /**
  * Calculate bone health score
  */
-function calculateBoneHealth(healthData: HealthData): number {
+function calculateBoneHealth(healthData: CanonicalHealthData): number {
   let boneHealth = 100; // Start with perfect score
 
   // Age-related bone loss
@@ -257,7 +277,7 @@ function calculateBoneHealth(healthData: HealthData): number {
 /**
  * Calculate muscle strength score
  */
-function calculateMuscleStrength(healthData: HealthData): number {
+function calculateMuscleStrength(healthData: CanonicalHealthData): number {
   let muscleStrength = 100; // Start with perfect score
 
   // Age-related muscle loss (sarcopenia)
@@ -310,7 +330,7 @@ function calculateMuscleStrength(healthData: HealthData): number {
 /**
  * Calculate mobility and flexibility score
  */
-function calculateMobilityScore(healthData: HealthData): number {
+function calculateMobilityScore(healthData: CanonicalHealthData): number {
   let mobilityScore = 100; // Start with perfect score
 
   // Age impact
@@ -359,7 +379,7 @@ function calculateMobilityScore(healthData: HealthData): number {
 /**
  * Calculate osteoporosis risk using established factors
  */
-function calculateOsteoporosisRisk(healthData: HealthData): number {
+function calculateOsteoporosisRisk(healthData: CanonicalHealthData): number {
   let osteoporosisRisk = 0;
 
   // Age factor
@@ -415,7 +435,7 @@ function calculateOsteoporosisRisk(healthData: HealthData): number {
 /**
  * Calculate fracture risk using FRAX-like algorithm
  */
-function calculateFractureRisk(healthData: HealthData): number {
+function calculateFractureRisk(healthData: CanonicalHealthData): number {
   let fractureRisk = 0;
 
   // Age factor
@@ -466,7 +486,7 @@ function calculateFractureRisk(healthData: HealthData): number {
 /**
  * AI-based prediction (placeholder for TensorFlow.js model)
  */
-function predictWithAI(healthData: HealthData, model: any): number {
+function predictWithAI(healthData: CanonicalHealthData, model: any): number {
   // This would use the actual TensorFlow.js model
   // For now, return a mock prediction based on key factors
   
@@ -3,35 +3,37 @@
  * Analyzes brain function and predicts risks related to neurological health.
  */
 
-import { OrganModule, HealthData, PredictionResult } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { BaseOrganModule, ModuleEvaluation, ModuleInputSpec } from '../shared/BaseOrganModule';
 import { calculateNeurologicalRisk } from './neurologicalAnalysis';
-import { loadNeurologicalModel } from './neurologicalModel';
 
-export class NeurologicalModule implements OrganModule {
+export class NeurologicalModule extends BaseOrganModule {
   id = 'neurological';
   name = 'Neurological System';
   description = 'Analyzes brain function and cognitive health.';
-  model: any = null; // Placeholder for TensorFlow.js model
+  protected thresholds = { moderate: 20, high: 50 };
+  protected baseConfidence = 0.78;
+  protected inputs: ModuleInputSpec[] = [
+    { field: 'age', weight: 3, required: true },
+    { field: 'bloodPressureSystolic', weight: 2, test: 'Blood pressure measurement' },
+    { field: 'bloodPressureDiastolic', weight: 1, test: 'Blood pressure measurement' },
+    { field: 'totalCholesterol', weight: 1, test: 'Lipid panel' },
+    { field: 'glucose', weight: 2, test: 'Fasting glucose' },
+    { field: 'sleepHours', weight: 2, test: 'Sleep questionnaire' },
+    { field: 'physicalActivity', weight: 2, test: 'Lifestyle questionnaire' },
+    { field: 'smoking', weight: 1, test: 'Smoking history' },
+    { field: 'alcohol', weight: 1, test: 'Alcohol intake questionnaire' },
+    { field: 'stress', weight: 1, test: 'Mental health questionnaire' },
+    { field: 'education', weight: 1, test: 'Social history' },
+    { field: 'socialIsolation', weight: 1, test: 'Social history' },
+    { field: 'familyHistory', weight: 1, test: 'Family history' }
+  ];
 
-  async initialize(): Promise<void> {
-    // Load the TensorFlow.js model for neurological analysis
-    // this.model = await loadNeurologicalModel();
-    console.log('[NeurologicalModule] Initialized');
-  }
-
-  async analyze(healthData: HealthData): Promise<PredictionResult> {
+  protected evaluate(healthData: CanonicalHealthData): ModuleEvaluation {
     // Calculate risk score using traditional algorithms and AI model
-    const { riskScore, riskFactors } = calculateNeurologicalRisk(healthData, this.model);
+    const { riskScore, riskFactors, contributions } = calculateNeurologicalRisk(healthData, this.model);
     
-    // Determine risk level based on score
-    let riskLevel: 'low' | 'moderate' | 'high';
-    if (riskScore < 20) {
-      riskLevel = 'low';
-    } else if (riskScore < 50) {
-      riskLevel = 'moderate';
-    } else {
-      riskLevel = 'high';
-    }
+    const riskLevel = this.determineRiskLevel(riskScore);
 
     // Generate recommendations based on risk factors
     const recommendations = this.generateRecommendations(riskFactors);
@@ -40,9 +42,9 @@ export class NeurologicalModule implements OrganModule {
       moduleId: this.id,
       riskScore,
       riskLevel,
-      confidence: 0.78, // Example confidence score
-      riskFactors,
-      recommendations,
+      riskFactors: this.toRiskFactors(riskFactors, riskLevel),
+      contributions,
+      recommendations: this.toRecommendations(recommendations, riskLevel),
       timestamp: Date.now(),
       processingTime: 0 // Will be calculated by the engine
     };
@@ -90,12 +92,6 @@ export class NeurologicalModule implements OrganModule {
 
     return recommendations;
   }
-
-  destroy(): void {
-    // Cleanup resources if needed
-    this.model = null;
-    console.log('[NeurologicalModule] Destroyed');
-  }
 }
 
 export default new NeurologicalModule();
@@ -3,7 +3,18 @@
  * Medical algorithms for brain function assessment and neurological risk prediction.
  */
 
-import { HealthData } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { RiskContribution } from '../../core/types/core';
+import { hasAlarmingTrend } from '../../core/timeline/trendRules';
+import { ContributionTrace } from '../shared/ContributionTrace';
+
+const SOURCES = {
+  dementia: 'Lancet Commission 2020 on Dementia Prevention',
+  hypertension: 'ACC/AHA 2017 Hypertension Guideline',
+  diabetes: 'ADA Standards of Care',
+  lipids: 'NCEP ATP III',
+  sleep: 'AASM Clinical Practice Guidelines'
+};
 
 export interface NeurologicalRiskResult {
   riskScore: number;
@@ -12,14 +23,16 @@ export interface NeurologicalRiskResult {
   strokeRisk?: number; // Stroke risk percentage
   dementiaRisk?: number; // Dementia risk percentage
   depressionRisk?: number; // Depression risk percentage
+  contributions: RiskContribution[];
 }
 
 /**
  * Calculate neurological risk score based on medical guidelines
  */
-export function calculateNeurologicalRisk(healthData: HealthData, model?: any): NeurologicalRiskResult {
+export function calculateNeurologicalRisk(healthData: CanonicalHealthData, model?: any): NeurologicalRiskResult {
   let riskScore = 0;
   const riskFactors: string[] = [];
+  const trace = new ContributionTrace('neurological');
 
   // Calculate specific risk assessments
   const cognitiveScore = calculateCognitiveScore(healthData);
@@ -32,13 +45,13 @@ export function calculateNeurologicalRisk(healthData: HealthData, model?: any):
   // 1. Age factor (most significant for neurological health)
   if (healthData.age) {
     if (healthData.age >= 75) {
-      riskScore += 25;
+      riskScore += trace.add('advanced_age', 'Advanced Age', 25, { age: healthData.age }, SOURCES.dementia);
       riskFactors.push('Advanced Age');
     } else if (healthData.age >= 65) {
-      riskScore += 15;
+      riskScore += trace.add('age_factor', 'Age Factor', 15, { age: healthData.age }, SOURCES.dementia);
       riskFactors.push('Age Factor');
     } else if (healthData.age >= 50) {
-      riskScore += 5;
+      riskScore += trace.add('age_50_64', 'Age 50-64', 5, { age: healthData.age }, SOURCES.dementia);
     }
   }
 
@@ -48,11 +61,11 @@ export function calculateNeurologicalRisk(healthData: HealthData, model?: any):
     const diastolic = healthData.bloodPressureDiastolic;
     
     if (systolic >= 140 || diastolic >= 90) {
-      riskScore += 12;
+      riskScore += trace.add('high_blood_pressure', 'High Blood Pressure', 12, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
       riskFactors.push('High Blood Pressure');
       
       if (systolic >= 160 || diastolic >= 100) {
-        riskScore += 8;
+        riskScore += trace.add('severe_hypertension', 'Severe Hypertension', 8, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
         riskFactors.push('Severe Hypertension');
       }
     }
@@ -61,74 +74,74 @@ export function calculateNeurologicalRisk(healthData: HealthData, model?: any):
   // 3. Diabetes and metabolic factors
   if (healthData.glucose) {
     if (healthData.glucose >= 126) {
-      riskScore += 15;
+      riskScore += trace.add('diabetes_risk', 'Diabetes Risk', 15, { glucose: healthData.glucose }, SOURCES.diabetes);
       riskFactors.push('Diabetes Risk');
     } else if (healthData.glucose >= 100) {
-      riskScore += 8;
+      riskScore += trace.add('pre_diabetes', 'Pre-diabetes', 8, { glucose: healthData.glucose }, SOURCES.diabetes);
       riskFactors.push('Pre-diabetes');
     }
   }
 
   // 4. Cholesterol levels
-  if (healthData.cholesterol) {
-    if (healthData.cholesterol >= 240) {
-      riskScore += 10;
+  if (healthData.totalCholesterol) {
+    if (healthData.totalCholesterol >= 240) {
+      riskScore += trace.add('high_cholesterol', 'High Cholesterol', 10, { totalCholesterol: healthData.totalCholesterol }, SOURCES.lipids);
       riskFactors.push('High Cholesterol');
     }
   }
 
   // 5. Lifestyle factors
   if (healthData.smoking) {
-    riskScore += 12;
+    riskScore += trace.add('smoking', 'Smoking', 12, { smoking: healthData.smoking }, SOURCES.dementia);
     riskFactors.push('Smoking');
   }
 
   if (healthData.physicalActivity === 'sedentary') {
-    riskScore += 10;
+    riskScore += trace.add('low_physical_activity', 'Low Physical Activity', 10, { physicalActivity: healthData.physicalActivity }, SOURCES.dementia);
     riskFactors.push('Low Physical Activity');
   }
 
   if (healthData.alcohol === 'heavy') {
-    riskScore += 8;
+    riskScore += trace.add('heavy_alcohol_use', 'Heavy Alcohol Use', 8, { alcohol: healthData.alcohol }, SOURCES.dementia);
     riskFactors.push('Heavy Alcohol Use');
   }
 
   // 6. Sleep factors
   if (healthData.sleepHours && healthData.sleepHours < 6) {
-    riskScore += 8;
+    riskScore += trace.add('poor_sleep', 'Poor Sleep', 8, { sleepHours: healthData.sleepHours }, SOURCES.sleep);
     riskFactors.push('Poor Sleep');
   }
 
   if (healthData.sleepApnea) {
-    riskScore += 10;
+    riskScore += trace.add('sleep_apnea', 'Sleep Apnea', 10, { sleepApnea: healthData.sleepApnea }, SOURCES.sleep);
     riskFactors.push('Sleep Apnea');
   }
 
   // 7. Mental health factors
   if (healthData.depression) {
-    riskScore += 12;
+    riskScore += trace.add('depression', 'Depression', 12, { depression: healthData.depression }, SOURCES.dementia);
     riskFactors.push('Depression');
   }
 
   if (healthData.anxiety) {
-    riskScore += 6;
+    riskScore += trace.add('anxiety', 'Anxiety', 6, { anxiety: healthData.anxiety });
     riskFactors.push('Anxiety');
   }
 
   if (healthData.stress === 'high') {
-    riskScore += 8;
+    riskScore += trace.add('high_stress', 'High Stress', 8, { stress: healthData.stress });
     riskFactors.push('High Stress');
   }
 
   // 8. Social factors
   if (healthData.socialIsolation) {
-    riskScore += 8;
+    riskScore += trace.add('social_isolation', 'Social Isolation', 8, { socialIsolation: healthData.socialIsolation }, SOURCES.dementia);
     riskFactors.push('Social Isolation');
   }
 
   // 9. Education and cognitive reserve
   if (healthData.education === 'low') {
-    riskScore += 6;
+    riskScore += trace.add('limited_education', 'Limited Education', 6, { education: healthData.education }, SOURCES.dementia);
     riskFactors.push('Limited Education');
   }
 
@@ -136,40 +149,46 @@ export function calculateNeurologicalRisk(healthData: HealthData, model?: any):
   if (healthData.familyHistory?.includes('dementia') || 
       healthData.familyHistory?.includes('stroke') ||
       healthData.familyHistory?.includes('alzheimer')) {
-    riskScore += 15;
+    riskScore += trace.add('family_history', 'Family History', 15, { familyHistory: healthData.familyHistory?.join(', ') }, SOURCES.dementia);
     riskFactors.push('Family History');
   }
 
   // 11. Head injury history
   if (healthData.headInjury) {
-    riskScore += 10;
+    riskScore += trace.add('head_injury_history', 'Head Injury History', 10, { headInjury: healthData.headInjury }, SOURCES.dementia);
     riskFactors.push('Head Injury History');
   }
 
   // 12. Cognitive assessment
   if (cognitiveScore < 70) {
-    riskScore += 20;
+    riskScore += trace.add('cognitive_decline', 'Cognitive Decline', 20, { cognitiveScore });
     riskFactors.push('Cognitive Decline');
     
     if (cognitiveScore < 50) {
-      riskScore += 15;
+      riskScore += trace.add('significant_cognitive_impairment', 'Significant Cognitive Impairment', 15, { cognitiveScore });
       riskFactors.push('Significant Cognitive Impairment');
     }
   }
 
+  // 13. Trajectory across earlier measurements
+  if (hasAlarmingTrend(healthData.trends, 'bloodPressureSystolic')) {
+    riskScore += trace.add('rising_blood_pressure', 'Rising Blood Pressure', 4, { bloodPressureSystolicPerYear: healthData.trends?.bloodPressureSystolic });
+    riskFactors.push('Rising Blood Pressure');
+  }
+
   // Apply AI model prediction if available
   if (model) {
     try {
       const aiPrediction = predictWithAI(healthData, model);
       // Combine traditional risk score (80%) with AI prediction (20%)
-      riskScore = riskScore * 0.8 + aiPrediction * 0.2;
+      riskScore = trace.adjust('ai_model_blend', 'AI Model Adjustment', riskScore, riskScore * 0.8 + aiPrediction * 0.2);
     } catch (error) {
       console.warn('[NeurologicalAnalysis] AI prediction failed, using traditional algorithm only');
     }
   }
 
   // Ensure score is within bounds
-  riskScore = Math.min(100, Math.max(0, riskScore));
+  riskScore = trace.adjust('score_bounds', 'Score Limit (0-100)', riskScore, Math.min(100, Math.max(0, riskScore)));
 
   return {
     riskScore: Math.round(riskScore),
@@ -177,14 +196,15 @@ export function calculateNeurologicalRisk(healthData: HealthData, model?: any):
     cognitiveScore: Math.round(cognitiveScore),
     strokeRisk: Math.round(strokeRisk),
     dementiaRisk: Math.round(dementiaRisk),
-    depressionRisk: Math.round(depressionRisk)
+    depressionRisk: Math.round(depressionRisk),
+    contributions: trace.toArray()
   };
 }
 
 /**
  * Calculate estimated cognitive function score
  */
-function calculateCognitiveScore(healthData: HealthData): number {
+function calculateCognitiveScore(healthData: CanonicalHealthData): number {
   let cognitiveScore = 100; // Start with perfect score
 
   // Age-related decline
@@ -249,7 +269,7 @@ function calculateCognitiveScore(healthData: HealthData): number {
 /**
  * Calculate stroke risk using established risk factors
  */
-function calculateStrokeRisk(healthData: HealthData): number {
+function calculateStrokeRisk(healthData: CanonicalHealthData): number {
   let strokeRisk = 0;
 
   // Age factor
@@ -280,7 +300,7 @@ function calculateStrokeRisk(healthData: HealthData): number {
   }
 
   // High cholesterol
-  if (healthData.cholesterol && healthData.cholesterol >= 240) {
+  if (healthData.totalCholesterol && healthData.totalCholesterol >= 240) {
     strokeRisk += 8;
   }
 
@@ -295,7 +315,7 @@ function calculateStrokeRisk(healthData: HealthData): number {
 /**
  * Calculate dementia risk based on established factors
  */
-function calculateDementiaRisk(healthData: HealthData): number {
+function calculateDementiaRisk(healthData: CanonicalHealthData): number {
   let dementiaRisk = 0;
 
   // Age (strongest risk factor)
@@ -352,7 +372,7 @@ function calculateDementiaRisk(healthData: HealthData): number {
 /**
  * Calculate depression risk based on various factors
  */
-function calculateDepressionRisk(healthData: HealthData): number {
+function calculateDepressionRisk(healthData: CanonicalHealthData): number {
   let depressionRisk = 0;
 
   // Current depression
@@ -396,7 +416,7 @@ function calculateDepressionRisk(healthData: HealthData): number {
 /**
  * AI-based prediction (placeholder for TensorFlow.js model)
  */
-function predictWithAI(healthData: HealthData, model: any): number {
+function predictWithAI(healthData: CanonicalHealthData, model: any): number {
   // This would use the actual TensorFlow.js model
   // For now, return a mock prediction based on key factors
   
@@ -3,35 +3,35 @@
  * Analyzes lung function and predicts risks related to respiratory health.
  */
 
-import { OrganModule, HealthData, PredictionResult } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { BaseOrganModule, ModuleEvaluation, ModuleInputSpec } from '../shared/BaseOrganModule';
 import { calculatePulmonaryRisk } from './pulmonaryAnalysis';
-import { loadPulmonaryModel } from './pulmonaryModel';
 
-export class PulmonaryModule implements OrganModule {
+export class PulmonaryModule extends BaseOrganModule {
   id = 'pulmonary';
   name = 'Pulmonary System';
   description = 'Analyzes lung function and respiratory capacity.';
-  model: any = null; // Placeholder for TensorFlow.js model
+  protected thresholds = { moderate: 25, high: 55 };
+  protected baseConfidence = 0.82;
+  protected inputs: ModuleInputSpec[] = [
+    { field: 'age', weight: 2, required: true },
+    { field: 'sex', weight: 1, required: true },
+    { field: 'height', weight: 3, test: 'Height and weight', assumption: 'Normal predicted lung capacity (85%) assumed' },
+    { field: 'smoking', weight: 3, test: 'Smoking history' },
+    { field: 'smokingPackYears', weight: 2, test: 'Smoking history' },
+    { field: 'bmi', weight: 1, test: 'Height and weight' },
+    { field: 'physicalActivity', weight: 1, test: 'Lifestyle questionnaire' },
+    { field: 'airPollutionExposure', weight: 1, test: 'Environmental exposure questionnaire' },
+    { field: 'occupationalExposure', weight: 1, test: 'Environmental exposure questionnaire' },
+    { field: 'respiratoryInfections', weight: 1, test: 'Respiratory history' },
+    { field: 'familyHistory', weight: 1, test: 'Family history' }
+  ];
 
-  async initialize(): Promise<void> {
-    // Load the TensorFlow.js model for pulmonary analysis
-    // this.model = await loadPulmonaryModel();
-    console.log('[PulmonaryModule] Initialized');
-  }
-
-  async analyze(healthData: HealthData): Promise<PredictionResult> {
+  protected evaluate(healthData: CanonicalHealthData): ModuleEvaluation {
     // Calculate risk score using traditional algorithms and AI model
-    const { riskScore, riskFactors } = calculatePulmonaryRisk(healthData, this.model);
+    const { riskScore, riskFactors, contributions } = calculatePulmonaryRisk(healthData, this.model);
     
-    // Determine risk level based on score
-    let riskLevel: 'low' | 'moderate' | 'high';
-    if (riskScore < 25) {
-      riskLevel = 'low';
-    } else if (riskScore < 55) {
-      riskLevel = 'moderate';
-    } else {
-      riskLevel = 'high';
-    }
+    const riskLevel = this.determineRiskLevel(riskScore);
 
     // Generate recommendations based on risk factors
     const recommendations = this.generateRecommendations(riskFactors);
@@ -40,9 +40,9 @@ export class PulmonaryModule implements OrganModule {
       moduleId: this.id,
       riskScore,
       riskLevel,
-      confidence: 0.82, // Example confidence score
-      riskFactors,
-      recommendations,
+      riskFactors: this.toRiskFactors(riskFactors, riskLevel),
+      contributions,
+      recommendations: this.toRecommendations(recommendations, riskLevel),
       timestamp: Date.now(),
       processingTime: 0 // Will be calculated by the engine
     };
@@ -83,12 +83,6 @@ export class PulmonaryModule implements OrganModule {
 
     return recommendations;
   }
-
-  destroy(): void {
-    // Cleanup resources if needed
-    this.model = null;
-    console.log('[PulmonaryModule] Destroyed');
-  }
 }
 
 export default new PulmonaryModule();
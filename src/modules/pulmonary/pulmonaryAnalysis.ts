@@ -3,7 +3,19 @@
  * Medical algorithms for lung function assessment and respiratory risk prediction.
  */
 
-import { HealthData } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { RiskContribution } from '../../core/types/core';
+import { ContributionTrace } from '../shared/ContributionTrace';
+
+const SOURCES = {
+  copd: 'GOLD 2023 COPD Report',
+  asthma: 'GINA 2023 Asthma Strategy',
+  spirometry: 'ATS/ERS 2022 Spirometry Interpretation Standard',
+  obesity: 'WHO BMI Classification',
+  activity: 'WHO 2020 Physical Activity Guidelines',
+  hypertension: 'ACC/AHA 2017 Hypertension Guideline',
+  sleep: 'AASM Clinical Practice Guidelines'
+};
 
 export interface PulmonaryRiskResult {
   riskScore: number;
@@ -11,14 +23,16 @@ export interface PulmonaryRiskResult {
   lungCapacity?: number; // Predicted lung capacity percentage
   copdRisk?: number; // COPD risk percentage
   asthmaRisk?: number; // Asthma risk percentage
+  contributions: RiskContribution[];
 }
 
 /**
  * Calculate pulmonary risk score based on medical guidelines
  */
-export function calculatePulmonaryRisk(healthData: HealthData, model?: any): PulmonaryRiskResult {
+export function calculatePulmonaryRisk(healthData: CanonicalHealthData, model?: any): PulmonaryRiskResult {
   let riskScore = 0;
   const riskFactors: string[] = [];
+  const trace = new ContributionTrace('pulmonary');
 
   // Calculate predicted lung capacity
   const lungCapacity = calculateLungCapacity(healthData);
@@ -31,11 +45,11 @@ export function calculatePulmonaryRisk(healthData: HealthData, model?: any): Pul
   
   // 1. Smoking (most significant risk factor)
   if (healthData.smoking) {
-    riskScore += 35;
+    riskScore += trace.add('smoking', 'Smoking', 35, { smoking: healthData.smoking }, SOURCES.copd);
     riskFactors.push('Smoking');
     
     if (healthData.smokingPackYears && healthData.smokingPackYears > 20) {
-      riskScore += 20;
+      riskScore += trace.add('heavy_smoking_history', 'Heavy Smoking History', 20, { smoking: healthData.smoking, smokingPackYears: healthData.smokingPackYears }, SOURCES.copd);
       riskFactors.push('Heavy Smoking History');
     }
   }
@@ -43,84 +57,84 @@ export function calculatePulmonaryRisk(healthData: HealthData, model?: any): Pul
   // 2. Age factor
   if (healthData.age) {
     if (healthData.age >= 65) {
-      riskScore += 12;
+      riskScore += trace.add('age_factor', 'Age Factor', 12, { age: healthData.age }, SOURCES.copd);
       riskFactors.push('Age Factor');
     } else if (healthData.age >= 50) {
-      riskScore += 6;
+      riskScore += trace.add('age_50_64', 'Age 50-64', 6, { age: healthData.age }, SOURCES.copd);
     }
   }
 
   // 3. Environmental factors
   if (healthData.airPollutionExposure) {
-    riskScore += 15;
+    riskScore += trace.add('air_pollution_exposure', 'Air Pollution Exposure', 15, { airPollutionExposure: healthData.airPollutionExposure }, SOURCES.copd);
     riskFactors.push('Air Pollution Exposure');
   }
 
   if (healthData.occupationalExposure?.includes('dust') || 
       healthData.occupationalExposure?.includes('chemicals')) {
-    riskScore += 12;
+    riskScore += trace.add('occupational_hazards', 'Occupational Hazards', 12, { occupationalExposure: healthData.occupationalExposure?.join(', ') }, SOURCES.copd);
     riskFactors.push('Occupational Hazards');
   }
 
   // 4. Medical history
   if (healthData.asthmaHistory) {
-    riskScore += 18;
+    riskScore += trace.add('asthma_history', 'Asthma History', 18, { asthmaHistory: healthData.asthmaHistory }, SOURCES.asthma);
     riskFactors.push('Asthma History');
   }
 
   if (healthData.allergies?.length && healthData.allergies.length > 0) {
-    riskScore += 8;
+    riskScore += trace.add('allergies', 'Allergies', 8, { allergyCount: healthData.allergies?.length }, SOURCES.asthma);
     riskFactors.push('Allergies');
   }
 
   if (healthData.respiratoryInfections && healthData.respiratoryInfections > 2) {
-    riskScore += 10;
+    riskScore += trace.add('frequent_respiratory_infections', 'Frequent Respiratory Infections', 10, { respiratoryInfections: healthData.respiratoryInfections });
     riskFactors.push('Frequent Respiratory Infections');
   }
 
   // 5. Physical factors
   if (healthData.bmi) {
     if (healthData.bmi >= 30) {
-      riskScore += 8;
+      riskScore += trace.add('obesity', 'Obesity', 8, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Obesity');
     } else if (healthData.bmi < 18.5) {
-      riskScore += 6;
+      riskScore += trace.add('underweight', 'Underweight', 6, { bmi: healthData.bmi }, SOURCES.obesity);
       riskFactors.push('Underweight');
     }
   }
 
   // 6. Physical activity
   if (healthData.physicalActivity === 'sedentary') {
-    riskScore += 10;
+    riskScore += trace.add('low_physical_activity', 'Low Physical Activity', 10, { physicalActivity: healthData.physicalActivity }, SOURCES.activity);
     riskFactors.push('Low Physical Activity');
   }
 
   // 7. Family history
   if (healthData.familyHistory?.includes('lung_disease') || 
       healthData.familyHistory?.includes('asthma')) {
-    riskScore += 8;
+    riskScore += trace.add('family_history', 'Family History', 8, { familyHistory: healthData.familyHistory?.join(', ') }, SOURCES.copd);
     riskFactors.push('Family History');
   }
 
   // 8. Cardiovascular factors (heart-lung connection)
   if (healthData.bloodPressureSystolic && healthData.bloodPressureSystolic >= 140) {
-    riskScore += 5;
+    riskScore += trace.add('high_blood_pressure', 'High Blood Pressure', 5, { bloodPressureSystolic: healthData.bloodPressureSystolic }, SOURCES.hypertension);
     riskFactors.push('High Blood Pressure');
   }
 
   // 9. Sleep disorders
   if (healthData.sleepApnea) {
-    riskScore += 8;
+    riskScore += trace.add('sleep_apnea', 'Sleep Apnea', 8, { sleepApnea: healthData.sleepApnea }, SOURCES.sleep);
     riskFactors.push('Sleep Apnea');
   }
 
   // 10. Lung capacity assessment
   if (lungCapacity < 70) {
-    riskScore += 20;
+    riskScore += trace.add('reduced_lung_capacity', 'Reduced Lung Capacity', 20, { lungCapacity }, SOURCES.spirometry);
     riskFactors.push('Reduced Lung Capacity');
     
     if (lungCapacity < 50) {
-      riskScore += 15;
+      riskScore += trace.add('severely_reduced_lung_capacity', 'Severely Reduced Lung Capacity', 15, { lungCapacity }, SOURCES.spirometry);
       riskFactors.push('Severely Reduced Lung Capacity');
     }
   }
@@ -130,28 +144,29 @@ export function calculatePulmonaryRisk(healthData: HealthData, model?: any): Pul
     try {
       const aiPrediction = predictWithAI(healthData, model);
       // Combine traditional risk score (75%) with AI prediction (25%)
-      riskScore = riskScore * 0.75 + aiPrediction * 0.25;
+      riskScore = trace.adjust('ai_model_blend', 'AI Model Adjustment', riskScore, riskScore * 0.75 + aiPrediction * 0.25);
     } catch (error) {
       console.warn('[PulmonaryAnalysis] AI prediction failed, using traditional algorithm only');
     }
   }
 
   // Ensure score is within bounds
-  riskScore = Math.min(100, Math.max(0, riskScore));
+  riskScore = trace.adjust('score_bounds', 'Score Limit (0-100)', riskScore, Math.min(100, Math.max(0, riskScore)));
 
   return {
     riskScore: Math.round(riskScore),
     riskFactors,
     lungCapacity: Math.round(lungCapacity),
     copdRisk: Math.round(copdRisk),
-    asthmaRisk: Math.round(asthmaRisk)
+    asthmaRisk: Math.round(asthmaRisk),
+    contributions: trace.toArray()
   };
 }
 
 /**
  * Calculate predicted lung capacity based on demographics and health factors
  */
-function calculateLungCapacity(healthData: HealthData): number {
+function calculateLungCapacity(healthData: CanonicalHealthData): number {
   if (!healthData.age || !healthData.height) {
     return 85; // Default normal value
   }
@@ -205,7 +220,7 @@ function calculateLungCapacity(healthData: HealthData): number {
 /**
  * Calculate COPD risk using established risk factors
  */
-function calculateCOPDRisk(healthData: HealthData): number {
+function calculateCOPDRisk(healthData: CanonicalHealthData): number {
   let copdRisk = 0;
 
   if (healthData.smoking) {
@@ -237,7 +252,7 @@ function calculateCOPDRisk(healthData: HealthData): number {
 /**
  * Calculate asthma risk based on triggers and history
  */
-function calculateAsthmaRisk(healthData: HealthData): number {
+function calculateAsthmaRisk(healthData: CanonicalHealthData): number {
   let asthmaRisk = 0;
 
   if (healthData.asthmaHistory) {
@@ -270,7 +285,7 @@ function calculateAsthmaRisk(healthData: HealthData): number {
 /**
  * AI-based prediction (placeholder for TensorFlow.js model)
  */
-function predictWithAI(healthData: HealthData, model: any): number {
+function predictWithAI(healthData: CanonicalHealthData, model: any): number {
   // This would use the actual TensorFlow.js model
   // For now, return a mock prediction based on key factors
   
@@ -0,0 +1,47 @@
+/**
+ * Organ Module Registry
+ * Factories for every organ module, keyed by module id
+ *
+ * Further versions of a module (e.g. shadow versions under evaluation) are
+ * registered under `id@version` so analysis workers can recreate them too.
+ *
+ * Kept free of UI and store dependencies so analysis workers can import it
+ * to recreate modules from their descriptors.
+ */
+
+import { OrganModule } from '../core/types/core';
+import { CardiovascularModule } from './cardiovascular';
+import { HepaticModule } from './hepatic';
+import { RenalModule } from './renal';
+import { PulmonaryModule } from './pulmonary';
+import { NeurologicalModule } from './neurological';
+import { MusculoskeletalModule } from './musculoskeletal';
+
+export type ModuleFactory = () => OrganModule;
+
+export const ORGAN_MODULE_FACTORIES: Record<string, ModuleFactory> = {
+  cardiovascular: () => new CardiovascularModule(),
+  hepatic: () => new HepaticModule(),
+  renal: () => new RenalModule(),
+  pulmonary: () => new PulmonaryModule(),
+  neurological: () => new NeurologicalModule(),
+  musculoskeletal: () => new MusculoskeletalModule()
+};
+
+/**
+ * Create a fresh set of all six organ modules
+ */
+export function createOrganModules(): OrganModule[] {
+  return Object.entries(ORGAN_MODULE_FACTORIES)
+    .filter(([key]) => !key.includes('@'))
+    .map(([, create]) => create());
+}
+
+/**
+ * Create the shadow versions registered under `id@version`
+ */
+export function createShadowModules(): OrganModule[] {
+  return Object.entries(ORGAN_MODULE_FACTORIES)
+    .filter(([key]) => key.includes('@'))
+    .map(([, create]) => create());
+}
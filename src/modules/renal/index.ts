@@ -3,39 +3,35 @@
  * Analyzes kidney function and predicts risks related to renal health.
  */
 
-import { OrganModule, HealthData, PredictionResult } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { BaseOrganModule, ModuleEvaluation, ModuleInputSpec } from '../shared/BaseOrganModule';
 import { calculateRenalRisk } from './renalAnalysis';
-import { loadRenalModel } from './renalModel';
 
-export class RenalModule implements OrganModule {
+export class RenalModule extends BaseOrganModule {
   id = 'renal';
   name = 'Renal System';
   description = 'Analyzes kidney function and filtration.';
-  model: any = null; // Placeholder for TensorFlow.js model
-
-  async initialize(): Promise<void> {
-    // Load the TensorFlow.js model for renal analysis
-    // this.model = await loadRenalModel();
-    console.log('[RenalModule] Initialized');
-  }
-
-  async analyze(healthData: HealthData): Promise<PredictionResult> {
-    if (!healthData.creatinine || !healthData.bloodPressureSystolic) {
-      throw new Error('Missing required data for renal analysis (creatinine, bloodPressureSystolic)');
-    }
+  protected thresholds = { moderate: 30, high: 60 };
+  protected baseConfidence = 0.85;
+  protected inputs: ModuleInputSpec[] = [
+    { field: 'age', weight: 2, required: true },
+    { field: 'sex', weight: 1, required: true },
+    // Without creatinine there is no eGFR, so kidney function itself is not assessed
+    { field: 'creatinine', weight: 5, test: 'Serum creatinine', essential: true },
+    { field: 'proteinuria', weight: 3, test: 'Urine albumin test' },
+    { field: 'bloodPressureSystolic', weight: 2, test: 'Blood pressure measurement' },
+    { field: 'bloodPressureDiastolic', weight: 1, test: 'Blood pressure measurement' },
+    { field: 'glucose', weight: 2, test: 'Fasting glucose' },
+    { field: 'bmi', weight: 1, test: 'Height and weight' },
+    { field: 'smoking', weight: 1, test: 'Smoking history' },
+    { field: 'familyHistory', weight: 1, test: 'Family history' }
+  ];
 
+  protected evaluate(healthData: CanonicalHealthData): ModuleEvaluation {
     // Calculate risk score using traditional algorithms and AI model
-    const { riskScore, riskFactors } = calculateRenalRisk(healthData, this.model);
+    const { riskScore, riskFactors, contributions } = calculateRenalRisk(healthData, this.model);
     
-    // Determine risk level based on score
-    let riskLevel: 'low' | 'moderate' | 'high';
-    if (riskScore < 30) {
-      riskLevel = 'low';
-    } else if (riskScore < 60) {
-      riskLevel = 'moderate';
-    } else {
-      riskLevel = 'high';
-    }
+    const riskLevel = this.determineRiskLevel(riskScore);
 
     // Generate recommendations based on risk factors
     const recommendations = this.generateRecommendations(riskFactors);
@@ -44,9 +40,9 @@ export class RenalModule implements OrganModule {
       moduleId: this.id,
       riskScore,
       riskLevel,
-      confidence: 0.85, // Example confidence score
-      riskFactors,
-      recommendations,
+      riskFactors: this.toRiskFactors(riskFactors, riskLevel),
+      contributions,
+      recommendations: this.toRecommendations(recommendations, riskLevel),
       timestamp: Date.now(),
       processingTime: 0 // Will be calculated by the engine
     };
@@ -61,6 +57,9 @@ export class RenalModule implements OrganModule {
     if (riskFactors.includes('High Creatinine')) {
       recommendations.push('Consult a doctor about kidney function tests (eGFR).');
     }
+    if (riskFactors.includes('Rapid Kidney Function Decline') || riskFactors.includes('Rising Creatinine')) {
+      recommendations.push('Consult a doctor about your declining kidney function trend.');
+    }
     if (riskFactors.includes('Diabetes Risk')) {
       recommendations.push('Manage blood sugar levels effectively.');
     }
@@ -74,12 +73,6 @@ export class RenalModule implements OrganModule {
 
     return recommendations;
   }
-
-  destroy(): void {
-    // Cleanup resources if needed
-    this.model = null;
-    console.log('[RenalModule] Destroyed');
-  }
 }
 
 export default new RenalModule();
@@ -3,42 +3,55 @@
  * Medical algorithms for kidney function assessment and risk prediction.
  */
 
-import { HealthData } from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { RiskContribution } from '../../core/types/core';
+import { hasAlarmingTrend } from '../../core/timeline/trendRules';
+import { ContributionTrace } from '../shared/ContributionTrace';
+import { calculateGFR } from '../../core/data/kidneyFunction';
+
+const SOURCES = {
+  ckd: 'KDIGO 2012 CKD Guideline',
+  hypertension: 'ACC/AHA 2017 Hypertension Guideline',
+  diabetes: 'ADA Standards of Care',
+  obesity: 'WHO BMI Classification'
+};
 
 export interface RenalRiskResult {
   riskScore: number;
   riskFactors: string[];
   gfr?: number; // Estimated Glomerular Filtration Rate
   ckdStage?: number; // Chronic Kidney Disease stage (1-5)
+  contributions: RiskContribution[];
 }
 
 /**
  * Calculate renal risk score based on medical guidelines
  */
-export function calculateRenalRisk(healthData: HealthData, model?: any): RenalRiskResult {
+export function calculateRenalRisk(healthData: CanonicalHealthData, model?: any): RenalRiskResult {
   let riskScore = 0;
   const riskFactors: string[] = [];
+  const trace = new ContributionTrace('renal');
 
   // Calculate eGFR (Estimated Glomerular Filtration Rate) using CKD-EPI equation
   const gfr = calculateGFR(healthData);
   
   // Determine CKD stage based on eGFR
-  const ckdStage = determineCKDStage(gfr);
+  const ckdStage = gfr !== undefined ? determineCKDStage(gfr) : undefined;
 
   // Risk factors assessment
   
-  // 1. eGFR-based risk (most important factor)
-  if (gfr < 60) {
-    riskScore += 40;
+  // 1. eGFR-based risk (most important factor, only when creatinine is known)
+  if (gfr !== undefined && gfr < 60) {
+    riskScore += trace.add('reduced_kidney_function', 'Reduced Kidney Function', 40, { gfr }, SOURCES.ckd);
     riskFactors.push('Reduced Kidney Function');
     
     if (gfr < 30) {
-      riskScore += 30;
+      riskScore += trace.add('severely_reduced_kidney_function', 'Severely Reduced Kidney Function', 30, { gfr }, SOURCES.ckd);
       riskFactors.push('Severely Reduced Kidney Function');
     }
     
     if (gfr < 15) {
-      riskScore += 20;
+      riskScore += trace.add('kidney_failure_risk', 'Kidney Failure Risk', 20, { gfr }, SOURCES.ckd);
       riskFactors.push('Kidney Failure Risk');
     }
   }
@@ -49,11 +62,11 @@ export function calculateRenalRisk(healthData: HealthData, model?: any): RenalRi
     const diastolic = healthData.bloodPressureDiastolic;
     
     if (systolic >= 140 || diastolic >= 90) {
-      riskScore += 15;
+      riskScore += trace.add('high_blood_pressure', 'High Blood Pressure', 15, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
       riskFactors.push('High Blood Pressure');
       
       if (systolic >= 160 || diastolic >= 100) {
-        riskScore += 10;
+        riskScore += trace.add('severe_hypertension', 'Severe Hypertension', 10, { bloodPressureSystolic: healthData.bloodPressureSystolic, bloodPressureDiastolic: healthData.bloodPressureDiastolic }, SOURCES.hypertension);
         riskFactors.push('Severe Hypertension');
       }
     }
@@ -62,10 +75,10 @@ export function calculateRenalRisk(healthData: HealthData, model?: any): RenalRi
   // 3. Diabetes risk assessment
   if (healthData.glucose) {
     if (healthData.glucose >= 126) { // mg/dL fasting glucose
-      riskScore += 20;
+      riskScore += trace.add('diabetes_risk', 'Diabetes Risk', 20, { glucose: healthData.glucose }, SOURCES.diabetes);
       riskFactors.push('Diabetes Risk');
     } else if (healthData.glucose >= 100) {
-      riskScore += 10;
+      riskScore += trace.add('pre_diabetes', 'Pre-diabetes', 10, { glucose: healthData.glucose }, SOURCES.diabetes);
       riskFactors.push('Pre-diabetes');
     }
   }
@@ -73,102 +86,84 @@ export function calculateRenalRisk(healthData: HealthData, model?: any): RenalRi
   // 4. Age factor
   if (healthData.age) {
     if (healthData.age >= 65) {
-      riskScore += 10;
+      riskScore += trace.add('age_factor', 'Age Factor', 10, { age: healthData.age }, SOURCES.ckd);
       riskFactors.push('Age Factor');
     } else if (healthData.age >= 50) {
-      riskScore += 5;
+      riskScore += trace.add('age_50_64', 'Age 50-64', 5, { age: healthData.age }, SOURCES.ckd);
     }
   }
 
   // 5. Proteinuria assessment (if available)
   if (healthData.proteinuria) {
     if (healthData.proteinuria > 300) { // mg/day
-      riskScore += 25;
+      riskScore += trace.add('proteinuria', 'Proteinuria', 25, { proteinuria: healthData.proteinuria }, SOURCES.ckd);
       riskFactors.push('Proteinuria');
     } else if (healthData.proteinuria > 30) {
-      riskScore += 15;
+      riskScore += trace.add('microalbuminuria', 'Microalbuminuria', 15, { proteinuria: healthData.proteinuria }, SOURCES.ckd);
       riskFactors.push('Microalbuminuria');
     }
   }
 
   // 6. Family history
   if (healthData.familyHistory?.includes('kidney_disease')) {
-    riskScore += 8;
+    riskScore += trace.add('family_history', 'Family History', 8, { familyHistory: healthData.familyHistory?.join(', ') }, SOURCES.ckd);
     riskFactors.push('Family History');
   }
 
   // 7. Lifestyle factors
   if (healthData.smoking) {
-    riskScore += 8;
+    riskScore += trace.add('smoking', 'Smoking', 8, { smoking: healthData.smoking }, SOURCES.ckd);
     riskFactors.push('Smoking');
   }
 
   if (healthData.bmi && healthData.bmi >= 30) {
-    riskScore += 5;
+    riskScore += trace.add('obesity', 'Obesity', 5, { bmi: healthData.bmi }, SOURCES.obesity);
     riskFactors.push('Obesity');
   }
 
   // 8. Cardiovascular disease
   if (healthData.cardiovascularDisease) {
-    riskScore += 12;
+    riskScore += trace.add('cardiovascular_disease', 'Cardiovascular Disease', 12, { cardiovascularDisease: healthData.cardiovascularDisease }, SOURCES.ckd);
     riskFactors.push('Cardiovascular Disease');
   }
 
+  // 9. Trajectory across earlier measurements
+  if (hasAlarmingTrend(healthData.trends, 'egfr')) {
+    riskScore += trace.add('rapid_kidney_function_decline', 'Rapid Kidney Function Decline', 15, { egfrPerYear: healthData.trends?.egfr });
+    riskFactors.push('Rapid Kidney Function Decline');
+  } else if (hasAlarmingTrend(healthData.trends, 'creatinine')) {
+    riskScore += trace.add('rising_creatinine', 'Rising Creatinine', 8, { creatininePerYear: healthData.trends?.creatinine });
+    riskFactors.push('Rising Creatinine');
+  }
+
+  if (hasAlarmingTrend(healthData.trends, 'hba1c') || hasAlarmingTrend(healthData.trends, 'glucose')) {
+    riskScore += trace.add('rising_blood_glucose', 'Rising Blood Glucose', 5, { hba1cPerYear: healthData.trends?.hba1c, glucosePerYear: healthData.trends?.glucose });
+    riskFactors.push('Rising Blood Glucose');
+  }
+
   // Apply AI model prediction if available
   if (model) {
     try {
       const aiPrediction = predictWithAI(healthData, model);
       // Combine traditional risk score (70%) with AI prediction (30%)
-      riskScore = riskScore * 0.7 + aiPrediction * 0.3;
+      riskScore = trace.adjust('ai_model_blend', 'AI Model Adjustment', riskScore, riskScore * 0.7 + aiPrediction * 0.3);
     } catch (error) {
       console.warn('[RenalAnalysis] AI prediction failed, using traditional algorithm only');
     }
   }
 
   // Ensure score is within bounds
-  riskScore = Math.min(100, Math.max(0, riskScore));
+  riskScore = trace.adjust('score_bounds', 'Score Limit (0-100)', riskScore, Math.min(100, Math.max(0, riskScore)));
 
   return {
     riskScore: Math.round(riskScore),
     riskFactors,
-    gfr: Math.round(gfr),
-    ckdStage
+    gfr: gfr !== undefined ? Math.round(gfr) : undefined,
+    ckdStage,
+    contributions: trace.toArray()
   };
 }
 
-/**
- * Calculate estimated Glomerular Filtration Rate using CKD-EPI equation
- */
-function calculateGFR(healthData: HealthData): number {
-  if (!healthData.creatinine || !healthData.age) {
-    return 90; // Default normal value
-  }
-
-  const creatinine = healthData.creatinine; // mg/dL
-  const age = healthData.age;
-  const isFemale = healthData.sex === 'female';
-  const isBlack = healthData.ethnicity === 'black';
-
-  // CKD-EPI equation (2021 version without race coefficient)
-  let gfr: number;
-  
-  if (isFemale) {
-    if (creatinine <= 0.7) {
-      gfr = 144 * Math.pow(creatinine / 0.7, -0.329) * Math.pow(0.993, age);
-    } else {
-      gfr = 144 * Math.pow(creatinine / 0.7, -1.209) * Math.pow(0.993, age);
-    }
-  } else {
-    if (creatinine <= 0.9) {
-      gfr = 141 * Math.pow(creatinine / 0.9, -0.411) * Math.pow(0.993, age);
-    } else {
-      gfr = 141 * Math.pow(creatinine / 0.9, -1.209) * Math.pow(0.993, age);
-    }
-  }
-
-  return Math.max(0, gfr);
-}
-
 /**
  * Determine CKD stage based on eGFR
  */
@@ -184,7 +179,7 @@ function determineCKDStage(gfr: number): number {
 /**
  * AI-based prediction (placeholder for TensorFlow.js model)
  */
-function predictWithAI(healthData: HealthData, model: any): number {
+function predictWithAI(healthData: CanonicalHealthData, model: any): number {
   // This would use the actual TensorFlow.js model
   // For now, return a mock prediction based on key factors
   
@@ -0,0 +1,212 @@
+/**
+ * Base Organ Module
+ * Shared implementation of the OrganModule contract for all organ modules.
+ *
+ * Concrete modules only provide their metadata, the inputs they read and
+ * `evaluate()`; this base class takes care of configuration, status
+ * tracking, deriving confidence from data completeness, reconciling the
+ * contribution trace with the rounded score and converting the plain-string
+ * output of the analysis algorithms into the structured RiskFactor /
+ * Recommendation types expected by the engine.
+ */
+
+import {
+  OrganModule,
+  AnalyzeOptions,
+  PredictionResult,
+  ModuleStatus,
+  ModuleDescriptor,
+  RiskFactor,
+  Recommendation
+} from '../../core/types/core';
+import { CanonicalHealthData } from '../../core/types/healthData';
+import { ModuleInputSpec, assessDataCompleteness, findMissingRequiredInputs } from './dataCompleteness';
+import { reconcileContributions } from './ContributionTrace';
+import { throwIfAborted, isAnalysisCancelled } from '../../core/engine/cancellation';
+import { MissingInputError } from '../../core/validation/HealthDataValidator';
+
+export type { ModuleInputSpec };
+
+export type RiskLevel = PredictionResult['riskLevel'];
+
+// Result of a module's algorithms; confidence and completeness are added by the base class
+export type ModuleEvaluation = Omit<PredictionResult, 'confidence' | 'dataCompleteness'>;
+
+export interface RiskThresholds {
+  moderate: number; // Scores at or above this are 'moderate'
+  high: number; // Scores at or above this are 'high'
+  critical?: number; // Scores at or above this are 'critical'
+}
+
+// Keywords identifying risk factors the patient can act on
+const MODIFIABLE_KEYWORDS = [
+  'smok', 'alcohol', 'obes', 'weight', 'bmi', 'physical activity', 'sedentary',
+  'blood pressure', 'hypertension', 'cholesterol', 'ldl', 'hdl', 'triglyceride',
+  'glucose', 'diabetes', 'sleep', 'stress', 'diet', 'calcium', 'protein', 'vitamin',
+  'isolation', 'pollution', 'posture'
+];
+
+// Keywords identifying recommendations that require clinical follow-up
+const MEDICAL_KEYWORDS = [
+  'consult', 'doctor', 'medical', 'medication', 'statin', 'therapy', 'referral',
+  'evaluation', 'hepatology', 'cardiology', 'treatment', 'transplant'
+];
+
+const MONITORING_KEYWORDS = ['monitor', 'screening', 'check-up', 'test', 'follow-up'];
+
+export abstract class BaseOrganModule implements OrganModule {
+  abstract id: string;
+  abstract name: string;
+  abstract description: string;
+  version = '2.1.0';
+  model: any = null; // Placeholder for TensorFlow.js model
+
+  protected config: Record<string, any> = {};
+  protected abstract thresholds: RiskThresholds;
+  protected abstract inputs: ModuleInputSpec[];
+  protected abstract baseConfidence: number; // Confidence with complete, plausible data
+
+  private initialized = false;
+  private lastAnalysis: number | null = null;
+  private errorCount = 0;
+  private analysisCount = 0;
+  private averageProcessingTime = 0;
+
+  /**
+   * Run the module-specific algorithms and return a fully populated result
+   */
+  protected abstract evaluate(healthData: CanonicalHealthData): Promise<ModuleEvaluation> | ModuleEvaluation;
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+    console.log(`[${this.constructor.name}] Initialized`);
+  }
+
+  async analyze(healthData: CanonicalHealthData, options: AnalyzeOptions = {}): Promise<PredictionResult> {
+    const startTime = Date.now();
+    throwIfAborted(options.signal);
+
+    // Incomplete input says nothing about the module's health, so it is not counted as an error
+    const missingRequired = findMissingRequiredInputs(this.inputs, healthData);
+    if (missingRequired.length > 0) {
+      throw new MissingInputError(this.id, this.name, missingRequired);
+    }
+
+    try {
+      const result = await this.evaluate(healthData);
+      throwIfAborted(options.signal);
+      const { completeness, confidence } = assessDataCompleteness(this.inputs, healthData, this.baseConfidence);
+      this.recordAnalysis(Date.now() - startTime);
+
+      const contributions = result.contributions && reconcileContributions(result.contributions, result.riskScore, this.id);
+
+      return { ...result, contributions, confidence, dataCompleteness: completeness };
+    } catch (error) {
+      // A cancelled analysis says nothing about the module's health
+      if (!isAnalysisCancelled(error)) this.errorCount++;
+      this.recordAnalysis(Date.now() - startTime);
+      throw error;
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.model = null;
+    this.initialized = false;
+    // A restarted module starts with a clean health record
+    this.errorCount = 0;
+    this.analysisCount = 0;
+    console.log(`[${this.constructor.name}] Cleaned up`);
+  }
+
+  getConfig(): Record<string, any> {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  describe(): ModuleDescriptor {
+    return { id: this.id, version: this.version, config: this.getConfig() };
+  }
+
+  isHealthy(): boolean {
+    return this.analysisCount === 0 || this.errorCount / this.analysisCount < 0.5;
+  }
+
+  getStatus(): ModuleStatus {
+    return {
+      isInitialized: this.initialized,
+      isHealthy: this.isHealthy(),
+      lastAnalysis: this.lastAnalysis,
+      errorCount: this.errorCount,
+      averageProcessingTime: this.averageProcessingTime,
+      memoryUsage: 0
+    };
+  }
+
+  /**
+   * Map a 0-100 score onto the module's risk levels
+   */
+  protected determineRiskLevel(riskScore: number): RiskLevel {
+    if (this.thresholds.critical !== undefined && riskScore >= this.thresholds.critical) {
+      return 'critical';
+    }
+    if (riskScore >= this.thresholds.high) return 'high';
+    if (riskScore >= this.thresholds.moderate) return 'moderate';
+    return 'low';
+  }
+
+  /**
+   * Convert the risk factor labels produced by the algorithms into RiskFactor objects
+   */
+  protected toRiskFactors(labels: string[], riskLevel: RiskLevel): RiskFactor[] {
+    return labels.map(label => {
+      const normalized = label.toLowerCase();
+      return {
+        id: `${this.id}_${normalized.replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}`,
+        name: label,
+        value: label,
+        severity: /severe|very high|failure|critical/.test(normalized) ? 'high' : riskLevel,
+        description: `${label} identified by ${this.name} analysis`,
+        modifiable: MODIFIABLE_KEYWORDS.some(keyword => normalized.includes(keyword))
+      };
+    });
+  }
+
+  /**
+   * Convert recommendation sentences into Recommendation objects
+   */
+  protected toRecommendations(texts: string[], riskLevel: RiskLevel): Recommendation[] {
+    const priority: Recommendation['priority'] =
+      riskLevel === 'critical' ? 'urgent' : riskLevel === 'high' ? 'high' : riskLevel === 'moderate' ? 'medium' : 'low';
+
+    return texts.map((text, index) => {
+      const normalized = text.toLowerCase();
+      const category: Recommendation['category'] = MEDICAL_KEYWORDS.some(k => normalized.includes(k))
+        ? 'medical'
+        : MONITORING_KEYWORDS.some(k => normalized.includes(k))
+          ? 'monitoring'
+          : 'lifestyle';
+
+      return {
+        id: `${this.id}_rec_${index + 1}`,
+        title: text.replace(/\.$/, ''),
+        description: text,
+        priority: /immediate|urgent|emergency/.test(normalized) ? 'urgent' : priority,
+        category,
+        actionable: true,
+        timeframe: category === 'medical' ? 'As advised by your physician' : 'Ongoing',
+        expectedBenefit: `Lower ${this.name.toLowerCase()} risk`,
+        evidenceLevel: category === 'medical' ? 'high' : 'moderate'
+      };
+    });
+  }
+
+  private recordAnalysis(duration: number): void {
+    this.analysisCount++;
+    this.lastAnalysis = Date.now();
+    this.averageProcessingTime =
+      (this.averageProcessingTime * (this.analysisCount - 1) + duration) / this.analysisCount;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Contribution Trace
+ * Records how the rules of an analysis algorithm build up a risk score.
+ *
+ * Every rule that changes the score is recorded with the input values it
+ * evaluated and the guideline it is based on. Whole-score adjustments
+ * (AI model blending, clamping to 0-100) are recorded as the difference
+ * they make, so the points of all contributions sum to the final score.
+ */
+
+import { RiskContribution } from '../../core/types/core';
+
+export type ContributionInputs = Record<string, number | string | boolean | undefined | null>;
+
+export class ContributionTrace {
+  private contributions: RiskContribution[] = [];
+
+  constructor(private moduleId: string) {}
+
+  /**
+   * Record the points a rule adds (negative to subtract) and return them
+   */
+  add(rule: string, label: string, points: number, inputs: ContributionInputs = {}, source?: string): number {
+    this.contributions.push({
+      ruleId: `${this.moduleId}.${rule}`,
+      label,
+      points,
+      inputs: Object.fromEntries(
+        Object.entries(inputs).filter(([, value]) => value !== undefined && value !== null)
+      ) as RiskContribution['inputs'],
+      ...(source ? { source } : {})
+    });
+    return points;
+  }
+
+  /**
+   * Record a whole-score adjustment and return the adjusted score
+   */
+  adjust(rule: string, label: string, from: number, to: number, source?: string): number {
+    if (to !== from) {
+      this.add(rule, label, to - from, { before: from, after: to }, source);
+    }
+    return to;
+  }
+
+  total(): number {
+    return this.contributions.reduce((sum, c) => sum + c.points, 0);
+  }
+
+  toArray(): RiskContribution[] {
+    return [...this.contributions];
+  }
+}
+
+/**
+ * Add a rounding entry so the contributions sum exactly to the reported score
+ */
+export function reconcileContributions(contributions: RiskContribution[], riskScore: number, moduleId: string): RiskContribution[] {
+  const total = contributions.reduce((sum, c) => sum + c.points, 0);
+  const difference = Math.round((riskScore - total) * 1000) / 1000;
+  if (difference === 0) return contributions;
+
+  return [...contributions, {
+    ruleId: `${moduleId}.rounding`,
+    label: 'Rounding',
+    points: difference,
+    inputs: {}
+  }];
+}
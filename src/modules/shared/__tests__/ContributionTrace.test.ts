@@ -0,0 +1,66 @@
+/**
+ * Contribution Trace Tests
+ * Unit tests for the per-rule breakdown of risk scores
+ */
+
+import { ContributionTrace, reconcileContributions } from '../ContributionTrace';
+import { CardiovascularModule } from '../../cardiovascular';
+import { normalizeHealthData } from '../../../core/data/HealthDataNormalizer';
+
+describe('ContributionTrace', () => {
+  test('should record namespaced rules and drop missing inputs', () => {
+    const trace = new ContributionTrace('renal');
+    const points = trace.add('smoking', 'Smoking', 8, { smoking: true, packYears: undefined }, 'KDIGO');
+
+    expect(points).toBe(8);
+    expect(trace.toArray()).toEqual([
+      { ruleId: 'renal.smoking', label: 'Smoking', points: 8, inputs: { smoking: true }, source: 'KDIGO' }
+    ]);
+  });
+
+  test('should record whole-score adjustments as their difference', () => {
+    const trace = new ContributionTrace('renal');
+    trace.add('reduced_kidney_function', 'Reduced Kidney Function', 90);
+    trace.add('kidney_failure_risk', 'Kidney Failure Risk', 20);
+
+    expect(trace.adjust('score_bounds', 'Score Limit (0-100)', 110, 100)).toBe(100);
+    expect(trace.adjust('noop', 'Unchanged', 100, 100)).toBe(100);
+    expect(trace.toArray()).toHaveLength(3);
+    expect(trace.total()).toBe(100);
+  });
+
+  test('should reconcile contributions with a rounded score', () => {
+    const contributions = [{ ruleId: 'm.a', label: 'A', points: 12.4, inputs: {} }];
+
+    expect(reconcileContributions(contributions, 12, 'm')).toEqual([
+      ...contributions,
+      { ruleId: 'm.rounding', label: 'Rounding', points: -0.4, inputs: {} }
+    ]);
+    expect(reconcileContributions(contributions, 12.4, 'm')).toBe(contributions);
+  });
+
+  test('should explain every point of a module risk score', async () => {
+    const module = new CardiovascularModule();
+    await module.initialize();
+
+    const result = await module.analyze(normalizeHealthData({
+      name: 'Test Patient',
+      age: 58,
+      sex: 'male',
+      systolicBP: 150,
+      diastolicBP: 95,
+      totalCholesterol: 250,
+      hdlCholesterol: 35,
+      glucose: 110,
+      smokingStatus: 'current'
+    }));
+
+    const total = result.contributions!.reduce((sum, c) => sum + c.points, 0);
+    expect(total).toBeCloseTo(result.riskScore, 6);
+    expect(result.contributions!.map(c => c.ruleId)).toContain('cardiovascular.stage_1_hypertension');
+    expect(result.contributions!.find(c => c.ruleId === 'cardiovascular.stage_1_hypertension')).toMatchObject({
+      points: 15,
+      inputs: { bloodPressureSystolic: 150, bloodPressureDiastolic: 95 }
+    });
+  });
+});
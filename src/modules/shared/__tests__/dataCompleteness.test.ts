@@ -0,0 +1,65 @@
+/**
+ * Data Completeness Tests
+ * Unit tests for completeness-driven confidence and test suggestions
+ */
+
+import { assessDataCompleteness, findMissingRequiredInputs, ModuleInputSpec } from '../dataCompleteness';
+import { normalizeHealthData } from '../../../core/data/HealthDataNormalizer';
+
+describe('dataCompleteness', () => {
+  const specs: ModuleInputSpec[] = [
+    { field: 'age', weight: 2, required: true },
+    { field: 'creatinine', weight: 4, test: 'Serum creatinine' },
+    { field: 'height', weight: 2, test: 'Height and weight', assumption: 'Average height assumed' },
+    { field: 'glucose', weight: 2, test: 'Fasting glucose' }
+  ];
+
+  const baseInput = { name: 'Test Patient', age: 60, sex: 'female' as const };
+
+  test('should classify inputs as used, missing or defaulted', () => {
+    const { completeness } = assessDataCompleteness(specs, normalizeHealthData(baseInput), 0.8);
+
+    expect(completeness.used).toEqual(['age']);
+    expect(completeness.missing).toEqual(['creatinine', 'glucose']);
+    expect(completeness.defaulted).toEqual([{ field: 'height', assumption: 'Average height assumed' }]);
+    expect(completeness.score).toBe(0.2);
+  });
+
+  test('should raise confidence as inputs are provided', () => {
+    const sparse = assessDataCompleteness(specs, normalizeHealthData(baseInput), 0.8);
+    const complete = assessDataCompleteness(
+      specs,
+      normalizeHealthData({ ...baseInput, creatinine: 0.9, height: 165, glucose: 92 }),
+      0.8
+    );
+
+    expect(complete.confidence).toBe(0.8);
+    expect(sparse.confidence).toBeLessThan(complete.confidence);
+  });
+
+  test('should rank suggested tests by confidence gain', () => {
+    const { completeness } = assessDataCompleteness(specs, normalizeHealthData(baseInput), 0.8);
+
+    expect(completeness.suggestedTests[0].test).toBe('Serum creatinine');
+    expect(completeness.suggestedTests[0].confidenceGain).toBeGreaterThan(completeness.suggestedTests[1].confidenceGain);
+  });
+
+  test('should cap the confidence of a result missing an essential input', () => {
+    const essentialSpecs = specs.map(spec => spec.field === 'creatinine' ? { ...spec, essential: true } : spec);
+    const withoutCreatinine = normalizeHealthData({ ...baseInput, height: 165, glucose: 92 });
+
+    const incomplete = assessDataCompleteness(essentialSpecs, withoutCreatinine, 0.8);
+    const complete = assessDataCompleteness(essentialSpecs, { ...withoutCreatinine, creatinine: 0.9 }, 0.8);
+
+    expect(incomplete.completeness.missingEssential).toEqual(['creatinine']);
+    expect(incomplete.confidence).toBe(0.3);
+    expect(incomplete.completeness.suggestedTests[0]).toMatchObject({ test: 'Serum creatinine', confidenceGain: 0.5 });
+    expect(complete.completeness.missingEssential).toEqual([]);
+  });
+
+  test('should report missing required inputs', () => {
+    const data = normalizeHealthData({ ...baseInput, age: NaN });
+
+    expect(findMissingRequiredInputs(specs, data)).toEqual(['age']);
+  });
+});
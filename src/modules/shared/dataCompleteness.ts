@@ -0,0 +1,143 @@
+/**
+ * Data Completeness Assessment
+ * Derives a module's confidence from the inputs that were actually provided.
+ *
+ * Each module declares the inputs its algorithms read, how much each one
+ * matters to the estimate and, where the algorithm substitutes a typical
+ * value for a missing input, what it assumes instead. Confidence scales
+ * from half of the module's base confidence with no optional inputs to the
+ * full base confidence with complete, plausible data. Without an essential
+ * input the module can still score, but the result is incomplete and its
+ * confidence stays low whatever else was provided.
+ */
+
+import { DataCompleteness, DefaultedInput, SuggestedTest } from '../../core/types/core';
+import { CanonicalHealthData, CanonicalField } from '../../core/types/healthData';
+import { PHYSIOLOGICAL_RANGES } from '../../core/validation/physiologicalRanges';
+
+export interface ModuleInputSpec {
+  field: CanonicalField;
+  weight: number; // Relative importance to the estimate
+  required?: boolean; // Analysis cannot run without it
+  essential?: boolean; // Analysis runs without it, but the result is incomplete
+  test?: string; // Measurement or questionnaire that provides the value
+  assumption?: string; // What the algorithm assumes when the value is absent
+}
+
+export interface CompletenessAssessment {
+  completeness: DataCompleteness;
+  confidence: number;
+}
+
+// Share of the base confidence retained with no optional inputs
+const MIN_COMPLETENESS_FACTOR = 0.5;
+// Share of the base confidence retained when every input is implausible
+const MIN_QUALITY_FACTOR = 0.8;
+// Quality weight of an input outside its plausible range
+const IMPLAUSIBLE_QUALITY = 0.5;
+// Highest confidence of a result missing an essential input
+const INCOMPLETE_CONFIDENCE = 0.3;
+
+function isProvided(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  if (typeof value === 'number') return !isNaN(value);
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function inputQuality(field: CanonicalField, value: unknown): number {
+  const range = PHYSIOLOGICAL_RANGES[field];
+  if (!range || typeof value !== 'number') return 1;
+
+  const [min, max] = range.plausible;
+  return value < min || value > max ? IMPLAUSIBLE_QUALITY : 1;
+}
+
+function computeConfidence(baseConfidence: number, score: number, qualityScore: number, incomplete: boolean): number {
+  const completenessFactor = MIN_COMPLETENESS_FACTOR + (1 - MIN_COMPLETENESS_FACTOR) * score;
+  const qualityFactor = MIN_QUALITY_FACTOR + (1 - MIN_QUALITY_FACTOR) * qualityScore;
+  const confidence = baseConfidence * completenessFactor * qualityFactor;
+  return Math.round((incomplete ? Math.min(INCOMPLETE_CONFIDENCE, confidence) : confidence) * 100) / 100;
+}
+
+/**
+ * Names of required inputs that are missing from the data
+ */
+export function findMissingRequiredInputs(specs: ModuleInputSpec[], healthData: CanonicalHealthData): string[] {
+  return specs
+    .filter(spec => spec.required && !isProvided(healthData[spec.field]))
+    .map(spec => spec.field);
+}
+
+/**
+ * Assess which declared inputs were used, missing or defaulted and derive
+ * the resulting confidence together with the tests that would raise it most
+ */
+export function assessDataCompleteness(
+  specs: ModuleInputSpec[],
+  healthData: CanonicalHealthData,
+  baseConfidence: number
+): CompletenessAssessment {
+  const totalWeight = specs.reduce((sum, spec) => sum + spec.weight, 0) || 1;
+  const used: string[] = [];
+  const missing: string[] = [];
+  const defaulted: DefaultedInput[] = [];
+  let providedWeight = 0;
+  let qualityWeight = 0;
+
+  for (const spec of specs) {
+    const value = healthData[spec.field];
+
+    if (isProvided(value)) {
+      used.push(spec.field);
+      providedWeight += spec.weight;
+      qualityWeight += spec.weight * inputQuality(spec.field, value);
+    } else if (spec.assumption) {
+      defaulted.push({ field: spec.field, assumption: spec.assumption });
+    } else {
+      missing.push(spec.field);
+    }
+  }
+
+  const missingEssential = specs.filter(spec => spec.essential && !used.includes(spec.field)).map(spec => spec.field);
+  const score = providedWeight / totalWeight;
+  const qualityScore = providedWeight > 0 ? qualityWeight / providedWeight : 1;
+  const confidence = computeConfidence(baseConfidence, score, qualityScore, missingEssential.length > 0);
+
+  // Group absent inputs by the test that provides them and estimate the gain
+  const absentByTest = new Map<string, ModuleInputSpec[]>();
+  for (const spec of specs) {
+    if (!spec.test || used.includes(spec.field)) continue;
+    absentByTest.set(spec.test, [...(absentByTest.get(spec.test) || []), spec]);
+  }
+
+  const suggestedTests: SuggestedTest[] = Array.from(absentByTest.entries())
+    .map(([test, testSpecs]) => {
+      const addedWeight = testSpecs.reduce((sum, spec) => sum + spec.weight, 0);
+      const improvedScore = (providedWeight + addedWeight) / totalWeight;
+      const improvedQuality = (qualityWeight + addedWeight) / (providedWeight + addedWeight);
+      const stillIncomplete = missingEssential.some(field => !testSpecs.some(spec => spec.field === field));
+      return {
+        test,
+        fields: testSpecs.map(spec => spec.field),
+        confidenceGain: Math.round(
+          (computeConfidence(baseConfidence, improvedScore, improvedQuality, stillIncomplete) - confidence) * 100
+        ) / 100
+      };
+    })
+    .filter(suggestion => suggestion.confidenceGain > 0)
+    .sort((a, b) => b.confidenceGain - a.confidenceGain);
+
+  return {
+    completeness: {
+      score: Math.round(score * 100) / 100,
+      qualityScore: Math.round(qualityScore * 100) / 100,
+      used,
+      missing,
+      defaulted,
+      missingEssential,
+      suggestedTests
+    },
+    confidence
+  };
+}
@@ -4,6 +4,8 @@
  */
 
 import '@testing-library/jest-dom';
+import type { AnalyzeOptions, OrganModule, PredictionResult } from '../core/types/core';
+import type { CanonicalHealthData } from '../core/types/healthData';
 
 // Mock Web APIs that are not available in Jest environment
 Object.defineProperty(window, 'matchMedia', {
@@ -312,6 +314,69 @@ export const mockComponent = (name: string) => {
   });
 };
 
+// Engine testing utilities
+type StubAnalysis = number | Partial<PredictionResult>;
+
+export interface StubModuleOptions extends Partial<Omit<OrganModule, 'id' | 'analyze'>> {
+  // Risk score or result fields for each analysis (default a score of 20); throw to fail it
+  analyze?: (healthData: CanonicalHealthData, options: AnalyzeOptions) => StubAnalysis | Promise<StubAnalysis>;
+  delayMs?: number; // Resolve after a delay; aborting the analysis rejects at once
+}
+
+/**
+ * Create an organ module stub for engine tests. Any module method can be
+ * overridden; the rest are no-ops reporting a healthy module.
+ */
+export const createStubModule = (
+  id: string,
+  { analyze = () => 20, delayMs = 0, ...overrides }: StubModuleOptions = {}
+): OrganModule => ({
+  id,
+  name: `${id} module`,
+  version: '1.0.0',
+  description: 'Stub module for engine tests',
+  analyze: async (healthData: CanonicalHealthData, options: AnalyzeOptions = {}): Promise<PredictionResult> => {
+    const analysis = await analyze(healthData, options);
+    if (delayMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, delayMs);
+        options.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('aborted'));
+        });
+      });
+    }
+
+    const fields = typeof analysis === 'number' ? { riskScore: analysis } : analysis;
+    const riskScore = fields.riskScore ?? 20;
+    return {
+      moduleId: id,
+      riskScore,
+      confidence: 1,
+      riskLevel: riskScore >= 50 ? 'high' : 'low',
+      riskFactors: [],
+      recommendations: [],
+      timestamp: Date.now(),
+      processingTime: delayMs,
+      ...fields
+    };
+  },
+  initialize: async () => {},
+  cleanup: async () => {},
+  getConfig: () => ({}),
+  updateConfig: () => {},
+  isHealthy: () => true,
+  getStatus: () => ({
+    isInitialized: true,
+    isHealthy: true,
+    lastAnalysis: null,
+    errorCount: 0,
+    averageProcessingTime: 0,
+    memoryUsage: 0
+  }),
+  ...overrides
+});
+
 // Performance testing utilities
 export const measurePerformance = async (fn: () => Promise<void> | void) => {
   const start = performance.now();
@@ -18,6 +18,7 @@ export interface RiskScore {
   level: 'low' | 'moderate' | 'high';
   score: number; // 0-100
   factors: string[];
+  interval?: { p5: number; p95: number }; // Monte Carlo uncertainty interval
 }
 
 export interface OrganRisk {
@@ -61,6 +62,7 @@ export interface FormErrors {
   bloodPressure?: string;
   cholesterol?: string;
   glucose?: string;
+  bmi?: string;
 }
 
 // Export types
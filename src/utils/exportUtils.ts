@@ -1,35 +1,316 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { PatientData, OrganRisk } from '../types/patient';
+import { PredictionResult, Recommendation } from '../core/types/core';
+import { CanonicalField, PatientFormInput } from '../core/types/healthData';
+import { normalizeHealthData } from '../core/data/HealthDataNormalizer';
 import { generateRecommendations } from '../ai/recommendations';
+import { formatQuantity } from '../core/units/UnitConverter';
+import { UnitSystem } from '../core/units/unitRegistry';
+import { RiskProjection, summarizeMilestones } from '../core/projection/RiskProjector';
+import { describeIntervention } from '../core/simulation/ScenarioSimulator';
+import { AnalysisBundle, serializeAnalysisBundle } from '../core/audit/AnalysisBundle';
+
+const NOT_PROVIDED = 'Not provided';
+
+const ORGAN_LABELS: Record<string, string> = {
+  cardiovascular: 'Cardiovascular',
+  hepatic: 'Hepatic',
+  renal: 'Renal',
+  pulmonary: 'Pulmonary',
+  neurological: 'Neurological',
+  musculoskeletal: 'Musculoskeletal'
+};
+
+type RGB = [number, number, number];
+
+const RISK_COLORS: Record<PredictionResult['riskLevel'], RGB> = {
+  low: [40, 167, 69],
+  moderate: [255, 193, 7],
+  high: [220, 53, 69],
+  critical: [220, 53, 69]
+};
+
+const PRIORITY_COLORS: Record<Recommendation['priority'], RGB> = {
+  low: [40, 167, 69],
+  medium: [255, 193, 7],
+  high: [220, 53, 69],
+  urgent: [220, 53, 69]
+};
+
+const formatMeasurement = (field: CanonicalField, value: number | undefined, unitSystem: UnitSystem): string =>
+  value !== undefined && Number.isFinite(value) ? formatQuantity(field, value, unitSystem) : NOT_PROVIDED;
+
+const renderReportHeader = (pdf: jsPDF, margin: number): number => {
+  let yPosition = margin;
+
+  pdf.setFontSize(24);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(0, 102, 204); // Blue color
+  pdf.text('BioTwin360 Health Report', margin, yPosition);
+  yPosition += 15;
+
+  pdf.setFontSize(12);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(`Generated on: ${new Date().toLocaleDateString()}`, margin, yPosition);
+  return yPosition + 20;
+};
 
 /**
- * Export health analysis and recommendations to PDF
+ * Summarize a risk projection at its milestone years on a new page
  */
-export const exportHealthReportToPDF = async (
-  patientData: PatientData,
-  organRisk: OrganRisk
+const renderProjection = (pdf: jsPDF, projection: RiskProjection, margin: number): void => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  pdf.addPage();
+  let yPosition = margin;
+
+  pdf.setFontSize(16);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(`Projected Risk (next ${projection.horizonYears} years)`, margin, yPosition);
+  yPosition += 8;
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  if (projection.interventions.length > 0) {
+    const scenarioLines = pdf.splitTextToSize(
+      `Intervention scenario: ${projection.interventions.map(describeIntervention).join(', ')}`,
+      pageWidth - 2 * margin
+    );
+    pdf.text(scenarioLines, margin, yPosition);
+    yPosition += scenarioLines.length * 5 + 3;
+  }
+
+  summarizeMilestones(projection).forEach(milestone => {
+    const intervention = milestone.intervention !== null ? ` / with intervention ${milestone.intervention}/100` : '';
+    pdf.text(
+      `${milestone.moduleId} - in ${milestone.year} year(s), age ${milestone.age}: ${milestone.baseline}/100${intervention}`,
+      margin,
+      yPosition
+    );
+    yPosition += 5;
+  });
+};
+
+/**
+ * Add the medical disclaimer page
+ */
+const renderDisclaimer = (pdf: jsPDF, margin: number): void => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  pdf.addPage();
+  let yPosition = margin;
+
+  pdf.setFontSize(14);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(220, 53, 69);
+  pdf.text('Important Medical Disclaimer', margin, yPosition);
+  yPosition += 10;
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(0, 0, 0);
+  const disclaimer = `This report is generated by BioTwin360 AI and is for informational and educational purposes only. It does not constitute medical advice, diagnosis, or treatment. The recommendations provided are based on general health guidelines and your input data, but they cannot replace professional medical consultation.
+
+Always consult with qualified healthcare professionals before making any changes to your health regimen, especially for high-priority recommendations. Your doctor can provide personalized guidance based on your complete medical history, current health status, and individual circumstances.
+
+BioTwin360 and its AI models are tools designed to support health awareness and education, but they are not substitutes for professional medical care. If you have any concerns about your health or the recommendations in this report, please contact your healthcare provider immediately.
+
+Generated by BioTwin360 - AI-Powered Digital Twin Health Platform
+Visit: https://biotwin360.com for more information`;
+
+  const disclaimerLines = pdf.splitTextToSize(disclaimer, pageWidth - 2 * margin);
+  pdf.text(disclaimerLines, margin, yPosition);
+};
+
+/**
+ * Export an engine analysis of patient form input to PDF: every organ
+ * result with its risk factors and the engine's recommendations. Inputs
+ * the form left empty are reported as not provided.
+ */
+export const exportAnalysisReportToPDF = async (
+  input: PatientFormInput,
+  results: PredictionResult[],
+  unitSystem: UnitSystem,
+  projection?: RiskProjection
 ): Promise<void> => {
   try {
+    const data = normalizeHealthData(input);
     const pdf = new jsPDF('p', 'mm', 'a4');
     const pageWidth = pdf.internal.pageSize.getWidth();
     const pageHeight = pdf.internal.pageSize.getHeight();
     const margin = 20;
-    let yPosition = margin;
+    let yPosition = renderReportHeader(pdf, margin);
+
+    const ensureSpace = (height: number) => {
+      if (yPosition + height > pageHeight - margin) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+    };
 
-    // Header
-    pdf.setFontSize(24);
+    // Patient Information Section
+    pdf.setFontSize(16);
     pdf.setFont('helvetica', 'bold');
-    pdf.setTextColor(0, 102, 204); // Blue color
-    pdf.text('BioTwin360 Health Report', margin, yPosition);
-    yPosition += 15;
+    pdf.setTextColor(0, 0, 0);
+    pdf.text('Patient Information', margin, yPosition);
+    yPosition += 10;
 
-    // Date
-    pdf.setFontSize(12);
+    pdf.setFontSize(11);
     pdf.setFont('helvetica', 'normal');
-    pdf.setTextColor(100, 100, 100);
-    pdf.text(`Generated on: ${new Date().toLocaleDateString()}`, margin, yPosition);
-    yPosition += 20;
+    const patientInfo = [
+      `Age: ${data.age} years`,
+      `Sex: ${input.sex}`,
+      `Blood Pressure: ${data.bloodPressureSystolic !== undefined && data.bloodPressureDiastolic !== undefined
+        ? `${data.bloodPressureSystolic}/${data.bloodPressureDiastolic} mmHg`
+        : NOT_PROVIDED}`,
+      `Total Cholesterol: ${formatMeasurement('totalCholesterol', data.totalCholesterol, unitSystem)}`,
+      `HDL Cholesterol: ${formatMeasurement('hdlCholesterol', data.hdlCholesterol, unitSystem)}`,
+      `Fasting Glucose: ${formatMeasurement('glucose', data.glucose, unitSystem)}`,
+      `Creatinine: ${formatMeasurement('creatinine', data.creatinine, unitSystem)}`,
+      `BMI: ${data.bmi ?? NOT_PROVIDED}`,
+      `Smoking Status: ${data.smokingStatus ?? NOT_PROVIDED}`,
+      `Physical Activity: ${data.physicalActivity ?? NOT_PROVIDED}`
+    ];
+
+    patientInfo.forEach(info => {
+      pdf.text(info, margin, yPosition);
+      yPosition += 6;
+    });
+
+    yPosition += 10;
+
+    // Risk Assessment Section, one block per organ module
+    pdf.setFontSize(16);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('AI Risk Assessment', margin, yPosition);
+    yPosition += 10;
+
+    results.forEach(result => {
+      ensureSpace(20);
+      const label = ORGAN_LABELS[result.moduleId] ?? result.moduleId;
+
+      pdf.setFontSize(14);
+      pdf.setFont('helvetica', 'bold');
+      if (result.error) {
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(`${label} Risk: Not analyzed`, margin, yPosition);
+        yPosition += 6;
+
+        pdf.setFontSize(10);
+        pdf.setFont('helvetica', 'normal');
+        pdf.text(pdf.splitTextToSize(result.error, pageWidth - 2 * margin), margin, yPosition);
+        yPosition += 10;
+        return;
+      }
+
+      const interval = result.uncertainty ? `, range ${result.uncertainty.p5}-${result.uncertainty.p95}` : '';
+      pdf.setTextColor(...RISK_COLORS[result.riskLevel]);
+      pdf.text(`${label} Risk: ${result.riskLevel.toUpperCase()} (${Math.round(result.riskScore)}/100${interval})`, margin, yPosition);
+      yPosition += 8;
+
+      pdf.setFontSize(11);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(0, 0, 0);
+      const missingEssential = result.dataCompleteness?.missingEssential ?? [];
+      if (missingEssential.length > 0) {
+        pdf.text(`Incomplete estimate: ${missingEssential.join(', ')} not provided`, margin, yPosition);
+        yPosition += 6;
+      }
+
+      pdf.text('Risk Factors:', margin, yPosition);
+      yPosition += 6;
+      (result.riskFactors.length > 0 ? result.riskFactors.map(factor => factor.name) : ['None identified']).forEach(factor => {
+        ensureSpace(5);
+        pdf.text(`• ${factor}`, margin + 5, yPosition);
+        yPosition += 5;
+      });
+
+      yPosition += 5;
+    });
+
+    if (projection) {
+      renderProjection(pdf, projection, margin);
+    }
+
+    // Recommendations Section
+    pdf.addPage();
+    yPosition = margin;
+
+    pdf.setFontSize(16);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(0, 0, 0);
+    pdf.text('Personalized Health Recommendations', margin, yPosition);
+    yPosition += 15;
+
+    const recommendations = results.flatMap(result => result.error ? [] : result.recommendations.map(rec => ({
+      ...rec,
+      organ: ORGAN_LABELS[result.moduleId] ?? result.moduleId
+    })));
+    if (recommendations.length === 0) {
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text('No recommendations for the analyzed organs.', margin, yPosition);
+    }
+
+    recommendations.forEach((rec, index) => {
+      ensureSpace(40);
+
+      pdf.setFontSize(12);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(...PRIORITY_COLORS[rec.priority]);
+      pdf.text(`${index + 1}. ${rec.title} (${rec.organ}, ${rec.priority.toUpperCase()} PRIORITY)`, margin, yPosition);
+      yPosition += 8;
+
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(0, 0, 0);
+      const descLines = pdf.splitTextToSize(rec.description, pageWidth - 2 * margin);
+      pdf.text(descLines, margin, yPosition);
+      yPosition += descLines.length * 4 + 3;
+
+      pdf.setFont('helvetica', 'bold');
+      pdf.text('Timeframe: ', margin, yPosition);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text(rec.timeframe, margin + 25, yPosition);
+      yPosition += 5;
+
+      pdf.setFont('helvetica', 'bold');
+      pdf.text('Expected Benefit: ', margin, yPosition);
+      pdf.setFont('helvetica', 'normal');
+      const benefitLines = pdf.splitTextToSize(rec.expectedBenefit, pageWidth - 2 * margin - 35);
+      pdf.text(benefitLines, margin + 35, yPosition);
+      yPosition += benefitLines.length * 4 + 8;
+    });
+
+    renderDisclaimer(pdf, margin);
+
+    pdf.save(`BioTwin360_Health_Report_${new Date().toISOString().split('T')[0]}.pdf`);
+
+    console.log('Health report exported successfully');
+  } catch (error) {
+    console.error('Failed to export health report:', error);
+    throw new Error('Failed to generate PDF report');
+  }
+};
+
+/**
+ * Export health analysis and recommendations to PDF
+ * Lab values are rendered in the given unit system;
+ * a risk projection, when given, is summarized at its milestone years
+ */
+export const exportHealthReportToPDF = async (
+  patientData: PatientData,
+  organRisk: OrganRisk,
+  unitSystem: UnitSystem,
+  projection?: RiskProjection
+): Promise<void> => {
+  try {
+    const pdf = new jsPDF('p', 'mm', 'a4');
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 20;
+    let yPosition = renderReportHeader(pdf, margin);
 
     // Patient Information Section
     pdf.setFontSize(16);
@@ -43,10 +324,12 @@ export const exportHealthReportToPDF = async (
     const patientInfo = [
       `Age: ${patientData.age} years`,
       `Sex: ${patientData.sex}`,
-      `Blood Pressure: ${patientData.bloodPressure.systolic}/${patientData.bloodPressure.diastolic} mmHg`,
-      `Total Cholesterol: ${patientData.cholesterol} mg/dL`,
-      `Fasting Glucose: ${patientData.glucose} mg/dL`,
-      `BMI: ${patientData.bmi || 'Not provided'}`,
+      `Blood Pressure: ${Number.isFinite(patientData.bloodPressure.systolic)
+        ? `${patientData.bloodPressure.systolic}/${patientData.bloodPressure.diastolic} mmHg`
+        : NOT_PROVIDED}`,
+      `Total Cholesterol: ${formatMeasurement('totalCholesterol', patientData.cholesterol, unitSystem)}`,
+      `Fasting Glucose: ${formatMeasurement('glucose', patientData.glucose, unitSystem)}`,
+      `BMI: ${patientData.bmi || NOT_PROVIDED}`,
       `Smoking Status: ${patientData.smokingStatus}`,
       `Exercise Level: ${patientData.exerciseLevel}`
     ];
@@ -104,6 +387,10 @@ export const exportHealthReportToPDF = async (
       yPosition += 5;
     });
 
+    if (projection) {
+      renderProjection(pdf, projection, margin);
+    }
+
     // New page for recommendations
     pdf.addPage();
     yPosition = margin;
@@ -169,30 +456,7 @@ export const exportHealthReportToPDF = async (
       yPosition += benefitLines.length * 4 + 8;
     });
 
-    // Footer disclaimer
-    pdf.addPage();
-    yPosition = margin;
-    
-    pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.setTextColor(220, 53, 69);
-    pdf.text('Important Medical Disclaimer', margin, yPosition);
-    yPosition += 10;
-
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.setTextColor(0, 0, 0);
-    const disclaimer = `This report is generated by BioTwin360 AI and is for informational and educational purposes only. It does not constitute medical advice, diagnosis, or treatment. The recommendations provided are based on general health guidelines and your input data, but they cannot replace professional medical consultation.
-
-Always consult with qualified healthcare professionals before making any changes to your health regimen, especially for high-priority recommendations. Your doctor can provide personalized guidance based on your complete medical history, current health status, and individual circumstances.
-
-BioTwin360 and its AI models are tools designed to support health awareness and education, but they are not substitutes for professional medical care. If you have any concerns about your health or the recommendations in this report, please contact your healthcare provider immediately.
-
-Generated by BioTwin360 - AI-Powered Digital Twin Health Platform
-Visit: https://biotwin360.com for more information`;
-
-    const disclaimerLines = pdf.splitTextToSize(disclaimer, pageWidth - 2 * margin);
-    pdf.text(disclaimerLines, margin, yPosition);
+    renderDisclaimer(pdf, margin);
 
     // Save the PDF
     const fileName = `BioTwin360_Health_Report_${new Date().toISOString().split('T')[0]}.pdf`;
@@ -234,3 +498,47 @@ export const exportVisualizationAsImage = async (elementId: string): Promise<voi
   }
 };
 
+
+/**
+ * Export projected risk curves as CSV, one row per organ and year
+ */
+export const exportRiskProjectionToCSV = (projection: RiskProjection): void => {
+  const rows = [['organ', 'year', 'age', 'baseline_risk', 'intervention_risk']];
+  const curves = [{ moduleId: 'global', ...projection.global }, ...projection.organs];
+
+  curves.forEach(curve => {
+    curve.baseline.forEach(point => {
+      const intervention = curve.intervention?.find(p => p.year === point.year);
+      rows.push([
+        curve.moduleId,
+        String(point.year),
+        String(point.age),
+        String(point.riskScore),
+        intervention ? String(intervention.riskScore) : ''
+      ]);
+    });
+  });
+
+  const blob = new Blob([rows.map(row => row.join(',')).join('\n')], { type: 'text/csv' });
+  const link = document.createElement('a');
+  link.download = `BioTwin360_Risk_Projection_${new Date().toISOString().split('T')[0]}.csv`;
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  URL.revokeObjectURL(link.href);
+
+  console.log('Risk projection exported successfully');
+};
+
+/**
+ * Export an analysis bundle as JSON, for audit or replay elsewhere
+ */
+export const exportAnalysisBundle = (bundle: AnalysisBundle): void => {
+  const blob = new Blob([serializeAnalysisBundle(bundle)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.download = `BioTwin360_Analysis_Bundle_${new Date(bundle.createdAt).toISOString().split('T')[0]}_${bundle.hash.slice(0, 8)}.json`;
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  URL.revokeObjectURL(link.href);
+
+  console.log('Analysis bundle exported successfully');
+};
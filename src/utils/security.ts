@@ -2,6 +2,9 @@
  * Security utilities for BioTwin360
  */
 
+import { PatientData } from '../types/patient';
+import { validateHealthData } from '../core/validation/HealthDataValidator';
+
 /**
  * Input sanitization to prevent XSS attacks
  */
@@ -35,20 +38,10 @@ export const validatePatientData = (data: any): boolean => {
   const requiredFields = ['age', 'sex', 'bloodPressure', 'cholesterol', 'glucose'];
   const hasRequiredFields = requiredFields.every(field => field in data);
   
-  if (!hasRequiredFields) return false;
-
-  // Validate specific fields
-  const validations = [
-    validateMedicalInput(data.age, 1, 120),
-    ['male', 'female'].includes(data.sex),
-    data.bloodPressure && 
-      validateMedicalInput(data.bloodPressure.systolic, 70, 250) &&
-      validateMedicalInput(data.bloodPressure.diastolic, 40, 150),
-    validateMedicalInput(data.cholesterol, 100, 500),
-    validateMedicalInput(data.glucose, 50, 400)
-  ];
+  if (!hasRequiredFields || typeof data.bloodPressure !== 'object') return false;
 
-  return validations.every(Boolean);
+  // Delegate range and consistency checks to the shared validator
+  return validateHealthData(data as PatientData).valid;
 };
 
 /**
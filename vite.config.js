@@ -10,4 +10,8 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // Analysis workers are module workers (see core/engine/execution)
+  worker: {
+    format: "es",
+  },
 })
\ No newline at end of file